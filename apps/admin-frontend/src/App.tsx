@@ -14,6 +14,8 @@ import DashboardPage from './pages/DashboardPage';
 import UsersPage from './pages/UsersPage';
 import SubscriptionsPage from './pages/SubscriptionsPage';
 import SourcesPage from './pages/SourcesPage';
+import RetrievalPlaygroundPage from './pages/RetrievalPlaygroundPage';
+import FeedbackReviewPage from './pages/FeedbackReviewPage';
 import TokenUsagePage from './pages/TokenUsagePage';
 import SettingsPage from './pages/SettingsPage';
 
@@ -48,6 +50,8 @@ function App() {
           <Route path="users" element={<UsersPage />} />
           <Route path="subscriptions" element={<SubscriptionsPage />} />
           <Route path="sources" element={<SourcesPage />} />
+          <Route path="retrieval" element={<RetrievalPlaygroundPage />} />
+          <Route path="feedback" element={<FeedbackReviewPage />} />
           <Route path="usage" element={<TokenUsagePage />} />
           <Route path="settings" element={<SettingsPage />} />
         </Route>
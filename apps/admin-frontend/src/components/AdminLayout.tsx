@@ -11,6 +11,8 @@ import {
   LogOut,
   Settings,
   Zap,
+  FlaskConical,
+  ThumbsDown,
   Menu
 } from 'lucide-react';
 
@@ -24,6 +26,8 @@ const AdminLayout = () => {
     { name: 'Users', href: '/users', icon: Users },
     { name: 'Subscriptions', href: '/subscriptions', icon: CreditCard },
     { name: 'RAG Sources', href: '/sources', icon: Database },
+    { name: 'Retrieval Playground', href: '/retrieval', icon: FlaskConical },
+    { name: 'Answer Feedback', href: '/feedback', icon: ThumbsDown },
     { name: 'Token Usage', href: '/usage', icon: Zap },
     { name: 'Settings', href: '/settings', icon: Settings },
   ];
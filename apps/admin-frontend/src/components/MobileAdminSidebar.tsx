@@ -9,6 +9,8 @@ import {
   Database,
   LogOut,
   Zap,
+  FlaskConical,
+  ThumbsDown,
   X
 } from 'lucide-react';
 
@@ -29,6 +31,8 @@ export const MobileAdminSidebar: React.FC<MobileAdminSidebarProps> = ({
     { name: 'Usuários', href: '/users', icon: Users },
     { name: 'Assinaturas', href: '/subscriptions', icon: CreditCard },
     { name: 'Fontes RAG', href: '/sources', icon: Database },
+    { name: 'Playground RAG', href: '/retrieval', icon: FlaskConical },
+    { name: 'Avaliações', href: '/feedback', icon: ThumbsDown },
     { name: 'Uso de Tokens', href: '/usage', icon: Zap },
   ];
 
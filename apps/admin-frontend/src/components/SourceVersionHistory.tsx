@@ -0,0 +1,242 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { adminApiService } from '@/lib/admin-api';
+import { formatDate } from '@/lib/utils';
+import type { SourceVersionSummary, SourceVersionDiff } from '@shared/types';
+import { History, GitCompare, RotateCcw } from 'lucide-react';
+
+// Unchanged stretches longer than this are collapsed in the diff view
+const UNCHANGED_CONTEXT_LINES = 3;
+
+interface SourceVersionHistoryProps {
+  sourceId: string;
+  // Changes whenever the source is edited, so the history reloads
+  refreshKey?: string;
+  onRestored: () => void;
+}
+
+const describeChange = (version: SourceVersionSummary) => {
+  switch (version.changeType) {
+    case 'created':
+      return 'Created';
+    case 'restored':
+      return `Restored from v${version.restoredFromVersion}`;
+    default:
+      return 'Edited';
+  }
+};
+
+const DiffBlock = ({ change }: { change: SourceVersionDiff['changes'][number] }) => {
+  const lines = change.value.replace(/\n$/, '').split('\n');
+
+  if (change.type === 'added') {
+    return <div className="bg-green-50 text-green-800">{lines.map((line, i) => <div key={i}>+ {line}</div>)}</div>;
+  }
+
+  if (change.type === 'removed') {
+    return <div className="bg-red-50 text-red-800 line-through decoration-red-300">{lines.map((line, i) => <div key={i}>- {line}</div>)}</div>;
+  }
+
+  if (lines.length <= UNCHANGED_CONTEXT_LINES * 2) {
+    return <div className="text-gray-500">{lines.map((line, i) => <div key={i}>  {line}</div>)}</div>;
+  }
+
+  return (
+    <div className="text-gray-500">
+      {lines.slice(0, UNCHANGED_CONTEXT_LINES).map((line, i) => <div key={`head-${i}`}>  {line}</div>)}
+      <div className="text-gray-400 italic py-1">
+        … {lines.length - UNCHANGED_CONTEXT_LINES * 2} unchanged lines …
+      </div>
+      {lines.slice(-UNCHANGED_CONTEXT_LINES).map((line, i) => <div key={`tail-${i}`}>  {line}</div>)}
+    </div>
+  );
+};
+
+const SourceVersionHistory = ({ sourceId, refreshKey, onRestored }: SourceVersionHistoryProps) => {
+  const [versions, setVersions] = useState<SourceVersionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [fromVersion, setFromVersion] = useState('');
+  const [toVersion, setToVersion] = useState('');
+  const [diff, setDiff] = useState<SourceVersionDiff | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadVersions();
+  }, [sourceId, refreshKey]);
+
+  const loadVersions = async () => {
+    setIsLoading(true);
+    try {
+      const data: SourceVersionSummary[] = await adminApiService.getSourceVersions(sourceId);
+      setVersions(data);
+      setDiff(null);
+      // Default to comparing the two most recent versions
+      setToVersion(data[0] ? String(data[0].version) : '');
+      setFromVersion(data[1] ? String(data[1].version) : '');
+    } catch (error: any) {
+      toast({
+        title: "Failed to load version history",
+        description: error.response?.data?.error || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCompare = async () => {
+    if (!fromVersion || !toVersion) return;
+
+    setIsComparing(true);
+    try {
+      const data = await adminApiService.diffSourceVersions(sourceId, Number(fromVersion), Number(toVersion));
+      setDiff(data);
+    } catch (error: any) {
+      toast({
+        title: "Failed to compare versions",
+        description: error.response?.data?.error || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const handleRestore = async (version: number) => {
+    if (!confirm(`Restore version ${version}? The current content is kept in the history and the source will be re-chunked.`)) {
+      return;
+    }
+
+    try {
+      await adminApiService.restoreSourceVersion(sourceId, version);
+      toast({
+        title: "Version restored",
+        description: `Source restored to version ${version} and queued for re-chunking`,
+      });
+      onRestored();
+    } catch (error: any) {
+      toast({
+        title: "Failed to restore version",
+        description: error.response?.data?.error || "Something went wrong",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const latestVersion = versions[0]?.version;
+
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide mb-3 flex items-center">
+        <History className="w-4 h-4 mr-2" />
+        Version History ({versions.length})
+      </h4>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-primary"></div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="bg-gray-50 rounded-lg border border-gray-200 divide-y divide-gray-200 max-h-56 overflow-y-auto">
+            {versions.map((version) => (
+              <div key={version.id} className="flex items-center justify-between p-3 text-sm">
+                <div className="flex items-center space-x-3">
+                  <span className="font-mono font-semibold text-blue-600">v{version.version}</span>
+                  <div>
+                    <div className="font-medium">
+                      {describeChange(version)}
+                      {version.title && <span className="text-gray-500 font-normal"> · {version.title}</span>}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {version.changedBy?.email || 'System'} · {formatDate(version.createdAt)} · {version.textLength.toLocaleString()} characters
+                    </div>
+                  </div>
+                </div>
+                {version.version !== latestVersion && (
+                  <Button variant="outline" size="sm" onClick={() => handleRestore(version.version)}>
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {versions.length > 1 && (
+            <div className="flex items-center space-x-2">
+              <Select value={fromVersion} onValueChange={setFromVersion}>
+                <SelectTrigger className="w-32">
+                  <SelectValue placeholder="From" />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((version) => (
+                    <SelectItem key={version.id} value={String(version.version)}>
+                      v{version.version}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-gray-500">→</span>
+              <Select value={toVersion} onValueChange={setToVersion}>
+                <SelectTrigger className="w-32">
+                  <SelectValue placeholder="To" />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((version) => (
+                    <SelectItem key={version.id} value={String(version.version)}>
+                      v{version.version}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleCompare}
+                disabled={!fromVersion || !toVersion || fromVersion === toVersion || isComparing}
+              >
+                <GitCompare className="w-4 h-4 mr-2" />
+                {isComparing ? 'Comparing...' : 'Compare'}
+              </Button>
+            </div>
+          )}
+
+          {diff && (
+            <div className="space-y-2">
+              {(diff.titleChanged || diff.addedTags.length > 0 || diff.removedTags.length > 0) && (
+                <div className="text-sm space-y-1">
+                  {diff.titleChanged && (
+                    <div>
+                      <span className="font-medium text-gray-500">Title:</span>{' '}
+                      <span className="line-through text-red-700">{diff.from.title}</span>{' → '}
+                      <span className="text-green-700">{diff.to.title}</span>
+                    </div>
+                  )}
+                  {diff.addedTags.length > 0 && (
+                    <div className="text-green-700">Tags added: {diff.addedTags.join(', ')}</div>
+                  )}
+                  {diff.removedTags.length > 0 && (
+                    <div className="text-red-700">Tags removed: {diff.removedTags.join(', ')}</div>
+                  )}
+                </div>
+              )}
+              <div className="bg-white rounded-lg p-3 border border-gray-200 max-h-80 overflow-y-auto">
+                <pre className="text-xs whitespace-pre-wrap font-mono leading-relaxed">
+                  {diff.changes.some(change => change.type !== 'unchanged')
+                    ? diff.changes.map((change, i) => <DiffBlock key={i} change={change} />)
+                    : <span className="text-gray-500">Content is identical.</span>}
+                </pre>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SourceVersionHistory;
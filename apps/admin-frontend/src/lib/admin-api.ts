@@ -82,12 +82,23 @@ export const adminApiService = {
     return response.data;
   },
 
-  createSource: async (data: { title: string; rawText: string; tags?: string[] }) => {
+  createSource: async (data: { title: string; rawText: string; tags?: string[]; chunkingStrategy?: string }) => {
     const response = await adminApi.post('/sources', data);
     return response.data.data;
   },
 
-  updateSource: async (sourceId: string, data: { title?: string; rawText?: string; tags?: string[]; isActive?: boolean }) => {
+  uploadSource: async (file: File, data: { title?: string; tags?: string; chunkingStrategy?: string }) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (data.title) formData.append('title', data.title);
+    if (data.tags) formData.append('tags', data.tags);
+    if (data.chunkingStrategy) formData.append('chunkingStrategy', data.chunkingStrategy);
+
+    const response = await adminApi.post('/sources/upload', formData);
+    return response.data.data;
+  },
+
+  updateSource: async (sourceId: string, data: { title?: string; rawText?: string; tags?: string[]; isActive?: boolean; chunkingStrategy?: string }) => {
     const response = await adminApi.patch(`/sources/${sourceId}`, data);
     return response.data.data;
   },
@@ -101,6 +112,48 @@ export const adminApiService = {
     return response.data;
   },
 
+  reprocessSource: async (sourceId: string) => {
+    const response = await adminApi.post(`/sources/${sourceId}/reprocess`);
+    return response.data;
+  },
+
+  getSourceVersions: async (sourceId: string) => {
+    const response = await adminApi.get(`/sources/${sourceId}/versions`);
+    return response.data.data;
+  },
+
+  diffSourceVersions: async (sourceId: string, from: number, to: number) => {
+    const response = await adminApi.get(`/sources/${sourceId}/versions/diff`, {
+      params: { from, to },
+    });
+    return response.data.data;
+  },
+
+  restoreSourceVersion: async (sourceId: string, version: number) => {
+    const response = await adminApi.post(`/sources/${sourceId}/versions/${version}/restore`);
+    return response.data.data;
+  },
+
+  previewRetrieval: async (data: { query: string; limit?: number; tags?: string[] }) => {
+    const response = await adminApi.post('/rag/preview', data);
+    return response.data.data;
+  },
+
+  getFeedbackQueue: async (params: { page?: number; limit?: number; status?: 'pending' | 'reviewed' | 'all'; reason?: string } = {}) => {
+    const response = await adminApi.get('/feedback', { params });
+    return response.data;
+  },
+
+  getFeedbackStats: async () => {
+    const response = await adminApi.get('/feedback/stats');
+    return response.data.data;
+  },
+
+  setFeedbackReviewed: async (feedbackId: string, reviewed: boolean) => {
+    const response = await adminApi.patch(`/feedback/${feedbackId}`, { reviewed });
+    return response.data;
+  },
+
   getSourceStats: async () => {
     const response = await adminApi.get('/sources/stats');
     return response.data.data;
@@ -112,6 +165,21 @@ export const adminApiService = {
     return response.data.data;
   },
 
+  getEmbeddingCacheStats: async () => {
+    const response = await adminApi.get('/usage/embedding-cache');
+    return response.data.data;
+  },
+
+  startCostBackfill: async (data: { from?: string; to?: string; provider?: string; model?: string } = {}) => {
+    const response = await adminApi.post('/usage/cost-backfill', data);
+    return response.data.data;
+  },
+
+  getCostBackfillJob: async (taskId: string) => {
+    const response = await adminApi.get(`/usage/cost-backfill/${taskId}`);
+    return response.data.data;
+  },
+
   getUserTokenUsage: async (page = 1, limit = 50) => {
     const response = await adminApi.get('/usage/users', {
       params: { page, limit },
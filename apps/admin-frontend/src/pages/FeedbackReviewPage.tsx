@@ -0,0 +1,381 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { adminApiService } from '@/lib/admin-api';
+import { formatDate } from '@/lib/utils';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import type { FeedbackReason, FeedbackReviewItem, FeedbackStats } from '@shared/types';
+import {
+  ThumbsUp,
+  ThumbsDown,
+  Inbox,
+  FileText,
+  MessageSquare,
+  CheckCircle2,
+  RotateCcw,
+  ChevronDown,
+  ChevronRight,
+  ChevronLeft
+} from 'lucide-react';
+
+type QueueStatus = 'pending' | 'reviewed' | 'all';
+
+const PAGE_SIZE = 20;
+
+const REASON_LABELS: Record<FeedbackReason, string> = {
+  inaccurate: 'Inaccurate',
+  incomplete: 'Incomplete',
+  irrelevant_sources: 'Irrelevant sources',
+  not_grounded: 'Not grounded in sources',
+  unclear: 'Unclear',
+  other: 'Other',
+};
+
+const getReasonLabel = (reason: FeedbackReason | null) => (reason ? REASON_LABELS[reason] : 'No reason given');
+
+const FeedbackReviewPage = () => {
+  const [items, setItems] = useState<FeedbackReviewItem[]>([]);
+  const [stats, setStats] = useState<FeedbackStats | null>(null);
+  const [total, setTotal] = useState(0);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [status, setStatus] = useState<QueueStatus>('pending');
+  const [reason, setReason] = useState<FeedbackReason | 'all'>('all');
+  const [isLoading, setIsLoading] = useState(true);
+  // Chunks and prompts are long, so each is opened on demand
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const { toast } = useToast();
+
+  const loadQueue = async () => {
+    try {
+      setIsLoading(true);
+      const [queueResponse, statsResponse] = await Promise.all([
+        adminApiService.getFeedbackQueue({
+          page: currentPage,
+          limit: PAGE_SIZE,
+          status,
+          reason: reason === 'all' ? undefined : reason,
+        }),
+        adminApiService.getFeedbackStats(),
+      ]);
+      setItems(queueResponse.data || []);
+      setTotal(queueResponse.pagination?.total || 0);
+      setStats(statsResponse);
+    } catch (error: any) {
+      toast({
+        title: "Failed to load feedback",
+        description: error.response?.data?.error || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadQueue();
+  }, [currentPage, status, reason]);
+
+  const toggleExpanded = (key: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleSetReviewed = async (item: FeedbackReviewItem, reviewed: boolean) => {
+    try {
+      await adminApiService.setFeedbackReviewed(item.id, reviewed);
+      await loadQueue();
+      toast({
+        title: reviewed ? "Marked as reviewed" : "Returned to queue",
+        description: reviewed
+          ? "The answer left the pending queue."
+          : "The answer is pending review again.",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Failed to update feedback",
+        description: error.response?.data?.error || "Something went wrong",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const rated = stats ? stats.up + stats.down : 0;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+          <ThumbsDown className="w-6 h-6 mr-2" />
+          Answer Feedback
+        </h1>
+        <p className="text-gray-600">
+          Answers users rated down, with the question, the chunks retrieved for it and the system prompt it was generated under.
+        </p>
+      </div>
+
+      {stats && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Thumbs Up</CardTitle>
+              <ThumbsUp className="h-4 w-4 text-green-600" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-green-600">{stats.up.toLocaleString()}</div>
+              <p className="text-xs text-muted-foreground">
+                {rated > 0 ? `${Math.round((stats.up / rated) * 100)}% of ratings` : 'No ratings'} in the last {stats.days} days
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Thumbs Down</CardTitle>
+              <ThumbsDown className="h-4 w-4 text-red-600" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-red-600">{stats.down.toLocaleString()}</div>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {stats.byReason.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">In the last {stats.days} days</p>
+                ) : (
+                  stats.byReason.map((row) => (
+                    <Badge key={row.reason ?? 'none'} variant="outline" className="text-xs">
+                      {getReasonLabel(row.reason)} · {row.count}
+                    </Badge>
+                  ))
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Pending Review</CardTitle>
+              <Inbox className="h-4 w-4 text-blue-600" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-blue-600">{stats.pending.toLocaleString()}</div>
+              <p className="text-xs text-muted-foreground">Thumbs-down answers not yet reviewed</p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Card>
+        <CardContent className="pt-4 lg:pt-6">
+          <div className="flex flex-col sm:flex-row gap-3">
+            <Select
+              value={status}
+              onValueChange={(value) => {
+                setStatus(value as QueueStatus);
+                setCurrentPage(1);
+              }}
+            >
+              <SelectTrigger className="w-full sm:w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pending">Pending review</SelectItem>
+                <SelectItem value="reviewed">Reviewed</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select
+              value={reason}
+              onValueChange={(value) => {
+                setReason(value as FeedbackReason | 'all');
+                setCurrentPage(1);
+              }}
+            >
+              <SelectTrigger className="w-full sm:w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All reasons</SelectItem>
+                {(Object.keys(REASON_LABELS) as FeedbackReason[]).map((option) => (
+                  <SelectItem key={option} value={option}>{REASON_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <LoadingSpinner />
+      ) : items.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-gray-500">
+            {status === 'pending' ? 'No thumbs-down answers waiting for review.' : 'No feedback matches these filters.'}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {items.map((item) => {
+            const chunksKey = `${item.id}:chunks`;
+            const promptKey = `${item.id}:prompt`;
+
+            return (
+              <Card key={item.id}>
+                <CardHeader className="pb-3">
+                  <div className="flex flex-col lg:flex-row lg:items-start justify-between gap-3">
+                    <div className="space-y-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant="destructive">{getReasonLabel(item.reason)}</Badge>
+                        {item.reviewedAt && <Badge variant="secondary">Reviewed {formatDate(item.reviewedAt)}</Badge>}
+                        {item.answer.incomplete && <Badge variant="outline">Incomplete answer</Badge>}
+                      </div>
+                      <CardTitle className="text-base truncate">{item.threadTitle || 'Untitled thread'}</CardTitle>
+                      <p className="text-xs text-gray-500">
+                        {item.userEmail} · rated {formatDate(item.createdAt)}
+                        {item.answer.model && ` · ${item.answer.provider}/${item.answer.model}`}
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleSetReviewed(item, !item.reviewedAt)}
+                      className="flex-shrink-0"
+                    >
+                      {item.reviewedAt ? (
+                        <>
+                          <RotateCcw className="w-4 h-4 mr-2" />
+                          Reopen
+                        </>
+                      ) : (
+                        <>
+                          <CheckCircle2 className="w-4 h-4 mr-2" />
+                          Mark Reviewed
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {item.comment && (
+                    <div className="border-l-4 border-red-300 bg-red-50 px-4 py-2 text-sm text-gray-800 whitespace-pre-wrap">
+                      {item.comment}
+                    </div>
+                  )}
+
+                  <div>
+                    <div className="text-xs font-semibold uppercase text-gray-500 mb-1 flex items-center">
+                      <MessageSquare className="w-3.5 h-3.5 mr-1" />
+                      Question
+                    </div>
+                    <p className="text-sm text-gray-800 whitespace-pre-wrap">
+                      {item.question ?? <span className="text-gray-400">Question not found</span>}
+                    </p>
+                  </div>
+
+                  <div>
+                    <div className="text-xs font-semibold uppercase text-gray-500 mb-1">Answer</div>
+                    <div className="bg-gray-50 rounded-lg p-3 border border-gray-200 text-sm text-gray-800 whitespace-pre-wrap max-h-80 overflow-y-auto">
+                      {item.answer.content}
+                    </div>
+                  </div>
+
+                  <div className="border-t border-gray-100 pt-3 space-y-3">
+                    <button
+                      type="button"
+                      onClick={() => toggleExpanded(chunksKey)}
+                      className="flex items-center text-sm font-medium text-gray-700 hover:text-gray-900"
+                    >
+                      {expanded.has(chunksKey) ? <ChevronDown className="w-4 h-4 mr-1" /> : <ChevronRight className="w-4 h-4 mr-1" />}
+                      Retrieved Chunks ({item.sources.length})
+                    </button>
+                    {expanded.has(chunksKey) && (
+                      item.sources.length === 0 ? (
+                        <p className="text-sm text-gray-500 pl-5">No chunks were retrieved for this answer.</p>
+                      ) : (
+                        <div className="space-y-2 pl-5">
+                          {item.sources.map((source) => (
+                            <div key={source.chunkId} className="border border-gray-200 rounded-lg p-3">
+                              <div className="flex items-start justify-between mb-1">
+                                <div className="flex items-center space-x-2">
+                                  <span className="font-mono font-semibold text-blue-600">[{source.index}]</span>
+                                  <FileText className="w-4 h-4 text-gray-400" />
+                                  <span className="font-medium text-sm">{source.title}</span>
+                                  <span className="text-xs text-gray-500">chunk #{source.chunkIndex}</span>
+                                </div>
+                                <div className="text-xs text-gray-500 text-right font-mono">
+                                  <div>distance {source.distance.toFixed(4)}</div>
+                                  {source.score !== undefined && <div>score {source.score.toFixed(4)}</div>}
+                                  {source.rerankScore !== undefined && <div>re-rank {source.rerankScore.toFixed(2)}</div>}
+                                </div>
+                              </div>
+                              <p className="text-sm text-gray-700 whitespace-pre-wrap">{source.excerpt}</p>
+                            </div>
+                          ))}
+                        </div>
+                      )
+                    )}
+
+                    <button
+                      type="button"
+                      onClick={() => toggleExpanded(promptKey)}
+                      className="flex items-center text-sm font-medium text-gray-700 hover:text-gray-900"
+                    >
+                      {expanded.has(promptKey) ? <ChevronDown className="w-4 h-4 mr-1" /> : <ChevronRight className="w-4 h-4 mr-1" />}
+                      System Prompt
+                      {item.systemPromptChanged && (
+                        <Badge variant="outline" className="ml-2 text-xs">Changed since</Badge>
+                      )}
+                    </button>
+                    {expanded.has(promptKey) && (
+                      <pre className="ml-5 bg-gray-50 rounded-lg p-4 border border-gray-200 text-xs whitespace-pre-wrap font-mono max-h-80 overflow-y-auto">
+                        {item.systemPrompt ?? 'Not recorded for answers generated before prompts were saved'}
+                      </pre>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+
+          <div className="flex items-center justify-between">
+            <div className="text-xs lg:text-sm text-gray-600">
+              Page {currentPage} of {totalPages} · {total.toLocaleString()} answers
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCurrentPage(currentPage - 1)}
+                disabled={currentPage <= 1 || isLoading}
+                className="px-2 lg:px-3 h-8"
+              >
+                <ChevronLeft className="w-3 h-3 lg:w-4 lg:h-4 mr-0 lg:mr-1" />
+                <span className="hidden sm:inline">Previous</span>
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCurrentPage(currentPage + 1)}
+                disabled={currentPage >= totalPages || isLoading}
+                className="px-2 lg:px-3 h-8"
+              >
+                <span className="hidden sm:inline">Next</span>
+                <ChevronRight className="w-3 h-3 lg:w-4 lg:h-4 ml-0 lg:ml-1" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FeedbackReviewPage;
@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { adminApiService } from '@/lib/admin-api';
+import type { RetrievalPreview } from '@shared/types';
+import { FlaskConical, Search, FileText } from 'lucide-react';
+
+const DEFAULT_LIMIT = 5;
+
+const RetrievalPlaygroundPage = () => {
+  const [query, setQuery] = useState('');
+  const [tags, setTags] = useState('');
+  const [limit, setLimit] = useState(String(DEFAULT_LIMIT));
+  const [preview, setPreview] = useState<RetrievalPreview | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const { toast } = useToast();
+
+  const handleRun = async () => {
+    if (!query.trim()) return;
+
+    setIsRunning(true);
+    try {
+      const parsedTags = tags.split(',').map(tag => tag.trim()).filter(Boolean);
+      const data = await adminApiService.previewRetrieval({
+        query: query.trim(),
+        limit: Number(limit) || DEFAULT_LIMIT,
+        tags: parsedTags.length > 0 ? parsedTags : undefined,
+      });
+      setPreview(data);
+    } catch (error: any) {
+      toast({
+        title: "Retrieval failed",
+        description: error.response?.data?.error || "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+          <FlaskConical className="w-6 h-6 mr-2" />
+          Retrieval Playground
+        </h1>
+        <p className="text-gray-600">
+          Run a query through the same retrieval used in chat. Nothing is saved or billed.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="playground-query">Query</Label>
+            <Textarea
+              id="playground-query"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Ask something the way a user would..."
+              rows={3}
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="playground-tags">Knowledge tags (comma-separated, optional)</Label>
+              <Input
+                id="playground-tags"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="billing, onboarding"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="playground-limit">Results</Label>
+              <Input
+                id="playground-limit"
+                type="number"
+                min={1}
+                max={20}
+                value={limit}
+                onChange={(e) => setLimit(e.target.value)}
+              />
+            </div>
+          </div>
+          <Button onClick={handleRun} disabled={!query.trim() || isRunning}>
+            <Search className="w-4 h-4 mr-2" />
+            {isRunning ? 'Running...' : 'Run Retrieval'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {preview && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Ranked Chunks ({preview.chunks.length})</CardTitle>
+              <CardDescription>
+                {preview.settings.hybridEnabled
+                  ? `Hybrid search · vector weight ${preview.settings.vectorWeight} · keyword weight ${preview.settings.keywordWeight} · RRF k ${preview.settings.rrfK}`
+                  : 'Vector search only'}
+                {' · '}{preview.settings.distanceMetric} distance
+                {preview.settings.maxDistance !== null && ` ≤ ${preview.settings.maxDistance}`}
+                {' · '}{preview.settings.reranker === 'none' ? 'no re-ranker' : `${preview.settings.reranker} re-ranker`}
+                {' · '}{preview.settings.contextTokenBudget} token context budget
+                {' · '}{preview.embeddingTokens} query tokens
+                {preview.rerankUsage.tokensInput > 0 && ` · ${preview.rerankUsage.tokensInput + preview.rerankUsage.tokensOutput} re-ranking tokens`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {preview.chunks.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  No chunks matched this query{preview.tags.length > 0 && ' within the selected tags'}.
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {preview.chunks.map((chunk) => (
+                    <div key={chunk.chunkId} className="border border-gray-200 rounded-lg p-4">
+                      <div className="flex items-start justify-between mb-2">
+                        <div className="flex items-center space-x-2">
+                          <span className="font-mono font-semibold text-blue-600">[{chunk.index}]</span>
+                          <FileText className="w-4 h-4 text-gray-400" />
+                          <span className="font-medium">{chunk.title}</span>
+                          <span className="text-xs text-gray-500">chunk #{chunk.chunkIndex}</span>
+                        </div>
+                        <div className="text-xs text-gray-500 text-right font-mono">
+                          <div>distance {chunk.distance.toFixed(4)}</div>
+                          {chunk.score !== undefined && <div>score {chunk.score.toFixed(4)}</div>}
+                          {chunk.rerankScore !== undefined && <div>re-rank {chunk.rerankScore.toFixed(2)}</div>}
+                        </div>
+                      </div>
+                      {chunk.headingPath.length > 0 && (
+                        <div className="text-xs text-gray-500 mb-2">{chunk.headingPath.join(' › ')}</div>
+                      )}
+                      {chunk.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mb-2">
+                          {chunk.tags.map((tag) => (
+                            <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>
+                          ))}
+                        </div>
+                      )}
+                      <p className="text-sm text-gray-700 whitespace-pre-wrap">{chunk.excerpt}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Final System Prompt</CardTitle>
+              <CardDescription>Exactly what the model would receive as its system message</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <pre className="bg-gray-50 rounded-lg p-4 border border-gray-200 text-xs whitespace-pre-wrap font-mono max-h-[32rem] overflow-y-auto">
+                {preview.systemPrompt}
+              </pre>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RetrievalPlaygroundPage;
@@ -8,6 +8,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { adminApiService } from '@/lib/admin-api';
+import { Switch } from '@/components/ui/switch';
+import { FallbackModelsSchema, PlanModelsSchema } from '@shared/types';
+import { RAG_CONFIG } from '@shared/constants';
 import { Settings, Save, RefreshCw, Eye, EyeOff } from 'lucide-react';
 import { toast } from 'react-toastify';
 import LoadingSpinner from '@/components/LoadingSpinner';
@@ -23,6 +26,9 @@ interface SystemSetting {
   updatedAt: string;
 }
 
+const QUERY_REWRITE_KEY = 'rag_query_rewrite_enabled';
+const QUERY_REWRITE_DESCRIPTION = 'Rewrite follow-up messages into standalone search queries using the thread history before RAG retrieval';
+
 const SettingsPage = () => {
   const [settings, setSettings] = useState<SystemSetting[]>([]);
   const [loading, setLoading] = useState(true);
@@ -50,9 +56,11 @@ const SettingsPage = () => {
       setSaving(key);
       const updatedSetting = await adminApiService.updateSystemSetting(key, { value, type, description });
 
-      setSettings(prev => prev.map(setting =>
-        setting.key === key ? updatedSetting : setting
-      ));
+      // Saving a setting that was never stored creates it
+      setSettings(prev => prev.some(setting => setting.key === key)
+        ? prev.map(setting => setting.key === key ? updatedSetting : setting)
+        : [...prev, updatedSetting]
+      );
 
       toast.success(`${key.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())} updated successfully!`);
     } catch (error) {
@@ -158,17 +166,47 @@ const SettingsPage = () => {
   };
 
   const AISettingsEditor = () => {
-    const aiSettings = settings.filter(s => ['ai_model', 'max_tokens', 'temperature'].includes(s.key));
-
-    // Available AI models
-    const availableModels = [
-      'gpt-4o',
-      'gpt-4o-mini',
-      'gpt-4-turbo',
-      'gpt-4',
-      'gpt-3.5-turbo',
-      'gpt-3.5-turbo-16k',
+    const aiSettingKeys = [
+      'llm_provider',
+      'ai_model',
+      'max_tokens',
+      'temperature',
+      'context_window_tokens',
+      'max_input_tokens',
+      'embedding_provider',
+      'embedding_model',
     ];
+    const aiSettings = settings
+      .filter(s => aiSettingKeys.includes(s.key))
+      .sort((a, b) => aiSettingKeys.indexOf(a.key) - aiSettingKeys.indexOf(b.key));
+
+    const llmProviders = [
+      { value: 'openai', label: 'OpenAI' },
+      { value: 'anthropic', label: 'Anthropic' },
+      { value: 'openai_compatible', label: 'OpenAI-compatible (Ollama, vLLM)' },
+    ];
+
+    // Anthropic has no embeddings API
+    const embeddingProviders = llmProviders.filter(provider => provider.value !== 'anthropic');
+
+    // Available AI models per provider; OpenAI-compatible servers take any model name
+    const availableModels: Record<string, string[]> = {
+      openai: [
+        'gpt-4o',
+        'gpt-4o-mini',
+        'gpt-4-turbo',
+        'gpt-4',
+        'gpt-3.5-turbo',
+        'gpt-3.5-turbo-16k',
+      ],
+      anthropic: [
+        'claude-3-5-sonnet-latest',
+        'claude-3-5-haiku-latest',
+        'claude-3-opus-latest',
+      ],
+    };
+    const activeProvider = settings.find(s => s.key === 'llm_provider')?.value || 'openai';
+    const providerModels = availableModels[activeProvider];
 
     const handleValueChange = (key: string, value: string) => {
       // Validate max_tokens
@@ -213,14 +251,30 @@ const SettingsPage = () => {
             <div key={setting.key} className="space-y-2">
               <div className="flex items-center justify-between">
                 <Label htmlFor={setting.key}>
-                  {setting.key.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                  {setting.key.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
                 </Label>
                 <Badge variant={setting.isActive ? 'default' : 'secondary'}>
                   {setting.isActive ? 'Active' : 'Inactive'}
                 </Badge>
               </div>
               <div className="flex gap-2">
-                {setting.key === 'ai_model' ? (
+                {setting.key === 'llm_provider' || setting.key === 'embedding_provider' ? (
+                  <Select
+                    value={setting.value}
+                    onValueChange={(value) => handleValueChange(setting.key, value)}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Select provider" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(setting.key === 'llm_provider' ? llmProviders : embeddingProviders).map((provider) => (
+                        <SelectItem key={provider.value} value={provider.value}>
+                          {provider.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : setting.key === 'ai_model' && providerModels ? (
                   <Select
                     value={setting.value}
                     onValueChange={(value) => handleValueChange('ai_model', value)}
@@ -229,7 +283,7 @@ const SettingsPage = () => {
                       <SelectValue placeholder="Select AI model" />
                     </SelectTrigger>
                     <SelectContent>
-                      {availableModels.map((model) => (
+                      {providerModels.map((model) => (
                         <SelectItem key={model} value={model}>
                           {model}
                         </SelectItem>
@@ -251,7 +305,7 @@ const SettingsPage = () => {
                 ) : (
                   <Input
                     id={setting.key}
-                    type={setting.key === 'max_tokens' ? 'number' : 'text'}
+                    type={setting.type === 'number' ? 'number' : 'text'}
                     value={setting.value}
                     onChange={(e) => handleValueChange(setting.key, e.target.value)}
                     className="flex-1"
@@ -287,6 +341,100 @@ const SettingsPage = () => {
     );
   };
 
+  // JSON-valued model settings (plan routing, fallback chain), validated before saving
+  const ModelListEditor = ({
+    settingKey,
+    schema,
+    emptyValue,
+    title,
+    description,
+    invalidMessage,
+    placeholder,
+  }: {
+    settingKey: string;
+    schema: { safeParse: (value: unknown) => { success: boolean } };
+    emptyValue: string;
+    title: string;
+    description: string;
+    invalidMessage: string;
+    placeholder: string;
+  }) => {
+    const setting = settings.find(s => s.key === settingKey);
+    const [value, setValue] = useState(setting?.value || emptyValue);
+
+    useEffect(() => {
+      if (setting) {
+        setValue(setting.value);
+      }
+    }, [setting]);
+
+    const handleSave = () => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(value);
+      } catch {
+        toast.warning(`⚠️ ${title} must be valid JSON`);
+        return;
+      }
+
+      if (!schema.safeParse(parsed).success) {
+        toast.warning(`⚠️ ${invalidMessage}`);
+        return;
+      }
+
+      updateSetting(settingKey, JSON.stringify(parsed, null, 2), 'json', setting?.description ?? undefined);
+    };
+
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>{title}</CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor={settingKey}>{title}</Label>
+            {setting && (
+              <Badge variant={setting.isActive ? 'default' : 'secondary'}>
+                {setting.isActive ? 'Active' : 'Inactive'}
+              </Badge>
+            )}
+          </div>
+
+          <Textarea
+            id={settingKey}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className="h-[240px] font-mono text-sm"
+            placeholder={placeholder}
+          />
+
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setValue(setting?.value || emptyValue)}
+              disabled={value === (setting?.value || emptyValue)}
+            >
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Reset
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving === settingKey || value === setting?.value}
+            >
+              {saving === settingKey ? (
+                <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4 mr-2" />
+              )}
+              Save Changes
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
   const CommonSettingsEditor = () => {
     const commonSettings = settings.filter(s => ['free_message_limit'].includes(s.key));
 
@@ -358,6 +506,128 @@ const SettingsPage = () => {
   };
 
 
+  const RetrievalSettingsEditor = () => {
+    const queryRewriteSetting = settings.find(s => s.key === QUERY_REWRITE_KEY);
+    // Shown even before the setting is stored, since it is off by default
+    const queryRewriteEnabled = queryRewriteSetting
+      ? queryRewriteSetting.value === 'true'
+      : RAG_CONFIG.QUERY_REWRITE_ENABLED;
+    const retrievalSettings = settings.filter(s => s.key.startsWith('rag_') && s.key !== QUERY_REWRITE_KEY);
+
+    const handleValueChange = (key: string, value: string) => {
+      setSettings(prev => prev.map(s =>
+        s.key === key ? { ...s, value } : s
+      ));
+    };
+
+    const isValidNumber = (key: string, value: string) => {
+      const num = parseFloat(value);
+      // Inner-product distances are negative, so the cutoff may be too
+      return !isNaN(num) && (key === 'rag_max_distance' || num >= 0);
+    };
+
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Retrieval Settings</CardTitle>
+          <CardDescription>
+            Configure how knowledge base chunks are retrieved for AI responses
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+            <div className="space-y-1">
+              <Label htmlFor={QUERY_REWRITE_KEY}>Query Rewriting</Label>
+              <p className="text-sm text-muted-foreground">
+                Rewrite follow-up messages into standalone search queries using the thread history before retrieval.
+                Costs one extra chat model call per message.
+              </p>
+            </div>
+            <Switch
+              checked={queryRewriteEnabled}
+              disabled={saving === QUERY_REWRITE_KEY}
+              onCheckedChange={(checked) => updateSetting(
+                QUERY_REWRITE_KEY,
+                String(checked),
+                'boolean',
+                queryRewriteSetting ? undefined : QUERY_REWRITE_DESCRIPTION
+              )}
+            />
+          </div>
+          {retrievalSettings.length === 0 && (
+            <p className="text-sm text-muted-foreground">No retrieval settings configured. Defaults are in use.</p>
+          )}
+          {retrievalSettings.map((setting) => (
+            <div key={setting.key} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor={setting.key}>
+                  {setting.key.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                </Label>
+                <Badge variant={setting.isActive ? 'default' : 'secondary'}>
+                  {setting.isActive ? 'Active' : 'Inactive'}
+                </Badge>
+              </div>
+              <div className="flex gap-2">
+                {setting.type === 'boolean' ? (
+                  <Select
+                    value={setting.value}
+                    onValueChange={(value) => handleValueChange(setting.key, value)}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="true">Enabled</SelectItem>
+                      <SelectItem value="false">Disabled</SelectItem>
+                    </SelectContent>
+                  </Select>
+                ) : setting.key === 'rag_distance_metric' ? (
+                  <Select
+                    value={setting.value}
+                    onValueChange={(value) => handleValueChange(setting.key, value)}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Select distance metric" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="l2">L2 (Euclidean)</SelectItem>
+                      <SelectItem value="cosine">Cosine</SelectItem>
+                      <SelectItem value="inner_product">Inner product</SelectItem>
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    id={setting.key}
+                    type={setting.type === 'number' ? 'number' : 'text'}
+                    min={setting.type === 'number' && setting.key !== 'rag_max_distance' ? '0' : undefined}
+                    step={setting.type === 'number' ? 'any' : undefined}
+                    value={setting.value}
+                    onChange={(e) => handleValueChange(setting.key, e.target.value)}
+                    className="flex-1"
+                  />
+                )}
+                <Button
+                  size="sm"
+                  onClick={() => updateSetting(setting.key, setting.value)}
+                  disabled={saving === setting.key || (setting.type === 'number' && !isValidNumber(setting.key, setting.value))}
+                >
+                  {saving === setting.key ? (
+                    <RefreshCw className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Save className="w-4 h-4" />
+                  )}
+                </Button>
+              </div>
+              {setting.description && (
+                <p className="text-sm text-muted-foreground">{setting.description}</p>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    );
+  };
+
   if (loading) {
     return <LoadingSpinner />;
   }
@@ -384,7 +654,9 @@ const SettingsPage = () => {
         <TabsList>
           <TabsTrigger value="system-prompt">System Prompt</TabsTrigger>
           <TabsTrigger value="ai-settings">AI Settings</TabsTrigger>
+          <TabsTrigger value="model-routing">Model Routing</TabsTrigger>
           <TabsTrigger value="common-settings">Common Settings</TabsTrigger>
+          <TabsTrigger value="retrieval-settings">Retrieval</TabsTrigger>
         </TabsList>
 
         <TabsContent value="system-prompt">
@@ -395,9 +667,34 @@ const SettingsPage = () => {
           <AISettingsEditor />
         </TabsContent>
 
+        <TabsContent value="model-routing" className="space-y-6">
+          <ModelListEditor
+            settingKey="plan_models"
+            schema={PlanModelsSchema}
+            emptyValue="{}"
+            title="Plan Models"
+            description="Models each plan may chat with, keyed by plan id. The first model is the plan's default; when a plan lists more than one, its users can pick a model per thread. Plans not listed use the AI Settings model."
+            invalidMessage="Each plan needs a non-empty list of { provider, model, label? } entries"
+            placeholder={'{\n  "free": [{ "provider": "openai", "model": "gpt-4o-mini" }]\n}'}
+          />
+          <ModelListEditor
+            settingKey="llm_fallback_models"
+            schema={FallbackModelsSchema}
+            emptyValue="[]"
+            title="Fallback Models"
+            description="Tried in order when the chat model is rate limited or unavailable and its retries are exhausted, or when the conversation exceeds its context window."
+            invalidMessage="Fallback models must be a list of { provider, model } entries"
+            placeholder={'[\n  { "provider": "anthropic", "model": "claude-3-5-haiku-latest" }\n]'}
+          />
+        </TabsContent>
+
         <TabsContent value="common-settings">
           <CommonSettingsEditor />
         </TabsContent>
+
+        <TabsContent value="retrieval-settings">
+          <RetrievalSettingsEditor />
+        </TabsContent>
       </Tabs>
     </div>
   );
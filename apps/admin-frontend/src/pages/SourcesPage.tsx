@@ -17,9 +17,12 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { adminApiService } from '@/lib/admin-api';
+import SourceVersionHistory from '@/components/SourceVersionHistory';
 import { formatDate } from '@/lib/utils';
+import { SOURCE_UPLOAD_CONFIG } from '@shared/constants';
 import { 
   Database, 
   Plus, 
@@ -31,9 +34,61 @@ import {
   EyeOff,
   MoreHorizontal,
   Edit,
-  AlertCircle
+  AlertCircle,
+  CheckCircle,
+  Clock,
+  Loader2,
+  XCircle,
+  Upload
 } from 'lucide-react';
 
+// How often the list refreshes while any source is still being ingested
+const PROCESSING_POLL_INTERVAL_MS = 5000;
+
+const CHUNKING_STRATEGIES = [
+  { value: 'structure', label: 'Structure-aware (headings, lists, tables)' },
+  { value: 'sentence', label: 'Sentence-based' },
+];
+
+const isSourceInProgress = (source: any) =>
+  source.processingStatus === 'pending' || source.processingStatus === 'processing';
+
+const ProcessingStatusBadge = ({ source }: { source: any }) => {
+  switch (source.processingStatus) {
+    case 'processing':
+      return (
+        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+          <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+          Processing {source.processedChunks}/{source.chunkCount}
+        </span>
+      );
+    case 'completed':
+      return (
+        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
+          <CheckCircle className="w-3 h-3 mr-1" />
+          {source.chunkCount} chunks
+        </span>
+      );
+    case 'failed':
+      return (
+        <span
+          className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800"
+          title={source.processingError || undefined}
+        >
+          <XCircle className="w-3 h-3 mr-1" />
+          Failed {source.processedChunks}/{source.chunkCount}
+        </span>
+      );
+    default:
+      return (
+        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+          <Clock className="w-3 h-3 mr-1" />
+          Queued
+        </span>
+      );
+  }
+};
+
 const SourcesPage = () => {
   const [sources, setSources] = useState([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -44,7 +99,10 @@ const SourcesPage = () => {
   const [pageSize, setPageSize] = useState(20);
   const [totalItems, setTotalItems] = useState(0);
   const [isCreating, setIsCreating] = useState(false);
-  const [newSource, setNewSource] = useState({ title: '', rawText: '', tags: '' });
+  const [newSource, setNewSource] = useState({ title: '', rawText: '', tags: '', chunkingStrategy: 'structure' });
+  const [inputMode, setInputMode] = useState<'text' | 'file'>('text');
+  const [newSourceFile, setNewSourceFile] = useState<File | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [selectedSource, setSelectedSource] = useState(null);
   const [detailDialogOpen, setDetailDialogOpen] = useState(false);
   const { toast } = useToast();
@@ -53,13 +111,36 @@ const SourcesPage = () => {
     loadSources();
   }, [searchTerm, currentPage, pageSize]);
 
-  const loadSources = async () => {
-    setIsLoading(true);
+  const hasSourcesInProgress = sources.some(isSourceInProgress);
+
+  useEffect(() => {
+    if (!hasSourcesInProgress) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      loadSources({ silent: true });
+    }, PROCESSING_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [hasSourcesInProgress, searchTerm, currentPage, pageSize]);
+
+  const loadSources = async ({ silent = false }: { silent?: boolean } = {}) => {
+    if (!silent) {
+      setIsLoading(true);
+    }
     try {
       const response = await adminApiService.getSources(currentPage, pageSize, searchTerm);
       setSources(response.data);
       setTotalItems(response.pagination.total);
+      // Keep the detail dialog in sync with the refreshed progress
+      setSelectedSource((prev: any) =>
+        prev ? response.data.find((source: any) => source.id === prev.id) || prev : prev
+      );
     } catch (error: any) {
+      if (silent) {
+        return;
+      }
       toast({
         title: "Failed to load sources",
         description: error.response?.data?.error || "Something went wrong",
@@ -87,8 +168,33 @@ const SourcesPage = () => {
 
   const totalPages = Math.ceil(totalItems / pageSize);
 
+  const resetCreateForm = () => {
+    setNewSource({ title: '', rawText: '', tags: '', chunkingStrategy: 'structure' });
+    setNewSourceFile(null);
+    setInputMode('text');
+    setIsCreating(false);
+  };
+
   const handleCreateSource = async () => {
-    if (!newSource.title.trim() || !newSource.rawText.trim()) {
+    if (inputMode === 'file') {
+      if (!newSourceFile) {
+        toast({
+          title: "Validation error",
+          description: "Choose a file to upload",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (newSourceFile.size > SOURCE_UPLOAD_CONFIG.MAX_FILE_SIZE_BYTES) {
+        toast({
+          title: "File too large",
+          description: `Maximum size is ${SOURCE_UPLOAD_CONFIG.MAX_FILE_SIZE_BYTES / (1024 * 1024)} MB`,
+          variant: "destructive",
+        });
+        return;
+      }
+    } else if (!newSource.title.trim() || !newSource.rawText.trim()) {
       toast({
         title: "Validation error",
         description: "Title and content are required",
@@ -97,16 +203,25 @@ const SourcesPage = () => {
       return;
     }
 
+    setIsSubmitting(true);
     try {
-      const tags = newSource.tags.split(',').map(tag => tag.trim()).filter(Boolean);
-      await adminApiService.createSource({
-        title: newSource.title,
-        rawText: newSource.rawText,
-        tags,
-      });
+      if (inputMode === 'file' && newSourceFile) {
+        await adminApiService.uploadSource(newSourceFile, {
+          title: newSource.title.trim() || undefined,
+          tags: newSource.tags,
+          chunkingStrategy: newSource.chunkingStrategy,
+        });
+      } else {
+        const tags = newSource.tags.split(',').map(tag => tag.trim()).filter(Boolean);
+        await adminApiService.createSource({
+          title: newSource.title,
+          rawText: newSource.rawText,
+          tags,
+          chunkingStrategy: newSource.chunkingStrategy,
+        });
+      }
       
-      setNewSource({ title: '', rawText: '', tags: '' });
-      setIsCreating(false);
+      resetCreateForm();
       // Reset to first page to show the new source
       setCurrentPage(1);
       await loadSources();
@@ -121,6 +236,8 @@ const SourcesPage = () => {
         description: error.response?.data?.error || "Something went wrong",
         variant: "destructive",
       });
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -141,6 +258,23 @@ const SourcesPage = () => {
     }
   };
 
+  const handleChangeChunkingStrategy = async (sourceId: string, chunkingStrategy: string) => {
+    try {
+      await adminApiService.updateSource(sourceId, { chunkingStrategy });
+      await loadSources({ silent: true });
+      toast({
+        title: "Chunking strategy updated",
+        description: "The source is being re-chunked in the background",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Failed to update source",
+        description: error.response?.data?.error || "Something went wrong",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleDeleteSource = async (sourceId: string) => {
     if (!confirm('Are you sure? This will permanently delete the source and all its embeddings.')) {
       return;
@@ -162,6 +296,23 @@ const SourcesPage = () => {
     }
   };
 
+  const handleReprocessSource = async (sourceId: string) => {
+    try {
+      await adminApiService.reprocessSource(sourceId);
+      await loadSources({ silent: true });
+      toast({
+        title: "Reprocessing started",
+        description: "Only chunks that changed or are missing will be embedded again",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Failed to start reprocessing",
+        description: error.response?.data?.error || "Something went wrong",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleReprocessAll = async () => {
     if (!confirm('Reprocess all sources? This may take several minutes.')) {
       return;
@@ -169,6 +320,7 @@ const SourcesPage = () => {
 
     try {
       await adminApiService.reprocessSources();
+      await loadSources({ silent: true });
       toast({
         title: "Reprocessing started",
         description: "All sources are being reprocessed in the background",
@@ -224,25 +376,73 @@ const SourcesPage = () => {
             <CardTitle>Add New RAG Source</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
+            <div className="flex items-center space-x-2">
+              <Button
+                size="sm"
+                variant={inputMode === 'text' ? 'default' : 'outline'}
+                onClick={() => setInputMode('text')}
+              >
+                <FileText className="w-4 h-4 mr-2" />
+                Paste Text
+              </Button>
+              <Button
+                size="sm"
+                variant={inputMode === 'file' ? 'default' : 'outline'}
+                onClick={() => setInputMode('file')}
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Upload File
+              </Button>
+            </div>
             <Input
-              placeholder="Source title"
+              placeholder={inputMode === 'file' ? 'Source title (defaults to file name)' : 'Source title'}
               value={newSource.title}
               onChange={(e) => setNewSource(prev => ({ ...prev, title: e.target.value }))}
             />
-            <textarea
-              className="w-full h-32 p-3 border rounded-md resize-none"
-              placeholder="Source content (will be chunked and embedded)"
-              value={newSource.rawText}
-              onChange={(e) => setNewSource(prev => ({ ...prev, rawText: e.target.value }))}
-            />
+            {inputMode === 'file' ? (
+              <div className="space-y-1">
+                <Input
+                  type="file"
+                  accept={SOURCE_UPLOAD_CONFIG.ACCEPTED_EXTENSIONS.join(',')}
+                  onChange={(e) => setNewSourceFile(e.target.files?.[0] || null)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  PDF, DOCX, Markdown, HTML or plain text, up to {SOURCE_UPLOAD_CONFIG.MAX_FILE_SIZE_BYTES / (1024 * 1024)} MB
+                </p>
+              </div>
+            ) : (
+              <textarea
+                className="w-full h-32 p-3 border rounded-md resize-none"
+                placeholder="Source content (will be chunked and embedded)"
+                value={newSource.rawText}
+                onChange={(e) => setNewSource(prev => ({ ...prev, rawText: e.target.value }))}
+              />
+            )}
             <Input
               placeholder="Tags (comma-separated)"
               value={newSource.tags}
               onChange={(e) => setNewSource(prev => ({ ...prev, tags: e.target.value }))}
             />
+            <Select
+              value={newSource.chunkingStrategy}
+              onValueChange={(value) => setNewSource(prev => ({ ...prev, chunkingStrategy: value }))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Chunking strategy" />
+              </SelectTrigger>
+              <SelectContent>
+                {CHUNKING_STRATEGIES.map((strategy) => (
+                  <SelectItem key={strategy.value} value={strategy.value}>
+                    {strategy.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <div className="flex items-center space-x-2">
-              <Button onClick={handleCreateSource}>Create Source</Button>
-              <Button variant="outline" onClick={() => setIsCreating(false)}>
+              <Button onClick={handleCreateSource} disabled={isSubmitting}>
+                {isSubmitting ? 'Creating...' : 'Create Source'}
+              </Button>
+              <Button variant="outline" onClick={resetCreateForm} disabled={isSubmitting}>
                 Cancel
               </Button>
             </div>
@@ -289,6 +489,7 @@ const SourcesPage = () => {
                 <tr className="border-b">
                   <th className="text-left p-2">Source</th>
                   <th className="text-left p-2">Status</th>
+                  <th className="text-left p-2">Processing</th>
                   <th className="text-left p-2">Content Preview</th>
                   <th className="text-left p-2">Updated</th>
                   <th className="text-left p-2">Actions</th>
@@ -303,6 +504,9 @@ const SourcesPage = () => {
                           <FileText className="w-4 h-4 mr-2 text-blue-500" />
                           {source.title}
                         </div>
+                        {source.fileName && (
+                          <div className="text-xs text-gray-500 mt-0.5">{source.fileName}</div>
+                        )}
                         <div className="text-sm text-gray-500">
                           {source.tags?.length > 0 && (
                             <div className="flex flex-wrap gap-1 mt-1">
@@ -326,6 +530,9 @@ const SourcesPage = () => {
                         {source.isActive ? 'Active' : 'Inactive'}
                       </span>
                     </td>
+                    <td className="p-2">
+                      <ProcessingStatusBadge source={source} />
+                    </td>
                     <td className="p-2 text-sm text-gray-600 max-w-xs">
                       <div className="truncate">
                         {source.rawText.slice(0, 100)}...
@@ -374,6 +581,13 @@ const SourcesPage = () => {
                             <AlertCircle className="mr-2 h-4 w-4" />
                             View Details
                           </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => handleReprocessSource(source.id)}
+                            disabled={isSourceInProgress(source)}
+                          >
+                            <RefreshCw className="mr-2 h-4 w-4" />
+                            {source.processingStatus === 'failed' ? 'Retry Processing' : 'Reprocess'}
+                          </DropdownMenuItem>
                           <DropdownMenuItem
                             onClick={() => handleDeleteSource(source.id)}
                             className="text-red-600 focus:text-red-600"
@@ -456,6 +670,16 @@ const SourcesPage = () => {
                         <span className="text-sm font-medium text-gray-500">Content Length:</span>
                         <p className="text-base mt-1">{selectedSource.rawText?.length?.toLocaleString() || 0} characters</p>
                       </div>
+                      {selectedSource.fileName && (
+                        <div>
+                          <span className="text-sm font-medium text-gray-500">Original File:</span>
+                          <p className="text-base mt-1">{selectedSource.fileName}</p>
+                          <p className="text-xs text-gray-500">
+                            {selectedSource.mimeType}
+                            {selectedSource.fileSize != null && ` · ${(selectedSource.fileSize / 1024).toFixed(1)} KB`}
+                          </p>
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -483,6 +707,71 @@ const SourcesPage = () => {
                 </div>
               </div>
 
+              {/* Ingestion */}
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">Ingestion</h4>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleReprocessSource(selectedSource.id)}
+                    disabled={isSourceInProgress(selectedSource)}
+                  >
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                    {selectedSource.processingStatus === 'failed' ? 'Retry Processing' : 'Reprocess'}
+                  </Button>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-4 space-y-3">
+                  <div>
+                    <span className="text-sm font-medium text-gray-500">Chunking Strategy:</span>
+                    <div className="mt-1 max-w-sm">
+                      <Select
+                        value={selectedSource.chunkingStrategy}
+                        onValueChange={(value) => handleChangeChunkingStrategy(selectedSource.id, value)}
+                      >
+                        <SelectTrigger disabled={isSourceInProgress(selectedSource)}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CHUNKING_STRATEGIES.map((strategy) => (
+                            <SelectItem key={strategy.value} value={strategy.value}>
+                              {strategy.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <ProcessingStatusBadge source={selectedSource} />
+                    <span className="text-sm text-gray-500">
+                      {selectedSource.processedChunks}/{selectedSource.chunkCount} chunks processed
+                    </span>
+                  </div>
+                  {selectedSource.chunkCount > 0 && (
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div
+                        className={`h-2 rounded-full ${
+                          selectedSource.processingStatus === 'failed' ? 'bg-red-500' : 'bg-blue-500'
+                        }`}
+                        style={{ width: `${Math.round((selectedSource.processedChunks / selectedSource.chunkCount) * 100)}%` }}
+                      />
+                    </div>
+                  )}
+                  {selectedSource.processingError && (
+                    <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-2">
+                      {selectedSource.processingError}
+                    </div>
+                  )}
+                  {selectedSource.processedAt && (
+                    <div>
+                      <span className="text-sm font-medium text-gray-500">Last Processed:</span>
+                      <p className="text-base mt-1">{formatDate(selectedSource.processedAt)}</p>
+                    </div>
+                  )}
+                </div>
+              </div>
+
               {/* Tags Section */}
               {selectedSource.tags && selectedSource.tags.length > 0 && (
                 <div>
@@ -524,6 +813,13 @@ const SourcesPage = () => {
                 </div>
               </div>
 
+              {/* Version History */}
+              <SourceVersionHistory
+                sourceId={selectedSource.id}
+                refreshKey={selectedSource.updatedAt}
+                onRestored={() => loadSources({ silent: true })}
+              />
+
               {/* Statistics */}
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4 pt-4 border-t border-gray-200">
                 <div className="text-center p-4 bg-blue-50 rounded-lg">
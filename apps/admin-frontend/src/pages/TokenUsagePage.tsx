@@ -6,6 +6,7 @@ import { useToast } from '@/hooks/use-toast';
 import { adminApiService } from '@/lib/admin-api';
 import { formatCurrency } from '@/lib/utils';
 import LoadingSpinner from '@/components/LoadingSpinner';
+import type { EmbeddingCacheStats, CostBackfillJob } from '@shared/types';
 import { 
   Zap, 
   MessageSquare, 
@@ -22,7 +23,9 @@ import {
   Clock,
   CalendarDays,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  HardDrive,
+  RefreshCw
 } from 'lucide-react';
 
 const TokenUsagePage = () => {
@@ -46,6 +49,9 @@ const TokenUsagePage = () => {
     period: '',
   });
   
+  const [cacheStats, setCacheStats] = useState<EmbeddingCacheStats | null>(null);
+  const [backfillJob, setBackfillJob] = useState<CostBackfillJob | null>(null);
+  
   const [timeframe, setTimeframe] = useState<'total' | 'month' | 'day'>('total');
   const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
   const [loading, setLoading] = useState(true);
@@ -62,12 +68,14 @@ const TokenUsagePage = () => {
       const startDate = timeframe === 'total' ? undefined : selectedDate;
       const endDate = timeframe === 'total' ? undefined : selectedDate;
       
-      const [statsResponse, usersResponse] = await Promise.all([
+      const [statsResponse, usersResponse, cacheResponse] = await Promise.all([
         adminApiService.getTokenUsageByTimeframe(timeframe, startDate, endDate),
-        adminApiService.getUserTokenUsageByTimeframe(timeframe, userUsageData.page, userUsageData.limit, startDate, endDate)
+        adminApiService.getUserTokenUsageByTimeframe(timeframe, userUsageData.page, userUsageData.limit, startDate, endDate),
+        adminApiService.getEmbeddingCacheStats()
       ]);
       
       setOverallStats(statsResponse);
+      setCacheStats(cacheResponse);
       
       setUserUsageData(prev => ({
         ...prev,
@@ -87,6 +95,56 @@ const TokenUsagePage = () => {
     }
   };
 
+  const isBackfillRunning = backfillJob?.status === 'pending' || backfillJob?.status === 'processing';
+
+  // Poll the backfill job until the queue worker finishes it
+  useEffect(() => {
+    if (!backfillJob || !isBackfillRunning) return;
+
+    const timeout = setTimeout(async () => {
+      try {
+        const job = await adminApiService.getCostBackfillJob(backfillJob.id);
+        setBackfillJob(job);
+
+        if (job.status === 'completed') {
+          toast({
+            title: "Costs recalculated",
+            description: `${job.result?.updated ?? 0} of ${job.result?.processed ?? 0} messages repriced`,
+          });
+          loadTokenUsageData();
+        } else if (job.status === 'failed') {
+          toast({
+            title: "Cost recalculation failed",
+            description: job.errorMessage || "Something went wrong",
+            variant: "destructive",
+          });
+        }
+      } catch (error: any) {
+        toast({
+          title: "Failed to check cost recalculation",
+          description: error.response?.data?.error || "Something went wrong",
+          variant: "destructive",
+        });
+        setBackfillJob(null);
+      }
+    }, 3000);
+
+    return () => clearTimeout(timeout);
+  }, [backfillJob]);
+
+  const handleStartBackfill = async () => {
+    try {
+      const job = await adminApiService.startCostBackfill();
+      setBackfillJob(job);
+    } catch (error: any) {
+      toast({
+        title: "Failed to start cost recalculation",
+        description: error.response?.data?.error || "Something went wrong",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handlePageChange = (newPage: number) => {
     setUserUsageData(prev => ({ ...prev, page: newPage }));
   };
@@ -286,6 +344,108 @@ const TokenUsagePage = () => {
 
       </div>
 
+      {/* Embedding Cache */}
+      {cacheStats && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <div>
+              <CardTitle className="text-sm font-medium">Embedding Cache</CardTitle>
+              <p className="text-xs text-muted-foreground">
+                All time · repeated queries and re-ingested chunks served without calling the embedding API
+              </p>
+            </div>
+            <HardDrive className="h-4 w-4 text-cyan-600" />
+          </CardHeader>
+          <CardContent>
+            {cacheStats.available ? (
+              <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+                <div>
+                  <div className="text-2xl font-bold text-cyan-600">
+                    {(cacheStats.hitRate * 100).toFixed(1)}%
+                  </div>
+                  <p className="text-xs text-muted-foreground">Hit rate</p>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold">
+                    {cacheStats.hits.toLocaleString()} / {(cacheStats.hits + cacheStats.misses).toLocaleString()}
+                  </div>
+                  <p className="text-xs text-muted-foreground">Hits / lookups</p>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-orange-600">
+                    {cacheStats.tokensSaved.toLocaleString()}
+                  </div>
+                  <p className="text-xs text-muted-foreground">Embedding tokens saved</p>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-green-600">
+                    {formatCurrency(cacheStats.costSaved)}
+                  </div>
+                  <p className="text-xs text-muted-foreground">Estimated savings</p>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Redis is unavailable, so embeddings are currently requested without caching.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Cost Recalculation */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <div>
+            <CardTitle className="text-sm font-medium">Cost Recalculation</CardTitle>
+            <p className="text-xs text-muted-foreground">
+              Reprice every stored message with the model pricing that was valid when it was sent
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleStartBackfill}
+            disabled={isBackfillRunning}
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${isBackfillRunning ? 'animate-spin' : ''}`} />
+            {isBackfillRunning ? 'Recalculating...' : 'Recalculate Costs'}
+          </Button>
+        </CardHeader>
+        {backfillJob && (
+          <CardContent>
+            {backfillJob.status === 'completed' && backfillJob.result ? (
+              <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+                <div>
+                  <div className="text-2xl font-bold">{backfillJob.result.processed.toLocaleString()}</div>
+                  <p className="text-xs text-muted-foreground">Messages checked</p>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-blue-600">{backfillJob.result.updated.toLocaleString()}</div>
+                  <p className="text-xs text-muted-foreground">Messages repriced</p>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-orange-600">{backfillJob.result.unpriced.toLocaleString()}</div>
+                  <p className="text-xs text-muted-foreground">Without pricing for their model</p>
+                </div>
+                <div>
+                  <div className={`text-2xl font-bold ${backfillJob.result.costDelta > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {backfillJob.result.costDelta > 0 ? '+' : ''}{formatCurrency(backfillJob.result.costDelta)}
+                  </div>
+                  <p className="text-xs text-muted-foreground">Change in total cost</p>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {backfillJob.status === 'failed'
+                  ? `Failed: ${backfillJob.errorMessage || 'unknown error'}`
+                  : 'Queued job is running, totals refresh when it finishes.'}
+              </p>
+            )}
+          </CardContent>
+        )}
+      </Card>
+
       {/* Per-User Usage Table */}
       <Card>
         <CardHeader>
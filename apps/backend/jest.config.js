@@ -0,0 +1,11 @@
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  setupFiles: ['<rootDir>/src/__tests__/setup.ts'],
+  // Tests run against the shared sources, so they don't need the package built first
+  moduleNameMapper: {
+    '^@fluxo/shared$': '<rootDir>/../../packages/shared/src',
+  },
+};
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "chat_messages" ADD COLUMN "sources" JSON;
\ No newline at end of file
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "source_chunks" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (to_tsvector('portuguese', "text")) STORED;
+
+-- CreateIndex
+CREATE INDEX "source_chunks_search_vector_idx" ON "source_chunks" USING GIN ("search_vector");
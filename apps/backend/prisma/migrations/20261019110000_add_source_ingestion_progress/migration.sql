@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "sources" ADD COLUMN "processing_status" TEXT NOT NULL DEFAULT 'pending',
+ADD COLUMN "chunk_count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "processed_chunks" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "processing_error" TEXT,
+ADD COLUMN "processed_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "source_chunks" ADD COLUMN "content_hash" TEXT;
+
+-- CreateIndex
+CREATE INDEX "source_chunks_source_id_content_hash_idx" ON "source_chunks"("source_id", "content_hash");
+
+-- Sources that already have chunks were ingested before progress tracking existed
+UPDATE "sources" s
+SET "processing_status" = 'completed',
+    "chunk_count" = c.total,
+    "processed_chunks" = c.total,
+    "processed_at" = CURRENT_TIMESTAMP
+FROM (
+    SELECT "source_id", COUNT(*)::INTEGER AS total
+    FROM "source_chunks"
+    GROUP BY "source_id"
+) c
+WHERE s."id" = c."source_id";
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "sources" ADD COLUMN "file_name" TEXT,
+ADD COLUMN "mime_type" TEXT,
+ADD COLUMN "file_size" INTEGER;
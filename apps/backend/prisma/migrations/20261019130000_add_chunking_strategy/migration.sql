@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "sources" ADD COLUMN "chunking_strategy" TEXT NOT NULL DEFAULT 'sentence';
+
+-- AlterTable
+ALTER TABLE "source_chunks" ADD COLUMN "metadata" JSON;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "chat_threads" ADD COLUMN "knowledge_tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateIndex
+CREATE INDEX "sources_tags_idx" ON "sources" USING GIN ("tags");
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "source_versions" (
+    "id" UUID NOT NULL,
+    "source_id" UUID NOT NULL,
+    "version" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "raw_text" TEXT NOT NULL,
+    "tags" TEXT[],
+    "change_type" TEXT NOT NULL,
+    "restored_from_version" INTEGER,
+    "changed_by_id" UUID,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "source_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "source_versions_source_id_version_key" ON "source_versions"("source_id", "version");
+
+-- AddForeignKey
+ALTER TABLE "source_versions" ADD CONSTRAINT "source_versions_source_id_fkey" FOREIGN KEY ("source_id") REFERENCES "sources"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "source_versions" ADD CONSTRAINT "source_versions_changed_by_id_fkey" FOREIGN KEY ("changed_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Existing sources start their history with their current content
+INSERT INTO "source_versions" ("id", "source_id", "version", "title", "raw_text", "tags", "change_type", "created_at")
+SELECT gen_random_uuid(), "id", 1, "title", "raw_text", "tags", 'created', "updated_at"
+FROM "sources";
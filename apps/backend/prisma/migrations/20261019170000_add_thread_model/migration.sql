@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "chat_threads" ADD COLUMN "provider" TEXT,
+ADD COLUMN "model" TEXT;
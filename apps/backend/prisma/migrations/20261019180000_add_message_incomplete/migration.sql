@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "chat_messages" ADD COLUMN "incomplete" BOOLEAN NOT NULL DEFAULT false;
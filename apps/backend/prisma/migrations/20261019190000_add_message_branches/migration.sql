@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "chat_messages" ADD COLUMN "parent_id" UUID;
+
+-- AlterTable
+ALTER TABLE "chat_threads" ADD COLUMN "active_message_id" UUID;
+
+-- CreateIndex
+CREATE INDEX "chat_messages_parent_id_idx" ON "chat_messages"("parent_id");
+
+-- AddForeignKey
+ALTER TABLE "chat_messages" ADD CONSTRAINT "chat_messages_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "chat_messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing conversations are linear: each message follows the one before it
+UPDATE "chat_messages" AS m
+SET "parent_id" = ordered."previous_id"
+FROM (
+  SELECT "id", LAG("id") OVER (PARTITION BY "thread_id" ORDER BY "created_at", "id") AS "previous_id"
+  FROM "chat_messages"
+) AS ordered
+WHERE m."id" = ordered."id";
+
+UPDATE "chat_threads" AS t
+SET "active_message_id" = (
+  SELECT "id" FROM "chat_messages"
+  WHERE "thread_id" = t."id"
+  ORDER BY "created_at" DESC, "id" DESC
+  LIMIT 1
+);
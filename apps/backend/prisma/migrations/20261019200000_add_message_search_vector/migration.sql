@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "chat_messages" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (to_tsvector('portuguese', "content")) STORED;
+
+-- CreateIndex
+CREATE INDEX "chat_messages_search_vector_idx" ON "chat_messages" USING GIN ("search_vector");
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "data_exports" (
+    "id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "archive" BYTEA,
+    "size_bytes" INTEGER,
+    "error_message" TEXT,
+    "expires_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "data_exports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "data_exports_user_id_created_at_idx" ON "data_exports"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "data_exports_expires_at_idx" ON "data_exports"("expires_at");
+
+-- AddForeignKey
+ALTER TABLE "data_exports" ADD CONSTRAINT "data_exports_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
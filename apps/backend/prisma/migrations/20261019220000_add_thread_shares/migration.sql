@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "thread_shares" (
+    "id" UUID NOT NULL,
+    "thread_id" UUID NOT NULL,
+    "token" TEXT NOT NULL,
+    "includes_protected" BOOLEAN NOT NULL DEFAULT false,
+    "active_message_id" UUID,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revoked_at" TIMESTAMP(3),
+
+    CONSTRAINT "thread_shares_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "thread_shares_token_key" ON "thread_shares"("token");
+
+-- CreateIndex
+CREATE INDEX "thread_shares_thread_id_idx" ON "thread_shares"("thread_id");
+
+-- AddForeignKey
+ALTER TABLE "thread_shares" ADD CONSTRAINT "thread_shares_thread_id_fkey" FOREIGN KEY ("thread_id") REFERENCES "chat_threads"("id") ON DELETE CASCADE ON UPDATE CASCADE;
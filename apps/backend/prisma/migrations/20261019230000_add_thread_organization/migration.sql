@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "chat_threads" ADD COLUMN     "folder_id" UUID,
+ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "pinned_at" TIMESTAMP(3),
+ADD COLUMN     "archived_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "chat_folders" (
+    "id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "chat_folders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chat_folders_user_id_name_key" ON "chat_folders"("user_id", "name");
+
+-- CreateIndex
+CREATE INDEX "chat_threads_folder_id_idx" ON "chat_threads"("folder_id");
+
+-- AddForeignKey
+ALTER TABLE "chat_folders" ADD CONSTRAINT "chat_folders_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chat_threads" ADD CONSTRAINT "chat_threads_folder_id_fkey" FOREIGN KEY ("folder_id") REFERENCES "chat_folders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
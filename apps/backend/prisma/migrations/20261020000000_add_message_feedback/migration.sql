@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "message_feedback" (
+    "id" UUID NOT NULL,
+    "message_id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "rating" TEXT NOT NULL,
+    "reason" TEXT,
+    "comment" TEXT,
+    "reviewed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "message_feedback_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "system_prompts" (
+    "id" UUID NOT NULL,
+    "hash" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "system_prompts_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "chat_messages" ADD COLUMN "system_prompt_id" UUID;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "system_prompts_hash_key" ON "system_prompts"("hash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_feedback_message_id_key" ON "message_feedback"("message_id");
+
+-- CreateIndex
+CREATE INDEX "message_feedback_user_id_idx" ON "message_feedback"("user_id");
+
+-- CreateIndex
+CREATE INDEX "message_feedback_rating_reviewed_at_idx" ON "message_feedback"("rating", "reviewed_at");
+
+-- CreateIndex
+CREATE INDEX "message_feedback_created_at_idx" ON "message_feedback"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "message_feedback" ADD CONSTRAINT "message_feedback_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "chat_messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_feedback" ADD CONSTRAINT "message_feedback_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chat_messages" ADD CONSTRAINT "chat_messages_system_prompt_id_fkey" FOREIGN KEY ("system_prompt_id") REFERENCES "system_prompts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
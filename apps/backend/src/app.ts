@@ -15,6 +15,7 @@ import authRoutes from './routes/auth';
 import chatRoutes from './routes/chat';
 import billingRoutes from './routes/billing';
 import adminRoutes from './routes/admin';
+import shareRoutes from './routes/share';
 
 const app = express();
 
@@ -27,6 +28,8 @@ app.use(cors({
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+  // Lets the frontend name downloaded exports
+  exposedHeaders: ['Content-Disposition'],
 }));
 
 // Rate limiting
@@ -69,6 +72,7 @@ app.use('/auth', authRoutes);
 app.use('/chat', chatRoutes);
 app.use('/billing', billingRoutes);
 app.use('/admin', adminRoutes);
+app.use('/share', shareRoutes);
 
 // Error handling
 app.use(notFoundHandler);
@@ -0,0 +1,28 @@
+// Every model method is a jest.fn created on first use, e.g. prisma.chatThread.findFirst;
+// tests set what each call resolves to
+const models = new Map<string, Record<string, jest.Mock>>();
+
+const model = (name: string) => {
+  if (!models.has(name)) {
+    models.set(name, new Proxy({} as Record<string, jest.Mock>, {
+      get: (methods, method: string) => (methods[method] ??= jest.fn()),
+    }));
+  }
+  return models.get(name)!;
+};
+
+const clientMethods: Record<string, jest.Mock> = {
+  // Interactive transactions run their callback against the same client
+  $transaction: jest.fn(async (operations: any) =>
+    typeof operations === 'function' ? operations(prisma) : Promise.all(operations)
+  ),
+};
+
+export const prisma: any = new Proxy(clientMethods, {
+  get: (methods, name) => {
+    if (typeof name !== 'string') return undefined;
+    return name.startsWith('$') ? (methods[name] ??= jest.fn()) : model(name);
+  },
+});
+
+export default prisma;
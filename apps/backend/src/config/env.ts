@@ -43,6 +43,11 @@ const envSchema = z.object({
   EMBEDDING_MODEL: z.string().default('text-embedding-small'),
   EMBEDDING_DIM: z.string().transform(Number).default('1536'),
   INFERENCE_MODEL: z.string().default('gpt-4o'),
+
+  // Other LLM providers
+  ANTHROPIC_API_KEY: z.string().optional(),
+  OPENAI_COMPATIBLE_BASE_URL: z.string().default('http://localhost:11434/v1'),
+  OPENAI_COMPATIBLE_API_KEY: z.string().optional(),
   
   // Pricing
   PRICING_JSON: z.string().transform((str, ctx) => {
@@ -0,0 +1,38 @@
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMChatRequest {
+  model: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature: number;
+  // Aborting cancels the request upstream so no further tokens are generated or billed
+  signal?: AbortSignal;
+}
+
+// Token counts are 0 when the provider doesn't report usage; callers estimate instead
+export interface LLMUsage {
+  tokensInput: number;
+  tokensOutput: number;
+}
+
+export type LLMStreamEvent =
+  | { type: 'delta'; content: string }
+  | ({ type: 'usage' } & LLMUsage);
+
+export interface LLMCompletionResult extends LLMUsage {
+  content: string;
+}
+
+export abstract class LLMProvider {
+  abstract providerName: string;
+
+  abstract streamChat(request: LLMChatRequest): AsyncIterable<LLMStreamEvent>;
+
+  abstract complete(request: LLMChatRequest): Promise<LLMCompletionResult>;
+
+  // Results are returned in the same order as the inputs
+  abstract embed(texts: string[], model: string): Promise<number[][]>;
+}
@@ -0,0 +1,23 @@
+export interface RerankCandidate {
+  id: string;
+  title: string;
+  text: string;
+  headingPath: string[];
+}
+
+export interface RerankResult {
+  // One relevance score per candidate, in input order; higher is more relevant
+  scores: number[];
+  tokensInput: number;
+  tokensOutput: number;
+  cost: number;
+  // Set by re-rankers that call a model
+  provider?: string;
+  model?: string;
+}
+
+export abstract class Reranker {
+  abstract rerankerName: string;
+
+  abstract rerank(query: string, candidates: RerankCandidate[]): Promise<RerankResult>;
+}
@@ -57,6 +57,13 @@ export const errorHandler = (
     );
   }
 
+  // Handle file upload errors (size limits, unexpected fields)
+  if (error.name === 'MulterError') {
+    return res.status(400).json(
+      createErrorResponse(error.message, 'UPLOAD_ERROR')
+    );
+  }
+
   // Handle JWT errors
   if (error.name === 'JsonWebTokenError') {
     return res.status(401).json(
@@ -0,0 +1,86 @@
+import express from 'express';
+import request from 'supertest';
+import bcrypt from 'bcryptjs';
+import chatRoutes from '../chat';
+import { errorHandler } from '../../middleware/errorHandler';
+import { prisma } from '../../config/database';
+
+jest.mock('../../middleware/auth', () => ({
+  authenticateToken: (req: any, _res: any, next: () => void) => {
+    req.userId = 'user-1';
+    next();
+  },
+}));
+jest.mock('../../services/openaiService');
+jest.mock('../../services/ragService');
+jest.mock('../../services/taskQueueService');
+jest.mock('../../services/settingsService');
+jest.mock('../../services/contextBuilderService');
+jest.mock('../../services/chatSearchService');
+jest.mock('../../services/shareService');
+jest.mock('../../services/threadOrganizationService');
+jest.mock('../../services/feedbackService');
+
+const db = prisma as any;
+
+const app = express();
+app.use(express.json());
+app.use('/chat', chatRoutes);
+app.use(errorHandler);
+
+describe('GET /chat/thread/:id/export', () => {
+  const passwordHash = bcrypt.hashSync('secret', 4);
+  const messages = [
+    { id: 'q1', parentId: null, role: 'user', content: 'Private question', createdAt: new Date('2026-01-01T12:00:00Z') },
+    { id: 'a1', parentId: 'q1', role: 'assistant', content: 'Private answer', createdAt: new Date('2026-01-01T12:01:00Z') },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.chatThread.findFirst.mockResolvedValue({
+      id: 'thread-1',
+      title: 'Medical notes',
+      passwordHash,
+      activeMessageId: 'a1',
+      createdAt: new Date('2026-01-01T12:00:00Z'),
+    });
+    db.chatMessage.findMany.mockImplementation(async ({ where }: any) =>
+      where.threadId ? messages : messages.filter(m => where.id.in.includes(m.id))
+    );
+  });
+
+  it('refuses a protected thread without its password', async () => {
+    const res = await request(app).get('/chat/thread/thread-1/export?format=md');
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('Thread is password protected');
+    expect(res.text).not.toContain('Private');
+  });
+
+  it('refuses a protected thread with a wrong password', async () => {
+    const res = await request(app).get('/chat/thread/thread-1/export?format=json&password=guess');
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('Invalid password');
+  });
+
+  it('exports a protected thread with its password', async () => {
+    const res = await request(app).get('/chat/thread/thread-1/export?format=md&password=secret');
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-disposition']).toBe('attachment; filename="medical-notes.md"');
+    expect(res.text).toContain('Private question');
+    expect(res.text).toContain('Private answer');
+  });
+
+  it('only exports the user\'s own threads', async () => {
+    db.chatThread.findFirst.mockResolvedValue(null);
+
+    const res = await request(app).get('/chat/thread/thread-1/export?format=md');
+
+    expect(res.status).toBe(404);
+    expect(db.chatThread.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'thread-1', userId: 'user-1' },
+    }));
+  });
+});
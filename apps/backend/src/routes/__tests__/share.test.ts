@@ -0,0 +1,60 @@
+import express from 'express';
+import request from 'supertest';
+import shareRoutes from '../share';
+import { errorHandler } from '../../middleware/errorHandler';
+import { prisma } from '../../config/database';
+
+jest.mock('../../services/openaiService');
+jest.mock('../../services/ragService');
+jest.mock('../../services/taskQueueService');
+jest.mock('../../services/settingsService');
+jest.mock('../../services/contextBuilderService');
+
+const db = prisma as any;
+
+const app = express();
+app.use('/share', shareRoutes);
+app.use(errorHandler);
+
+describe('GET /share/:token', () => {
+  const sharedThread = (passwordHash: string | null, includesProtected: boolean) =>
+    db.threadShare.findFirst.mockResolvedValue({
+      id: 'share-1',
+      token: 'token-1',
+      includesProtected,
+      activeMessageId: 'answer-1',
+      thread: { id: 'thread-1', title: 'Billing', passwordHash, createdAt: new Date('2026-01-01') },
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.chatMessage.findMany.mockResolvedValue([]);
+  });
+
+  it('returns 404 for a link hidden by a password added after sharing', async () => {
+    sharedThread('hash', false);
+
+    const res = await request(app).get('/share/token-1');
+
+    expect(res.status).toBe(404);
+    expect(res.body.error).toBe('Shared conversation not found');
+  });
+
+  it('returns the same 404 for an unknown or revoked link', async () => {
+    db.threadShare.findFirst.mockResolvedValue(null);
+
+    const res = await request(app).get('/share/unknown');
+
+    expect(res.status).toBe(404);
+    expect(res.body.error).toBe('Shared conversation not found');
+  });
+
+  it('returns a shared thread without signing in', async () => {
+    sharedThread(null, false);
+
+    const res = await request(app).get('/share/token-1');
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({ title: 'Billing', createdAt: '2026-01-01T00:00:00.000Z', messages: [] });
+  });
+});
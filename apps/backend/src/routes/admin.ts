@@ -1,12 +1,20 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
+import multer from 'multer';
 import { AdminService } from '../services/adminService';
 import { UnifiedBillingService } from '../services/UnifiedBillingService';
+import { FeedbackService } from '../services/feedbackService';
 import { schedulerService } from '../services/SchedulerService';
 import { authenticateToken, requireAdmin } from '../middleware/auth';
 import { 
   CreateSourceSchema,
+  UploadSourceSchema,
   UpdateSourceSchema,
+  RetrievalPreviewRequestSchema,
+  CostBackfillRequestSchema,
+  FeedbackQueueQuerySchema,
+  ReviewFeedbackSchema,
+  SOURCE_UPLOAD_CONFIG,
   createSuccessResponse,
   createPaginatedResponse,
   ValidationError 
@@ -15,6 +23,13 @@ import {
 const router = Router();
 const adminService = new AdminService();
 const billingService = new UnifiedBillingService();
+const feedbackService = new FeedbackService();
+
+// Uploaded sources are parsed in memory; only the extracted text is stored
+const sourceUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: SOURCE_UPLOAD_CONFIG.MAX_FILE_SIZE_BYTES, files: 1 },
+});
 
 // Apply authentication and admin role to all admin routes
 router.use(authenticateToken);
@@ -182,7 +197,23 @@ router.get('/sources', async (req, res, next) => {
 // @access  Admin
 router.post('/sources', validateRequest(CreateSourceSchema), async (req, res, next) => {
   try {
-    const source = await adminService.createSource(req.body);
+    const source = await adminService.createSource(req.body, req.userId);
+    res.status(201).json(createSuccessResponse(source, 'Source created successfully'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   POST /admin/sources/upload
+// @desc    Create RAG source from an uploaded PDF, DOCX, Markdown, HTML or text file
+// @access  Admin
+router.post('/sources/upload', sourceUpload.single('file'), validateRequest(UploadSourceSchema), async (req, res, next) => {
+  try {
+    if (!req.file) {
+      throw new ValidationError('File is required');
+    }
+
+    const source = await adminService.createSourceFromUpload(req.file, req.body, req.userId);
     res.status(201).json(createSuccessResponse(source, 'Source created successfully'));
   } catch (error) {
     next(error);
@@ -195,13 +226,61 @@ router.post('/sources', validateRequest(CreateSourceSchema), async (req, res, ne
 router.patch('/sources/:id', validateRequest(UpdateSourceSchema), async (req, res, next) => {
   try {
     const sourceId = req.params.id;
-    const source = await adminService.updateSource(sourceId, req.body);
+    const source = await adminService.updateSource(sourceId, req.body, req.userId);
     res.json(createSuccessResponse(source, 'Source updated successfully'));
   } catch (error) {
     next(error);
   }
 });
 
+// @route   GET /admin/sources/:id/versions
+// @desc    Get the version history of a RAG source
+// @access  Admin
+router.get('/sources/:id/versions', async (req, res, next) => {
+  try {
+    const versions = await adminService.getSourceVersions(req.params.id);
+    res.json(createSuccessResponse(versions, 'Source versions retrieved'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   GET /admin/sources/:id/versions/diff?from=1&to=2
+// @desc    Line diff between two versions of a RAG source
+// @access  Admin
+router.get('/sources/:id/versions/diff', async (req, res, next) => {
+  try {
+    const from = parseInt(req.query.from as string);
+    const to = parseInt(req.query.to as string);
+
+    if (!Number.isInteger(from) || !Number.isInteger(to)) {
+      throw new ValidationError('Both from and to versions are required');
+    }
+
+    const diff = await adminService.diffSourceVersions(req.params.id, from, to);
+    res.json(createSuccessResponse(diff, 'Source version diff retrieved'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   POST /admin/sources/:id/versions/:version/restore
+// @desc    Restore an older version of a RAG source and re-chunk it
+// @access  Admin
+router.post('/sources/:id/versions/:version/restore', async (req, res, next) => {
+  try {
+    const version = parseInt(req.params.version);
+    if (!Number.isInteger(version)) {
+      throw new ValidationError('Invalid version');
+    }
+
+    const source = await adminService.restoreSourceVersion(req.params.id, version, req.userId);
+    res.json(createSuccessResponse(source, `Source restored to version ${version}`));
+  } catch (error) {
+    next(error);
+  }
+});
+
 // @route   DELETE /admin/sources/:id
 // @desc    Delete RAG source
 // @access  Admin
@@ -220,11 +299,20 @@ router.delete('/sources/:id', async (req, res, next) => {
 // @access  Admin
 router.post('/sources/reprocess', async (req, res, next) => {
   try {
-    // Start reprocessing in background
-    setImmediate(async () => {
-      await adminService.reprocessAllSources();
-    });
-    
+    const count = await adminService.reprocessAllSources();
+    res.json(createSuccessResponse({ count }, 'Source reprocessing initiated'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   POST /admin/sources/:id/reprocess
+// @desc    Re-run ingestion for a single source (resumes from stored chunks)
+// @access  Admin
+router.post('/sources/:id/reprocess', async (req, res, next) => {
+  try {
+    const sourceId = req.params.id;
+    await adminService.reprocessSource(sourceId);
     res.json(createSuccessResponse(null, 'Source reprocessing initiated'));
   } catch (error) {
     next(error);
@@ -243,6 +331,58 @@ router.get('/sources/stats', async (req, res, next) => {
   }
 });
 
+// @route   POST /admin/rag/preview
+// @desc    Preview ranked chunks and the final system prompt for a query
+// @access  Admin
+router.post('/rag/preview', validateRequest(RetrievalPreviewRequestSchema), async (req, res, next) => {
+  try {
+    const preview = await adminService.previewRetrieval(req.body);
+    res.json(createSuccessResponse(preview, 'Retrieval preview generated'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Answer Feedback Review Routes
+
+// @route   GET /admin/feedback
+// @desc    Get thumbs-down answers with their question, retrieved chunks and system prompt
+// @access  Admin
+router.get('/feedback', async (req, res, next) => {
+  try {
+    const query = FeedbackQueueQuerySchema.parse(req.query);
+
+    const { items, total } = await feedbackService.getFeedbackQueue(query);
+    res.json(createPaginatedResponse(items, query.page, query.limit, total));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   GET /admin/feedback/stats
+// @desc    Get recent rating counts and thumbs-down reasons
+// @access  Admin
+router.get('/feedback/stats', async (req, res, next) => {
+  try {
+    const stats = await feedbackService.getFeedbackStats();
+    res.json(createSuccessResponse(stats, 'Feedback statistics retrieved'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   PATCH /admin/feedback/:id
+// @desc    Mark a rated answer as reviewed, or return it to the queue
+// @access  Admin
+router.patch('/feedback/:id', validateRequest(ReviewFeedbackSchema), async (req, res, next) => {
+  try {
+    await feedbackService.setFeedbackReviewed(req.params.id, req.body.reviewed);
+    res.json(createSuccessResponse(null, 'Feedback review status updated'));
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Token Usage Management Routes
 
 // @route   GET /admin/usage/stats
@@ -257,6 +397,42 @@ router.get('/usage/stats', async (req, res, next) => {
   }
 });
 
+// @route   GET /admin/usage/embedding-cache
+// @desc    Get embedding cache hit rate and estimated savings
+// @access  Admin
+router.get('/usage/embedding-cache', async (req, res, next) => {
+  try {
+    const stats = await adminService.getEmbeddingCacheStats();
+    res.json(createSuccessResponse(stats, 'Embedding cache statistics retrieved'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   POST /admin/usage/cost-backfill
+// @desc    Queue a job that recomputes stored message costs from historical model pricing
+// @access  Admin
+router.post('/usage/cost-backfill', validateRequest(CostBackfillRequestSchema), async (req, res, next) => {
+  try {
+    const job = await adminService.enqueueCostBackfill(CostBackfillRequestSchema.parse(req.body));
+    res.status(202).json(createSuccessResponse(job, 'Cost backfill queued'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   GET /admin/usage/cost-backfill/:taskId
+// @desc    Get the status and result of a cost backfill job
+// @access  Admin
+router.get('/usage/cost-backfill/:taskId', async (req, res, next) => {
+  try {
+    const job = await adminService.getCostBackfillJob(req.params.taskId);
+    res.json(createSuccessResponse(job, 'Cost backfill job retrieved'));
+  } catch (error) {
+    next(error);
+  }
+});
+
 // @route   GET /admin/usage/users
 // @desc    Get per-user token usage statistics
 // @access  Admin
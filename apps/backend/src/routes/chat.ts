@@ -2,13 +2,29 @@ import { Router, Request, Response, NextFunction } from 'express';
 import rateLimit from 'express-rate-limit';
 import { z } from 'zod';
 import { ChatService } from '../services/chatService';
+import { ChatSearchService } from '../services/chatSearchService';
+import { ExportService, ExportFile } from '../services/exportService';
+import { ShareService } from '../services/shareService';
+import { ThreadOrganizationService } from '../services/threadOrganizationService';
+import { FeedbackService } from '../services/feedbackService';
 import { authenticateToken } from '../middleware/auth';
 import { 
+  CreateThreadSchema,
   CreateMessageSchema,
   SetThreadPasswordSchema,
   VerifyThreadPasswordSchema,
   UpdateThreadPasswordSchema,
   DeleteThreadPasswordSchema,
+  UpdateThreadModelSchema,
+  EditMessageSchema,
+  SelectBranchSchema,
+  ChatSearchQuerySchema,
+  ThreadExportQuerySchema,
+  CreateThreadShareSchema,
+  ThreadListQuerySchema,
+  UpdateThreadOrganizationSchema,
+  ChatFolderNameSchema,
+  MessageFeedbackRequestSchema,
   createSuccessResponse,
   createPaginatedResponse,
   ValidationError,
@@ -17,6 +33,11 @@ import {
 
 const router = Router();
 const chatService = new ChatService();
+const chatSearchService = new ChatSearchService();
+const exportService = new ExportService();
+const shareService = new ShareService();
+const threadOrganizationService = new ThreadOrganizationService();
+const feedbackService = new FeedbackService();
 
 // Rate limiting for chat endpoints
 const chatLimiter = rateLimit({
@@ -47,30 +68,140 @@ const validateRequest = (schema: z.ZodSchema) => {
 // @route   POST /chat/thread
 // @desc    Create a new chat thread
 // @access  Private
-router.post('/thread', async (req, res, next) => {
+router.post('/thread', validateRequest(CreateThreadSchema), async (req, res, next) => {
   try {
     const userId = req.userId!;
-    const { title } = req.body;
+    const { title, knowledgeTags } = req.body;
 
-    const thread = await chatService.createThread(userId, title);
+    const thread = await chatService.createThread(userId, title, knowledgeTags);
     res.status(201).json(createSuccessResponse(thread, 'Thread created successfully'));
   } catch (error) {
     next(error);
   }
 });
 
+// @route   GET /chat/knowledge-tags
+// @desc    Get tags of active knowledge sources, for scoping a thread
+// @access  Private
+router.get('/knowledge-tags', async (req, res, next) => {
+  try {
+    const tags = await chatService.getKnowledgeTags();
+    res.json(createSuccessResponse(tags, 'Knowledge tags retrieved'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   GET /chat/models
+// @desc    Get the models the user's plan can chat with
+// @access  Private
+router.get('/models', async (req, res, next) => {
+  try {
+    const models = await chatService.getAvailableModels(req.userId!);
+    res.json(createSuccessResponse(models, 'Available models retrieved'));
+  } catch (error) {
+    next(error);
+  }
+});
+
 // @route   GET /chat/threads
-// @desc    Get user's chat threads
+// @desc    Get user's chat threads, pinned first; archived ones only when asked for
 // @access  Private
 router.get('/threads', async (req, res, next) => {
   try {
     const userId = req.userId!;
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 20;
+    const query = ThreadListQuerySchema.parse(req.query);
 
-    const { threads, total } = await chatService.getUserThreads(userId, page, limit);
+    const { threads, total } = await chatService.getUserThreads(userId, query);
     
-    res.json(createPaginatedResponse(threads, page, limit, total));
+    res.json(createPaginatedResponse(threads, query.page, query.limit, total));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   GET /chat/thread-tags
+// @desc    Get the personal tags the user has put on their threads
+// @access  Private
+router.get('/thread-tags', async (req, res, next) => {
+  try {
+    const userId = req.userId!;
+
+    const tags = await threadOrganizationService.getThreadTags(userId);
+    res.json(createSuccessResponse(tags, 'Thread tags retrieved successfully'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   GET /chat/folders
+// @desc    Get the user's thread folders
+// @access  Private
+router.get('/folders', async (req, res, next) => {
+  try {
+    const userId = req.userId!;
+
+    const folders = await threadOrganizationService.getFolders(userId);
+    res.json(createSuccessResponse(folders, 'Folders retrieved successfully'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   POST /chat/folders
+// @desc    Create a thread folder
+// @access  Private
+router.post('/folders', async (req, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { name } = ChatFolderNameSchema.parse(req.body);
+
+    const folder = await threadOrganizationService.createFolder(userId, name);
+    res.status(201).json(createSuccessResponse(folder, 'Folder created successfully'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   PATCH /chat/folders/:id
+// @desc    Rename a thread folder
+// @access  Private
+router.patch('/folders/:id', async (req, res, next) => {
+  try {
+    const userId = req.userId!;
+    const { name } = ChatFolderNameSchema.parse(req.body);
+
+    const folder = await threadOrganizationService.renameFolder(req.params.id, userId, name);
+    res.json(createSuccessResponse(folder, 'Folder renamed successfully'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   DELETE /chat/folders/:id
+// @desc    Delete a thread folder, leaving its threads unfiled
+// @access  Private
+router.delete('/folders/:id', async (req, res, next) => {
+  try {
+    const userId = req.userId!;
+
+    await threadOrganizationService.deleteFolder(req.params.id, userId);
+    res.json(createSuccessResponse(null, 'Folder deleted successfully'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   GET /chat/search
+// @desc    Search the user's thread titles, summaries and messages
+// @access  Private
+router.get('/search', async (req, res, next) => {
+  try {
+    const userId = req.userId!;
+    const query = ChatSearchQuerySchema.parse(req.query);
+
+    const results = await chatSearchService.search(userId, query);
+    res.json(createSuccessResponse(results, 'Search completed'));
   } catch (error) {
     next(error);
   }
@@ -114,6 +245,70 @@ router.get('/thread/:id/messages', async (req, res, next) => {
   }
 });
 
+// Sends an export as a download rather than a JSON response
+const sendExportFile = (res: Response, file: ExportFile) => {
+  res.setHeader('Content-Type', file.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+  res.send(file.body);
+};
+
+// @route   GET /chat/thread/:id/export
+// @desc    Download the thread's active branch as Markdown, JSON or PDF
+// @access  Private
+router.get('/thread/:id/export', async (req, res, next) => {
+  try {
+    const userId = req.userId!;
+    const threadId = req.params.id;
+    const { format, password } = ThreadExportQuerySchema.parse(req.query);
+
+    const file = await exportService.exportThread(threadId, userId, format, password);
+    sendExportFile(res, file);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   GET /chat/thread/:id/share
+// @desc    Get the thread's active share link, if any
+// @access  Private
+router.get('/thread/:id/share', async (req, res, next) => {
+  try {
+    const userId = req.userId!;
+    const share = await shareService.getThreadShare(req.params.id, userId);
+    res.json(createSuccessResponse(share, 'Thread share retrieved'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   POST /chat/thread/:id/share
+// @desc    Create a public read-only link to the thread
+// @access  Private
+router.post('/thread/:id/share', async (req, res, next) => {
+  try {
+    const userId = req.userId!;
+    const request = CreateThreadShareSchema.parse(req.body);
+
+    const share = await shareService.createThreadShare(req.params.id, userId, request);
+    res.json(createSuccessResponse(share, 'Thread shared successfully'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   DELETE /chat/thread/:id/share
+// @desc    Revoke the thread's share link
+// @access  Private
+router.delete('/thread/:id/share', async (req, res, next) => {
+  try {
+    const userId = req.userId!;
+    await shareService.revokeThreadShare(req.params.id, userId);
+    res.json(createSuccessResponse(null, 'Thread share revoked'));
+  } catch (error) {
+    next(error);
+  }
+});
+
 // @route   DELETE /chat/thread/:id
 // @desc    Delete a chat thread
 // @access  Private
@@ -145,6 +340,84 @@ router.patch('/thread/:id', async (req, res, next) => {
   }
 });
 
+// @route   PUT /chat/thread/:id/model
+// @desc    Pick the model used for a thread, or reset it to the plan default
+// @access  Private
+router.put('/thread/:id/model', validateRequest(UpdateThreadModelSchema), async (req, res, next) => {
+  try {
+    const userId = req.userId!;
+    const threadId = req.params.id;
+
+    const thread = await chatService.setThreadModel(threadId, userId, req.body);
+    res.json(createSuccessResponse(thread, 'Thread model updated successfully'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   PUT /chat/thread/:id/organization
+// @desc    Pin, archive, file or tag a thread
+// @access  Private
+router.put('/thread/:id/organization', async (req, res, next) => {
+  try {
+    const userId = req.userId!;
+    const threadId = req.params.id;
+    const request = UpdateThreadOrganizationSchema.parse(req.body);
+
+    const thread = await threadOrganizationService.updateThreadOrganization(threadId, userId, request);
+    res.json(createSuccessResponse(thread, 'Thread organization updated successfully'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Streams chat events as SSE. The client stopping generation or disconnecting closes the
+// response before it ends; the provider stream is then aborted and drained so the partial
+// answer is still saved.
+const streamEvents = async (res: Response, createStream: (signal: AbortSignal) => AsyncIterable<unknown>) => {
+  // Set up SSE headers
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  // CORS headers handled by nginx
+  // res.setHeader('Access-Control-Allow-Origin', '*');
+  // res.setHeader('Access-Control-Allow-Headers', 'Cache-Control');
+
+  // Send initial connection confirmation
+  res.write('data: {"type":"connected"}\n\n');
+
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      abortController.abort();
+    }
+  });
+
+  try {
+    for await (const chunk of createStream(abortController.signal)) {
+      if (!abortController.signal.aborted) {
+        res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+      }
+    }
+  } catch (streamError) {
+    // Send error through stream
+    if (!abortController.signal.aborted) {
+      res.write(`data: ${JSON.stringify({
+        type: 'error',
+        error: streamError instanceof Error ? streamError.message : 'Unknown error'
+      })}\n\n`);
+    }
+  }
+
+  if (abortController.signal.aborted) {
+    return;
+  }
+
+  // Close the stream
+  res.write('data: [DONE]\n\n');
+  res.end();
+};
+
 // @route   POST /chat/message
 // @desc    Send a message and get AI response (SSE stream)
 // @access  Private
@@ -154,43 +427,95 @@ router.post('/message',
   async (req, res, next) => {
     try {
       const userId = req.userId!;
-      
-      // Set up SSE headers
-      res.setHeader('Content-Type', 'text/event-stream');
-      res.setHeader('Cache-Control', 'no-cache');
-      res.setHeader('Connection', 'keep-alive');
-      // CORS headers handled by nginx
-      // res.setHeader('Access-Control-Allow-Origin', '*');
-      // res.setHeader('Access-Control-Allow-Headers', 'Cache-Control');
-
-      // Send initial connection confirmation
-      res.write('data: {"type":"connected"}\n\n');
-
-      try {
-        // Get password from request if provided
-        const password = req.body.password as string;
-        
-        // Stream the AI response
-        for await (const chunk of chatService.streamMessage(req.body, userId, password)) {
-          res.write(`data: ${JSON.stringify(chunk)}\n\n`);
-        }
-      } catch (streamError) {
-        // Send error through stream
-        res.write(`data: ${JSON.stringify({
-          type: 'error',
-          error: streamError instanceof Error ? streamError.message : 'Unknown error'
-        })}\n\n`);
-      }
+      // Get password from request if provided
+      const password = req.body.password as string;
 
-      // Close the stream
-      res.write('data: [DONE]\n\n');
-      res.end();
+      await streamEvents(res, signal => chatService.streamMessage(req.body, userId, password, signal));
     } catch (error) {
       next(error);
     }
   }
 );
 
+// @route   POST /chat/message/:id/regenerate
+// @desc    Answer an assistant message's question again as a new branch (SSE stream)
+// @access  Private
+router.post('/message/:id/regenerate',
+  chatLimiter,
+  async (req, res, next) => {
+    try {
+      const userId = req.userId!;
+      const password = req.body.password as string;
+
+      await streamEvents(res, signal => chatService.regenerateMessage(req.params.id, userId, password, signal));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   POST /chat/message/:id/edit
+// @desc    Resend a user message with new content as a new branch (SSE stream)
+// @access  Private
+router.post('/message/:id/edit',
+  chatLimiter,
+  validateRequest(EditMessageSchema),
+  async (req, res, next) => {
+    try {
+      const userId = req.userId!;
+      const password = req.body.password as string;
+
+      await streamEvents(res, signal => chatService.editMessage(req.params.id, req.body, userId, password, signal));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// @route   PUT /chat/message/:id/feedback
+// @desc    Rate an assistant answer, replacing any earlier rating
+// @access  Private
+router.put('/message/:id/feedback', async (req, res, next) => {
+  try {
+    const userId = req.userId!;
+    const request = MessageFeedbackRequestSchema.parse(req.body);
+
+    const feedback = await feedbackService.setMessageFeedback(req.params.id, userId, request);
+    res.json(createSuccessResponse(feedback, 'Feedback saved successfully'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   DELETE /chat/message/:id/feedback
+// @desc    Remove the rating of an assistant answer
+// @access  Private
+router.delete('/message/:id/feedback', async (req, res, next) => {
+  try {
+    const userId = req.userId!;
+
+    await feedbackService.deleteMessageFeedback(req.params.id, userId);
+    res.json(createSuccessResponse(null, 'Feedback removed successfully'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   PUT /chat/thread/:id/branch
+// @desc    Switch the thread to the branch containing a message
+// @access  Private
+router.put('/thread/:id/branch', validateRequest(SelectBranchSchema), async (req, res, next) => {
+  try {
+    const userId = req.userId!;
+    const threadId = req.params.id;
+
+    await chatService.selectBranch(threadId, userId, req.body);
+    res.json(createSuccessResponse(null, 'Branch selected successfully'));
+  } catch (error) {
+    next(error);
+  }
+});
+
 // @route   GET /chat/stats
 // @desc    Get user's chat statistics
 // @access  Private
@@ -204,6 +529,45 @@ router.get('/stats', async (req, res, next) => {
   }
 });
 
+// @route   POST /chat/export
+// @desc    Start building a ZIP of all the user's data (LGPD data portability)
+// @access  Private
+router.post('/export', async (req, res, next) => {
+  try {
+    const userId = req.userId!;
+    const job = await exportService.requestDataExport(userId);
+    res.status(202).json(createSuccessResponse(job, 'Data export started'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   GET /chat/export/:id
+// @desc    Get the status of a data export
+// @access  Private
+router.get('/export/:id', async (req, res, next) => {
+  try {
+    const userId = req.userId!;
+    const job = await exportService.getDataExport(userId, req.params.id);
+    res.json(createSuccessResponse(job, 'Data export retrieved'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @route   GET /chat/export/:id/download
+// @desc    Download a finished data export
+// @access  Private
+router.get('/export/:id/download', async (req, res, next) => {
+  try {
+    const userId = req.userId!;
+    const file = await exportService.getDataExportArchive(userId, req.params.id);
+    sendExportFile(res, file);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // @route   POST /chat/thread/:id/password
 // @desc    Set password for a thread
 // @access  Private
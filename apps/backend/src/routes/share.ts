@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { ShareService } from '../services/shareService';
+import { createSuccessResponse } from '@fluxo/shared';
+
+const router = Router();
+const shareService = new ShareService();
+
+// @route   GET /share/:token
+// @desc    Read a shared thread without its costs or token counts
+// @access  Public
+router.get('/:token', async (req, res, next) => {
+  try {
+    const thread = await shareService.getSharedThread(req.params.token);
+    res.json(createSuccessResponse(thread, 'Shared thread retrieved'));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
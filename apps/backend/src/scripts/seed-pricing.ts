@@ -56,6 +56,36 @@ async function seedModelPricing() {
         description: 'GPT-3.5 Turbo: Cost-effective model for simple tasks'
       },
 
+      // Claude 3.5 Sonnet
+      {
+        provider: 'anthropic',
+        modelName: 'claude-3-5-sonnet-latest',
+        modelType: 'inference',
+        inputPer1k: 0.003,    // $3.00 per 1M input tokens
+        outputPer1k: 0.015,   // $15.00 per 1M output tokens
+        description: 'Claude 3.5 Sonnet: High-performance Anthropic model'
+      },
+
+      // Claude 3.5 Haiku
+      {
+        provider: 'anthropic',
+        modelName: 'claude-3-5-haiku-latest',
+        modelType: 'inference',
+        inputPer1k: 0.0008,   // $0.80 per 1M input tokens
+        outputPer1k: 0.004,   // $4.00 per 1M output tokens
+        description: 'Claude 3.5 Haiku: Fast and efficient Anthropic model'
+      },
+
+      // Claude 3 Opus
+      {
+        provider: 'anthropic',
+        modelName: 'claude-3-opus-latest',
+        modelType: 'inference',
+        inputPer1k: 0.015,    // $15.00 per 1M input tokens
+        outputPer1k: 0.075,   // $75.00 per 1M output tokens
+        description: 'Claude 3 Opus: Most capable Anthropic model for complex tasks'
+      },
+
       // Text Embedding 3 Small
       {
         provider: 'openai',
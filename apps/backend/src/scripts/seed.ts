@@ -1,6 +1,7 @@
 import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcryptjs';
 import logger from '../config/logger';
+import { EMBEDDING_CONFIG } from '@fluxo/shared';
 
 const prisma = new PrismaClient();
 
@@ -214,6 +215,42 @@ Não se Apresente: Conforme a instrução original, não inicie cada mensagem co
       },
     });
 
+    await prisma.systemSettings.upsert({
+      where: { key: 'llm_provider' },
+      update: {},
+      create: {
+        key: 'llm_provider',
+        value: 'openai',
+        type: 'text',
+        description: 'Provider for chat responses and summaries: openai, anthropic or openai_compatible (Ollama, vLLM)',
+        isActive: true,
+      },
+    });
+
+    await prisma.systemSettings.upsert({
+      where: { key: 'embedding_provider' },
+      update: {},
+      create: {
+        key: 'embedding_provider',
+        value: 'openai',
+        type: 'text',
+        description: 'Provider for embeddings: openai or openai_compatible. Reprocess all sources after changing it',
+        isActive: true,
+      },
+    });
+
+    await prisma.systemSettings.upsert({
+      where: { key: 'embedding_model' },
+      update: {},
+      create: {
+        key: 'embedding_model',
+        value: process.env.EMBEDDING_MODEL || 'text-embedding-3-small',
+        type: 'text',
+        description: `Embedding model; must produce ${EMBEDDING_CONFIG.DIMENSIONS}-dimension vectors. Reprocess all sources after changing it`,
+        isActive: true,
+      },
+    });
+
     await prisma.systemSettings.upsert({
       where: { key: 'ai_model' },
       update: {},
@@ -250,6 +287,62 @@ Não se Apresente: Conforme a instrução original, não inicie cada mensagem co
       },
     });
 
+    await prisma.systemSettings.upsert({
+      where: { key: 'context_window_tokens' },
+      update: {},
+      create: {
+        key: 'context_window_tokens',
+        value: '128000',
+        type: 'number',
+        description: 'Context window of the chat model; max_tokens is reserved from it for the answer',
+        isActive: true,
+      },
+    });
+
+    await prisma.systemSettings.upsert({
+      where: { key: 'max_input_tokens' },
+      update: {},
+      create: {
+        key: 'max_input_tokens',
+        value: '12000',
+        type: 'number',
+        description: 'Maximum prompt tokens per chat request (system prompt, summary, history and retrieved context)',
+        isActive: true,
+      },
+    });
+
+    await prisma.systemSettings.upsert({
+      where: { key: 'plan_models' },
+      update: {},
+      create: {
+        key: 'plan_models',
+        value: JSON.stringify({
+          free: [
+            { provider: 'openai', model: 'gpt-4o-mini', label: 'GPT-4o mini' },
+          ],
+          pro: [
+            { provider: 'openai', model: 'gpt-4o', label: 'GPT-4o' },
+            { provider: 'openai', model: 'gpt-4o-mini', label: 'GPT-4o mini' },
+          ],
+        }, null, 2),
+        type: 'json',
+        description: 'Models each plan may chat with; the first is the default and users can pick among the rest per thread. Plans not listed use ai_model',
+        isActive: true,
+      },
+    });
+
+    await prisma.systemSettings.upsert({
+      where: { key: 'llm_fallback_models' },
+      update: {},
+      create: {
+        key: 'llm_fallback_models',
+        value: '[]',
+        type: 'json',
+        description: 'Models tried in order, as [{ "provider": "openai", "model": "gpt-4o-mini" }], when the chat model is rate limited or down and retries are exhausted',
+        isActive: true,
+      },
+    });
+
     await prisma.systemSettings.upsert({
       where: { key: 'free_message_limit' },
       update: {},
@@ -262,6 +355,126 @@ Não se Apresente: Conforme a instrução original, não inicie cada mensagem co
       },
     });
 
+    await prisma.systemSettings.upsert({
+      where: { key: 'rag_hybrid_enabled' },
+      update: {},
+      create: {
+        key: 'rag_hybrid_enabled',
+        value: 'true',
+        type: 'boolean',
+        description: 'Combine vector similarity with full-text keyword search for RAG retrieval',
+        isActive: true,
+      },
+    });
+
+    await prisma.systemSettings.upsert({
+      where: { key: 'rag_vector_weight' },
+      update: {},
+      create: {
+        key: 'rag_vector_weight',
+        value: '1',
+        type: 'number',
+        description: 'Weight of the vector similarity ranking in reciprocal rank fusion',
+        isActive: true,
+      },
+    });
+
+    await prisma.systemSettings.upsert({
+      where: { key: 'rag_keyword_weight' },
+      update: {},
+      create: {
+        key: 'rag_keyword_weight',
+        value: '1',
+        type: 'number',
+        description: 'Weight of the full-text keyword ranking in reciprocal rank fusion',
+        isActive: true,
+      },
+    });
+
+    await prisma.systemSettings.upsert({
+      where: { key: 'rag_rrf_k' },
+      update: {},
+      create: {
+        key: 'rag_rrf_k',
+        value: '60',
+        type: 'number',
+        description: 'Reciprocal rank fusion constant (higher values flatten rank differences)',
+        isActive: true,
+      },
+    });
+
+    await prisma.systemSettings.upsert({
+      where: { key: 'rag_distance_metric' },
+      update: {},
+      create: {
+        key: 'rag_distance_metric',
+        value: 'cosine',
+        type: 'text',
+        description: 'Vector distance used for RAG retrieval: l2, cosine or inner_product',
+        isActive: true,
+      },
+    });
+
+    await prisma.systemSettings.upsert({
+      where: { key: 'rag_max_distance' },
+      update: {},
+      create: {
+        key: 'rag_max_distance',
+        value: '0.7',
+        type: 'number',
+        description: 'Maximum query-to-chunk distance for RAG retrieval; farther chunks are dropped (depends on the distance metric)',
+        isActive: true,
+      },
+    });
+
+    await prisma.systemSettings.upsert({
+      where: { key: 'rag_reranker' },
+      update: {},
+      create: {
+        key: 'rag_reranker',
+        value: 'none',
+        type: 'text',
+        description: 'Re-ranker applied to retrieved chunks: none, lexical (local term overlap) or llm (scored by the chat model)',
+        isActive: true,
+      },
+    });
+
+    await prisma.systemSettings.upsert({
+      where: { key: 'rag_rerank_candidate_multiplier' },
+      update: {},
+      create: {
+        key: 'rag_rerank_candidate_multiplier',
+        value: '3',
+        type: 'number',
+        description: 'How many candidates the re-ranker sees, as a multiple of the number of chunks injected',
+        isActive: true,
+      },
+    });
+
+    await prisma.systemSettings.upsert({
+      where: { key: 'rag_context_token_budget' },
+      update: {},
+      create: {
+        key: 'rag_context_token_budget',
+        value: '3000',
+        type: 'number',
+        description: 'Maximum tokens of retrieved text injected into the system prompt',
+        isActive: true,
+      },
+    });
+
+    await prisma.systemSettings.upsert({
+      where: { key: 'rag_query_rewrite_enabled' },
+      update: {},
+      create: {
+        key: 'rag_query_rewrite_enabled',
+        value: 'false',
+        type: 'boolean',
+        description: 'Rewrite follow-up messages into standalone search queries using the thread history before RAG retrieval',
+        isActive: true,
+      },
+    });
+
     logger.info('✅ System settings created successfully');
     logger.info('🎉 Database seeding completed successfully!');
 
@@ -57,6 +57,20 @@ export class SchedulerService {
       timezone: 'America/Sao_Paulo'
     });
 
+    // Clear expired data export archives daily at 3 AM
+    cron.schedule('0 3 * * *', async () => {
+      try {
+        logger.info('Running daily cleanup of expired data exports');
+        const { ExportService } = await import('./exportService');
+        await new ExportService().cleanupExpiredDataExports();
+        logger.info('Daily data export cleanup completed');
+      } catch (error) {
+        logger.error('Daily data export cleanup failed:', error);
+      }
+    }, {
+      timezone: 'America/Sao_Paulo'
+    });
+
     this.isInitialized = true;
     logger.info('Scheduled jobs initialized successfully');
   }
@@ -0,0 +1,196 @@
+import { AdminService } from '../adminService';
+import { RAGService } from '../ragService';
+import { OpenAIService } from '../openaiService';
+import { TaskQueueService } from '../taskQueueService';
+import { prisma } from '../../config/database';
+import { NotFoundError } from '@fluxo/shared';
+
+jest.mock('../ragService');
+jest.mock('../openaiService');
+jest.mock('../embeddingCacheService');
+jest.mock('../analyticsService');
+jest.mock('../taskQueueService');
+
+const db = prisma as any;
+
+const sourceRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'source-1',
+  title: 'Manual',
+  rawText: 'Install it.',
+  tags: ['docs'],
+  isActive: true,
+  chunkingStrategy: 'sentence',
+  processingStatus: 'completed',
+  ...overrides,
+});
+
+describe('AdminService source versions', () => {
+  const service = new AdminService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.sourceVersion.findFirst.mockResolvedValue({ version: 3 });
+  });
+
+  describe('updateSource', () => {
+    it('records the edited content as the next version', async () => {
+      db.source.findUnique.mockResolvedValue({ title: 'Manual', rawText: 'Install it.', tags: ['docs'] });
+      db.source.update.mockResolvedValue(sourceRow({ rawText: 'Install it twice.' }));
+
+      await service.updateSource('source-1', { rawText: 'Install it twice.' }, 'admin-1');
+
+      expect(db.sourceVersion.create).toHaveBeenCalledWith({
+        data: {
+          sourceId: 'source-1',
+          version: 4,
+          title: 'Manual',
+          rawText: 'Install it twice.',
+          tags: ['docs'],
+          changeType: 'updated',
+          restoredFromVersion: undefined,
+          changedById: 'admin-1',
+        },
+      });
+      expect(RAGService.prototype.enqueueSourceProcessing).toHaveBeenCalledWith('source-1');
+    });
+
+    it('does not version changes that leave the content alone', async () => {
+      db.source.findUnique.mockResolvedValue({ title: 'Manual', rawText: 'Install it.', tags: ['docs'] });
+      db.source.update.mockResolvedValue(sourceRow({ isActive: false }));
+
+      await service.updateSource('source-1', { isActive: false });
+
+      expect(db.sourceVersion.create).not.toHaveBeenCalled();
+      expect(RAGService.prototype.enqueueSourceProcessing).not.toHaveBeenCalled();
+    });
+
+    it('versions a change of tags', async () => {
+      db.source.findUnique.mockResolvedValue({ title: 'Manual', rawText: 'Install it.', tags: ['docs'] });
+      db.source.update.mockResolvedValue(sourceRow({ tags: ['docs', 'setup'] }));
+
+      await service.updateSource('source-1', { tags: ['docs', 'setup'] });
+
+      expect(db.sourceVersion.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ version: 4, tags: ['docs', 'setup'] }),
+      });
+    });
+
+    it('rejects an unknown source', async () => {
+      db.source.findUnique.mockResolvedValue(null);
+
+      await expect(service.updateSource('missing', { title: 'New' })).rejects.toBeInstanceOf(NotFoundError);
+      expect(db.source.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreSourceVersion', () => {
+    it('restores the content as a new version on top of the history', async () => {
+      db.sourceVersion.findUnique.mockResolvedValue({ title: 'Old manual', rawText: 'Old text.', tags: ['old'] });
+      db.source.update.mockResolvedValue(sourceRow({ title: 'Old manual', rawText: 'Old text.', tags: ['old'] }));
+
+      const source = await service.restoreSourceVersion('source-1', 1, 'admin-1');
+
+      expect(db.source.update).toHaveBeenCalledWith({
+        where: { id: 'source-1' },
+        data: expect.objectContaining({ title: 'Old manual', rawText: 'Old text.', tags: ['old'] }),
+      });
+      expect(db.sourceVersion.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ version: 4, changeType: 'restored', restoredFromVersion: 1 }),
+      });
+      expect(RAGService.prototype.enqueueSourceProcessing).toHaveBeenCalledWith('source-1');
+      expect(source.title).toBe('Old manual');
+    });
+
+    it('rejects an unknown version', async () => {
+      db.sourceVersion.findUnique.mockResolvedValue(null);
+
+      await expect(service.restoreSourceVersion('source-1', 9)).rejects.toBeInstanceOf(NotFoundError);
+      expect(db.source.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('diffSourceVersions', () => {
+    it('compares the text line by line and lists the tag changes', async () => {
+      db.sourceVersion.findMany.mockResolvedValue([
+        { version: 1, title: 'Manual', rawText: 'Install it.\nRun it.\n', tags: ['docs', 'old'] },
+        { version: 2, title: 'Manual', rawText: 'Install it.\nRun it twice.\n', tags: ['docs', 'new'] },
+      ]);
+
+      const diff = await service.diffSourceVersions('source-1', 1, 2);
+
+      expect(diff.changes).toEqual([
+        { type: 'unchanged', value: 'Install it.\n' },
+        { type: 'removed', value: 'Run it.\n' },
+        { type: 'added', value: 'Run it twice.\n' },
+      ]);
+      expect(diff.titleChanged).toBe(false);
+      expect(diff.addedTags).toEqual(['new']);
+      expect(diff.removedTags).toEqual(['old']);
+      expect(diff.from).toEqual(expect.objectContaining({ version: 1, textLength: 20 }));
+    });
+  });
+});
+
+describe('AdminService.previewRetrieval', () => {
+  const service = new AdminService();
+
+  it('adds the system prompt chat would send with the retrieved context', async () => {
+    jest.mocked(RAGService.prototype.previewRetrieval).mockResolvedValue({ context: '[1] Manual\nInstall it.' } as any);
+    jest.mocked(OpenAIService.prototype.getContextualSystemPrompt).mockResolvedValue('Answer from the context.');
+
+    const preview = await service.previewRetrieval({ query: 'install', limit: 3, tags: ['docs'] });
+
+    expect(RAGService.prototype.previewRetrieval).toHaveBeenCalledWith('install', { limit: 3, tags: ['docs'] });
+    expect(OpenAIService.prototype.getContextualSystemPrompt).toHaveBeenCalledWith('[1] Manual\nInstall it.');
+    expect(preview.systemPrompt).toBe('Answer from the context.');
+  });
+});
+
+describe('AdminService cost backfill jobs', () => {
+  const service = new AdminService();
+  const task = (overrides: Record<string, unknown> = {}) => ({
+    id: 'task-1',
+    status: 'pending',
+    result: null,
+    errorMessage: null,
+    scheduledAt: new Date('2026-01-01T12:00:00Z'),
+    completedAt: null,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('enqueues the backfill with its filters', async () => {
+    jest.mocked(TaskQueueService.prototype.enqueueTask).mockResolvedValue('task-1');
+    db.taskQueue.findFirst.mockResolvedValue(task());
+
+    const job = await service.enqueueCostBackfill({ from: new Date('2026-01-01T00:00:00Z'), model: 'gpt-4o' });
+
+    expect(TaskQueueService.prototype.enqueueTask).toHaveBeenCalledWith('cost_backfill', {
+      from: '2026-01-01T00:00:00.000Z',
+      to: undefined,
+      provider: undefined,
+      model: 'gpt-4o',
+    }, { maxRetries: 1 });
+    expect(job).toEqual({ id: 'task-1', status: 'pending', result: undefined, errorMessage: undefined, scheduledAt: '2026-01-01T12:00:00.000Z', completedAt: undefined });
+  });
+
+  it('returns the result of a finished backfill', async () => {
+    const result = { processed: 10, updated: 4, unpriced: 1, costDelta: -0.5 };
+    db.taskQueue.findFirst.mockResolvedValue(task({ status: 'completed', result, completedAt: new Date('2026-01-01T12:05:00Z') }));
+
+    const job = await service.getCostBackfillJob('task-1');
+
+    expect(job.result).toEqual(result);
+    expect(job.completedAt).toBe('2026-01-01T12:05:00.000Z');
+  });
+
+  it('only looks up cost backfill tasks', async () => {
+    db.taskQueue.findFirst.mockResolvedValue(null);
+
+    await expect(service.getCostBackfillJob('other-task')).rejects.toBeInstanceOf(NotFoundError);
+    expect(db.taskQueue.findFirst).toHaveBeenCalledWith({ where: { id: 'other-task', taskType: 'cost_backfill' } });
+  });
+});
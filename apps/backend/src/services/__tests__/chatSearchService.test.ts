@@ -0,0 +1,146 @@
+import { ChatSearchService } from '../chatSearchService';
+import { ChatService } from '../chatService';
+import { prisma } from '../../config/database';
+
+jest.mock('../chatService');
+
+const db = prisma as any;
+
+// The markers the search query asks ts_headline to wrap matches in
+const mark = (text: string) => `\uE000${text}\uE001`;
+
+describe('ChatSearchService.parseHeadline', () => {
+  const service = new ChatSearchService();
+  const highlighted = (headline: string) => {
+    const { snippet, highlights } = service['parseHeadline'](headline);
+    return highlights.map(({ start, end }) => snippet.slice(start, end));
+  };
+
+  it('strips the markers and records where each match was', () => {
+    const result = service['parseHeadline'](`How do I ${mark('cancel')} my ${mark('plan')}?`);
+
+    expect(result).toEqual({
+      snippet: 'How do I cancel my plan?',
+      highlights: [{ start: 9, end: 15 }, { start: 19, end: 23 }],
+    });
+  });
+
+  it('records matches at the edges of the snippet', () => {
+    expect(highlighted(`${mark('Billing')} and ${mark('invoices')}`)).toEqual(['Billing', 'invoices']);
+  });
+
+  it('keeps the offsets right across fragments and non-ASCII text', () => {
+    expect(highlighted(`Preço do ${mark('plano')} … o ${mark('pagamento')} falhou`)).toEqual(['plano', 'pagamento']);
+  });
+
+  it('returns text without markers unchanged', () => {
+    expect(service['parseHeadline']('Nothing matched here')).toEqual({
+      snippet: 'Nothing matched here',
+      highlights: [],
+    });
+  });
+
+  it('ignores empty and unbalanced markers', () => {
+    const result = service['parseHeadline']('a \uE000\uE001b\uE001 c \uE000d');
+
+    expect(result).toEqual({ snippet: 'a b c d', highlights: [] });
+  });
+});
+
+describe('ChatSearchService.search', () => {
+  const service = new ChatSearchService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns the parsed snippet with each match', async () => {
+    db.$queryRaw.mockResolvedValue([{
+      thread_id: 'thread-1',
+      message_id: 'message-1',
+      role: 'user',
+      matched_in: 'message',
+      snippet: `My ${mark('invoice')} is wrong`,
+      created_at: new Date('2026-01-01'),
+    }]);
+    db.chatThread.findMany.mockResolvedValue([{
+      id: 'thread-1',
+      userId: 'user-1',
+      title: 'Billing',
+      summary: 'About an invoice.',
+      passwordHash: null,
+      knowledgeTags: [],
+      provider: null,
+      model: null,
+      folderId: null,
+      tags: [],
+      pinnedAt: null,
+      archivedAt: null,
+      activeMessageId: null,
+      createdAt: new Date('2026-01-01'),
+    }]);
+
+    jest.mocked(ChatService.prototype.getBranchLeafIds).mockResolvedValue(new Map([['message-1', null]]));
+
+    const [result] = await service.search('user-1', { q: 'invoice', limit: 10 });
+
+    expect(result.snippet).toBe('My invoice is wrong');
+    expect(result.highlights).toEqual([{ start: 3, end: 10 }]);
+    expect(result.thread.summary).toBe('About an invoice.');
+  });
+
+  it('hides the summary of a password-protected thread', async () => {
+    db.$queryRaw.mockResolvedValue([{
+      thread_id: 'thread-1',
+      message_id: null,
+      role: null,
+      matched_in: 'title',
+      snippet: mark('Billing'),
+      created_at: new Date('2026-01-01'),
+    }]);
+    db.chatThread.findMany.mockResolvedValue([{
+      id: 'thread-1',
+      userId: 'user-1',
+      title: 'Billing',
+      summary: 'About an invoice.',
+      passwordHash: 'hash',
+      knowledgeTags: [],
+      provider: null,
+      model: null,
+      folderId: null,
+      tags: [],
+      pinnedAt: null,
+      archivedAt: null,
+      activeMessageId: null,
+      createdAt: new Date('2026-01-01'),
+    }]);
+
+    const [result] = await service.search('user-1', { q: 'billing', limit: 10 });
+
+    expect(result.thread.summary).toBeNull();
+    expect(result.thread.hasPassword).toBe(true);
+    expect(result.highlights).toEqual([{ start: 0, end: 7 }]);
+  });
+
+  it('returns the branch to switch to for a message the thread is not showing', async () => {
+    db.$queryRaw.mockResolvedValue([
+      { thread_id: 'thread-1', message_id: 'edited', role: 'user', matched_in: 'message', snippet: mark('invoice'), created_at: new Date('2026-01-01') },
+      { thread_id: 'thread-1', message_id: 'shown', role: 'user', matched_in: 'message', snippet: mark('invoice'), created_at: new Date('2026-01-01') },
+      { thread_id: 'thread-1', message_id: null, role: null, matched_in: 'title', snippet: mark('invoice'), created_at: new Date('2026-01-01') },
+    ]);
+    db.chatThread.findMany.mockResolvedValue([{ id: 'thread-1', passwordHash: null, activeMessageId: 'answer-2', tags: [] }]);
+    jest.mocked(ChatService.prototype.getBranchLeafIds).mockResolvedValue(new Map([['edited', 'answer-1'], ['shown', null]]));
+
+    const results = await service.search('user-1', { q: 'invoice', limit: 10 });
+
+    expect(ChatService.prototype.getBranchLeafIds).toHaveBeenCalledWith('thread-1', 'answer-2', ['edited', 'shown']);
+    expect(results.map(result => result.branchLeafId)).toEqual(['answer-1', null, null]);
+  });
+
+  it('skips the thread lookup when nothing matches', async () => {
+    db.$queryRaw.mockResolvedValue([]);
+
+    await expect(service.search('user-1', { q: 'nothing', limit: 10 })).resolves.toEqual([]);
+    expect(db.chatThread.findMany).not.toHaveBeenCalled();
+  });
+});
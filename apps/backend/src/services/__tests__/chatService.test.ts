@@ -0,0 +1,436 @@
+import { createHash } from 'crypto';
+import { ChatService } from '../chatService';
+import { OpenAIService } from '../openaiService';
+import { SettingsService } from '../settingsService';
+import { RAGService } from '../ragService';
+import { ContextBuilderService } from '../contextBuilderService';
+import { TaskQueueService } from '../taskQueueService';
+import { prisma } from '../../config/database';
+import { NotFoundError, SubscriptionError } from '@fluxo/shared';
+
+jest.mock('../openaiService');
+jest.mock('../ragService');
+jest.mock('../taskQueueService');
+jest.mock('../settingsService');
+jest.mock('../contextBuilderService');
+jest.mock('../analyticsService');
+
+const db = prisma as any;
+
+const message = (id: string, parentId: string | null, role: 'user' | 'assistant') => ({
+  id,
+  parentId,
+  role,
+  content: `${id} content`,
+});
+
+// In creation order: a1 was regenerated as a1b, whose question q2 was edited into q2b;
+// q2c is a question whose answer failed
+const messages = [
+  message('q1', null, 'user'),
+  message('a1', 'q1', 'assistant'),
+  message('a1b', 'q1', 'assistant'),
+  message('q2', 'a1b', 'user'),
+  message('a2', 'q2', 'assistant'),
+  message('q2c', 'a1b', 'user'),
+  message('q2b', 'a1b', 'user'),
+  message('a2b', 'q2b', 'assistant'),
+];
+
+describe('ChatService message branches', () => {
+  const service = new ChatService();
+
+  const threadWithActive = (activeMessageId: string | null) =>
+    db.chatThread.findFirst.mockResolvedValue({ id: 'thread-1', passwordHash: null, activeMessageId });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.chatMessage.findMany.mockImplementation(async ({ where }: any) =>
+      where.threadId
+        ? messages.map(({ id, parentId }) => ({ id, parentId }))
+        : messages.filter(m => where.id.in.includes(m.id))
+    );
+  });
+
+  describe('getThreadMessages', () => {
+    it('shows the latest branch when none was picked', async () => {
+      threadWithActive(null);
+
+      const result = await service.getThreadMessages('thread-1', 'user-1');
+
+      expect(result.messages.map(m => m.id)).toEqual(['q1', 'a1b', 'q2b', 'a2b']);
+      expect(result.total).toBe(4);
+    });
+
+    it('shows the branch ending at the active message', async () => {
+      threadWithActive('a2');
+
+      const result = await service.getThreadMessages('thread-1', 'user-1');
+
+      expect(result.messages.map(m => m.id)).toEqual(['q1', 'a1b', 'q2', 'a2']);
+    });
+
+    it('falls back to the latest branch when the active message is gone', async () => {
+      threadWithActive('deleted');
+
+      const result = await service.getThreadMessages('thread-1', 'user-1');
+
+      expect(result.messages.map(m => m.id)).toEqual(['q1', 'a1b', 'q2b', 'a2b']);
+    });
+
+    it('lists the siblings of each message, leaving out unanswered questions', async () => {
+      threadWithActive(null);
+
+      const result = await service.getThreadMessages('thread-1', 'user-1');
+
+      expect(result.messages.map(m => m.siblingIds)).toEqual([
+        ['q1'],
+        ['a1', 'a1b'],
+        ['q2', 'q2b'],
+        ['a2b'],
+      ]);
+    });
+
+    it('pages back from the end of the branch', async () => {
+      threadWithActive(null);
+
+      const latest = await service.getThreadMessages('thread-1', 'user-1', 1, 3);
+      const earlier = await service.getThreadMessages('thread-1', 'user-1', 2, 3);
+
+      expect(latest.messages.map(m => m.id)).toEqual(['a1b', 'q2b', 'a2b']);
+      expect(latest.hasMore).toBe(true);
+      expect(earlier.messages.map(m => m.id)).toEqual(['q1']);
+      expect(earlier.hasMore).toBe(false);
+    });
+
+    it('keeps the system prompt off the returned messages', async () => {
+      threadWithActive(null);
+
+      await service.getThreadMessages('thread-1', 'user-1');
+
+      const { select } = db.chatMessage.findMany.mock.lastCall[0];
+      expect(select).toEqual(expect.objectContaining({ id: true, content: true, feedback: expect.any(Object) }));
+      expect(select).not.toHaveProperty('systemPromptId');
+      expect(select).not.toHaveProperty('systemPrompt');
+    });
+  });
+
+  describe('getBranchMessages', () => {
+    it('returns the branch ending at the given message without the system prompt', async () => {
+      const branch = await service.getBranchMessages('thread-1', 'a2');
+
+      expect(branch.map(m => m.id)).toEqual(['q1', 'a1b', 'q2', 'a2']);
+      expect(db.chatMessage.findMany.mock.lastCall[0].select).not.toHaveProperty('systemPromptId');
+    });
+  });
+
+  describe('getBranchLeafIds', () => {
+    it('needs no switch for messages on the branch being shown', async () => {
+      const leafIds = await service.getBranchLeafIds('thread-1', 'a2', ['q1', 'q2', 'a2']);
+
+      expect([...leafIds.values()]).toEqual([null, null, null]);
+    });
+
+    it('points other messages at the latest reply below them', async () => {
+      const leafIds = await service.getBranchLeafIds('thread-1', 'a2', ['a1', 'q2b', 'q2c']);
+
+      expect(Object.fromEntries(leafIds)).toEqual({ a1: 'a1', q2b: 'a2b', q2c: 'q2c' });
+    });
+
+    it('compares against the latest branch when none was picked', async () => {
+      const leafIds = await service.getBranchLeafIds('thread-1', null, ['q2', 'q2b']);
+
+      expect(Object.fromEntries(leafIds)).toEqual({ q2: 'a2', q2b: null });
+    });
+  });
+
+  describe('selectBranch', () => {
+    it('activates the latest reply below the picked message', async () => {
+      threadWithActive(null);
+
+      await service.selectBranch('thread-1', 'user-1', { messageId: 'q2' });
+
+      expect(db.chatThread.update).toHaveBeenCalledWith({
+        where: { id: 'thread-1' },
+        data: { activeMessageId: 'a2' },
+      });
+    });
+
+    it('activates the picked message itself when nothing follows it', async () => {
+      threadWithActive(null);
+
+      await service.selectBranch('thread-1', 'user-1', { messageId: 'a1' });
+
+      expect(db.chatThread.update).toHaveBeenCalledWith({
+        where: { id: 'thread-1' },
+        data: { activeMessageId: 'a1' },
+      });
+    });
+
+    it('rejects a message from another thread', async () => {
+      threadWithActive(null);
+
+      await expect(
+        service.selectBranch('thread-1', 'user-1', { messageId: 'elsewhere' })
+      ).rejects.toBeInstanceOf(NotFoundError);
+      expect(db.chatThread.update).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('ChatService.buildSearchQuery', () => {
+  const service = new ChatService();
+  const history = [
+    { role: 'user', content: 'Which plans do you have?' },
+    { role: 'assistant', content: 'Free and Pro.' },
+  ];
+  const usage = { tokensInput: 80, tokensOutput: 5, cost: 0.0002, provider: 'openai', model: 'gpt-4o-mini' };
+  const completion = { ...usage, content: 'Pro plan price' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(SettingsService.prototype.getQueryRewriteEnabled).mockResolvedValue(true);
+    jest.mocked(OpenAIService.prototype.generateCompletion).mockResolvedValue(completion);
+  });
+
+  it('searches with the message as written on the first turn', async () => {
+    const result = await service['buildSearchQuery']('How much is it?', null, []);
+
+    expect(result).toEqual({ query: 'How much is it?', tokensInput: 0, tokensOutput: 0, cost: 0 });
+    expect(OpenAIService.prototype.generateCompletion).not.toHaveBeenCalled();
+  });
+
+  it('searches with the message as written when rewriting is off', async () => {
+    jest.mocked(SettingsService.prototype.getQueryRewriteEnabled).mockResolvedValue(false);
+
+    const result = await service['buildSearchQuery']('How much is it?', null, history);
+
+    expect(result.query).toBe('How much is it?');
+    expect(OpenAIService.prototype.generateCompletion).not.toHaveBeenCalled();
+  });
+
+  it('rewrites a follow-up from the summary and recent messages, reporting the usage', async () => {
+    const result = await service['buildSearchQuery']('How much is the second one?', 'Pricing questions.', history);
+
+    expect(result).toEqual({ ...usage, query: 'Pro plan price' });
+    const [[, prompt]] = jest.mocked(OpenAIService.prototype.generateCompletion).mock.calls[0];
+    expect(prompt.content).toBe(
+      'Conversation summary: Pricing questions.\n\n' +
+      'Recent messages:\nuser: Which plans do you have?\nassistant: Free and Pro.\n\n' +
+      'Latest user message: How much is the second one?'
+    );
+  });
+
+  it('keeps the message but still bills the call when the rewrite comes back empty', async () => {
+    jest.mocked(OpenAIService.prototype.generateCompletion).mockResolvedValue({ ...completion, content: '' });
+
+    const result = await service['buildSearchQuery']('How much is it?', null, history);
+
+    expect(result).toEqual({ ...usage, query: 'How much is it?' });
+  });
+
+  it('falls back to the message when the rewrite fails', async () => {
+    jest.mocked(OpenAIService.prototype.generateCompletion).mockRejectedValue(new Error('Provider down'));
+
+    const result = await service['buildSearchQuery']('How much is it?', null, history);
+
+    expect(result).toEqual({ query: 'How much is it?', tokensInput: 0, tokensOutput: 0, cost: 0 });
+  });
+});
+
+describe('ChatService model routing', () => {
+  const service = new ChatService();
+  const proModels = [
+    { provider: 'anthropic' as const, model: 'claude' },
+    { provider: 'openai' as const, model: 'gpt-4o' },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.subscription.findUnique.mockResolvedValue({ planId: 'pro' });
+    jest.mocked(SettingsService.prototype.getPlanModels).mockResolvedValue(proModels);
+  });
+
+  it('offers the models of the user plan, the first being the default', async () => {
+    const available = await service.getAvailableModels('user-1');
+
+    expect(SettingsService.prototype.getPlanModels).toHaveBeenCalledWith('pro');
+    expect(available).toEqual({ models: proModels, defaultModel: proModels[0] });
+  });
+
+  it('treats users without a subscription as free users', async () => {
+    db.subscription.findUnique.mockResolvedValue(null);
+
+    await service.getAvailableModels('user-1');
+
+    expect(SettingsService.prototype.getPlanModels).toHaveBeenCalledWith('free');
+  });
+
+  it('chats with the model picked for the thread', async () => {
+    const model = await service['resolveChatModel']('user-1', { provider: 'openai', model: 'gpt-4o' });
+
+    expect(model).toEqual(proModels[1]);
+  });
+
+  it('uses the plan default once the picked model is no longer on the plan', async () => {
+    const model = await service['resolveChatModel']('user-1', { provider: 'openai', model: 'o1' });
+
+    expect(model).toEqual(proModels[0]);
+  });
+
+  describe('setThreadModel', () => {
+    beforeEach(() => {
+      db.chatThread.findFirst.mockResolvedValue({ id: 'thread-1' });
+      db.chatThread.update.mockResolvedValue({ id: 'thread-1', model: null });
+    });
+
+    it('saves a model from the plan', async () => {
+      await service.setThreadModel('thread-1', 'user-1', { provider: 'openai', model: 'gpt-4o' });
+
+      expect(db.chatThread.update).toHaveBeenCalledWith({
+        where: { id: 'thread-1' },
+        data: { provider: 'openai', model: 'gpt-4o' },
+      });
+    });
+
+    it('rejects a model outside the plan', async () => {
+      await expect(
+        service.setThreadModel('thread-1', 'user-1', { provider: 'openai', model: 'o1' })
+      ).rejects.toBeInstanceOf(SubscriptionError);
+      expect(db.chatThread.update).not.toHaveBeenCalled();
+    });
+
+    it('clears the choice so the thread follows the plan default', async () => {
+      await service.setThreadModel('thread-1', 'user-1', { provider: null, model: null });
+
+      expect(db.chatThread.update).toHaveBeenCalledWith({
+        where: { id: 'thread-1' },
+        data: { provider: null, model: null },
+      });
+    });
+  });
+});
+
+describe('ChatService.streamMessage', () => {
+  const service = new ChatService();
+  const noUsage = { tokensInput: 0, tokensOutput: 0, cost: 0 };
+
+  const collect = async (signal?: AbortSignal) => {
+    const events = [];
+    for await (const event of service.streamMessage({ threadId: 'thread-1', content: 'How do I cancel?' }, 'user-1', undefined, signal)) {
+      events.push(event);
+    }
+    return events;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.subscription.findUnique.mockResolvedValue({ planId: 'free', plan: null });
+    db.chatThread.findFirst.mockResolvedValue({
+      id: 'thread-1',
+      title: 'Billing',
+      summary: null,
+      passwordHash: null,
+      knowledgeTags: [],
+      provider: null,
+      model: null,
+      activeMessageId: null,
+    });
+    db.chatMessage.findMany.mockResolvedValue([]);
+    db.chatMessage.create
+      .mockResolvedValueOnce({ id: 'question', parentId: null })
+      .mockResolvedValueOnce({ id: 'answer', createdAt: new Date() });
+    jest.spyOn(service as any, 'checkUsageLimits').mockResolvedValue(undefined);
+    jest.mocked(RAGService.prototype.searchRelevantContext).mockResolvedValue({
+      context: '',
+      sources: [],
+      embeddingTokens: 0,
+      embeddingCost: 0,
+      rerankUsage: noUsage,
+    });
+    jest.mocked(ContextBuilderService.prototype.buildChatContext).mockResolvedValue({
+      messages: [],
+      context: '',
+      sources: [],
+      tokens: { budget: 1000, systemPrompt: 0, summary: 0, history: 0, retrieved: 0, message: 0 },
+    });
+    jest.mocked(SettingsService.prototype.getPlanModels).mockResolvedValue([{ provider: 'openai', model: 'gpt-4o' }]);
+    jest.mocked(TaskQueueService.prototype.enqueueTask).mockResolvedValue('task-1');
+    jest.mocked(SettingsService.prototype.getSystemPrompt).mockResolvedValue('Be helpful.');
+    db.systemPrompt.upsert.mockResolvedValue({ id: 'prompt-1' });
+  });
+
+  it('points the answer at the stored copy of its system prompt', async () => {
+    jest.mocked(OpenAIService.prototype.streamChatCompletion).mockImplementation(async function* () {
+      yield { content: '', fullResponse: 'In settings.', tokensInput: 50, tokensOutput: 3, cost: 0.001, provider: 'openai', model: 'gpt-4o', finished: true };
+    } as any);
+
+    await collect();
+
+    const hash = createHash('sha256').update('Be helpful.').digest('hex');
+    expect(db.systemPrompt.upsert).toHaveBeenCalledWith({
+      where: { hash },
+      create: { hash, content: 'Be helpful.' },
+      update: {},
+      select: { id: true },
+    });
+    expect(db.chatMessage.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({ role: 'assistant', systemPromptId: 'prompt-1' }),
+    });
+  });
+
+  it('saves an answer cut short as incomplete and tells the client', async () => {
+    const controller = new AbortController();
+    jest.mocked(OpenAIService.prototype.streamChatCompletion).mockImplementation(async function* () {
+      yield { content: 'To cancel', fullResponse: 'To cancel', tokensInput: 0, tokensOutput: 0, finished: false };
+      yield { content: '', fullResponse: 'To cancel', tokensInput: 50, tokensOutput: 3, cost: 0.001, provider: 'openai', model: 'gpt-4o', incomplete: true, finished: true };
+    } as any);
+
+    const events = await collect(controller.signal);
+
+    expect(OpenAIService.prototype.streamChatCompletion).toHaveBeenCalledWith([], '', { provider: 'openai', model: 'gpt-4o' }, controller.signal);
+    expect(db.chatMessage.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({ role: 'assistant', content: 'To cancel', incomplete: true, costUsd: 0.001 }),
+    });
+    expect(events.pop()).toEqual({ type: 'complete', content: 'To cancel', messageId: 'answer', parentId: 'question', incomplete: true });
+  });
+
+  it('reports the error without saving an answer when the model fails before replying', async () => {
+    jest.mocked(OpenAIService.prototype.streamChatCompletion).mockImplementation(async function* () {
+      throw new Error('Provider down');
+    } as any);
+
+    const events = await collect();
+
+    expect(db.chatMessage.create).toHaveBeenCalledTimes(1);
+    expect(events.pop()).toEqual({ type: 'error', error: 'Provider down' });
+  });
+});
+
+describe('ChatService.getUserThreads', () => {
+  const service = new ChatService();
+  const query = { page: 1, limit: 20, archived: false };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.chatThread.findMany.mockResolvedValue([]);
+    db.chatThread.count.mockResolvedValue(0);
+  });
+
+  it('lists the main list with pinned threads first', async () => {
+    await service.getUserThreads('user-1', query);
+
+    expect(db.chatThread.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId: 'user-1', archivedAt: null },
+      orderBy: [{ pinnedAt: { sort: 'desc', nulls: 'last' } }, { updatedAt: 'desc' }],
+    }));
+  });
+
+  it('lists archived threads on their own, filtered by folder and tag', async () => {
+    await service.getUserThreads('user-1', { ...query, archived: true, folderId: 'folder-1', tag: 'Urgent' });
+
+    const where = { userId: 'user-1', archivedAt: { not: null }, folderId: 'folder-1', tags: { has: 'Urgent' } };
+    expect(db.chatThread.findMany).toHaveBeenCalledWith(expect.objectContaining({ where }));
+    expect(db.chatThread.count).toHaveBeenCalledWith({ where });
+  });
+});
@@ -0,0 +1,139 @@
+import { ContextBuilderService } from '../contextBuilderService';
+import { OpenAIService } from '../openaiService';
+import { SettingsService } from '../settingsService';
+import type { MessageSource } from '@fluxo/shared';
+
+jest.mock('../openaiService');
+jest.mock('../settingsService');
+
+const budgetSettings = { contextWindowTokens: 128000, maxInputTokens: 500, maxTokens: 100 };
+
+const source = (index: number, length = 400): MessageSource => ({
+  index,
+  sourceId: `source-${index}`,
+  chunkId: `chunk-${index}`,
+  title: `S${index}`,
+  chunkIndex: 0,
+  distance: 0.1 * index,
+  excerpt: String(index).repeat(length),
+});
+
+const message = (i: number, length = 400) => ({
+  role: i % 2 === 0 ? 'user' : 'assistant',
+  content: `${i}`.padEnd(length, '.'),
+});
+
+describe('ContextBuilderService.buildChatContext', () => {
+  const service = new ContextBuilderService();
+
+  beforeEach(() => {
+    Object.assign(budgetSettings, { contextWindowTokens: 128000, maxInputTokens: 500, maxTokens: 100 });
+    jest.mocked(OpenAIService.prototype.getContextualSystemPrompt)
+      .mockImplementation(async (context?: string) => `${'p'.repeat(40)}${context ?? ''}`);
+    jest.mocked(SettingsService.prototype.getContextBudgetSettings).mockImplementation(async () => ({
+      contextWindowTokens: budgetSettings.contextWindowTokens,
+      maxInputTokens: budgetSettings.maxInputTokens,
+    }));
+    jest.mocked(SettingsService.prototype.getMaxTokens).mockImplementation(async () => budgetSettings.maxTokens);
+  });
+
+  it('sends everything when it fits, with the summary first and the new message last', async () => {
+    budgetSettings.maxInputTokens = 12000;
+    const history = [message(0, 20), message(1, 20)];
+
+    const result = await service.buildChatContext({
+      message: 'And now?',
+      summary: 'They talked about plans.',
+      history,
+      sources: [source(1, 20), source(2, 20)],
+    });
+
+    expect(result.messages).toEqual([
+      { role: 'system', content: 'Previous conversation summary: They talked about plans.' },
+      ...history,
+      { role: 'user', content: 'And now?' },
+    ]);
+    expect(result.sources.map(s => s.index)).toEqual([1, 2]);
+    expect(result.context).toBe(`[1] S1\n${'1'.repeat(20)}\n\n[2] S2\n${'2'.repeat(20)}`);
+  });
+
+  it('reserves the completion tokens from the context window', async () => {
+    Object.assign(budgetSettings, { contextWindowTokens: 1000, maxInputTokens: 12000, maxTokens: 300 });
+
+    const result = await service.buildChatContext({ message: 'Hi', summary: null, history: [], sources: [] });
+
+    expect(result.tokens.budget).toBe(700);
+  });
+
+  it('caps the budget at the input token ceiling', async () => {
+    const result = await service.buildChatContext({ message: 'Hi', summary: null, history: [], sources: [] });
+
+    expect(result.tokens.budget).toBe(500);
+  });
+
+  it('drops the lowest-ranked chunks first', async () => {
+    const result = await service.buildChatContext({
+      message: 'Hi',
+      summary: null,
+      history: [],
+      sources: [source(1), source(2), source(3)],
+    });
+
+    expect(result.sources.map(s => s.index)).toEqual([1, 2]);
+    expect(result.context).not.toContain('[3]');
+    expect(result.tokens.retrieved).toBeLessThanOrEqual(Math.floor(result.tokens.budget * 0.5));
+  });
+
+  it('drops the oldest history and keeps a contiguous recent stretch', async () => {
+    const history = Array.from({ length: 10 }, (_, i) => message(i));
+
+    const result = await service.buildChatContext({ message: 'Hi', summary: null, history, sources: [] });
+
+    expect(result.messages).toEqual([...history.slice(6), { role: 'user', content: 'Hi' }]);
+    expect(result.tokens.history).toBe(4 * 104);
+  });
+
+  it('shortens a long summary at a word boundary', async () => {
+    const summary = Array.from({ length: 400 }, (_, i) => `word${i}`).join(' ');
+
+    const result = await service.buildChatContext({
+      message: 'Hi',
+      summary,
+      history: [message(0, 20)],
+      sources: [],
+    });
+
+    const summaryMessage = result.messages[0].content;
+    expect(summaryMessage.startsWith('Previous conversation summary: word0 word1')).toBe(true);
+    expect(summaryMessage.endsWith(' […]')).toBe(true);
+    expect(summaryMessage).toMatch(/word\d+ \[…\]$/);
+    expect(result.tokens.summary).toBeLessThanOrEqual(Math.floor(result.tokens.budget * 0.1));
+  });
+
+  it('leaves the summary out when the thread has no history', async () => {
+    const result = await service.buildChatContext({
+      message: 'Hi',
+      summary: 'Something earlier.',
+      history: [],
+      sources: [],
+    });
+
+    expect(result.messages).toEqual([{ role: 'user', content: 'Hi' }]);
+    expect(result.tokens.summary).toBe(0);
+  });
+
+  it('still sends the new message when nothing else fits', async () => {
+    budgetSettings.maxInputTokens = 5;
+
+    const result = await service.buildChatContext({
+      message: 'Hi',
+      summary: 'Something earlier.',
+      history: [message(0)],
+      sources: [source(1)],
+    });
+
+    expect(result.messages).toEqual([{ role: 'user', content: 'Hi' }]);
+    expect(result.sources).toEqual([]);
+    expect(result.context).toBe('');
+  });
+});
@@ -0,0 +1,106 @@
+import { CostBackfillService } from '../costBackfillService';
+import { AnalyticsService } from '../analyticsService';
+import { SettingsService } from '../settingsService';
+import { prisma } from '../../config/database';
+
+jest.mock('../analyticsService');
+jest.mock('../settingsService');
+
+const db = prisma as any;
+
+// gpt-4o got cheaper on February 1st
+const pricing = [
+  { provider: 'openai', modelName: 'gpt-4o', inputPer1k: 0.01, outputPer1k: 0.03, validFrom: new Date('2026-01-01'), validUntil: new Date('2026-02-01') },
+  { provider: 'openai', modelName: 'gpt-4o', inputPer1k: 0.005, outputPer1k: 0.015, validFrom: new Date('2026-02-01'), validUntil: null },
+];
+
+const message = (
+  id: string,
+  createdAt: string,
+  tokensInput: number,
+  tokensOutput: number,
+  costUsd: number,
+  overrides: Record<string, unknown> = {}
+) => ({
+  id,
+  tokensInput,
+  tokensOutput,
+  costUsd,
+  provider: 'openai',
+  model: 'gpt-4o',
+  createdAt: new Date(createdAt),
+  thread: { userId: 'user-1' },
+  ...overrides,
+});
+
+describe('CostBackfillService.recalculateMessageCosts', () => {
+  const service = new CostBackfillService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.modelPricing.findMany.mockResolvedValue(pricing);
+    db.chatMessage.findMany.mockResolvedValue([]);
+    jest.mocked(SettingsService.prototype.getAISettings).mockResolvedValue({
+      systemPrompt: 'Be helpful.',
+      provider: 'openai',
+      model: 'gpt-4o',
+      maxTokens: 1000,
+      temperature: 0.7,
+    });
+  });
+
+  it('reprices each message at the pricing of its day and adjusts the aggregates per user and day', async () => {
+    db.chatMessage.findMany.mockResolvedValueOnce([
+      message('m1', '2026-01-10T12:00:00', 1000, 1000, 0.02),
+      message('m2', '2026-01-10T13:00:00', 1000, 0, 0.01),
+      message('m3', '2026-02-05T12:00:00', 2000, 0, 0.02),
+      message('m4', '2026-01-10T14:00:00', 0, 1000, 0),
+      message('m5', '2026-01-10T15:00:00', 1000, 0, 0, { model: 'unknown' }),
+    ]);
+
+    const result = await service.recalculateMessageCosts();
+
+    expect(result).toEqual({ processed: 5, updated: 3, unpriced: 1, costDelta: 0.04 });
+    expect(db.chatMessage.update.mock.calls.map(([args]: any) => [args.where.id, args.data.costUsd])).toEqual([
+      ['m1', 0.04],
+      ['m3', 0.01],
+      ['m4', 0.03],
+    ]);
+
+    const adjustments = jest.mocked(AnalyticsService.prototype.adjustCostAggregations).mock.calls;
+    expect(adjustments).toHaveLength(2);
+    expect(adjustments[0][2]).toBeCloseTo(0.05);
+    expect(adjustments[1][2]).toBeCloseTo(-0.01);
+  });
+
+  it('prices messages without a recorded model with the requested one', async () => {
+    db.chatMessage.findMany.mockResolvedValueOnce([
+      message('m1', '2026-01-10T12:00:00', 1000, 0, 0, { provider: null, model: null }),
+    ]);
+
+    await service.recalculateMessageCosts({ provider: 'openai', model: 'gpt-4o' });
+
+    expect(db.chatMessage.update).toHaveBeenCalledWith({ where: { id: 'm1' }, data: { costUsd: 0.01 } });
+  });
+
+  it('pages through the messages after the last one of each batch', async () => {
+    db.chatMessage.findMany
+      .mockResolvedValueOnce([message('m1', '2026-01-10T12:00:00', 1000, 0, 0.01)])
+      .mockResolvedValueOnce([message('m2', '2026-01-10T12:00:00', 1000, 0, 0.01)]);
+
+    const result = await service.recalculateMessageCosts();
+
+    expect(result.processed).toBe(2);
+    expect(db.chatMessage.findMany.mock.calls[1][0]).toEqual(expect.objectContaining({ skip: 1, cursor: { id: 'm1' } }));
+    expect(db.chatMessage.findMany.mock.calls[2][0]).toEqual(expect.objectContaining({ cursor: { id: 'm2' } }));
+  });
+
+  it('limits the backfill to the requested dates', async () => {
+    await service.recalculateMessageCosts({ from: '2026-01-01T00:00:00Z', to: '2026-01-31T00:00:00Z' });
+
+    expect(db.chatMessage.findMany.mock.calls[0][0].where.createdAt).toEqual({
+      gte: new Date('2026-01-01T00:00:00Z'),
+      lte: new Date('2026-01-31T00:00:00Z'),
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { DocumentExtractionService } from '../documentExtractionService';
+import { ValidationError } from '@fluxo/shared';
+
+const file = (originalname: string, content: string | Buffer, mimetype = 'application/octet-stream') => ({
+  originalname,
+  mimetype,
+  buffer: Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf8'),
+});
+
+describe('DocumentExtractionService', () => {
+  const service = new DocumentExtractionService();
+
+  describe('detectFormat', () => {
+    it('goes by the extension first, since browsers send generic types for Markdown', () => {
+      expect(service.detectFormat({ originalname: 'notes.MD', mimetype: 'text/plain' })).toBe('markdown');
+      expect(service.detectFormat({ originalname: 'page.htm', mimetype: 'application/octet-stream' })).toBe('html');
+    });
+
+    it('falls back to the MIME type', () => {
+      expect(service.detectFormat({ originalname: 'upload', mimetype: 'application/pdf' })).toBe('pdf');
+    });
+
+    it('rejects anything else', () => {
+      expect(service.detectFormat({ originalname: 'sheet.xlsx', mimetype: 'application/vnd.ms-excel' })).toBeNull();
+    });
+  });
+
+  describe('extractText', () => {
+    it('keeps Markdown as written', async () => {
+      const text = await service.extractText(file('guide.md', '# Guide\n\n- one\n- two'));
+
+      expect(text).toBe('# Guide\n\n- one\n- two');
+    });
+
+    it('turns HTML headings into Markdown headings and drops links and images', async () => {
+      const html = '<h1>Guide</h1><p>See <a href="https://example.com">the docs</a>.<img src="x.png"></p><h2>Setup</h2><p>Install it.</p>';
+
+      const text = await service.extractText(file('guide.html', html));
+
+      expect(text).toBe('# Guide\n\nSee the docs.\n\n## Setup\n\nInstall it.');
+    });
+
+    it('normalizes line endings, NUL bytes and runs of blank lines', async () => {
+      const text = await service.extractText(file('notes.txt', '\uFEFFfirst  \r\nsecond\u0000\r\n\r\n\r\n\r\nthird\n'));
+
+      expect(text).toBe('first\nsecond\n\nthird');
+    });
+
+    it('rejects unsupported files', async () => {
+      await expect(service.extractText(file('sheet.xlsx', 'data'))).rejects.toThrow(
+        new ValidationError('Unsupported file type: sheet.xlsx')
+      );
+    });
+
+    it('rejects files it cannot parse', async () => {
+      // pdf.js logs its recovery attempts
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+      await expect(service.extractText(file('broken.pdf', 'not a pdf'))).rejects.toThrow(
+        new ValidationError('Could not read broken.pdf')
+      );
+    });
+
+    it('rejects files without any text', async () => {
+      await expect(service.extractText(file('empty.txt', ' \n\n '))).rejects.toThrow(
+        new ValidationError('No text could be extracted from empty.txt')
+      );
+    });
+  });
+});
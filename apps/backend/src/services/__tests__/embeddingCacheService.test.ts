@@ -0,0 +1,66 @@
+import { EmbeddingCacheService, normalizeEmbeddingText } from '../embeddingCacheService';
+import { redisClient } from '../../config/redis';
+
+jest.mock('../../config/redis', () => ({
+  redisClient: { isReady: true, mGet: jest.fn(), multi: jest.fn(), hGetAll: jest.fn() },
+}));
+
+const redis = redisClient as any;
+
+describe('EmbeddingCacheService', () => {
+  const service = new EmbeddingCacheService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    redis.isReady = true;
+  });
+
+  it('keys equivalent texts the same way', () => {
+    expect(normalizeEmbeddingText('  Preço\n\tdo   plano ')).toBe('Preço do plano');
+    expect(service.buildKey('model', 'Preço do plano')).toBe(service.buildKey('model', ' Preço  do plano\n'));
+    expect(service.buildKey('model', 'text')).not.toBe(service.buildKey('other-model', 'text'));
+  });
+
+  it('reads back what it stored', async () => {
+    const stored = new Map<string, string>();
+    const pipeline = {
+      set: jest.fn((key: string, value: string) => stored.set(key, value)),
+      exec: jest.fn(),
+    };
+    redis.multi.mockReturnValue(pipeline);
+    redis.mGet.mockImplementation(async (keys: string[]) => keys.map(key => stored.get(key) ?? null));
+
+    await service.setMany('model', [{ text: 'cached', embedding: [0.5, -0.25] }]);
+    const embeddings = await service.getMany('model', ['cached', 'missing']);
+
+    expect(embeddings).toEqual([[0.5, -0.25], null]);
+  });
+
+  it('misses every text when Redis is down or errors', async () => {
+    redis.mGet.mockRejectedValue(new Error('Connection lost'));
+    await expect(service.getMany('model', ['a', 'b'])).resolves.toEqual([null, null]);
+
+    redis.isReady = false;
+    await expect(service.getMany('model', ['a'])).resolves.toEqual([null]);
+  });
+
+  describe('getStats', () => {
+    it('computes the hit rate from the counters', async () => {
+      redis.hGetAll.mockResolvedValue({ hits: '3', misses: '1', tokensSaved: '250' });
+
+      await expect(service.getStats()).resolves.toEqual({
+        available: true,
+        hits: 3,
+        misses: 1,
+        hitRate: 0.75,
+        tokensSaved: 250,
+      });
+    });
+
+    it('reports the cache unavailable when reading the counters fails', async () => {
+      redis.hGetAll.mockRejectedValue(new Error('Connection lost'));
+
+      await expect(service.getStats()).resolves.toEqual(expect.objectContaining({ available: false, hits: 0 }));
+    });
+  });
+});
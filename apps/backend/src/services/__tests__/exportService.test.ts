@@ -0,0 +1,100 @@
+import JSZip from 'jszip';
+import { ExportService } from '../exportService';
+import { ChatService } from '../chatService';
+import { prisma } from '../../config/database';
+
+jest.mock('../chatService');
+jest.mock('../taskQueueService');
+
+const db = prisma as any;
+
+const thread = (id: string, title: string, passwordHash: string | null) => ({
+  id,
+  title,
+  summary: `Summary of ${title}`,
+  passwordHash,
+  knowledgeTags: [],
+  provider: null,
+  model: null,
+  createdAt: new Date('2026-01-01T12:00:00Z'),
+  messages: [
+    { id: `${id}-q`, parentId: null, role: 'user', content: `Question in ${title}`, feedback: null, createdAt: new Date('2026-01-01T12:00:00Z') },
+  ],
+});
+
+describe('ExportService.buildDataExport', () => {
+  const service = new ExportService();
+
+  const readArchive = async () => {
+    const [{ data }] = db.dataExport.update.mock.calls.at(-1);
+    return JSZip.loadAsync(data.archive);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.dataExport.findUnique.mockResolvedValue({ id: 'export-1', userId: 'user-1' });
+    db.user.findUnique.mockResolvedValue({
+      id: 'user-1',
+      email: 'ana@example.com',
+      role: 'user',
+      googleId: null,
+      createdAt: new Date('2026-01-01'),
+      subscription: null,
+      payments: [],
+      dailyUsage: [],
+    });
+    db.chatThread.findMany.mockResolvedValue([
+      thread('open-thread', 'Billing', null),
+      thread('locked-thread', 'Medical notes', 'hash'),
+    ]);
+    jest.mocked(ChatService.prototype.getConversation).mockImplementation(async (threadId: string) => ({
+      thread: {
+        id: threadId,
+        title: 'Billing',
+        summary: null,
+        knowledgeTags: [],
+        provider: null,
+        model: null,
+        activeMessageId: null,
+        createdAt: new Date('2026-01-01T12:00:00Z'),
+      },
+      messages: [{ role: 'user', content: 'Question in Billing', createdAt: new Date('2026-01-01T12:00:00Z') }],
+    }));
+  });
+
+  it('lists protected threads without their summary or messages', async () => {
+    await service.buildDataExport('export-1');
+
+    const archive = await readArchive();
+    const conversations = JSON.parse(await archive.file('conversas.json')!.async('string'));
+
+    expect(conversations).toEqual([
+      expect.objectContaining({ id: 'open-thread', passwordProtected: false, summary: 'Summary of Billing' }),
+      expect.objectContaining({ id: 'locked-thread', passwordProtected: true, summary: null, messages: [] }),
+    ]);
+    expect(conversations[0].messages).toHaveLength(1);
+    expect(JSON.stringify(conversations)).not.toContain('Question in Medical notes');
+  });
+
+  it('only writes Markdown for unprotected threads', async () => {
+    await service.buildDataExport('export-1');
+
+    const archive = await readArchive();
+
+    expect(ChatService.prototype.getConversation).toHaveBeenCalledTimes(1);
+    expect(ChatService.prototype.getConversation).toHaveBeenCalledWith('open-thread', 'user-1');
+    expect(Object.keys(archive.files).filter(name => name.startsWith('conversas/') && name.endsWith('.md'))).toEqual([
+      'conversas/billing-open-thr.md',
+    ]);
+  });
+
+  it('marks the export failed when building it fails', async () => {
+    db.user.findUnique.mockResolvedValue(null);
+
+    await expect(service.buildDataExport('export-1')).rejects.toThrow('User not found');
+    expect(db.dataExport.update).toHaveBeenLastCalledWith({
+      where: { id: 'export-1' },
+      data: { status: 'failed', errorMessage: 'User not found' },
+    });
+  });
+});
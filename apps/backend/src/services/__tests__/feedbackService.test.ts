@@ -0,0 +1,152 @@
+import { FeedbackService } from '../feedbackService';
+import { SettingsService } from '../settingsService';
+import { prisma } from '../../config/database';
+import { NotFoundError, ValidationError } from '@fluxo/shared';
+
+jest.mock('../settingsService');
+
+const db = prisma as any;
+
+const feedbackRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'feedback-1',
+  messageId: 'answer-1',
+  userId: 'user-1',
+  rating: 'down',
+  reason: 'inaccurate',
+  comment: 'Wrong plan',
+  reviewedAt: null,
+  createdAt: new Date('2026-01-01'),
+  updatedAt: new Date('2026-01-01'),
+  ...overrides,
+});
+
+describe('FeedbackService.setMessageFeedback', () => {
+  const service = new FeedbackService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.chatMessage.findFirst.mockResolvedValue({ id: 'answer-1', role: 'assistant' });
+    db.messageFeedback.upsert.mockImplementation(async ({ create }: any) => feedbackRow(create));
+  });
+
+  it('rates an answer once and puts a new rating back in the review queue', async () => {
+    const feedback = await service.setMessageFeedback('answer-1', 'user-1', {
+      rating: 'down',
+      reason: 'inaccurate',
+      comment: 'Wrong plan',
+    });
+
+    const data = { rating: 'down', reason: 'inaccurate', comment: 'Wrong plan', reviewedAt: null };
+    expect(db.chatMessage.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'answer-1', thread: { userId: 'user-1' } },
+    }));
+    expect(db.messageFeedback.upsert).toHaveBeenCalledWith({
+      where: { messageId: 'answer-1' },
+      create: { messageId: 'answer-1', userId: 'user-1', ...data },
+      update: data,
+    });
+    expect(feedback).toEqual({ rating: 'down', reason: 'inaccurate', comment: 'Wrong plan', createdAt: new Date('2026-01-01') });
+  });
+
+  it('drops the reason and an empty comment from a thumbs up', async () => {
+    await service.setMessageFeedback('answer-1', 'user-1', { rating: 'up', reason: 'unclear', comment: '' });
+
+    expect(db.messageFeedback.upsert.mock.lastCall[0].update).toEqual({
+      rating: 'up',
+      reason: null,
+      comment: null,
+      reviewedAt: null,
+    });
+  });
+
+  it('rejects messages of other users', async () => {
+    db.chatMessage.findFirst.mockResolvedValue(null);
+
+    await expect(service.setMessageFeedback('answer-1', 'user-2', { rating: 'up' })).rejects.toBeInstanceOf(NotFoundError);
+    expect(db.messageFeedback.upsert).not.toHaveBeenCalled();
+  });
+
+  it('only rates assistant answers', async () => {
+    db.chatMessage.findFirst.mockResolvedValue({ id: 'question-1', role: 'user' });
+
+    await expect(service.setMessageFeedback('question-1', 'user-1', { rating: 'up' })).rejects.toBeInstanceOf(ValidationError);
+    expect(db.messageFeedback.upsert).not.toHaveBeenCalled();
+  });
+});
+
+describe('FeedbackService.getFeedbackQueue', () => {
+  const service = new FeedbackService();
+
+  const queueEntry = (systemPrompt: { content: string } | null) => ({
+    ...feedbackRow(),
+    user: { email: 'ana@example.com' },
+    message: {
+      id: 'answer-1',
+      content: 'Cancel in billing [1].',
+      provider: 'openai',
+      model: 'gpt-4o',
+      incomplete: false,
+      sources: [{ index: 1, chunkId: 'chunk-1', sourceId: 'source-1', title: 'Manual', excerpt: 'Cancel in settings.' }],
+      createdAt: new Date('2026-01-01'),
+      parent: { content: 'How do I cancel?' },
+      thread: { id: 'thread-1', title: 'Billing' },
+      systemPrompt,
+    },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.messageFeedback.count.mockResolvedValue(2);
+    jest.mocked(SettingsService.prototype.getSystemPrompt).mockResolvedValue('Be helpful.');
+  });
+
+  it('lists thumbs down answers waiting for review, filtered by reason', async () => {
+    db.messageFeedback.findMany.mockResolvedValue([]);
+
+    await service.getFeedbackQueue({ page: 2, limit: 10, status: 'pending', reason: 'inaccurate' });
+
+    const where = { rating: 'down', reviewedAt: null, reason: 'inaccurate' };
+    expect(db.messageFeedback.findMany).toHaveBeenCalledWith(expect.objectContaining({ where, skip: 10, take: 10 }));
+    expect(db.messageFeedback.count).toHaveBeenCalledWith({ where });
+  });
+
+  it('lists reviewed answers', async () => {
+    db.messageFeedback.findMany.mockResolvedValue([]);
+
+    await service.getFeedbackQueue({ page: 1, limit: 10, status: 'reviewed' });
+
+    expect(db.messageFeedback.count).toHaveBeenCalledWith({ where: { rating: 'down', reviewedAt: { not: null } } });
+  });
+
+  it('shows each answer with its question, sources and the prompt it was generated under', async () => {
+    db.messageFeedback.findMany.mockResolvedValue([queueEntry({ content: 'Be brief.' }), queueEntry(null)]);
+
+    const { items, total } = await service.getFeedbackQueue({ page: 1, limit: 10, status: 'all' });
+
+    expect(total).toBe(2);
+    expect(items[0]).toEqual({
+      id: 'feedback-1',
+      reason: 'inaccurate',
+      comment: 'Wrong plan',
+      createdAt: new Date('2026-01-01'),
+      reviewedAt: null,
+      userEmail: 'ana@example.com',
+      threadId: 'thread-1',
+      threadTitle: 'Billing',
+      question: 'How do I cancel?',
+      answer: {
+        id: 'answer-1',
+        content: 'Cancel in billing [1].',
+        provider: 'openai',
+        model: 'gpt-4o',
+        incomplete: false,
+        createdAt: new Date('2026-01-01'),
+      },
+      sources: [{ index: 1, chunkId: 'chunk-1', sourceId: 'source-1', title: 'Manual', excerpt: 'Cancel in settings.' }],
+      systemPrompt: 'Be brief.',
+      systemPromptChanged: true,
+    });
+    // Answers from before prompts were recorded can't tell whether it changed
+    expect(items[1]).toEqual(expect.objectContaining({ systemPrompt: null, systemPromptChanged: false }));
+  });
+});
@@ -0,0 +1,330 @@
+import { OpenAIService } from '../openaiService';
+import { SettingsService } from '../settingsService';
+import { ModelPricingService } from '../modelPricingService';
+import { AI_CONFIG, EMBEDDING_CONFIG, LLMProviderError, ValidationError } from '@fluxo/shared';
+import type { LLMStreamEvent } from '../../interfaces/LLMProvider';
+
+jest.mock('../modelPricingService');
+jest.mock('../settingsService');
+jest.mock('../embeddingCacheService');
+
+const apiError = (fields: { status?: number; code?: string; message?: string }) =>
+  Object.assign(new Error(fields.message ?? 'API error'), fields);
+
+async function* failingStream(error: unknown): AsyncIterable<LLMStreamEvent> {
+  throw error;
+}
+
+async function* textStream(content: string): AsyncIterable<LLMStreamEvent> {
+  yield { type: 'delta', content };
+}
+
+// Sends some text, then fails the way an aborted or dropped stream does
+async function* interruptedStream(content: string, error: unknown): AsyncIterable<LLMStreamEvent> {
+  yield { type: 'delta', content };
+  throw error;
+}
+
+describe('OpenAIService.toProviderError', () => {
+  const service = new OpenAIService();
+  const reasonOf = (error: unknown) => {
+    const result = service['toProviderError'](error);
+    return result instanceof LLMProviderError ? result.reason : undefined;
+  };
+
+  it('classifies context window errors by code or message', () => {
+    expect(reasonOf(apiError({ status: 400, code: 'context_length_exceeded' }))).toBe('context_too_long');
+    expect(reasonOf(apiError({ status: 400, message: "This model's maximum context length is 128000 tokens" }))).toBe('context_too_long');
+    expect(reasonOf(apiError({ status: 400, message: 'prompt is too long: 210000 tokens > 200000 maximum' }))).toBe('context_too_long');
+  });
+
+  it('classifies rate limits by status or message', () => {
+    expect(reasonOf(apiError({ status: 429 }))).toBe('rate_limited');
+    expect(reasonOf(apiError({ message: 'Rate limit reached for requests' }))).toBe('rate_limited');
+  });
+
+  it('classifies server errors and connection failures as the provider being down', () => {
+    expect(reasonOf(apiError({ status: 500 }))).toBe('provider_down');
+    expect(reasonOf(apiError({ status: 503 }))).toBe('provider_down');
+    expect(reasonOf(apiError({ message: 'Overloaded' }))).toBe('provider_down');
+    expect(reasonOf(apiError({ message: 'read ECONNRESET' }))).toBe('provider_down');
+    expect(reasonOf(apiError({ message: 'Connection error.' }))).toBe('provider_down');
+  });
+
+  it('returns other errors unchanged', () => {
+    const badRequest = apiError({ status: 400, message: 'Invalid model' });
+    const unauthorized = apiError({ status: 401, message: 'Incorrect API key provided' });
+
+    expect(service['toProviderError'](badRequest)).toBe(badRequest);
+    expect(service['toProviderError'](unauthorized)).toBe(unauthorized);
+  });
+
+  it('keeps an error that is already classified', () => {
+    const error = new LLMProviderError('Too long', 'context_too_long');
+
+    expect(service['toProviderError'](error)).toBe(error);
+  });
+});
+
+describe('OpenAIService.openChatStream', () => {
+  const service = new OpenAIService();
+  const primary = { providerName: 'openai', streamChat: jest.fn() };
+  const fallback = { providerName: 'anthropic', streamChat: jest.fn() };
+  const candidates = [
+    { provider: 'openai', model: 'gpt-4o' },
+    { provider: 'anthropic', model: 'claude' },
+  ];
+  const request = { messages: [{ role: 'user' as const, content: 'Hi' }], maxTokens: 100, temperature: 0.7 };
+
+  beforeEach(() => {
+    primary.streamChat.mockReset();
+    fallback.streamChat.mockReset();
+    service['providers'] = new Map<string, any>([['openai', primary], ['anthropic', fallback]]);
+    jest.spyOn(service as any, 'getRetryDelay').mockReturnValue(0);
+  });
+
+  it('retries a rate limited model before answering with it', async () => {
+    primary.streamChat
+      .mockReturnValueOnce(failingStream(apiError({ status: 429 })))
+      .mockReturnValueOnce(textStream('Hello'));
+
+    const result = await service['openChatStream'](candidates, request);
+
+    expect(result.model).toBe('gpt-4o');
+    expect(primary.streamChat).toHaveBeenCalledTimes(2);
+    expect(fallback.streamChat).not.toHaveBeenCalled();
+  });
+
+  it('moves to the fallback once the retries are used up', async () => {
+    primary.streamChat.mockImplementation(() => failingStream(apiError({ status: 503 })));
+    fallback.streamChat.mockReturnValue(textStream('Hello'));
+
+    const result = await service['openChatStream'](candidates, request);
+
+    expect(result.model).toBe('claude');
+    expect(primary.streamChat).toHaveBeenCalledTimes(AI_CONFIG.MAX_RETRIES + 1);
+  });
+
+  it('skips straight to the fallback when the prompt exceeds the context window', async () => {
+    primary.streamChat.mockReturnValue(failingStream(apiError({ status: 400, code: 'context_length_exceeded' })));
+    fallback.streamChat.mockReturnValue(textStream('Hello'));
+
+    const result = await service['openChatStream'](candidates, request);
+
+    expect(result.model).toBe('claude');
+    expect(primary.streamChat).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws the last classified error when every candidate fails', async () => {
+    primary.streamChat.mockImplementation(() => failingStream(apiError({ status: 429 })));
+    fallback.streamChat.mockImplementation(() => failingStream(apiError({ message: 'Overloaded' })));
+
+    await expect(service['openChatStream'](candidates, request)).rejects.toMatchObject({ reason: 'provider_down' });
+  });
+
+  it('rethrows unclassified errors without trying the fallback', async () => {
+    const error = apiError({ status: 401, message: 'Incorrect API key provided' });
+    primary.streamChat.mockReturnValue(failingStream(error));
+
+    await expect(service['openChatStream'](candidates, request)).rejects.toBe(error);
+    expect(primary.streamChat).toHaveBeenCalledTimes(1);
+    expect(fallback.streamChat).not.toHaveBeenCalled();
+  });
+});
+
+describe('OpenAIService embedding batches', () => {
+  const service = new OpenAIService();
+  const provider = { providerName: 'openai', embed: jest.fn() };
+  const settings = { provider: 'openai', model: 'text-embedding-3-small' };
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    provider.embed.mockReset();
+    service['providers'] = new Map<string, any>([['openai', provider]]);
+    jest.spyOn(service as any, 'getRetryDelay').mockReturnValue(0);
+  });
+
+  it('starts a new batch at the input limit', () => {
+    const texts = Array.from({ length: EMBEDDING_CONFIG.MAX_BATCH_INPUTS + 1 }, (_, i) => `text ${i}`);
+
+    const batches = service['buildEmbeddingBatches'](texts);
+
+    expect(batches.map(batch => batch.length)).toEqual([EMBEDDING_CONFIG.MAX_BATCH_INPUTS, 1]);
+  });
+
+  it('starts a new batch before the token limit is exceeded', () => {
+    // About 75k tokens each, so only two fit under the 200k budget
+    const texts = ['a', 'b', 'c'].map(letter => letter.repeat(300000));
+
+    const batches = service['buildEmbeddingBatches'](texts);
+
+    expect(batches.map(batch => batch.map(text => text[0]))).toEqual([['a', 'b'], ['c']]);
+  });
+
+  it('returns the embeddings of every batch in input order', async () => {
+    jest.spyOn(service as any, 'buildEmbeddingBatches').mockReturnValue([['one', 'two'], ['three']]);
+    provider.embed.mockImplementation(async (texts: string[]) => texts.map(text => [text.length]));
+
+    const embeddings = await service['requestEmbeddings'](['one', 'two', 'three'], settings);
+
+    expect(provider.embed).toHaveBeenCalledTimes(2);
+    expect(embeddings).toEqual([[3], [3], [5]]);
+  });
+
+  it('retries a rate limited batch', async () => {
+    provider.embed
+      .mockRejectedValueOnce(apiError({ status: 429 }))
+      .mockResolvedValueOnce([[1]]);
+
+    await expect(service['requestEmbeddings'](['one'], settings)).resolves.toEqual([[1]]);
+    expect(provider.embed).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up after the configured retries', async () => {
+    provider.embed.mockRejectedValue(apiError({ status: 429 }));
+
+    await expect(service['requestEmbeddings'](['one'], settings)).rejects.toMatchObject({ status: 429 });
+    expect(provider.embed).toHaveBeenCalledTimes(EMBEDDING_CONFIG.MAX_RETRIES + 1);
+  });
+
+  it('does not retry other errors', async () => {
+    provider.embed.mockRejectedValue(apiError({ status: 400, message: 'Input too long' }));
+
+    await expect(service['requestEmbeddings'](['one'], settings)).rejects.toThrow('Input too long');
+    expect(provider.embed).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('OpenAIService.getRetryDelay', () => {
+  const service = new OpenAIService();
+
+  it('waits as long as the Retry-After header asks', () => {
+    const error = Object.assign(apiError({ status: 429 }), { headers: { 'retry-after': '3' } });
+
+    expect(service['getRetryDelay'](error, 0, 1000, 30000)).toBe(3000);
+  });
+
+  it('backs off exponentially up to the maximum otherwise', () => {
+    const error = apiError({ status: 429 });
+
+    const delay = service['getRetryDelay'](error, 2, 1000, 30000);
+    expect(delay).toBeGreaterThanOrEqual(4000);
+    expect(delay).toBeLessThan(4250);
+    expect(service['getRetryDelay'](error, 10, 1000, 30000)).toBe(30000);
+  });
+});
+
+describe('OpenAIService provider selection', () => {
+  const service = new OpenAIService();
+  const anthropic = { providerName: 'anthropic', complete: jest.fn() };
+  const aiSettings = (provider: string, model: string) =>
+    jest.mocked(SettingsService.prototype.getAISettings).mockResolvedValue({
+      systemPrompt: 'Be helpful.',
+      provider: provider as 'anthropic',
+      model,
+      maxTokens: 1000,
+      temperature: 0.7,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service['providers'] = new Map<string, any>([['anthropic', anthropic]]);
+    anthropic.complete.mockResolvedValue({ content: 'Done', tokensInput: 20, tokensOutput: 4 });
+    jest.mocked(ModelPricingService.prototype.calculateInferenceCost).mockResolvedValue({ inputCost: 0.001, outputCost: 0.001, totalCost: 0.002 });
+  });
+
+  it('completes with the provider and model chosen in settings', async () => {
+    aiSettings('anthropic', 'claude');
+
+    const result = await service.generateCompletion([{ role: 'user', content: 'Hi' }], { maxTokens: 50 });
+
+    expect(anthropic.complete).toHaveBeenCalledWith(expect.objectContaining({ model: 'claude', maxTokens: 50, temperature: 0 }));
+    expect(ModelPricingService.prototype.calculateInferenceCost).toHaveBeenCalledWith('anthropic', 'claude', 20, 4);
+    expect(result).toEqual({ content: 'Done', tokensInput: 20, tokensOutput: 4, cost: 0.002, provider: 'anthropic', model: 'claude' });
+  });
+
+  it('rejects a provider that is not registered', async () => {
+    aiSettings('mistral', 'large');
+
+    await expect(
+      service.generateCompletion([{ role: 'user', content: 'Hi' }], { maxTokens: 50 })
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(anthropic.complete).not.toHaveBeenCalled();
+  });
+});
+
+describe('OpenAIService.streamChatCompletion', () => {
+  const service = new OpenAIService();
+  const provider = { providerName: 'openai', streamChat: jest.fn() };
+  const messages = [{ role: 'user', content: 'Hi' }];
+
+  const collect = async (signal?: AbortSignal) => {
+    const chunks = [];
+    for await (const chunk of service.streamChatCompletion(messages, 'Context', undefined, signal)) {
+      chunks.push(chunk);
+    }
+    return chunks;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service['providers'] = new Map<string, any>([['openai', provider]]);
+    jest.mocked(SettingsService.prototype.getAISettings).mockResolvedValue({
+      systemPrompt: 'Be helpful.',
+      provider: 'openai',
+      model: 'gpt-4o',
+      maxTokens: 1000,
+      temperature: 0.7,
+    });
+    jest.mocked(SettingsService.prototype.getFallbackModels).mockResolvedValue([]);
+    jest.mocked(SettingsService.prototype.getSystemPrompt).mockResolvedValue('Be helpful.');
+    jest.mocked(ModelPricingService.prototype.calculateInferenceCost).mockResolvedValue({ inputCost: 0, outputCost: 0.001, totalCost: 0.001 });
+  });
+
+  it('finishes a complete answer with the reported usage', async () => {
+    provider.streamChat.mockReturnValue((async function* () {
+      yield { type: 'delta', content: 'Hello there.' };
+      yield { type: 'usage', tokensInput: 30, tokensOutput: 3 };
+    })());
+
+    const finished = (await collect()).pop();
+
+    expect(finished).toEqual(expect.objectContaining({
+      finished: true,
+      fullResponse: 'Hello there.',
+      tokensInput: 30,
+      tokensOutput: 3,
+      incomplete: false,
+    }));
+  });
+
+  it('keeps and bills the partial answer when the stream is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    provider.streamChat.mockReturnValue(interruptedStream('Hello th', Object.assign(new Error('Request was aborted.'), { name: 'AbortError' })));
+
+    const finished = (await collect(controller.signal)).pop();
+
+    expect(provider.streamChat).toHaveBeenCalledWith(expect.objectContaining({ signal: controller.signal }));
+    expect(finished).toEqual(expect.objectContaining({ finished: true, fullResponse: 'Hello th', incomplete: true, cost: 0.001 }));
+    // Nothing was reported, so the output is estimated from the text received
+    expect(finished?.tokensOutput).toBeGreaterThan(0);
+  });
+
+  it('keeps the partial answer when the provider drops the stream', async () => {
+    provider.streamChat.mockReturnValue(interruptedStream('Hello th', apiError({ message: 'read ECONNRESET' })));
+
+    const finished = (await collect()).pop();
+
+    expect(finished).toEqual(expect.objectContaining({ fullResponse: 'Hello th', incomplete: true }));
+  });
+
+  it('fails when the stream breaks before any text arrived', async () => {
+    provider.streamChat.mockReturnValue((async function* () {
+      yield { type: 'usage', tokensInput: 30, tokensOutput: 0 };
+      throw apiError({ status: 401, message: 'Incorrect API key provided' });
+    })());
+
+    await expect(collect()).rejects.toThrow('Incorrect API key provided');
+  });
+});
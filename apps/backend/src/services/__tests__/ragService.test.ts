@@ -0,0 +1,405 @@
+import { createHash } from 'crypto';
+import { RAGService } from '../ragService';
+import { OpenAIService } from '../openaiService';
+import { SettingsService } from '../settingsService';
+import { prisma } from '../../config/database';
+import type { RetrievalSettings } from '@fluxo/shared';
+
+jest.mock('../openaiService');
+jest.mock('../settingsService');
+jest.mock('../taskQueueService');
+
+const chunk = (id: string, distance = 0.5) => ({
+  id,
+  source_id: 'source-1',
+  text: `text of ${id}`,
+  chunk_index: 0,
+  title: 'Source',
+  tags: [],
+  metadata: null,
+  distance,
+});
+
+const db = prisma as any;
+
+const retrievalSettings = (overrides: Partial<RetrievalSettings> = {}): RetrievalSettings => ({
+  hybridEnabled: false,
+  vectorWeight: 1,
+  keywordWeight: 1,
+  rrfK: 60,
+  distanceMetric: 'cosine',
+  maxDistance: null,
+  reranker: 'none',
+  rerankCandidateMultiplier: 3,
+  contextTokenBudget: 10000,
+  ...overrides,
+});
+
+// Sets up a retrieval whose vector search returns chunks
+const mockRetrieval = (chunks: ReturnType<typeof chunk>[], settings: Partial<RetrievalSettings> = {}) => {
+  jest.mocked(OpenAIService.prototype.embedTexts).mockResolvedValue({ embeddings: [[0.1, 0.2]], cached: [false] });
+  jest.mocked(OpenAIService.prototype.calculateEmbeddingCost).mockResolvedValue(0.001);
+  jest.mocked(SettingsService.prototype.getRetrievalSettings).mockResolvedValue(retrievalSettings(settings));
+  db.$queryRaw.mockResolvedValue(chunks);
+};
+
+describe('RAGService.fuseRankings', () => {
+  const service = new RAGService();
+  const fuseRankings = (...args: Parameters<RAGService['fuseRankings']>) => service['fuseRankings'](...args);
+
+  it('scores each chunk by weight / (k + rank)', () => {
+    const fused = fuseRankings([{ chunks: [chunk('a'), chunk('b')], weight: 1 }], 60, 10);
+
+    expect(fused.map(c => c.id)).toEqual(['a', 'b']);
+    expect(fused[0].score).toBeCloseTo(1 / 61);
+    expect(fused[1].score).toBeCloseTo(1 / 62);
+  });
+
+  it('adds up the contributions of a chunk found by several lists', () => {
+    const fused = fuseRankings(
+      [
+        { chunks: [chunk('a'), chunk('b')], weight: 1 },
+        { chunks: [chunk('b'), chunk('c')], weight: 1 },
+      ],
+      60,
+      10
+    );
+
+    expect(fused.map(c => c.id)).toEqual(['b', 'a', 'c']);
+    expect(fused[0].score).toBeCloseTo(1 / 62 + 1 / 61);
+  });
+
+  it('lets a heavier list outrank a lighter one', () => {
+    const fused = fuseRankings(
+      [
+        { chunks: [chunk('vector')], weight: 1 },
+        { chunks: [chunk('keyword')], weight: 2 },
+      ],
+      60,
+      10
+    );
+
+    expect(fused.map(c => c.id)).toEqual(['keyword', 'vector']);
+  });
+
+  it('ignores lists with no weight', () => {
+    const fused = fuseRankings(
+      [
+        { chunks: [chunk('a')], weight: 1 },
+        { chunks: [chunk('b')], weight: 0 },
+      ],
+      60,
+      10
+    );
+
+    expect(fused.map(c => c.id)).toEqual(['a']);
+  });
+
+  it('breaks score ties by distance and keeps at most limit chunks', () => {
+    const fused = fuseRankings(
+      [
+        { chunks: [chunk('far', 0.6)], weight: 1 },
+        { chunks: [chunk('near', 0.2)], weight: 1 },
+        { chunks: [chunk('nearest', 0.1)], weight: 1 },
+      ],
+      60,
+      2
+    );
+
+    expect(fused.map(c => c.id)).toEqual(['nearest', 'near']);
+  });
+});
+
+describe('RAGService.searchRelevantContext', () => {
+  const service = new RAGService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('numbers the retrieved chunks so the answer can cite them', async () => {
+    mockRetrieval([chunk('a', 0.1), { ...chunk('b', 0.2), source_id: 'source-2', title: 'Other' }]);
+
+    const result = await service.searchRelevantContext('question');
+
+    expect(result.sources).toEqual([
+      expect.objectContaining({ index: 1, chunkId: 'a', sourceId: 'source-1', title: 'Source', excerpt: 'text of a' }),
+      expect.objectContaining({ index: 2, chunkId: 'b', sourceId: 'source-2', title: 'Other', excerpt: 'text of b' }),
+    ]);
+    expect(result.context).toBe('[1] Source\ntext of a\n\n[2] Other\ntext of b');
+  });
+
+  it('returns no context rather than failing the chat when retrieval errors', async () => {
+    mockRetrieval([]);
+    jest.mocked(OpenAIService.prototype.embedTexts).mockRejectedValue(new Error('Embedding failed'));
+
+    const result = await service.searchRelevantContext('question');
+
+    expect(result.context).toBe('');
+    expect(result.sources).toEqual([]);
+    expect(result.embeddingCost).toBe(0.001);
+  });
+});
+
+describe('RAGService distance metric and cutoff', () => {
+  const service = new RAGService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it.each([
+    ['l2', '<->'],
+    ['cosine', '<=>'],
+    ['inner_product', '<#>'],
+  ] as const)('compares %s distances with the %s operator', (metric, operator) => {
+    const distanceSql = service['buildDistanceSql']([0.1, 0.2], metric);
+
+    expect(distanceSql.sql).toBe(`(sc.embedding ${operator} ?::vector)`);
+    expect(distanceSql.values).toEqual(['[0.1,0.2]']);
+  });
+
+  it('adds no cutoff when there is no maximum distance', () => {
+    const distanceSql = service['buildDistanceSql']([0.1], 'cosine');
+
+    expect(service['buildCutoffSql'](distanceSql, null).sql).toBe('');
+  });
+
+  it('filters out chunks farther than the maximum distance', () => {
+    const distanceSql = service['buildDistanceSql']([0.1], 'cosine');
+    const cutoffSql = service['buildCutoffSql'](distanceSql, 0.4);
+
+    expect(cutoffSql.sql).toBe('AND (sc.embedding <=> ?::vector) <= ?');
+    expect(cutoffSql.values).toEqual(['[0.1]', 0.4]);
+  });
+
+  it('searches with the configured metric and cutoff', async () => {
+    mockRetrieval([chunk('a')], { distanceMetric: 'l2', maxDistance: 0.8 });
+
+    await service.searchRelevantContext('question');
+
+    const [strings, ...values] = db.$queryRaw.mock.calls[0];
+    const cutoffSql = values.find((value: any) => value?.sql?.startsWith('AND (sc.embedding'));
+    expect(strings.join('')).toContain('FROM source_chunks sc');
+    expect(cutoffSql.sql).toBe('AND (sc.embedding <-> ?::vector) <= ?');
+    expect(cutoffSql.values).toContain(0.8);
+  });
+});
+
+describe('RAGService.processSource', () => {
+  const service = new RAGService();
+  const hash = (text: string) => createHash('sha256').update(text).digest('hex');
+  const embedding = () => Array(1536).fill(0.1);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.source.findUnique.mockResolvedValue({
+      id: 'source-1',
+      title: 'Manual',
+      rawText: '# Setup\nInstall it.\n# Usage\nRun it.',
+      chunkingStrategy: 'structure',
+    });
+    db.source.update.mockResolvedValue({});
+    db.source.updateMany.mockResolvedValue({ count: 1 });
+    db.$executeRaw.mockResolvedValue(1);
+  });
+
+  it('reuses stored chunks, embeds the missing ones and removes the stale ones', async () => {
+    db.$queryRaw.mockResolvedValue([
+      { id: 'stale', chunk_index: 0, content_hash: hash('Old\n\nGone.') },
+      { id: 'kept', chunk_index: 1, content_hash: hash('Setup\n\nInstall it.') },
+    ]);
+    jest.mocked(OpenAIService.prototype.generateEmbeddings).mockResolvedValue([embedding()]);
+
+    const result = await service.processSource('source-1');
+
+    expect(result).toEqual({ totalChunks: 2, embeddedChunks: 1, reusedChunks: 1, removedChunks: 1 });
+    expect(OpenAIService.prototype.generateEmbeddings).toHaveBeenCalledWith(['Usage\n\nRun it.']);
+
+    const statements = db.$executeRaw.mock.calls.map(([strings]: [string[]]) => strings.join('?').trim());
+    expect(statements[0]).toMatch(/^UPDATE source_chunks SET chunk_index/);
+    expect(statements[1]).toMatch(/^INSERT INTO source_chunks/);
+    expect(statements[2]).toMatch(/^DELETE FROM source_chunks/);
+    expect(db.$executeRaw.mock.calls[2][1]).toEqual(['stale']);
+  });
+
+  it('records progress after the reused chunks and after each embedded batch', async () => {
+    db.$queryRaw.mockResolvedValue([]);
+    jest.mocked(OpenAIService.prototype.generateEmbeddings).mockResolvedValue([embedding(), embedding()]);
+
+    await service.processSource('source-1');
+
+    const updates = db.source.update.mock.calls.map(([{ data }]: any) => data);
+    expect(updates).toEqual([
+      expect.objectContaining({ processingStatus: 'processing', chunkCount: 2, processedChunks: 0 }),
+      { processedChunks: 0 },
+      { processedChunks: 2 },
+      expect.objectContaining({ processingStatus: 'completed' }),
+    ]);
+  });
+
+  it('marks the source failed and keeps the old chunks when embedding fails', async () => {
+    db.$queryRaw.mockResolvedValue([{ id: 'old', chunk_index: 0, content_hash: hash('Old\n\nGone.') }]);
+    jest.mocked(OpenAIService.prototype.generateEmbeddings).mockRejectedValue(new Error('Rate limited'));
+
+    await expect(service.processSource('source-1')).rejects.toThrow('Rate limited');
+
+    expect(db.source.updateMany).toHaveBeenCalledWith({
+      where: { id: 'source-1' },
+      data: { processingStatus: 'failed', processingError: 'Rate limited' },
+    });
+    expect(db.$executeRaw).not.toHaveBeenCalled();
+  });
+});
+
+describe('RAGService tag scoping', () => {
+  const service = new RAGService();
+  const tagFilters = () => db.$queryRaw.mock.calls.map(([, ...values]: any[]) =>
+    values.find((value: any) => value?.sql?.includes('s.tags &&'))
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('adds no filter when no tags are chosen', () => {
+    expect(service['buildTagFilterSql']([]).sql).toBe('');
+  });
+
+  it('keeps chunks whose source has any of the chosen tags', () => {
+    const filterSql = service['buildTagFilterSql'](['billing', 'faq']);
+
+    expect(filterSql.sql).toBe('AND s.tags && ?::text[]');
+    expect(filterSql.values).toEqual([['billing', 'faq']]);
+  });
+
+  it('filters both the vector and the keyword search', async () => {
+    mockRetrieval([chunk('a')], { hybridEnabled: true });
+
+    await service.searchRelevantContext('question', { tags: ['billing'] });
+
+    expect(db.$queryRaw).toHaveBeenCalledTimes(2);
+    expect(tagFilters().map((filter: any) => filter?.values)).toEqual([[['billing']], [['billing']]]);
+  });
+
+  it('searches every source when the thread has no tags', async () => {
+    mockRetrieval([chunk('a')], { hybridEnabled: true });
+
+    await service.searchRelevantContext('question');
+
+    expect(tagFilters()).toEqual([undefined, undefined]);
+  });
+});
+
+describe('RAGService.previewRetrieval', () => {
+  const service = new RAGService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns the ranked chunks with their tags, headings and the settings used', async () => {
+    mockRetrieval([{ ...chunk('a'), tags: ['docs'], metadata: { headingPath: ['Manual', 'Setup'] } }]);
+
+    const preview = await service.previewRetrieval('question', { tags: ['docs'] });
+
+    expect(preview.query).toBe('question');
+    expect(preview.tags).toEqual(['docs']);
+    expect(preview.chunks).toEqual([
+      expect.objectContaining({ index: 1, chunkId: 'a', tags: ['docs'], headingPath: ['Manual', 'Setup'] }),
+    ]);
+    expect(preview.context).toBe('[1] Source\ntext of a');
+    expect(preview.settings).toEqual(retrievalSettings());
+    expect(preview.embeddingCost).toBe(0.001);
+  });
+
+  it('reports retrieval errors instead of returning an empty result', async () => {
+    mockRetrieval([]);
+    jest.mocked(OpenAIService.prototype.embedTexts).mockRejectedValue(new Error('Embedding failed'));
+
+    await expect(service.previewRetrieval('question')).rejects.toThrow('Embedding failed');
+  });
+});
+
+// A chunk as it comes out of the fused ranking
+const ranked = (id: string) => ({ ...chunk(id), score: 0.01 });
+
+describe('RAGService re-ranking', () => {
+  const service = new RAGService();
+  const reranker = { rerankerName: 'test', rerank: jest.fn() };
+  const usage = { tokensInput: 120, tokensOutput: 10, cost: 0.0003 };
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+    service['rerankers'].set('llm', reranker as any);
+  });
+
+  it('orders the candidates by re-rank score and reports the usage', async () => {
+    reranker.rerank.mockResolvedValue({ scores: [0.2, 0.9, 0.5], ...usage });
+
+    const result = await service['rerankChunks']('question', [ranked('a'), ranked('b'), ranked('c')], 'llm');
+
+    expect(result.chunks.map(c => [c.id, c.rerankScore])).toEqual([['b', 0.9], ['c', 0.5], ['a', 0.2]]);
+    expect(result.usage).toEqual(usage);
+  });
+
+  it('keeps the fused order for chunks with the same score', async () => {
+    reranker.rerank.mockResolvedValue({ scores: [0.5, 0.9, 0.5], ...usage });
+
+    const result = await service['rerankChunks']('question', [ranked('a'), ranked('b'), ranked('c')], 'llm');
+
+    expect(result.chunks.map(c => c.id)).toEqual(['b', 'a', 'c']);
+  });
+
+  it('falls back to the fused order at no cost when the re-ranker fails', async () => {
+    reranker.rerank.mockRejectedValue(new Error('Provider down'));
+    const candidates = [ranked('a'), ranked('b')];
+
+    const result = await service['rerankChunks']('question', candidates, 'llm');
+
+    expect(result.chunks).toBe(candidates);
+    expect(result.usage).toEqual({ tokensInput: 0, tokensOutput: 0, cost: 0 });
+  });
+
+  it('fetches more candidates for the re-ranker and keeps the limit', async () => {
+    mockRetrieval([], { reranker: 'llm', rerankCandidateMultiplier: 4 });
+    const search = jest.spyOn(service as any, 'searchHybridChunks')
+      .mockResolvedValue([ranked('a'), ranked('b'), ranked('c')]);
+    reranker.rerank.mockResolvedValue({ scores: [0.1, 0.3, 0.2], ...usage });
+
+    const preview = await service.previewRetrieval('question', { limit: 2 });
+
+    expect(search.mock.calls[0][2]).toBe(8);
+    expect(preview.chunks.map(c => c.chunkId)).toEqual(['b', 'c']);
+    expect(preview.rerankUsage).toEqual(usage);
+  });
+
+  it('fetches only the limit without a re-ranker', async () => {
+    mockRetrieval([], { reranker: 'none', rerankCandidateMultiplier: 4 });
+    const search = jest.spyOn(service as any, 'searchHybridChunks').mockResolvedValue([]);
+
+    await service.previewRetrieval('question', { limit: 2 });
+
+    expect(search.mock.calls[0][2]).toBe(2);
+    expect(reranker.rerank).not.toHaveBeenCalled();
+  });
+});
+
+describe('RAGService.fitContextBudget', () => {
+  const service = new RAGService();
+  const large = { ...ranked('large'), text: 'x'.repeat(400) };
+
+  it('skips a chunk too large for the budget and keeps smaller ones after it', () => {
+    // Each small entry is about 6 tokens, the large one about 100
+    const selected = service['fitContextBudget']([ranked('a'), large, ranked('b')], 10, 20);
+
+    expect(selected.map(c => c.id)).toEqual(['a', 'b']);
+  });
+
+  it('stops at the limit even with budget left', () => {
+    const selected = service['fitContextBudget']([ranked('a'), ranked('b'), ranked('c')], 2, 10000);
+
+    expect(selected.map(c => c.id)).toEqual(['a', 'b']);
+  });
+});
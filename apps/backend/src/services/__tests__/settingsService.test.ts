@@ -0,0 +1,143 @@
+import { SettingsService } from '../settingsService';
+import { prisma } from '../../config/database';
+import logger from '../../config/logger';
+import { RAG_CONFIG } from '@fluxo/shared';
+
+const db = prisma as any;
+
+// Rows as stored in system_settings, keyed by setting
+const storedSettings = (settings: Record<string, { value: string; type: string }>) =>
+  db.systemSettings.findUnique.mockImplementation(async ({ where }: any) => settings[where.key] ?? null);
+
+describe('SettingsService.getRetrievalSettings', () => {
+  let service: SettingsService;
+
+  beforeAll(() => {
+    // The cache sweep interval would otherwise keep the test run alive
+    jest.useFakeTimers();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new SettingsService();
+  });
+
+  it('uses the stored values when they are valid', async () => {
+    storedSettings({
+      rag_hybrid_enabled: { value: 'false', type: 'boolean' },
+      rag_vector_weight: { value: '0.7', type: 'number' },
+      rag_keyword_weight: { value: '0.3', type: 'number' },
+      rag_rrf_k: { value: '20', type: 'number' },
+    });
+
+    const settings = await service.getRetrievalSettings();
+
+    expect(settings).toMatchObject({ hybridEnabled: false, vectorWeight: 0.7, keywordWeight: 0.3, rrfK: 20 });
+  });
+
+  it('falls back to the defaults for missing settings', async () => {
+    storedSettings({});
+
+    const settings = await service.getRetrievalSettings();
+
+    expect(settings).toMatchObject({
+      hybridEnabled: RAG_CONFIG.HYBRID_SEARCH_ENABLED,
+      vectorWeight: RAG_CONFIG.VECTOR_WEIGHT,
+      keywordWeight: RAG_CONFIG.KEYWORD_WEIGHT,
+      rrfK: RAG_CONFIG.RRF_K,
+    });
+  });
+
+  it('replaces non-numeric, empty and negative values with the defaults', async () => {
+    storedSettings({
+      rag_vector_weight: { value: 'heavy', type: 'number' },
+      rag_keyword_weight: { value: '-1', type: 'number' },
+      rag_rrf_k: { value: '', type: 'string' },
+    });
+
+    const settings = await service.getRetrievalSettings();
+
+    expect(settings).toMatchObject({
+      vectorWeight: RAG_CONFIG.VECTOR_WEIGHT,
+      keywordWeight: RAG_CONFIG.KEYWORD_WEIGHT,
+      rrfK: RAG_CONFIG.RRF_K,
+    });
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Invalid rag_rrf_k'));
+  });
+
+  it('reads a hybrid flag stored as text', async () => {
+    storedSettings({ rag_hybrid_enabled: { value: 'false', type: 'string' } });
+
+    expect((await service.getRetrievalSettings()).hybridEnabled).toBe(false);
+  });
+
+  it('falls back to the default hybrid flag for anything else', async () => {
+    storedSettings({ rag_hybrid_enabled: { value: 'sometimes', type: 'string' } });
+
+    expect((await service.getRetrievalSettings()).hybridEnabled).toBe(RAG_CONFIG.HYBRID_SEARCH_ENABLED);
+  });
+
+  it('uses the stored distance metric and cutoff', async () => {
+    storedSettings({
+      rag_distance_metric: { value: 'l2', type: 'string' },
+      rag_max_distance: { value: '0.8', type: 'number' },
+    });
+
+    expect(await service.getRetrievalSettings()).toMatchObject({ distanceMetric: 'l2', maxDistance: 0.8 });
+  });
+
+  it('falls back to the default metric and no cutoff for invalid values', async () => {
+    storedSettings({
+      rag_distance_metric: { value: 'manhattan', type: 'string' },
+      rag_max_distance: { value: '', type: 'number' },
+    });
+
+    expect(await service.getRetrievalSettings()).toMatchObject({
+      distanceMetric: RAG_CONFIG.DISTANCE_METRIC,
+      maxDistance: null,
+    });
+  });
+});
+
+describe('SettingsService.getPlanModels', () => {
+  let service: SettingsService;
+  const planModels = {
+    pro: [{ provider: 'anthropic', model: 'claude' }, { provider: 'openai', model: 'gpt-4o' }],
+  };
+
+  beforeAll(() => {
+    jest.useFakeTimers();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new SettingsService();
+  });
+
+  it('returns the models configured for the plan', async () => {
+    storedSettings({ plan_models: { value: JSON.stringify(planModels), type: 'json' } });
+
+    expect(await service.getPlanModels('pro')).toEqual(planModels.pro);
+  });
+
+  it('uses the global model for a plan without its own list', async () => {
+    storedSettings({
+      plan_models: { value: JSON.stringify(planModels), type: 'json' },
+      llm_provider: { value: 'openai', type: 'string' },
+      ai_model: { value: 'gpt-4o-mini', type: 'string' },
+    });
+
+    expect(await service.getPlanModels('free')).toEqual([{ provider: 'openai', model: 'gpt-4o-mini' }]);
+  });
+
+  it('uses the global model for every plan when the setting is invalid', async () => {
+    storedSettings({
+      plan_models: { value: JSON.stringify({ pro: [] }), type: 'json' },
+      llm_provider: { value: 'openai', type: 'string' },
+      ai_model: { value: 'gpt-4o-mini', type: 'string' },
+    });
+
+    expect(await service.getPlanModels('pro')).toEqual([{ provider: 'openai', model: 'gpt-4o-mini' }]);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Invalid plan_models'));
+  });
+});
@@ -0,0 +1,181 @@
+import bcrypt from 'bcryptjs';
+import { ShareService } from '../shareService';
+import { ChatService } from '../chatService';
+import { prisma } from '../../config/database';
+import { NotFoundError, ValidationError } from '@fluxo/shared';
+
+jest.mock('../chatService');
+
+const db = prisma as any;
+
+const passwordHash = bcrypt.hashSync('secret', 4);
+
+const share = (overrides: Record<string, unknown> = {}) => ({
+  id: 'share-1',
+  token: 'token-1',
+  includesProtected: false,
+  activeMessageId: 'answer-1',
+  createdAt: new Date('2026-01-01'),
+  ...overrides,
+});
+
+describe('ShareService.createThreadShare', () => {
+  const service = new ShareService();
+
+  const ownedThread = (hash: string | null) =>
+    db.chatThread.findFirst.mockResolvedValue({ id: 'thread-1', passwordHash: hash, activeMessageId: null });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.threadShare.findFirst.mockResolvedValue(null);
+    db.threadShare.create.mockImplementation(async ({ data }: any) => share(data));
+    db.threadShare.update.mockImplementation(async ({ data }: any) => share(data));
+    jest.mocked(ChatService.prototype.getActiveLeafId).mockResolvedValue('answer-1');
+  });
+
+  it('freezes the branch the thread shows in a new link', async () => {
+    ownedThread(null);
+
+    const created = await service.createThreadShare('thread-1', 'user-1', { allowPasswordProtected: false });
+
+    expect(db.threadShare.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ threadId: 'thread-1', includesProtected: false, activeMessageId: 'answer-1' }),
+    });
+    expect(created.includesProtected).toBe(false);
+  });
+
+  it('returns the active link instead of making another', async () => {
+    ownedThread(null);
+    db.threadShare.findFirst.mockResolvedValue(share());
+
+    const existing = await service.createThreadShare('thread-1', 'user-1', { allowPasswordProtected: false });
+
+    expect(existing.token).toBe('token-1');
+    expect(db.threadShare.create).not.toHaveBeenCalled();
+  });
+
+  describe('for a protected thread', () => {
+    beforeEach(() => {
+      ownedThread(passwordHash);
+    });
+
+    it('refuses to share without the opt-in', async () => {
+      await expect(
+        service.createThreadShare('thread-1', 'user-1', { allowPasswordProtected: false, password: 'secret' })
+      ).rejects.toThrow('Sharing a password-protected thread must be confirmed');
+      expect(db.threadShare.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses the opt-in without the password', async () => {
+      await expect(
+        service.createThreadShare('thread-1', 'user-1', { allowPasswordProtected: true })
+      ).rejects.toThrow('Thread is password protected');
+      expect(db.threadShare.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses the opt-in with a wrong password', async () => {
+      await expect(
+        service.createThreadShare('thread-1', 'user-1', { allowPasswordProtected: true, password: 'guess' })
+      ).rejects.toThrow('Invalid password');
+      expect(db.threadShare.create).not.toHaveBeenCalled();
+    });
+
+    it('shares with the opt-in and the password', async () => {
+      const created = await service.createThreadShare('thread-1', 'user-1', { allowPasswordProtected: true, password: 'secret' });
+
+      expect(created.includesProtected).toBe(true);
+    });
+
+    it('needs the password to re-enable a link made before the thread was protected', async () => {
+      db.threadShare.findFirst.mockResolvedValue(share());
+
+      await expect(
+        service.createThreadShare('thread-1', 'user-1', { allowPasswordProtected: true, password: 'guess' })
+      ).rejects.toBeInstanceOf(ValidationError);
+      expect(db.threadShare.update).not.toHaveBeenCalled();
+
+      const updated = await service.createThreadShare('thread-1', 'user-1', { allowPasswordProtected: true, password: 'secret' });
+
+      expect(db.threadShare.update).toHaveBeenCalledWith({ where: { id: 'share-1' }, data: { includesProtected: true } });
+      expect(updated.includesProtected).toBe(true);
+    });
+
+    it('returns a link that already includes the protected thread', async () => {
+      db.threadShare.findFirst.mockResolvedValue(share({ includesProtected: true }));
+
+      const existing = await service.createThreadShare('thread-1', 'user-1', { allowPasswordProtected: false });
+
+      expect(existing.token).toBe('token-1');
+      expect(db.threadShare.update).not.toHaveBeenCalled();
+    });
+  });
+
+  it('only shares the user\'s own threads', async () => {
+    db.chatThread.findFirst.mockResolvedValue(null);
+
+    await expect(
+      service.createThreadShare('thread-1', 'user-2', { allowPasswordProtected: false })
+    ).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
+
+describe('ShareService.getSharedThread', () => {
+  const service = new ShareService();
+
+  const sharedThread = (hash: string | null, includesProtected: boolean) =>
+    db.threadShare.findFirst.mockResolvedValue(share({
+      includesProtected,
+      thread: { id: 'thread-1', title: 'Billing', passwordHash: hash, createdAt: new Date('2026-01-01') },
+    }));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('shows the frozen branch without costs, models or source excerpts', async () => {
+    sharedThread(null, false);
+    jest.mocked(ChatService.prototype.getBranchMessages).mockResolvedValue([{
+      id: 'answer-1',
+      role: 'assistant',
+      content: 'Cancel in settings [1].',
+      sources: [{ index: 1, chunkId: 'chunk-1', sourceId: 'source-1', title: 'Manual', excerpt: 'Internal text' }],
+      incomplete: false,
+      costUsd: 0.01,
+      model: 'gpt-4o',
+      createdAt: new Date('2026-01-01'),
+    }]);
+
+    const shared = await service.getSharedThread('token-1');
+
+    expect(db.threadShare.findFirst).toHaveBeenCalledWith(expect.objectContaining({ where: { token: 'token-1', revokedAt: null } }));
+    expect(ChatService.prototype.getBranchMessages).toHaveBeenCalledWith('thread-1', 'answer-1');
+    expect(shared.messages).toEqual([{
+      id: 'answer-1',
+      role: 'assistant',
+      content: 'Cancel in settings [1].',
+      sources: [{ index: 1, title: 'Manual' }],
+      incomplete: false,
+      createdAt: new Date('2026-01-01'),
+    }]);
+  });
+
+  it('hides a link whose thread got a password after sharing', async () => {
+    sharedThread(passwordHash, false);
+
+    await expect(service.getSharedThread('token-1')).rejects.toBeInstanceOf(NotFoundError);
+    expect(ChatService.prototype.getBranchMessages).not.toHaveBeenCalled();
+  });
+
+  it('shows a protected thread the owner chose to share', async () => {
+    sharedThread(passwordHash, true);
+    jest.mocked(ChatService.prototype.getBranchMessages).mockResolvedValue([]);
+
+    await expect(service.getSharedThread('token-1')).resolves.toEqual(expect.objectContaining({ title: 'Billing' }));
+  });
+
+  it('answers unknown and revoked links like hidden ones', async () => {
+    db.threadShare.findFirst.mockResolvedValue(null);
+
+    await expect(service.getSharedThread('revoked')).rejects.toThrow('Shared conversation not found');
+  });
+});
@@ -0,0 +1,143 @@
+import { TaskQueueService } from '../taskQueueService';
+import { prisma } from '../../config/database';
+
+const db = prisma as any;
+
+const MINUTE = 60 * 1000;
+
+const task = (overrides: Record<string, unknown> = {}) => ({
+  id: 'task-1',
+  taskType: 'slow_task',
+  payload: {},
+  retryCount: 0,
+  maxRetries: 3,
+  ...overrides,
+});
+
+describe('TaskQueueService', () => {
+  let service: TaskQueueService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T12:00:00Z') });
+    jest.clearAllMocks();
+    db.taskQueue.update.mockResolvedValue({});
+    db.taskQueue.updateMany.mockResolvedValue({ count: 0 });
+    db.taskQueue.findFirst.mockResolvedValue(null);
+    service = new TaskQueueService();
+  });
+
+  afterEach(() => {
+    service.stopProcessing();
+    jest.useRealTimers();
+  });
+
+  describe('recovering interrupted tasks', () => {
+    it('only requeues processing tasks that stopped heartbeating', async () => {
+      await service['recoverInterruptedTasks']();
+
+      expect(db.taskQueue.updateMany).toHaveBeenCalledWith({
+        where: {
+          status: 'processing',
+          updatedAt: { lt: new Date('2026-01-01T11:50:00Z') },
+        },
+        data: { status: 'pending', startedAt: null },
+      });
+    });
+
+    it('recovers on start and again every stale timeout while processing', async () => {
+      service.startProcessing(5000);
+      expect(db.taskQueue.updateMany).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(10 * MINUTE);
+      expect(db.taskQueue.updateMany).toHaveBeenCalledTimes(2);
+
+      service.stopProcessing();
+      await jest.advanceTimersByTimeAsync(10 * MINUTE);
+      expect(db.taskQueue.updateMany).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('running a task', () => {
+    it('heartbeats while the handler runs and stops once it finishes', async () => {
+      let finish!: () => void;
+      service.registerHandler('slow_task', () => new Promise(resolve => {
+        finish = () => resolve({ done: true });
+      }));
+
+      const running = service['executeTask'](task());
+      await jest.advanceTimersByTimeAsync(2 * MINUTE);
+
+      const heartbeats = () => db.taskQueue.update.mock.calls.filter(([args]: any) =>
+        Object.keys(args.data).join() === 'updatedAt'
+      );
+      expect(heartbeats()).toHaveLength(2);
+      expect(heartbeats()[0][0]).toEqual({ where: { id: 'task-1' }, data: { updatedAt: expect.any(Date) } });
+
+      finish();
+      await running;
+      await jest.advanceTimersByTimeAsync(5 * MINUTE);
+
+      expect(heartbeats()).toHaveLength(2);
+      expect(db.taskQueue.update).toHaveBeenLastCalledWith({
+        where: { id: 'task-1' },
+        data: { status: 'completed', result: { done: true }, completedAt: expect.any(Date) },
+      });
+    });
+
+    it('stops heartbeating when the handler fails', async () => {
+      service.registerHandler('slow_task', async () => {
+        throw new Error('Embedding API down');
+      });
+
+      await service['executeTask'](task({ retryCount: 1 }));
+      db.taskQueue.update.mockClear();
+      await jest.advanceTimersByTimeAsync(5 * MINUTE);
+
+      expect(db.taskQueue.update).not.toHaveBeenCalled();
+    });
+
+    it('reschedules a failed task with backoff until its retries run out', async () => {
+      service.registerHandler('slow_task', async () => {
+        throw new Error('Embedding API down');
+      });
+
+      await service['executeTask'](task({ retryCount: 1 }));
+      expect(db.taskQueue.update).toHaveBeenLastCalledWith({
+        where: { id: 'task-1' },
+        data: expect.objectContaining({
+          status: 'pending',
+          retryCount: 2,
+          scheduledAt: new Date(Date.now() + 4000),
+          errorMessage: 'Embedding API down',
+        }),
+      });
+
+      await service['executeTask'](task({ retryCount: 3 }));
+      expect(db.taskQueue.update).toHaveBeenLastCalledWith({
+        where: { id: 'task-1' },
+        data: { status: 'failed', errorMessage: 'Embedding API down', completedAt: expect.any(Date) },
+      });
+    });
+
+    it('skips exclusive task types while one of them is running', async () => {
+      let finish!: () => void;
+      service.registerHandler('slow_task', () => new Promise<void>(resolve => {
+        finish = resolve;
+      }), { exclusive: true });
+
+      const running = service['executeTask'](task());
+      await jest.advanceTimersByTimeAsync(0);
+      await service['processNextTask']();
+
+      expect(db.taskQueue.findFirst).toHaveBeenLastCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ taskType: { notIn: ['slow_task'] } }),
+      }));
+
+      finish();
+      await running;
+      await service['processNextTask']();
+
+      expect(db.taskQueue.findFirst.mock.lastCall[0].where).not.toHaveProperty('taskType');
+    });
+  });
+});
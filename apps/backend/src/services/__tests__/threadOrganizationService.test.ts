@@ -0,0 +1,132 @@
+import { ThreadOrganizationService } from '../threadOrganizationService';
+import { prisma } from '../../config/database';
+import { NotFoundError, ValidationError } from '@fluxo/shared';
+
+const db = prisma as any;
+
+describe('ThreadOrganizationService folders', () => {
+  const service = new ThreadOrganizationService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.chatFolder.findFirst.mockResolvedValue(null);
+  });
+
+  it('counts only the threads in the main list', async () => {
+    db.chatFolder.findMany.mockResolvedValue([
+      { id: 'folder-1', name: 'Work', createdAt: new Date('2026-01-01'), _count: { threads: 2 } },
+    ]);
+
+    const folders = await service.getFolders('user-1');
+
+    expect(db.chatFolder.findMany.mock.calls[0][0].include).toEqual({
+      _count: { select: { threads: { where: { archivedAt: null } } } },
+    });
+    expect(folders).toEqual([{ id: 'folder-1', name: 'Work', threadCount: 2, createdAt: new Date('2026-01-01') }]);
+  });
+
+  it('rejects a folder name already used in any case', async () => {
+    db.chatFolder.findFirst.mockResolvedValue({ id: 'folder-1' });
+
+    await expect(service.createFolder('user-1', 'WORK')).rejects.toBeInstanceOf(ValidationError);
+    expect(db.chatFolder.findFirst).toHaveBeenCalledWith({
+      where: { userId: 'user-1', name: { equals: 'WORK', mode: 'insensitive' } },
+      select: { id: true },
+    });
+    expect(db.chatFolder.create).not.toHaveBeenCalled();
+  });
+
+  it('lets a folder be renamed to a different case of its own name', async () => {
+    db.chatFolder.findFirst
+      .mockResolvedValueOnce({ id: 'folder-1' })
+      .mockResolvedValueOnce(null);
+    db.chatFolder.update.mockResolvedValue({ id: 'folder-1', name: 'WORK', _count: { threads: 0 } });
+
+    await service.renameFolder('folder-1', 'user-1', 'WORK');
+
+    expect(db.chatFolder.findFirst.mock.calls[1][0].where.id).toEqual({ not: 'folder-1' });
+  });
+
+  it('only deletes the user\'s own folders', async () => {
+    await expect(service.deleteFolder('folder-1', 'user-2')).rejects.toBeInstanceOf(NotFoundError);
+    expect(db.chatFolder.delete).not.toHaveBeenCalled();
+  });
+});
+
+describe('ThreadOrganizationService.updateThreadOrganization', () => {
+  const service = new ThreadOrganizationService();
+  const updatedAt = new Date('2026-01-01T12:00:00Z');
+
+  const savedData = () => db.chatThread.update.mock.calls[0][0].data;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2026-02-01T12:00:00Z') });
+    db.chatThread.findFirst.mockResolvedValue({ id: 'thread-1', updatedAt });
+    db.chatFolder.findFirst.mockResolvedValue({ id: 'folder-1' });
+    db.chatThread.update.mockResolvedValue({ id: 'thread-1', folderId: null, tags: [], pinnedAt: null, archivedAt: null });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('pins without moving the thread in the recency order', async () => {
+    await service.updateThreadOrganization('thread-1', 'user-1', { pinned: true });
+
+    expect(savedData()).toEqual({ updatedAt, pinnedAt: new Date('2026-02-01T12:00:00Z') });
+  });
+
+  it('unpins a thread when archiving it', async () => {
+    await service.updateThreadOrganization('thread-1', 'user-1', { archived: true });
+
+    expect(savedData()).toEqual({ updatedAt, archivedAt: new Date('2026-02-01T12:00:00Z'), pinnedAt: null });
+  });
+
+  it('leaves the pin alone when restoring from the archive', async () => {
+    await service.updateThreadOrganization('thread-1', 'user-1', { archived: false });
+
+    expect(savedData()).toEqual({ updatedAt, archivedAt: null });
+  });
+
+  it('moves a thread into one of the user\'s folders or out of any folder', async () => {
+    await service.updateThreadOrganization('thread-1', 'user-1', { folderId: 'folder-1' });
+    expect(db.chatFolder.findFirst).toHaveBeenCalledWith({ where: { id: 'folder-1', userId: 'user-1' }, select: { id: true } });
+    expect(savedData().folderId).toBe('folder-1');
+
+    db.chatThread.update.mockClear();
+    db.chatFolder.findFirst.mockClear();
+    await service.updateThreadOrganization('thread-1', 'user-1', { folderId: null });
+    expect(db.chatFolder.findFirst).not.toHaveBeenCalled();
+    expect(savedData().folderId).toBeNull();
+  });
+
+  it('rejects another user\'s folder', async () => {
+    db.chatFolder.findFirst.mockResolvedValue(null);
+
+    await expect(
+      service.updateThreadOrganization('thread-1', 'user-1', { folderId: 'folder-2' })
+    ).rejects.toBeInstanceOf(NotFoundError);
+    expect(db.chatThread.update).not.toHaveBeenCalled();
+  });
+
+  it('tidies tags and drops ones differing only in case or spacing', async () => {
+    await service.updateThreadOrganization('thread-1', 'user-1', { tags: [' Work  trip ', 'work trip', 'Urgent', 'URGENT'] });
+
+    expect(savedData().tags).toEqual(['Work trip', 'Urgent']);
+  });
+
+  it('returns the organization flags of the saved thread', async () => {
+    db.chatThread.update.mockResolvedValue({
+      id: 'thread-1',
+      folderId: 'folder-1',
+      tags: ['Urgent'],
+      pinnedAt: new Date(),
+      archivedAt: null,
+    });
+
+    const result = await service.updateThreadOrganization('thread-1', 'user-1', { pinned: true });
+
+    expect(result).toEqual({ id: 'thread-1', pinned: true, archived: false, folderId: 'folder-1', tags: ['Urgent'] });
+  });
+});
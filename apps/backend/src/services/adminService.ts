@@ -1,10 +1,21 @@
+import path from 'path';
+import { Prisma } from '@prisma/client';
+import { diffLines } from 'diff';
 import { prisma } from '../config/database';
 import { RAGService } from './ragService';
+import { OpenAIService } from './openaiService';
+import { EmbeddingCacheService } from './embeddingCacheService';
+import { DocumentExtractionService, UploadedDocument } from './documentExtractionService';
 import { AnalyticsService } from './analyticsService';
+import { TaskQueueService } from './taskQueueService';
 import logger from '../config/logger';
 import { 
   NotFoundError, 
   ValidationError,
+  SourceProcessingStatusSchema,
+  TaskStatusSchema,
+  CostBackfillResultSchema,
+  parseChunkingStrategy,
   createPaginatedResponse,
   sanitizeUser 
 } from '@fluxo/shared';
@@ -13,18 +24,34 @@ import type {
   UserUsageStats, 
   Source, 
   CreateSourceRequest, 
+  UploadSourceRequest,
   UpdateSourceRequest,
+  SourceVersionSummary,
+  SourceVersionDiff,
+  RetrievalPreview,
+  RetrievalPreviewRequest,
+  EmbeddingCacheStats,
+  CostBackfillRequest,
+  CostBackfillJob,
   User,
   Subscription 
 } from '@fluxo/shared';
 
 export class AdminService {
   private ragService: RAGService;
+  private openaiService: OpenAIService;
+  private embeddingCache: EmbeddingCacheService;
   private analyticsService: AnalyticsService;
+  private documentExtractionService: DocumentExtractionService;
+  private taskQueue: TaskQueueService;
 
   constructor() {
     this.ragService = new RAGService();
+    this.openaiService = new OpenAIService();
+    this.embeddingCache = new EmbeddingCacheService();
     this.analyticsService = new AnalyticsService();
+    this.documentExtractionService = new DocumentExtractionService();
+    this.taskQueue = new TaskQueueService();
   }
 
   async getOverviewMetrics(): Promise<AdminMetrics> {
@@ -496,14 +523,18 @@ export class AdminService {
         prisma.source.count({ where }),
       ]);
 
-      return { sources, total };
+      return { sources: sources.map((source: any) => this.toSource(source)), total };
     } catch (error) {
       logger.error('Get sources error:', error);
       throw error;
     }
   }
 
-  async createSource(data: CreateSourceRequest): Promise<Source> {
+  async createSource(
+    data: CreateSourceRequest,
+    changedById?: string,
+    file?: { fileName: string; mimeType: string; fileSize: number }
+  ): Promise<Source> {
     try {
       logger.info("------------------1---------------")
       const source = await prisma.source.create({
@@ -512,65 +543,232 @@ export class AdminService {
           rawText: data.rawText,
           tags: data.tags,
           isActive: true,
+          chunkingStrategy: data.chunkingStrategy,
+          fileName: file?.fileName,
+          mimeType: file?.mimeType,
+          fileSize: file?.fileSize,
+          versions: {
+            create: {
+              version: 1,
+              title: data.title,
+              rawText: data.rawText,
+              tags: data.tags,
+              changeType: 'created',
+              changedById,
+            },
+          },
         },
       });
       logger.info("------------------2---------------")
 
-      // Process the source for RAG in the background with better error handling
-      setImmediate(async () => {
-        try {
-          logger.info(`Starting RAG processing for source: ${source.id}`);
-          await this.ragService.processSource(source.id);
-          logger.info(`Source processed for RAG: ${source.id}`);
-        } catch (error) {
-          logger.error(`Failed to process source ${source.id} for RAG:`, error);
-          // Don't let RAG processing errors crash the entire application
-          // Log the error and continue
-          if (error instanceof Error) {
-            logger.error(`RAG Error details: ${error.message}`);
-            logger.error(`RAG Error stack: ${error.stack}`);
-          }
-        }
-      });
-      
+      // Chunking and embedding run as a queued task so progress survives restarts
+      await this.ragService.enqueueSourceProcessing(source.id);
+
       logger.info(`Source created: ${source.id}`);
-      return source;
+      return this.toSource(source);
     } catch (error) {
       logger.error('Create source error:', error);
       throw error;
     }
   }
 
-  async updateSource(sourceId: string, data: UpdateSourceRequest): Promise<Source> {
+  async createSourceFromUpload(
+    file: UploadedDocument & { size: number },
+    data: UploadSourceRequest,
+    changedById?: string
+  ): Promise<Source> {
     try {
-      const source = await prisma.source.update({
-        where: { id: sourceId },
-        data: {
-          ...data,
-          updatedAt: new Date(),
-        },
-      });
+      const rawText = await this.documentExtractionService.extractText(file);
+      const title = data.title?.trim() || path.parse(file.originalname).name;
+      const tags = (data.tags || '').split(',').map(tag => tag.trim()).filter(Boolean);
+
+      return await this.createSource(
+        { title, rawText, tags, chunkingStrategy: data.chunkingStrategy },
+        changedById,
+        { fileName: file.originalname, mimeType: file.mimetype, fileSize: file.size }
+      );
+    } catch (error) {
+      logger.error('Create source from upload error:', error);
+      throw error;
+    }
+  }
 
-      // Reprocess if content changed
-      if (data.rawText) {
-        setImmediate(async () => {
-          try {
-            await this.ragService.processSource(source.id);
-            logger.info(`Source reprocessed for RAG: ${source.id}`);
-          } catch (error) {
-            logger.error(`Failed to reprocess source ${source.id} for RAG:`, error);
-          }
+  async updateSource(sourceId: string, data: UpdateSourceRequest, changedById?: string): Promise<Source> {
+    try {
+      const source = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const previous = await tx.source.findUnique({
+          where: { id: sourceId },
+          select: { title: true, rawText: true, tags: true },
+        });
+
+        if (!previous) {
+          throw new NotFoundError('Source not found');
+        }
+
+        const updated = await tx.source.update({
+          where: { id: sourceId },
+          data: {
+            ...data,
+            updatedAt: new Date(),
+          },
         });
+
+        // Only content edits are versioned; toggling isActive or the strategy is not
+        const contentChanged =
+          updated.title !== previous.title ||
+          updated.rawText !== previous.rawText ||
+          updated.tags.join('\u0000') !== previous.tags.join('\u0000');
+
+        if (contentChanged) {
+          await this.recordSourceVersion(tx, updated, 'updated', changedById);
+        }
+
+        return updated;
+      });
+
+      // Reprocess if content or chunking changed; unchanged chunks keep their embeddings
+      if (data.rawText || data.chunkingStrategy) {
+        await this.ragService.enqueueSourceProcessing(source.id);
       }
 
       logger.info(`Source updated: ${sourceId}`);
-      return source;
+      return this.toSource(source);
     } catch (error) {
       logger.error('Update source error:', error);
       throw error;
     }
   }
 
+  async getSourceVersions(sourceId: string): Promise<SourceVersionSummary[]> {
+    try {
+      const versions = await prisma.sourceVersion.findMany({
+        where: { sourceId },
+        orderBy: { version: 'desc' },
+        include: {
+          changedBy: { select: { id: true, email: true } },
+        },
+      });
+
+      return versions.map((version: any) => this.toVersionSummary(version));
+    } catch (error) {
+      logger.error('Get source versions error:', error);
+      throw error;
+    }
+  }
+
+  async diffSourceVersions(sourceId: string, fromVersion: number, toVersion: number): Promise<SourceVersionDiff> {
+    try {
+      const versions = await prisma.sourceVersion.findMany({
+        where: { sourceId, version: { in: [fromVersion, toVersion] } },
+        include: {
+          changedBy: { select: { id: true, email: true } },
+        },
+      });
+
+      const from = versions.find((v: any) => v.version === fromVersion);
+      const to = versions.find((v: any) => v.version === toVersion);
+
+      if (!from || !to) {
+        throw new NotFoundError('Source version not found');
+      }
+
+      const changes = diffLines(from.rawText, to.rawText).map(part => ({
+        type: part.added ? 'added' as const : part.removed ? 'removed' as const : 'unchanged' as const,
+        value: part.value,
+      }));
+
+      return {
+        from: this.toVersionSummary(from),
+        to: this.toVersionSummary(to),
+        titleChanged: from.title !== to.title,
+        addedTags: to.tags.filter((tag: string) => !from.tags.includes(tag)),
+        removedTags: from.tags.filter((tag: string) => !to.tags.includes(tag)),
+        changes,
+      };
+    } catch (error) {
+      logger.error('Diff source versions error:', error);
+      throw error;
+    }
+  }
+
+  async restoreSourceVersion(sourceId: string, version: number, changedById?: string): Promise<Source> {
+    try {
+      const source = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const target = await tx.sourceVersion.findUnique({
+          where: { sourceId_version: { sourceId, version } },
+        });
+
+        if (!target) {
+          throw new NotFoundError('Source version not found');
+        }
+
+        const restored = await tx.source.update({
+          where: { id: sourceId },
+          data: {
+            title: target.title,
+            rawText: target.rawText,
+            tags: target.tags,
+            updatedAt: new Date(),
+          },
+        });
+
+        // Restoring adds a new version on top, so the history is never rewritten
+        await this.recordSourceVersion(tx, restored, 'restored', changedById, version);
+
+        return restored;
+      });
+
+      await this.ragService.enqueueSourceProcessing(sourceId);
+
+      logger.info(`Source ${sourceId} restored to version ${version}`);
+      return this.toSource(source);
+    } catch (error) {
+      logger.error('Restore source version error:', error);
+      throw error;
+    }
+  }
+
+  private async recordSourceVersion(
+    tx: Prisma.TransactionClient,
+    source: { id: string; title: string; rawText: string; tags: string[] },
+    changeType: 'updated' | 'restored',
+    changedById?: string,
+    restoredFromVersion?: number
+  ): Promise<void> {
+    const latest = await tx.sourceVersion.findFirst({
+      where: { sourceId: source.id },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+
+    await tx.sourceVersion.create({
+      data: {
+        sourceId: source.id,
+        version: (latest?.version ?? 0) + 1,
+        title: source.title,
+        rawText: source.rawText,
+        tags: source.tags,
+        changeType,
+        restoredFromVersion,
+        changedById,
+      },
+    });
+  }
+
+  // Status and strategy are plain string columns, so they are checked against the shared enums on the way out
+  private toSource(source: any): Source {
+    return {
+      ...source,
+      chunkingStrategy: parseChunkingStrategy(source.chunkingStrategy),
+      processingStatus: SourceProcessingStatusSchema.parse(source.processingStatus),
+    };
+  }
+
+  private toVersionSummary(version: any): SourceVersionSummary {
+    const { rawText, ...summary } = version;
+    return { ...summary, textLength: rawText.length };
+  }
+
   async deleteSource(sourceId: string): Promise<void> {
     try {
       await prisma.source.delete({
@@ -584,10 +782,30 @@ export class AdminService {
     }
   }
 
-  async reprocessAllSources(): Promise<void> {
+  async reprocessSource(sourceId: string): Promise<void> {
     try {
-      await this.ragService.reprocessAllSources();
-      logger.info('All sources reprocessed for RAG');
+      const source = await prisma.source.findUnique({
+        where: { id: sourceId },
+        select: { id: true },
+      });
+
+      if (!source) {
+        throw new NotFoundError('Source not found');
+      }
+
+      await this.ragService.enqueueSourceProcessing(sourceId);
+      logger.info(`Source reprocessing enqueued: ${sourceId}`);
+    } catch (error) {
+      logger.error('Reprocess source error:', error);
+      throw error;
+    }
+  }
+
+  async reprocessAllSources(): Promise<number> {
+    try {
+      const count = await this.ragService.reprocessAllSources();
+      logger.info(`Reprocessing enqueued for ${count} sources`);
+      return count;
     } catch (error) {
       logger.error('Reprocess all sources error:', error);
       throw error;
@@ -598,21 +816,42 @@ export class AdminService {
     totalSources: number;
     activeSources: number;
     totalChunks: number;
+    processingSources: number;
+    failedSources: number;
   }> {
     try {
-      const [totalSources, activeSources, totalChunks] = await Promise.all([
+      const [totalSources, activeSources, totalChunks, processingSources, failedSources] = await Promise.all([
         prisma.source.count(),
         prisma.source.count({ where: { isActive: true } }),
         prisma.sourceChunk.count(),
+        prisma.source.count({ where: { processingStatus: { in: ['pending', 'processing'] } } }),
+        prisma.source.count({ where: { processingStatus: 'failed' } }),
       ]);
 
-      return { totalSources, activeSources, totalChunks };
+      return { totalSources, activeSources, totalChunks, processingSources, failedSources };
     } catch (error) {
       logger.error('Get source stats error:', error);
       throw error;
     }
   }
 
+  // Runs retrieval and prompt assembly exactly as chat would, without creating
+  // messages or recording usage
+  async previewRetrieval(data: RetrievalPreviewRequest): Promise<RetrievalPreview> {
+    try {
+      const preview = await this.ragService.previewRetrieval(data.query, {
+        limit: data.limit,
+        tags: data.tags,
+      });
+      const systemPrompt = await this.openaiService.getContextualSystemPrompt(preview.context);
+
+      return { ...preview, systemPrompt };
+    } catch (error) {
+      logger.error('Preview retrieval error:', error);
+      throw error;
+    }
+  }
+
   // Token Usage Management
   async getTokenUsageStats(): Promise<{
     totalInputTokens: number;
@@ -663,6 +902,64 @@ export class AdminService {
     }
   }
 
+  async getEmbeddingCacheStats(): Promise<EmbeddingCacheStats> {
+    try {
+      const stats = await this.embeddingCache.getStats();
+      const costSaved = stats.tokensSaved > 0
+        ? await this.openaiService.calculateEmbeddingCost(stats.tokensSaved)
+        : 0;
+
+      return { ...stats, costSaved };
+    } catch (error) {
+      logger.error('Get embedding cache stats error:', error);
+      throw error;
+    }
+  }
+
+  async enqueueCostBackfill(data: CostBackfillRequest): Promise<CostBackfillJob> {
+    try {
+      const taskId = await this.taskQueue.enqueueTask('cost_backfill', {
+        from: data.from?.toISOString(),
+        to: data.to?.toISOString(),
+        provider: data.provider,
+        model: data.model,
+      }, { maxRetries: 1 });
+
+      logger.info(`Cost backfill enqueued (task ${taskId})`);
+      return this.getCostBackfillJob(taskId);
+    } catch (error) {
+      logger.error('Enqueue cost backfill error:', error);
+      throw error;
+    }
+  }
+
+  async getCostBackfillJob(taskId: string): Promise<CostBackfillJob> {
+    try {
+      const task = await prisma.taskQueue.findFirst({
+        where: { id: taskId, taskType: 'cost_backfill' },
+      });
+
+      if (!task) {
+        throw new NotFoundError('Cost backfill job not found');
+      }
+
+      // The result is only written once the task completes
+      const result = CostBackfillResultSchema.safeParse(task.result);
+
+      return {
+        id: task.id,
+        status: TaskStatusSchema.parse(task.status),
+        result: result.success ? result.data : undefined,
+        errorMessage: task.errorMessage || undefined,
+        scheduledAt: task.scheduledAt.toISOString(),
+        completedAt: task.completedAt?.toISOString(),
+      };
+    } catch (error) {
+      logger.error('Get cost backfill job error:', error);
+      throw error;
+    }
+  }
+
   async getUserTokenUsage(page = 1, limit = 50): Promise<{
     users: Array<{
       userId: string;
@@ -287,6 +287,31 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * Shift the inference cost already aggregated for a user's message, e.g. after
+   * the message was repriced. Token and message counts are left untouched.
+   */
+  async adjustCostAggregations(userId: string, createdAt: Date, costDelta: number) {
+    try {
+      const date = new Date(createdAt.getFullYear(), createdAt.getMonth(), createdAt.getDate());
+      const year = createdAt.getFullYear();
+      const month = createdAt.getMonth() + 1;
+      const data = { costUsd: { increment: costDelta } };
+
+      await Promise.all([
+        prisma.dailyUsage.updateMany({ where: { userId, date }, data }),
+        prisma.monthlyUsage.updateMany({ where: { userId, year, month }, data }),
+        prisma.yearlyUsage.updateMany({ where: { userId, year }, data }),
+        prisma.systemDailyStats.updateMany({ where: { date }, data }),
+        prisma.systemMonthlyStats.updateMany({ where: { year, month }, data }),
+        prisma.systemYearlyStats.updateMany({ where: { year }, data }),
+      ]);
+    } catch (error) {
+      logger.error('Error adjusting cost aggregations:', error);
+      throw error;
+    }
+  }
+
   /**
    * Update payment-related aggregations
    */
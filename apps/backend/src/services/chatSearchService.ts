@@ -0,0 +1,168 @@
+import { prisma } from '../config/database';
+import logger from '../config/logger';
+import { ChatService } from './chatService';
+import { RAG_CONFIG } from '@fluxo/shared';
+import type { ChatSearchHighlight, ChatSearchQuery, ChatSearchResult } from '@fluxo/shared';
+
+// Private-use characters can't appear in typed text, so they safely mark matches in headlines
+const HIGHLIGHT_START = '\uE000';
+const HIGHLIGHT_END = '\uE001';
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`;
+
+interface SearchMatch {
+  thread_id: string;
+  message_id: string | null;
+  role: 'user' | 'assistant' | null;
+  matched_in: ChatSearchResult['matchedIn'];
+  snippet: string;
+  created_at: Date;
+}
+
+/**
+ * Full-text search over a user's conversations. Titles are always searched; summaries and
+ * messages of password-protected threads are not, since they can't be shown without the password.
+ */
+export class ChatSearchService {
+  private chatService: ChatService;
+
+  constructor() {
+    this.chatService = new ChatService();
+  }
+
+  async search(userId: string, { q, limit }: ChatSearchQuery): Promise<ChatSearchResult[]> {
+    try {
+      // The last word may still be being typed, so it matches as a prefix. Headlines are only
+      // built for the rows kept, since ts_headline re-parses the whole text.
+      const matches = await prisma.$queryRaw<SearchMatch[]>`
+        WITH q AS (
+          SELECT NULLIF(plainto_tsquery(${RAG_CONFIG.TEXT_SEARCH_CONFIG}::regconfig, ${q})::text, '') AS text
+        ), query AS (
+          SELECT (q.text || ':*')::tsquery AS query FROM q WHERE q.text IS NOT NULL
+        ), ranked AS (
+          SELECT t.id AS thread_id, NULL::uuid AS message_id, NULL AS role, 'title' AS matched_in,
+                 t.title AS text, ts_rank(to_tsvector(${RAG_CONFIG.TEXT_SEARCH_CONFIG}::regconfig, coalesce(t.title, '')), query.query) * 2 AS rank,
+                 t.updated_at AS created_at
+          FROM chat_threads t, query
+          WHERE t.user_id = ${userId}::uuid
+            AND to_tsvector(${RAG_CONFIG.TEXT_SEARCH_CONFIG}::regconfig, coalesce(t.title, '')) @@ query.query
+          UNION ALL
+          SELECT t.id, NULL::uuid, NULL, 'summary',
+                 t.summary, ts_rank(to_tsvector(${RAG_CONFIG.TEXT_SEARCH_CONFIG}::regconfig, coalesce(t.summary, '')), query.query),
+                 t.updated_at
+          FROM chat_threads t, query
+          WHERE t.user_id = ${userId}::uuid
+            AND t.password_hash IS NULL
+            AND to_tsvector(${RAG_CONFIG.TEXT_SEARCH_CONFIG}::regconfig, coalesce(t.summary, '')) @@ query.query
+          UNION ALL
+          SELECT m.thread_id, m.id, m.role, 'message',
+                 m.content, ts_rank(m.search_vector, query.query),
+                 m.created_at
+          FROM chat_messages m
+          JOIN chat_threads t ON t.id = m.thread_id, query
+          WHERE t.user_id = ${userId}::uuid
+            AND t.password_hash IS NULL
+            AND m.search_vector @@ query.query
+          ORDER BY rank DESC, created_at DESC
+          LIMIT ${limit}
+        )
+        SELECT ranked.thread_id, ranked.message_id, ranked.role, ranked.matched_in, ranked.created_at,
+               ts_headline(${RAG_CONFIG.TEXT_SEARCH_CONFIG}::regconfig, ranked.text, query.query, ${HEADLINE_OPTIONS}) AS snippet
+        FROM ranked, query
+        ORDER BY ranked.rank DESC, ranked.created_at DESC;
+      `;
+
+      if (matches.length === 0) {
+        return [];
+      }
+
+      const threads = await prisma.chatThread.findMany({
+        where: { id: { in: [...new Set(matches.map(match => match.thread_id))] } },
+        select: {
+          id: true,
+          userId: true,
+          title: true,
+          summary: true,
+          passwordHash: true,
+          knowledgeTags: true,
+          provider: true,
+          model: true,
+          folderId: true,
+          tags: true,
+          pinnedAt: true,
+          archivedAt: true,
+          activeMessageId: true,
+          createdAt: true,
+        },
+      });
+      const threadsById = new Map(threads.map((thread: any) => [thread.id, thread]));
+
+      // A message can match on a branch its thread isn't showing, after an edit or regeneration
+      const branchLeafIds = new Map<string, string | null>();
+      for (const thread of threads) {
+        const messageIds = matches
+          .filter(match => match.thread_id === thread.id && match.message_id)
+          .map(match => match.message_id!);
+
+        if (messageIds.length > 0) {
+          const leafIds = await this.chatService.getBranchLeafIds(thread.id, thread.activeMessageId, messageIds);
+          leafIds.forEach((leafId, messageId) => branchLeafIds.set(messageId, leafId));
+        }
+      }
+
+      return matches.flatMap(match => {
+        const thread: any = threadsById.get(match.thread_id);
+        if (!thread) return [];
+
+        return [{
+          thread: {
+            id: thread.id,
+            userId: thread.userId,
+            title: thread.title,
+            // A protected thread's summary is as private as its messages
+            summary: thread.passwordHash ? null : thread.summary,
+            hasPassword: !!thread.passwordHash,
+            knowledgeTags: thread.knowledgeTags,
+            provider: thread.provider,
+            model: thread.model,
+            pinned: !!thread.pinnedAt,
+            archived: !!thread.archivedAt,
+            folderId: thread.folderId,
+            tags: thread.tags,
+            createdAt: thread.createdAt,
+          },
+          matchedIn: match.matched_in,
+          messageId: match.message_id,
+          branchLeafId: match.message_id ? branchLeafIds.get(match.message_id) ?? null : null,
+          role: match.role,
+          ...this.parseHeadline(match.snippet),
+          createdAt: match.created_at,
+        }];
+      });
+    } catch (error) {
+      logger.error('Chat search error:', error);
+      throw error;
+    }
+  }
+
+  // Strips the match markers from a ts_headline, recording where each marked span was
+  private parseHeadline(headline: string): { snippet: string; highlights: ChatSearchHighlight[] } {
+    const highlights: ChatSearchHighlight[] = [];
+    let snippet = '';
+    let start = -1;
+
+    for (const char of headline) {
+      if (char === HIGHLIGHT_START) {
+        start = snippet.length;
+      } else if (char === HIGHLIGHT_END) {
+        if (start >= 0 && snippet.length > start) {
+          highlights.push({ start, end: snippet.length });
+        }
+        start = -1;
+      } else {
+        snippet += char;
+      }
+    }
+
+    return { snippet, highlights };
+  }
+}
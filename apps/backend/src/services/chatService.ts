@@ -1,40 +1,102 @@
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
 import { OpenAIService } from './openaiService';
 import { RAGService } from './ragService';
 import { AnalyticsService } from './analyticsService';
 import { TaskQueueService } from './taskQueueService';
 import { SettingsService } from './settingsService';
+import { ContextBuilderService } from './contextBuilderService';
 import logger from '../config/logger';
 import bcrypt from 'bcryptjs';
 import { 
   NotFoundError, 
   ValidationError, 
   SubscriptionError,
+  LLMProviderError,
   createSuccessResponse,
   slugify,
-  DEFAULT_LIMITS 
+  DEFAULT_LIMITS,
+  RAG_CONFIG
 } from '@fluxo/shared';
-import type { ChatThread, ChatMessage, CreateMessageRequest } from '@fluxo/shared';
+import type {
+  ChatThread,
+  ChatMessage,
+  CreateMessageRequest,
+  AvailableModels,
+  ModelOption,
+  UpdateThreadModelRequest,
+  EditMessageRequest,
+  SelectBranchRequest,
+  ThreadListQuery
+} from '@fluxo/shared';
+
+export interface UnlockedThread {
+  id: string;
+  title: string | null;
+  summary: string | null;
+  knowledgeTags: string[];
+  provider: string | null;
+  model: string | null;
+  activeMessageId: string | null;
+  createdAt: Date;
+}
+
+// Message fields that leave the service; the system prompt an answer was generated under
+// is admin configuration and stays on the server
+const MESSAGE_SELECT = {
+  id: true,
+  threadId: true,
+  role: true,
+  content: true,
+  tokensInput: true,
+  tokensOutput: true,
+  tokensEmbedding: true,
+  costUsd: true,
+  embeddingCostUsd: true,
+  provider: true,
+  model: true,
+  sources: true,
+  incomplete: true,
+  parentId: true,
+  createdAt: true,
+} satisfies Prisma.ChatMessageSelect;
+
+// A question to answer: new content under parentId, or an existing question answered again
+interface ReplyTurn {
+  content: string;
+  parentId: string | null;
+  questionId?: string;
+}
+
+// Parent of every message in a thread, and each message's replies oldest first (roots under null)
+interface MessageTree {
+  parents: Map<string, string | null>;
+  children: Map<string | null, string[]>;
+}
 
 export class ChatService {
   private openaiService: OpenAIService;
   private ragService: RAGService;
   private taskQueue: TaskQueueService;
   private settingsService: SettingsService;
+  private contextBuilder: ContextBuilderService;
 
   constructor() {
     this.openaiService = new OpenAIService();
     this.ragService = new RAGService();
     this.taskQueue = new TaskQueueService();
     this.settingsService = new SettingsService();
+    this.contextBuilder = new ContextBuilderService();
   }
 
-  async createThread(userId: string, title?: string): Promise<ChatThread> {
+  async createThread(userId: string, title?: string, knowledgeTags: string[] = []): Promise<ChatThread> {
     try {
       const thread = await prisma.chatThread.create({
         data: {
           userId,
           title: title || 'New Chat',
+          knowledgeTags: Array.from(new Set(knowledgeTags.map(tag => tag.trim()).filter(Boolean))),
         },
       });
 
@@ -46,17 +108,31 @@ export class ChatService {
     }
   }
 
-  async getUserThreads(userId: string, page = 1, limit = 20): Promise<{
+  async getKnowledgeTags(): Promise<string[]> {
+    return this.ragService.getAvailableTags();
+  }
+
+  async getUserThreads(userId: string, { page, limit, archived, folderId, tag }: ThreadListQuery): Promise<{
     threads: ChatThread[];
     total: number;
   }> {
     try {
       const skip = (page - 1) * limit;
+      const where = {
+        userId,
+        archivedAt: archived ? { not: null } : null,
+        ...(folderId && { folderId }),
+        ...(tag && { tags: { has: tag } }),
+      };
 
       const [threads, total] = await Promise.all([
         prisma.chatThread.findMany({
-          where: { userId },
-          orderBy: { updatedAt: 'desc' },
+          where,
+          // Pinned threads come first, most recently pinned on top
+          orderBy: [
+            { pinnedAt: { sort: 'desc', nulls: 'last' } },
+            { updatedAt: 'desc' },
+          ],
           skip,
           take: limit,
           select: {
@@ -65,12 +141,19 @@ export class ChatService {
             title: true,
             summary: true,
             passwordHash: true,
+            knowledgeTags: true,
+            provider: true,
+            model: true,
+            folderId: true,
+            tags: true,
+            pinnedAt: true,
+            archivedAt: true,
             createdAt: true,
             updatedAt: true,
           },
         }),
         prisma.chatThread.count({
-          where: { userId },
+          where,
         }),
       ]);
 
@@ -81,6 +164,13 @@ export class ChatService {
         title: thread.title,
         summary: thread.summary,
         hasPassword: !!thread.passwordHash,
+        knowledgeTags: thread.knowledgeTags,
+        provider: thread.provider,
+        model: thread.model,
+        pinned: !!thread.pinnedAt,
+        archived: !!thread.archivedAt,
+        folderId: thread.folderId,
+        tags: thread.tags,
         createdAt: thread.createdAt,
       }));
 
@@ -91,6 +181,54 @@ export class ChatService {
     }
   }
 
+  async getAvailableModels(userId: string): Promise<AvailableModels> {
+    try {
+      const models = await this.settingsService.getPlanModels(await this.getUserPlanId(userId));
+      return { models, defaultModel: models[0] };
+    } catch (error) {
+      logger.error('Get available models error:', error);
+      throw error;
+    }
+  }
+
+  async setThreadModel(threadId: string, userId: string, selection: UpdateThreadModelRequest): Promise<ChatThread> {
+    try {
+      const thread = await prisma.chatThread.findFirst({
+        where: { id: threadId, userId },
+        select: { id: true },
+      });
+
+      if (!thread) {
+        throw new NotFoundError('Thread not found');
+      }
+
+      if (selection.provider && selection.model) {
+        const models = await this.settingsService.getPlanModels(await this.getUserPlanId(userId));
+        const allowed = models.some(option =>
+          option.provider === selection.provider && option.model === selection.model
+        );
+
+        if (!allowed) {
+          throw new SubscriptionError(`Model ${selection.model} is not available on your plan`);
+        }
+      }
+
+      const updatedThread = await prisma.chatThread.update({
+        where: { id: threadId },
+        data: {
+          provider: selection.provider && selection.model ? selection.provider : null,
+          model: selection.provider && selection.model ? selection.model : null,
+        },
+      });
+
+      logger.info(`Chat thread ${threadId} model set to ${updatedThread.model ?? 'plan default'}`);
+      return updatedThread;
+    } catch (error) {
+      logger.error('Set thread model error:', error);
+      throw error;
+    }
+  }
+
   async getThreadMessages(
     threadId: string, 
     userId: string, 
@@ -102,7 +240,7 @@ export class ChatService {
       // Verify thread belongs to user and get password info
       const thread = await prisma.chatThread.findFirst({
         where: { id: threadId, userId },
-        select: { passwordHash: true },
+        select: { passwordHash: true, activeMessageId: true },
       });
 
       if (!thread) {
@@ -127,26 +265,31 @@ export class ChatService {
         }
       }
 
-      // Get total count
-      const total = await prisma.chatMessage.count({
-        where: { threadId },
-      });
+      // Only the active branch is shown; other edits and regenerations are reached through siblingIds
+      const tree = await this.getMessageTree(threadId);
+      const branch = this.getBranchPath(tree, this.getActiveLeaf(tree, thread.activeMessageId));
+      const total = branch.length;
 
-      // Calculate offset and get messages in reverse chronological order for pagination
-      // (most recent first for infinite scroll from bottom)
+      // Pages count back from the end of the branch for infinite scroll from bottom
       const offset = (page - 1) * limit;
+      const pageIds = branch.slice(Math.max(0, total - offset - limit), Math.max(0, total - offset));
       const messages = await prisma.chatMessage.findMany({
-        where: { threadId },
-        orderBy: { createdAt: 'desc' }, // Most recent first
-        skip: offset,
-        take: limit,
+        where: { id: { in: pageIds } },
+        orderBy: { createdAt: 'asc' },
+        select: {
+          ...MESSAGE_SELECT,
+          feedback: { select: { rating: true, reason: true, comment: true, createdAt: true } },
+        },
       });
 
-      // Reverse to get chronological order for display
-      const chronologicalMessages = messages.reverse();
-
       return {
-        messages: chronologicalMessages,
+        messages: messages.map(message => ({
+          ...message,
+          // Questions whose answer failed are kept for their usage but not offered as branches
+          siblingIds: (tree.children.get(message.parentId) || [message.id]).filter(id =>
+            id === message.id || message.role === 'assistant' || tree.children.has(id)
+          ),
+        })),
         total,
         hasMore: offset + messages.length < total,
       };
@@ -202,201 +345,584 @@ export class ChatService {
     }
   }
 
-  async *streamMessage(request: CreateMessageRequest, userId: string, password?: string) {
+  // Aborting signal stops the model; the partial answer is still saved, flagged incomplete
+  async *streamMessage(request: CreateMessageRequest, userId: string, password?: string, signal?: AbortSignal) {
     try {
       // Check user's daily usage and plan limits
       await this.checkUsageLimits(userId);
 
-      // Verify thread belongs to user and check password if needed
+      const thread = await this.getUnlockedThread(request.threadId, userId, password);
+
+      // New messages continue the branch being shown
+      yield* this.streamReply(thread, userId, {
+        content: request.content,
+        parentId: thread.activeMessageId,
+      }, signal);
+
+    } catch (error) {
+      logger.error('Stream message error:', error);
+      yield this.toStreamError(error);
+    }
+  }
+
+  // Answers a question again as a sibling of the given answer
+  async *regenerateMessage(messageId: string, userId: string, password?: string, signal?: AbortSignal) {
+    try {
+      await this.checkUsageLimits(userId);
+
+      const answer = await prisma.chatMessage.findFirst({
+        where: { id: messageId, thread: { userId } },
+        select: { threadId: true, role: true, parentId: true },
+      });
+
+      if (!answer) {
+        throw new NotFoundError('Message not found');
+      }
+
+      if (answer.role !== 'assistant' || !answer.parentId) {
+        throw new ValidationError('Only assistant messages can be regenerated');
+      }
+
+      const thread = await this.getUnlockedThread(answer.threadId, userId, password);
+      const question = await prisma.chatMessage.findUnique({
+        where: { id: answer.parentId },
+        select: { id: true, content: true, parentId: true },
+      });
+
+      if (!question) {
+        throw new ValidationError('Answer has no question to regenerate');
+      }
+
+      yield* this.streamReply(thread, userId, {
+        content: question.content,
+        parentId: question.parentId,
+        questionId: question.id,
+      }, signal);
+
+    } catch (error) {
+      logger.error('Regenerate message error:', error);
+      yield this.toStreamError(error);
+    }
+  }
+
+  // Sends an edited question as a sibling of the original, keeping the original branch
+  async *editMessage(
+    messageId: string,
+    request: EditMessageRequest,
+    userId: string,
+    password?: string,
+    signal?: AbortSignal
+  ) {
+    try {
+      await this.checkUsageLimits(userId);
+
+      const question = await prisma.chatMessage.findFirst({
+        where: { id: messageId, thread: { userId } },
+        select: { threadId: true, role: true, parentId: true },
+      });
+
+      if (!question) {
+        throw new NotFoundError('Message not found');
+      }
+
+      if (question.role !== 'user') {
+        throw new ValidationError('Only user messages can be edited');
+      }
+
+      const thread = await this.getUnlockedThread(question.threadId, userId, password);
+
+      yield* this.streamReply(thread, userId, {
+        content: request.content,
+        parentId: question.parentId,
+      }, signal);
+
+    } catch (error) {
+      logger.error('Edit message error:', error);
+      yield this.toStreamError(error);
+    }
+  }
+
+  // Shows the branch containing messageId, continuing through its most recent replies
+  async selectBranch(threadId: string, userId: string, request: SelectBranchRequest): Promise<void> {
+    try {
       const thread = await prisma.chatThread.findFirst({
-        where: { id: request.threadId, userId },
-        select: { id: true, title: true, summary: true, passwordHash: true },
+        where: { id: threadId, userId },
+        select: { id: true },
       });
 
       if (!thread) {
         throw new NotFoundError('Thread not found');
       }
 
-      // Check password protection
-      if (thread.passwordHash) {
-        if (!password) {
-          throw new ValidationError('Thread is password protected');
-        }
-
-        const isPasswordValid = await bcrypt.compare(password, thread.passwordHash);
-        if (!isPasswordValid) {
-          throw new ValidationError('Invalid password');
-        }
+      const tree = await this.getMessageTree(threadId);
+      if (!tree.parents.has(request.messageId)) {
+        throw new NotFoundError('Message not found');
       }
 
-      // Get conversation history (limit to last 5 messages for AI input)
-      const previousMessages = await prisma.chatMessage.findMany({
-        where: { threadId: request.threadId },
-        orderBy: { createdAt: 'desc' },
-        take: 10, // Get last 5 pairs (user + assistant)
+      await prisma.chatThread.update({
+        where: { id: threadId },
+        data: { activeMessageId: this.getLatestLeaf(tree, request.messageId) },
       });
-      
-      // Reverse to get chronological order
-      previousMessages.reverse();
+    } catch (error) {
+      logger.error('Select branch error:', error);
+      throw error;
+    }
+  }
 
-      // Get RAG context with embedding tracking
-      const ragResult = await this.ragService.searchRelevantContext(request.content);
+  // The thread and the messages of the branch being shown, oldest first, as they are exported
+  async getConversation(
+    threadId: string,
+    userId: string,
+    password?: string
+  ): Promise<{ thread: UnlockedThread; messages: any[] }> {
+    try {
+      const thread = await this.getUnlockedThread(threadId, userId, password);
+      const messages = await this.getActiveBranchMessages(threadId, thread.activeMessageId);
 
-      // Save user message with embedding tracking
-      const userMessage = await prisma.chatMessage.create({
-        data: {
-          threadId: request.threadId,
-          role: 'user',
-          content: request.content,
-          tokensEmbedding: ragResult.embeddingTokens,
-          embeddingCostUsd: ragResult.embeddingCost,
-        },
-      });
+      return { thread, messages };
+    } catch (error) {
+      logger.error('Get conversation error:', error);
+      throw error;
+    }
+  }
 
-      // Update embedding analytics immediately for user message
-      const analyticsService = new AnalyticsService();
-
-      try {
-        await analyticsService.updateUserUsageAggregations(userId, {
-          tokensInput: 0,
-          tokensOutput: 0,
-          tokensEmbedding: ragResult.embeddingTokens,
-          costUsd: 0,
-          embeddingCostUsd: Number(ragResult.embeddingCost),
-          createdAt: userMessage.createdAt,
-          isNewThread: previousMessages.length === 0,
-        });
-      } catch (error) {
-        logger.error('Failed to update user analytics for embedding:', error);
+  // Resolves which message ends the branch the thread shows, for freezing it in a share link
+  async getActiveLeafId(threadId: string, activeMessageId: string | null): Promise<string | null> {
+    const tree = await this.getMessageTree(threadId);
+    return this.getActiveLeaf(tree, activeMessageId);
+  }
+
+  // For each message, the end of the branch to select to show it: null when the thread
+  // already shows it, otherwise its latest reply, as selectBranch would pick
+  async getBranchLeafIds(
+    threadId: string,
+    activeMessageId: string | null,
+    messageIds: string[]
+  ): Promise<Map<string, string | null>> {
+    const tree = await this.getMessageTree(threadId);
+    const activeBranch = new Set(this.getBranchPath(tree, this.getActiveLeaf(tree, activeMessageId)));
+
+    return new Map(messageIds.map(id => [id, activeBranch.has(id) ? null : this.getLatestLeaf(tree, id)]));
+  }
+
+  // The chain of parents ending at leafId, oldest first, whatever the thread shows now and
+  // without any access checks
+  async getBranchMessages(threadId: string, leafId: string | null): Promise<any[]> {
+    const tree = await this.getMessageTree(threadId);
+    const branch = this.getBranchPath(tree, leafId);
+
+    return prisma.chatMessage.findMany({
+      where: { id: { in: branch } },
+      orderBy: { createdAt: 'asc' },
+      select: MESSAGE_SELECT,
+    });
+  }
+
+  // Messages of the branch ending at activeMessageId, oldest first, without any access checks
+  async getActiveBranchMessages(threadId: string, activeMessageId: string | null): Promise<any[]> {
+    const tree = await this.getMessageTree(threadId);
+    const branch = this.getBranchPath(tree, this.getActiveLeaf(tree, activeMessageId));
+
+    return prisma.chatMessage.findMany({
+      where: { id: { in: branch } },
+      orderBy: { createdAt: 'asc' },
+      select: MESSAGE_SELECT,
+    });
+  }
+
+  private async getUnlockedThread(threadId: string, userId: string, password?: string): Promise<UnlockedThread> {
+    // Verify thread belongs to user and check password if needed
+    const thread = await prisma.chatThread.findFirst({
+      where: { id: threadId, userId },
+      select: {
+        id: true,
+        title: true,
+        summary: true,
+        passwordHash: true,
+        knowledgeTags: true,
+        provider: true,
+        model: true,
+        activeMessageId: true,
+        createdAt: true,
+      },
+    });
+
+    if (!thread) {
+      throw new NotFoundError('Thread not found');
+    }
+
+    // Check password protection
+    if (thread.passwordHash) {
+      if (!password) {
+        throw new ValidationError('Thread is password protected');
       }
 
-      // Update thread title if it's the first message and thread has default title
-      if (previousMessages.length === 0 && thread.title === 'New Chat') {
-        const title = this.generateThreadTitle(request.content);
-        await prisma.chatThread.update({
-          where: { id: request.threadId },
-          data: { title },
-        });
+      const isPasswordValid = await bcrypt.compare(password, thread.passwordHash);
+      if (!isPasswordValid) {
+        throw new ValidationError('Invalid password');
       }
+    }
 
-      // Prepare messages for AI - include thread summary for context
-      const contextMessages = [];
-      
-      // Add thread summary if available
-      if (thread.summary && previousMessages.length > 0) {
-        contextMessages.push({
-          role: 'system',
-          content: `Previous conversation summary: ${thread.summary}`
+    return thread;
+  }
+
+  private toStreamError(error: unknown) {
+    return {
+      type: 'error' as const,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      // Lets the client explain provider failures instead of showing the raw message
+      ...(error instanceof LLMProviderError && { code: error.reason }),
+    };
+  }
+
+  /**
+   * Saves the question under turn.parentId (or reuses an existing one when regenerating),
+   * streams the answer under it and makes the answer the end of the thread's active branch.
+   */
+  private async *streamReply(thread: UnlockedThread, userId: string, turn: ReplyTurn, signal?: AbortSignal) {
+    // Conversation history along the branch being answered (last 5 pairs for AI input)
+    const tree = await this.getMessageTree(thread.id);
+    const historyIds = this.getBranchPath(tree, turn.parentId).slice(-10);
+    const previousMessages = await prisma.chatMessage.findMany({
+      where: { id: { in: historyIds } },
+      orderBy: { createdAt: 'asc' },
+    });
+    const isNewThread = tree.parents.size === 0;
+
+    // Turn follow-ups like "and how much does it cost?" into a standalone query
+    const rewrite = await this.buildSearchQuery(turn.content, thread.summary, previousMessages);
+
+    // Get RAG context with embedding tracking, scoped to the thread's knowledge tags
+    const ragResult = await this.ragService.searchRelevantContext(rewrite.query, {
+      tags: thread.knowledgeTags,
+    });
+
+    // Model calls made to prepare retrieval (query rewrite and LLM re-ranking),
+    // both made with the configured chat model
+    const retrievalUsage = {
+      tokensInput: rewrite.tokensInput + ragResult.rerankUsage.tokensInput,
+      tokensOutput: rewrite.tokensOutput + ragResult.rerankUsage.tokensOutput,
+      cost: Number(rewrite.cost) + Number(ragResult.rerankUsage.cost),
+      provider: rewrite.provider ?? ragResult.rerankUsage.provider,
+      model: rewrite.model ?? ragResult.rerankUsage.model,
+    };
+
+    // Save user message with embedding and retrieval model usage tracking; a regenerated
+    // answer re-runs retrieval, which is added to the question it answers
+    const userMessage = turn.questionId
+      ? await prisma.chatMessage.update({
+          where: { id: turn.questionId },
+          data: {
+            tokensInput: { increment: retrievalUsage.tokensInput },
+            tokensOutput: { increment: retrievalUsage.tokensOutput },
+            costUsd: { increment: retrievalUsage.cost },
+            tokensEmbedding: { increment: ragResult.embeddingTokens },
+            embeddingCostUsd: { increment: ragResult.embeddingCost },
+          },
+        })
+      : await prisma.chatMessage.create({
+          data: {
+            threadId: thread.id,
+            parentId: turn.parentId,
+            role: 'user',
+            content: turn.content,
+            tokensInput: retrievalUsage.tokensInput,
+            tokensOutput: retrievalUsage.tokensOutput,
+            costUsd: retrievalUsage.cost,
+            provider: retrievalUsage.provider,
+            model: retrievalUsage.model,
+            tokensEmbedding: ragResult.embeddingTokens,
+            embeddingCostUsd: ragResult.embeddingCost,
+          },
         });
-      }
-      
-      // Add recent conversation history (last 5 messages or pairs)
-      const recentMessages = previousMessages.slice(-10).map((m: any) => ({
+
+    // Update embedding analytics immediately for user message
+    const analyticsService = new AnalyticsService();
+
+    try {
+      await analyticsService.updateUserUsageAggregations(userId, {
+        tokensInput: retrievalUsage.tokensInput,
+        tokensOutput: retrievalUsage.tokensOutput,
+        tokensEmbedding: ragResult.embeddingTokens,
+        costUsd: retrievalUsage.cost,
+        embeddingCostUsd: Number(ragResult.embeddingCost),
+        createdAt: new Date(),
+        isNewThread,
+      });
+    } catch (error) {
+      logger.error('Failed to update user analytics for embedding:', error);
+    }
+
+    // Update thread title if it's the first message and thread has default title
+    if (isNewThread && thread.title === 'New Chat') {
+      const title = this.generateThreadTitle(turn.content);
+      await prisma.chatThread.update({
+        where: { id: thread.id },
+        data: { title },
+      });
+    }
+
+    // Lets the client replace its placeholder id with the saved question's
+    yield {
+      type: 'user_message' as const,
+      messageId: userMessage.id,
+      parentId: userMessage.parentId,
+    };
+
+    // Prepare messages for AI - summary, recent history and retrieved context,
+    // trimmed to the input token budget
+    const chatContext = await this.contextBuilder.buildChatContext({
+      message: turn.content,
+      summary: thread.summary,
+      history: previousMessages.map((m: any) => ({
         role: m.role,
         content: m.content
-      }));
-      
-      contextMessages.push(...recentMessages);
-      contextMessages.push({ role: 'user', content: request.content });
-
-      // Stream AI response
-      let assistantMessage: any = null;
-      let fullResponse = '';
-
-      for await (const chunk of this.openaiService.streamChatCompletion(contextMessages, ragResult.context)) {
-        if (chunk.finished) {
-          // Save assistant message with final token counts and cost
-          assistantMessage = await prisma.chatMessage.create({
-            data: {
-              threadId: request.threadId,
-              role: 'assistant',
-              content: chunk.fullResponse,
-              tokensInput: chunk.tokensInput,
-              tokensOutput: chunk.tokensOutput,
-              costUsd: chunk.cost,
-            },
-          });
-
-          // Update analytics immediately for real-time statistics
-          const analyticsService = new AnalyticsService();
-
-          await Promise.all([
-            // Immediate analytics updates for real-time dashboard
-            analyticsService.updateUserUsageAggregations(userId, {
-              tokensInput: chunk.tokensInput,
-              tokensOutput: chunk.tokensOutput,
-              tokensEmbedding: ragResult.embeddingTokens,
-              costUsd: Number(chunk.cost),
-              embeddingCostUsd: Number(ragResult.embeddingCost),
-              createdAt: assistantMessage.createdAt,
-              isNewThread: previousMessages.length === 0,
-            }),
-
-            analyticsService.updateSystemUsageAggregations({
-              tokensInput: chunk.tokensInput,
-              tokensOutput: chunk.tokensOutput,
-              tokensEmbedding: ragResult.embeddingTokens,
-              costUsd: Number(chunk.cost),
-              embeddingCostUsd: Number(ragResult.embeddingCost),
-              createdAt: assistantMessage.createdAt,
-              isNewThread: previousMessages.length === 0,
-            }),
-
-            // Update daily usage (legacy method - can be removed later)
-            this.updateDailyUsage(userId),
-          ]);
-
-          // Still queue tasks for backup/redundancy (can be removed if not needed)
-          this.taskQueue.enqueueTask('analytics_update', {
-            userId,
-            data: {
-              tokensInput: chunk.tokensInput,
-              tokensOutput: chunk.tokensOutput,
-              tokensEmbedding: ragResult.embeddingTokens,
-              costUsd: Number(chunk.cost),
-              embeddingCostUsd: Number(ragResult.embeddingCost),
-              createdAt: assistantMessage.createdAt,
-              isNewThread: previousMessages.length === 0,
-            },
-            type: 'user_usage'
-          }).catch(error => {
-            logger.error('Failed to queue user analytics update:', error);
-          });
-
-          // Queue thread summary generation asynchronously
-          this.taskQueue.enqueueTask('summary_generation', {
-            threadId: request.threadId,
-            messages: [...previousMessages, userMessage, assistantMessage],
-            userId
-          }).catch(error => {
-            logger.error('Failed to queue summary generation:', error);
-          });
-
-          yield {
-            type: 'complete' as const,
+      })),
+      sources: ragResult.sources,
+    });
+
+    // Let the client know which chunks the answer can cite before streaming starts
+    if (chatContext.sources.length > 0) {
+      yield {
+        type: 'sources' as const,
+        sources: chatContext.sources,
+      };
+    }
+
+    // Stream AI response
+    let assistantMessage: any = null;
+    let fullResponse = '';
+
+    const chatModel = await this.resolveChatModel(userId, thread);
+    // Kept with the answer so feedback reviews see the prompt it was generated under
+    const systemPromptId = await this.saveSystemPrompt(await this.settingsService.getSystemPrompt());
+
+    for await (const chunk of this.openaiService.streamChatCompletion(chatContext.messages, chatContext.context, chatModel, signal)) {
+      if (chunk.finished) {
+        // Save assistant message with final token counts and cost
+        assistantMessage = await prisma.chatMessage.create({
+          data: {
+            threadId: thread.id,
+            parentId: userMessage.id,
+            role: 'assistant',
             content: chunk.fullResponse,
-            messageId: assistantMessage.id,
-          };
-        } else {
-          fullResponse = chunk.fullResponse;
-          yield {
-            type: 'chunk' as const,
-            content: chunk.content,
-          };
-        }
+            tokensInput: chunk.tokensInput,
+            tokensOutput: chunk.tokensOutput,
+            costUsd: chunk.cost,
+            provider: chunk.provider,
+            model: chunk.model,
+            sources: chatContext.sources.length > 0 ? chatContext.sources : undefined,
+            incomplete: chunk.incomplete,
+            systemPromptId,
+          },
+        });
+
+        // The branch only moves once there is an answer, so a failed question is left out of it
+        await prisma.chatThread.update({
+          where: { id: thread.id },
+          data: { activeMessageId: assistantMessage.id },
+        });
+
+        await Promise.all([
+          // Immediate analytics updates for real-time dashboard
+          analyticsService.updateUserUsageAggregations(userId, {
+            tokensInput: chunk.tokensInput,
+            tokensOutput: chunk.tokensOutput,
+            tokensEmbedding: ragResult.embeddingTokens,
+            costUsd: Number(chunk.cost),
+            embeddingCostUsd: Number(ragResult.embeddingCost),
+            createdAt: assistantMessage.createdAt,
+            isNewThread,
+          }),
+
+          // System stats count the exchange once, so retrieval model usage is folded in here
+          analyticsService.updateSystemUsageAggregations({
+            tokensInput: chunk.tokensInput + retrievalUsage.tokensInput,
+            tokensOutput: chunk.tokensOutput + retrievalUsage.tokensOutput,
+            tokensEmbedding: ragResult.embeddingTokens,
+            costUsd: Number(chunk.cost) + retrievalUsage.cost,
+            embeddingCostUsd: Number(ragResult.embeddingCost),
+            createdAt: assistantMessage.createdAt,
+            isNewThread,
+          }),
+
+          // Update daily usage (legacy method - can be removed later)
+          this.updateDailyUsage(userId),
+        ]);
+
+        // Still queue tasks for backup/redundancy (can be removed if not needed)
+        this.taskQueue.enqueueTask('analytics_update', {
+          userId,
+          data: {
+            tokensInput: chunk.tokensInput,
+            tokensOutput: chunk.tokensOutput,
+            tokensEmbedding: ragResult.embeddingTokens,
+            costUsd: Number(chunk.cost),
+            embeddingCostUsd: Number(ragResult.embeddingCost),
+            createdAt: assistantMessage.createdAt,
+            isNewThread,
+          },
+          type: 'user_usage'
+        }).catch(error => {
+          logger.error('Failed to queue user analytics update:', error);
+        });
+
+        // Queue thread summary generation asynchronously
+        this.taskQueue.enqueueTask('summary_generation', {
+          threadId: thread.id,
+          messages: [...previousMessages, userMessage, assistantMessage]
+            .map(({ role, content }) => ({ role, content })),
+          userId
+        }).catch(error => {
+          logger.error('Failed to queue summary generation:', error);
+        });
+
+        yield {
+          type: 'complete' as const,
+          content: chunk.fullResponse,
+          messageId: assistantMessage.id,
+          parentId: userMessage.id,
+          incomplete: chunk.incomplete,
+        };
+      } else {
+        fullResponse = chunk.fullResponse;
+        yield {
+          type: 'chunk' as const,
+          content: chunk.content,
+        };
       }
+    }
+
+    logger.info(`Message processed for thread: ${thread.id}`);
+  }
+
+  // Answers share one row per distinct prompt rather than each carrying a copy of it
+  private async saveSystemPrompt(content: string): Promise<string> {
+    const hash = createHash('sha256').update(content).digest('hex');
+    const prompt = await prisma.systemPrompt.upsert({
+      where: { hash },
+      create: { hash, content },
+      update: {},
+      select: { id: true },
+    });
+
+    return prompt.id;
+  }
+
+  private async getMessageTree(threadId: string): Promise<MessageTree> {
+    const messages = await prisma.chatMessage.findMany({
+      where: { threadId },
+      select: { id: true, parentId: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const tree: MessageTree = { parents: new Map(), children: new Map() };
+    for (const message of messages) {
+      tree.parents.set(message.id, message.parentId);
+      tree.children.set(message.parentId, [...(tree.children.get(message.parentId) || []), message.id]);
+    }
+
+    return tree;
+  }
+
+  // Message ids from the root of the thread down to leafId
+  private getBranchPath(tree: MessageTree, leafId: string | null): string[] {
+    const path: string[] = [];
+    for (let id = leafId; id && tree.parents.has(id); id = tree.parents.get(id) ?? null) {
+      path.unshift(id);
+    }
+    return path;
+  }
 
-      logger.info(`Message processed for thread: ${request.threadId}`);
+  // End of the branch being shown, falling back to the latest one when none was picked
+  private getActiveLeaf(tree: MessageTree, activeMessageId: string | null): string | null {
+    return activeMessageId && tree.parents.has(activeMessageId)
+      ? activeMessageId
+      : this.getLatestLeaf(tree, null);
+  }
+
+  // Follows the most recent reply down from messageId, or from the latest root when null
+  private getLatestLeaf(tree: MessageTree, messageId: string | null): string | null {
+    let leafId = messageId;
+    for (let replies = tree.children.get(leafId); replies?.length; replies = tree.children.get(leafId)) {
+      leafId = replies[replies.length - 1];
+    }
+    return leafId;
+  }
+
+  private async buildSearchQuery(
+    content: string,
+    summary: string | null,
+    previousMessages: Array<{ role: string; content: string }>
+  ): Promise<{
+    query: string;
+    tokensInput: number;
+    tokensOutput: number;
+    cost: number;
+    provider?: string;
+    model?: string;
+  }> {
+    const original = { query: content, tokensInput: 0, tokensOutput: 0, cost: 0 };
+
+    // The first message of a thread has nothing to resolve against
+    if (previousMessages.length === 0 || !(await this.settingsService.getQueryRewriteEnabled())) {
+      return original;
+    }
+
+    try {
+      const history = previousMessages
+        .slice(-RAG_CONFIG.QUERY_REWRITE_HISTORY_MESSAGES)
+        .map(m => `${m.role}: ${m.content}`)
+        .join('\n');
+
+      const { content: query, ...usage } = await this.openaiService.generateCompletion([
+        {
+          role: 'system',
+          content: 'You rewrite the latest user message of a conversation into a standalone search query for a knowledge base. Resolve pronouns and implicit references using the conversation, keep the language of the user message, and reply with the query only. If the message is already standalone, return it unchanged.'
+        },
+        {
+          role: 'user',
+          content: `${summary ? `Conversation summary: ${summary}\n\n` : ''}Recent messages:\n${history}\n\nLatest user message: ${content}`
+        }
+      ], { maxTokens: 100 });
+
+      if (query) {
+        logger.debug(`Search query rewritten: "${content}" -> "${query}"`);
+      }
 
+      // Keep the rewrite cost even when the model returns nothing usable
+      return { ...usage, query: query || content };
     } catch (error) {
-      logger.error('Stream message error:', error);
-      yield {
-        type: 'error' as const,
-        error: error instanceof Error ? error.message : 'Unknown error occurred',
-      };
+      // Retrieval still works with the raw message, so don't fail the chat
+      logger.error('Query rewrite error:', error);
+      return original;
     }
   }
 
+  private async getUserPlanId(userId: string): Promise<string> {
+    const subscription = await prisma.subscription.findUnique({
+      where: { userId },
+      select: { planId: true },
+    });
+
+    // Users without a subscription record are treated as free users
+    return subscription?.planId || 'free';
+  }
+
+  // The thread's model while the user's plan still allows it, otherwise the plan's default,
+  // so a downgrade takes effect on the next message
+  private async resolveChatModel(
+    userId: string,
+    thread: { provider: string | null; model: string | null }
+  ): Promise<ModelOption> {
+    const models = await this.settingsService.getPlanModels(await this.getUserPlanId(userId));
+    const selected = models.find(option =>
+      option.provider === thread.provider && option.model === thread.model
+    );
+
+    return selected || models[0];
+  }
+
   private async checkUsageLimits(userId: string): Promise<void> {
     // Get user subscription
     const subscription = await prisma.subscription.findUnique({
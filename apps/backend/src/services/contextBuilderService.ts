@@ -0,0 +1,163 @@
+import { OpenAIService } from './openaiService';
+import { SettingsService } from './settingsService';
+import { formatRetrievedContext } from './ragService';
+import logger from '../config/logger';
+import { CONTEXT_BUDGET, calculateTokens } from '@fluxo/shared';
+import type { MessageSource } from '@fluxo/shared';
+
+type PromptMessage = { role: string; content: string };
+
+export interface ChatContextInput {
+  message: string;
+  summary: string | null;
+  history: PromptMessage[]; // Chronological, oldest first
+  sources: MessageSource[]; // In rank order, best first
+}
+
+export interface ChatContext {
+  messages: PromptMessage[];
+  context: string;
+  sources: MessageSource[];
+  tokens: {
+    budget: number;
+    systemPrompt: number;
+    summary: number;
+    history: number;
+    retrieved: number;
+    message: number;
+  };
+}
+
+const TRUNCATION_MARKER = ' […]';
+
+const countMessageTokens = (content: string): number =>
+  calculateTokens(content) + CONTEXT_BUDGET.MESSAGE_OVERHEAD_TOKENS;
+
+const formatSummary = (summary: string): string => `Previous conversation summary: ${summary}`;
+
+/**
+ * Fits the prompt for a chat completion into the input token budget. The system
+ * prompt and the new message are always sent; the remaining budget goes to
+ * retrieved context, the thread summary and history, each trimmed the same way
+ * every time for the same input:
+ * - retrieved context drops its lowest-ranked chunks,
+ * - the summary is cut at a word boundary,
+ * - history drops its oldest messages.
+ */
+export class ContextBuilderService {
+  private openaiService: OpenAIService;
+  private settingsService: SettingsService;
+
+  constructor() {
+    this.openaiService = new OpenAIService();
+    this.settingsService = new SettingsService();
+  }
+
+  async buildChatContext(input: ChatContextInput): Promise<ChatContext> {
+    const [{ contextWindowTokens, maxInputTokens }, maxTokens] = await Promise.all([
+      this.settingsService.getContextBudgetSettings(),
+      this.settingsService.getMaxTokens(),
+    ]);
+
+    // The answer's tokens come out of the same window, so they're reserved up front
+    const budget = Math.max(0, Math.min(contextWindowTokens - maxTokens, maxInputTokens));
+
+    // Measure the prompt's own wording apart from the context block it wraps
+    const fullContext = formatRetrievedContext(input.sources);
+    const systemPromptTokens = calculateTokens(await this.openaiService.getContextualSystemPrompt(fullContext))
+      - calculateTokens(fullContext);
+    const messageTokens = countMessageTokens(input.message);
+
+    let flexible = budget - systemPromptTokens - messageTokens;
+    if (flexible <= 0) {
+      logger.warn(`Chat prompt needs ${systemPromptTokens + messageTokens} tokens with no context, budget is ${budget}`);
+      flexible = 0;
+    }
+
+    // Retrieved context and summary are capped at their share; history takes what's left
+    const sources = this.fitSources(input.sources, Math.floor(flexible * CONTEXT_BUDGET.RETRIEVED_SHARE));
+    const context = formatRetrievedContext(sources);
+    const retrievedTokens = calculateTokens(context);
+
+    // A summary only matters once the thread has history
+    const wantsSummary = Boolean(input.summary && input.history.length > 0);
+    const summary = wantsSummary && input.summary
+      ? this.fitSummary(input.summary, Math.floor(flexible * CONTEXT_BUDGET.SUMMARY_SHARE))
+      : null;
+    const summaryTokens = summary ? countMessageTokens(formatSummary(summary)) : 0;
+
+    const history = this.fitHistory(input.history, flexible - retrievedTokens - summaryTokens);
+    const historyTokens = history.reduce((total, m) => total + countMessageTokens(m.content), 0);
+
+    const summaryTrimmed = wantsSummary && summary !== input.summary;
+    if (sources.length < input.sources.length || history.length < input.history.length || summaryTrimmed) {
+      logger.debug(
+        `Context trimmed to ${budget} tokens: ${sources.length}/${input.sources.length} chunks, ` +
+        `${history.length}/${input.history.length} messages${summaryTrimmed ? ', summary shortened' : ''}`
+      );
+    }
+
+    const messages: PromptMessage[] = [];
+    if (summary) {
+      messages.push({ role: 'system', content: formatSummary(summary) });
+    }
+    messages.push(...history);
+    messages.push({ role: 'user', content: input.message });
+
+    return {
+      messages,
+      context,
+      sources,
+      tokens: {
+        budget,
+        systemPrompt: systemPromptTokens,
+        summary: summaryTokens,
+        history: historyTokens,
+        retrieved: retrievedTokens,
+        message: messageTokens,
+      },
+    };
+  }
+
+  // Keeps the best-ranked chunks that fit; citation numbers stay contiguous because only the tail is dropped
+  private fitSources(sources: MessageSource[], budget: number): MessageSource[] {
+    let count = sources.length;
+    while (count > 0 && calculateTokens(formatRetrievedContext(sources.slice(0, count))) > budget) {
+      count--;
+    }
+    return sources.slice(0, count);
+  }
+
+  private fitSummary(summary: string, budget: number): string | null {
+    if (countMessageTokens(formatSummary(summary)) <= budget) {
+      return summary;
+    }
+
+    const overhead = countMessageTokens(formatSummary('')) + calculateTokens(TRUNCATION_MARKER);
+    // calculateTokens estimates ~4 characters per token
+    const maxChars = (budget - overhead) * 4;
+    if (maxChars <= 0) {
+      return null;
+    }
+
+    const cut = summary.slice(0, maxChars);
+    const lastSpace = cut.lastIndexOf(' ');
+    return `${(lastSpace > 0 ? cut.slice(0, lastSpace) : cut).trimEnd()}${TRUNCATION_MARKER}`;
+  }
+
+  // Walks back from the newest message and stops at the first one that doesn't fit,
+  // so the history sent is always a contiguous recent stretch
+  private fitHistory(history: PromptMessage[], budget: number): PromptMessage[] {
+    let used = 0;
+    let start = history.length;
+
+    while (start > 0) {
+      const tokens = countMessageTokens(history[start - 1].content);
+      if (used + tokens > budget) break;
+      used += tokens;
+      start--;
+    }
+
+    return history.slice(start);
+  }
+}
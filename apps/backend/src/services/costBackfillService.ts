@@ -0,0 +1,134 @@
+import { prisma } from '../config/database';
+import logger from '../config/logger';
+import { env } from '../config/env';
+import { ModelPricingService } from './modelPricingService';
+import { AnalyticsService } from './analyticsService';
+import { SettingsService } from './settingsService';
+import type { CostBackfillResult } from '@fluxo/shared';
+
+const BATCH_SIZE = 500;
+
+export interface CostBackfillOptions {
+  from?: string;
+  to?: string;
+  provider?: string;
+  model?: string;
+}
+
+/**
+ * Recomputes the inference cost of stored chat messages from their token counts and
+ * the ModelPricing window in effect when each message was sent, then shifts the usage
+ * aggregates by the difference. Re-running it only touches messages whose cost changed.
+ */
+export class CostBackfillService {
+  private pricingService: ModelPricingService;
+  private analyticsService: AnalyticsService;
+  private settingsService: SettingsService;
+
+  constructor() {
+    this.pricingService = new ModelPricingService();
+    this.analyticsService = new AnalyticsService();
+    this.settingsService = new SettingsService();
+  }
+
+  async recalculateMessageCosts(options: CostBackfillOptions = {}): Promise<CostBackfillResult> {
+    try {
+      // Messages saved before the model was recorded are assumed to use this one
+      const aiSettings = await this.settingsService.getAISettings();
+      const fallbackProvider = options.provider || aiSettings.provider;
+      const fallbackModel = options.model || aiSettings.model || env.INFERENCE_MODEL;
+
+      const history = await this.pricingService.getInferencePricingHistory();
+
+      const where = {
+        OR: [{ tokensInput: { gt: 0 } }, { tokensOutput: { gt: 0 } }],
+        ...((options.from || options.to) && {
+          createdAt: {
+            ...(options.from && { gte: new Date(options.from) }),
+            ...(options.to && { lte: new Date(options.to) }),
+          },
+        }),
+      };
+
+      const result: CostBackfillResult = { processed: 0, updated: 0, unpriced: 0, costDelta: 0 };
+      let cursor: string | undefined;
+
+      while (true) {
+        const messages = await prisma.chatMessage.findMany({
+          where,
+          select: {
+            id: true,
+            tokensInput: true,
+            tokensOutput: true,
+            costUsd: true,
+            provider: true,
+            model: true,
+            createdAt: true,
+            thread: { select: { userId: true } },
+          },
+          orderBy: { id: 'asc' },
+          take: BATCH_SIZE,
+          ...(cursor && { skip: 1, cursor: { id: cursor } }),
+        });
+
+        if (messages.length === 0) break;
+        cursor = messages[messages.length - 1].id;
+
+        // Cost changes per user and day, applied to the aggregates once per batch
+        const deltas = new Map<string, { userId: string; createdAt: Date; costDelta: number }>();
+
+        for (const message of messages) {
+          result.processed++;
+
+          const provider = message.provider || fallbackProvider;
+          const model = message.model || fallbackModel;
+          const pricing = this.pricingService.resolvePricingAt(
+            history.get(`${provider}:${model}`) || [],
+            message.createdAt
+          );
+
+          if (!pricing || pricing.inputPer1k === undefined || pricing.outputPer1k === undefined) {
+            result.unpriced++;
+            continue;
+          }
+
+          // costUsd is stored with 6 decimal places
+          const cost = Math.round(
+            ((message.tokensInput / 1000) * pricing.inputPer1k +
+              (message.tokensOutput / 1000) * pricing.outputPer1k) * 1e6
+          ) / 1e6;
+          const costDelta = cost - Number(message.costUsd);
+
+          if (Math.abs(costDelta) < 1e-6) continue;
+
+          await prisma.chatMessage.update({
+            where: { id: message.id },
+            data: { costUsd: cost },
+          });
+
+          const { userId } = message.thread;
+          const createdAt = message.createdAt;
+          const key = `${userId}:${createdAt.getFullYear()}-${createdAt.getMonth()}-${createdAt.getDate()}`;
+          const entry = deltas.get(key) || { userId, createdAt, costDelta: 0 };
+          entry.costDelta += costDelta;
+          deltas.set(key, entry);
+
+          result.updated++;
+          result.costDelta += costDelta;
+        }
+
+        for (const { userId, createdAt, costDelta } of deltas.values()) {
+          await this.analyticsService.adjustCostAggregations(userId, createdAt, costDelta);
+        }
+      }
+
+      result.costDelta = Math.round(result.costDelta * 1e6) / 1e6;
+
+      logger.info(`Cost backfill finished: ${result.updated}/${result.processed} messages repriced, ${result.unpriced} without pricing, delta $${result.costDelta}`);
+      return result;
+    } catch (error) {
+      logger.error('Cost backfill error:', error);
+      throw error;
+    }
+  }
+}
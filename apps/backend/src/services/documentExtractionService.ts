@@ -0,0 +1,120 @@
+import path from 'path';
+import pdfParse from 'pdf-parse';
+import mammoth from 'mammoth';
+import { convert as convertHtml, FormatCallback } from 'html-to-text';
+import logger from '../config/logger';
+import { ValidationError } from '@fluxo/shared';
+
+export type DocumentFormat = 'pdf' | 'docx' | 'markdown' | 'html' | 'text';
+
+export interface UploadedDocument {
+  originalname: string;
+  mimetype: string;
+  buffer: Buffer;
+}
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  '.pdf': 'pdf',
+  '.docx': 'docx',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.html': 'html',
+  '.htm': 'html',
+  '.txt': 'text',
+};
+
+const MIME_FORMATS: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/html': 'html',
+  'text/plain': 'text',
+};
+
+// Headings are written as Markdown so structure-aware chunking can track sections
+const formatMarkdownHeading: FormatCallback = (elem, walk, builder, formatOptions) => {
+  builder.openBlock({ leadingLineBreaks: 2 });
+  builder.addLiteral(`${'#'.repeat(formatOptions.level || 1)} `);
+  walk(elem.children, builder);
+  builder.closeBlock({ trailingLineBreaks: 2 });
+};
+
+export class DocumentExtractionService {
+  detectFormat(file: Pick<UploadedDocument, 'originalname' | 'mimetype'>): DocumentFormat | null {
+    // Browsers often send generic MIME types for .md files, so the extension wins
+    const extension = path.extname(file.originalname).toLowerCase();
+    return EXTENSION_FORMATS[extension] || MIME_FORMATS[file.mimetype] || null;
+  }
+
+  async extractText(file: UploadedDocument): Promise<string> {
+    const format = this.detectFormat(file);
+    if (!format) {
+      throw new ValidationError(`Unsupported file type: ${file.originalname}`);
+    }
+
+    let text: string;
+    try {
+      text = await this.extractByFormat(format, file.buffer);
+    } catch (error) {
+      logger.error(`Document extraction error (${format}):`, error);
+      throw new ValidationError(`Could not read ${file.originalname}`);
+    }
+
+    const normalized = this.normalizeText(text);
+    if (!normalized) {
+      // Typically a scanned PDF without a text layer
+      throw new ValidationError(`No text could be extracted from ${file.originalname}`);
+    }
+
+    return normalized;
+  }
+
+  private async extractByFormat(format: DocumentFormat, buffer: Buffer): Promise<string> {
+    switch (format) {
+      case 'pdf': {
+        const result = await pdfParse(buffer);
+        return result.text;
+      }
+      case 'docx': {
+        // Going through HTML keeps Word heading styles as headings
+        const result = await mammoth.convertToHtml({ buffer });
+        return this.htmlToText(result.value);
+      }
+      case 'html':
+        return this.htmlToText(buffer.toString('utf8'));
+      case 'markdown':
+      case 'text':
+        // Markdown is kept as-is so headings and lists survive for chunking
+        return buffer.toString('utf8');
+    }
+  }
+
+  private htmlToText(html: string): string {
+    return convertHtml(html, {
+      wordwrap: false,
+      formatters: { markdownHeading: formatMarkdownHeading },
+      selectors: [
+        { selector: 'a', options: { ignoreHref: true } },
+        { selector: 'img', format: 'skip' },
+        { selector: 'h1', format: 'markdownHeading', options: { level: 1 } },
+        { selector: 'h2', format: 'markdownHeading', options: { level: 2 } },
+        { selector: 'h3', format: 'markdownHeading', options: { level: 3 } },
+        { selector: 'h4', format: 'markdownHeading', options: { level: 4 } },
+        { selector: 'h5', format: 'markdownHeading', options: { level: 5 } },
+        { selector: 'h6', format: 'markdownHeading', options: { level: 6 } },
+        { selector: 'table', options: { uppercaseHeaderCells: false } },
+      ],
+    });
+  }
+
+  private normalizeText(text: string): string {
+    return text
+      .replace(/^﻿/, '')
+      .replace(/\u0000/g, '') // Postgres rejects NUL bytes in text columns
+      .replace(/\r\n?/g, '\n')
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+}
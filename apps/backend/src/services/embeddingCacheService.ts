@@ -0,0 +1,103 @@
+import { createHash } from 'crypto';
+import { redisClient } from '../config/redis';
+import logger from '../config/logger';
+import { EMBEDDING_CONFIG } from '@fluxo/shared';
+import type { EmbeddingCacheStats } from '@fluxo/shared';
+
+const CACHE_KEY_PREFIX = 'embedding';
+const STATS_KEY = 'embedding_cache:stats';
+
+// Whitespace and Unicode form differences don't change meaning, so they shouldn't miss the cache
+export const normalizeEmbeddingText = (text: string): string =>
+  text.normalize('NFC').replace(/\s+/g, ' ').trim();
+
+// pgvector stores float4 anyway, so Float32 loses nothing and keeps entries at ~8KB
+const encodeEmbedding = (embedding: number[]): string =>
+  Buffer.from(new Float32Array(embedding).buffer).toString('base64');
+
+const decodeEmbedding = (value: string): number[] => {
+  const buffer = Buffer.from(value, 'base64');
+  // Copy out of Node's shared buffer pool, whose offsets aren't guaranteed to be 4-byte aligned
+  const bytes = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+  return Array.from(new Float32Array(bytes));
+};
+
+/**
+ * Redis-backed cache of embeddings keyed by model and a hash of the normalized text.
+ * Redis being unavailable only disables caching; callers fall back to the API.
+ */
+export class EmbeddingCacheService {
+  buildKey(model: string, text: string): string {
+    const hash = createHash('sha256').update(normalizeEmbeddingText(text)).digest('hex');
+    return `${CACHE_KEY_PREFIX}:${model}:${hash}`;
+  }
+
+  // Returns one entry per text, null where nothing is cached
+  async getMany(model: string, texts: string[]): Promise<Array<number[] | null>> {
+    if (texts.length === 0 || !redisClient.isReady) {
+      return texts.map(() => null);
+    }
+
+    try {
+      const values = await redisClient.mGet(texts.map(text => this.buildKey(model, text)));
+      return values.map(value => (value ? decodeEmbedding(value) : null));
+    } catch (error) {
+      logger.error('Embedding cache read error:', error);
+      return texts.map(() => null);
+    }
+  }
+
+  async setMany(model: string, entries: Array<{ text: string; embedding: number[] }>): Promise<void> {
+    if (entries.length === 0 || !redisClient.isReady) return;
+
+    try {
+      const pipeline = redisClient.multi();
+      for (const { text, embedding } of entries) {
+        pipeline.set(this.buildKey(model, text), encodeEmbedding(embedding), {
+          EX: EMBEDDING_CONFIG.CACHE_TTL_SECONDS,
+        });
+      }
+      await pipeline.exec();
+    } catch (error) {
+      logger.error('Embedding cache write error:', error);
+    }
+  }
+
+  async recordLookups(hits: number, misses: number, tokensSaved: number): Promise<void> {
+    if (!redisClient.isReady) return;
+
+    try {
+      await redisClient
+        .multi()
+        .hIncrBy(STATS_KEY, 'hits', hits)
+        .hIncrBy(STATS_KEY, 'misses', misses)
+        .hIncrBy(STATS_KEY, 'tokensSaved', tokensSaved)
+        .exec();
+    } catch (error) {
+      logger.error('Embedding cache stats error:', error);
+    }
+  }
+
+  async getStats(): Promise<Omit<EmbeddingCacheStats, 'costSaved'>> {
+    const unavailable = { available: false, hits: 0, misses: 0, hitRate: 0, tokensSaved: 0 };
+    if (!redisClient.isReady) return unavailable;
+
+    try {
+      const stats = await redisClient.hGetAll(STATS_KEY);
+      const hits = Number(stats.hits) || 0;
+      const misses = Number(stats.misses) || 0;
+
+      return {
+        available: true,
+        hits,
+        misses,
+        hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+        tokensSaved: Number(stats.tokensSaved) || 0,
+      };
+    } catch (error) {
+      // The dashboard should still load when Redis drops mid-request
+      logger.error('Embedding cache stats read error:', error);
+      return unavailable;
+    }
+  }
+}
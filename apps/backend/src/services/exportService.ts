@@ -0,0 +1,476 @@
+import PDFDocument from 'pdfkit';
+import JSZip from 'jszip';
+import { prisma } from '../config/database';
+import logger from '../config/logger';
+import { ChatService, UnlockedThread } from './chatService';
+import { TaskQueueService } from './taskQueueService';
+import { MarkdownPdfRenderer } from './markdownPdfRenderer';
+import { NotFoundError, ValidationError, slugify } from '@fluxo/shared';
+import type { DataExportJob, MessageSource, ThreadExportFormat } from '@fluxo/shared';
+
+// Finished archives can be downloaded for this long before the scheduler clears them
+const DATA_EXPORT_TTL_DAYS = 7;
+
+// Dates in exported files are written for the Brazilian users the chat is built for
+const EXPORT_LOCALE = 'pt-BR';
+const EXPORT_TIME_ZONE = 'America/Sao_Paulo';
+
+const CONTENT_TYPES: Record<ThreadExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  pdf: 'application/pdf',
+};
+
+const ROLE_LABELS: Record<string, string> = {
+  user: 'Você',
+  assistant: 'Assistente',
+};
+
+// The archive itself is only read when downloading
+const JOB_SELECT = {
+  id: true,
+  status: true,
+  sizeBytes: true,
+  errorMessage: true,
+  createdAt: true,
+  completedAt: true,
+  expiresAt: true,
+};
+
+const DATA_EXPORT_README = `Exportação dos seus dados
+
+Este arquivo reúne os dados guardados na sua conta, conforme o direito à portabilidade da LGPD (Lei 13.709/2018, art. 18, V).
+
+- conta.json: perfil, assinatura, pagamentos e uso diário
+- conversas.json: todas as conversas com todas as mensagens, incluindo respostas regeneradas e perguntas editadas (parentId indica a mensagem anterior), com as avaliações que você deu às respostas
+- conversas/: cada conversa em Markdown, como aparece no chat
+
+Conversas protegidas por senha aparecem apenas com título e datas. Para exportar o conteúdo delas, abra a conversa, informe a senha e use a opção de exportar.
+`;
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  body: Buffer | string;
+}
+
+interface Conversation {
+  thread: UnlockedThread;
+  messages: any[];
+}
+
+/**
+ * Downloads of a single conversation and the background-built ZIP with everything a
+ * user has stored, for LGPD data-portability requests.
+ */
+export class ExportService {
+  private chatService: ChatService;
+  private taskQueue: TaskQueueService;
+
+  constructor() {
+    this.chatService = new ChatService();
+    this.taskQueue = new TaskQueueService();
+  }
+
+  async exportThread(threadId: string, userId: string, format: ThreadExportFormat, password?: string): Promise<ExportFile> {
+    try {
+      const conversation = await this.chatService.getConversation(threadId, userId, password);
+
+      let body: Buffer | string;
+      if (format === 'pdf') {
+        body = await this.renderPdf(conversation);
+      } else if (format === 'json') {
+        body = JSON.stringify(this.toConversationJson(conversation), null, 2);
+      } else {
+        body = this.renderMarkdown(conversation);
+      }
+
+      return {
+        filename: `${this.getFileBaseName(conversation.thread)}.${format}`,
+        contentType: CONTENT_TYPES[format],
+        body,
+      };
+    } catch (error) {
+      logger.error('Export thread error:', error);
+      throw error;
+    }
+  }
+
+  async requestDataExport(userId: string): Promise<DataExportJob> {
+    try {
+      // An export still being built is returned rather than starting another
+      const running = await prisma.dataExport.findFirst({
+        where: { userId, status: { in: ['pending', 'processing'] } },
+        select: JOB_SELECT,
+        orderBy: { createdAt: 'desc' },
+      });
+
+      if (running) {
+        return this.toJob(running);
+      }
+
+      const dataExport = await prisma.dataExport.create({
+        data: { userId },
+        select: JOB_SELECT,
+      });
+
+      const taskId = await this.taskQueue.enqueueTask('data_export', { exportId: dataExport.id }, { maxRetries: 1 });
+
+      logger.info(`Data export ${dataExport.id} enqueued for user ${userId} (task ${taskId})`);
+      return this.toJob(dataExport);
+    } catch (error) {
+      logger.error('Request data export error:', error);
+      throw error;
+    }
+  }
+
+  async getDataExport(userId: string, exportId: string): Promise<DataExportJob> {
+    try {
+      const dataExport = await prisma.dataExport.findFirst({
+        where: { id: exportId, userId },
+        select: JOB_SELECT,
+      });
+
+      if (!dataExport) {
+        throw new NotFoundError('Data export not found');
+      }
+
+      return this.toJob(dataExport);
+    } catch (error) {
+      logger.error('Get data export error:', error);
+      throw error;
+    }
+  }
+
+  async getDataExportArchive(userId: string, exportId: string): Promise<ExportFile> {
+    try {
+      const dataExport = await prisma.dataExport.findFirst({
+        where: { id: exportId, userId },
+      });
+
+      if (!dataExport) {
+        throw new NotFoundError('Data export not found');
+      }
+
+      if (dataExport.status !== 'completed') {
+        throw new ValidationError('Data export is not ready yet');
+      }
+
+      if (!dataExport.archive) {
+        throw new NotFoundError('Data export has expired');
+      }
+
+      return {
+        filename: `meus-dados-${dataExport.completedAt.toISOString().slice(0, 10)}.zip`,
+        contentType: 'application/zip',
+        body: Buffer.from(dataExport.archive),
+      };
+    } catch (error) {
+      logger.error('Get data export archive error:', error);
+      throw error;
+    }
+  }
+
+  // Runs as the data_export task
+  async buildDataExport(exportId: string): Promise<{ sizeBytes: number; threads: number } | { skipped: true; reason: string }> {
+    // The user may have deleted their account while the task was waiting
+    const dataExport = await prisma.dataExport.findUnique({
+      where: { id: exportId },
+      select: { id: true, userId: true },
+    });
+
+    if (!dataExport) {
+      return { skipped: true, reason: 'Data export not found' };
+    }
+
+    await prisma.dataExport.update({
+      where: { id: exportId },
+      data: { status: 'processing', errorMessage: null },
+    });
+
+    try {
+      const { archive, threads } = await this.buildArchive(dataExport.userId);
+
+      const expiresAt = new Date();
+      expiresAt.setDate(expiresAt.getDate() + DATA_EXPORT_TTL_DAYS);
+
+      await prisma.dataExport.update({
+        where: { id: exportId },
+        data: {
+          status: 'completed',
+          archive,
+          sizeBytes: archive.length,
+          completedAt: new Date(),
+          expiresAt,
+        },
+      });
+
+      logger.info(`Data export ${exportId} built (${archive.length} bytes, ${threads} threads)`);
+      return { sizeBytes: archive.length, threads };
+    } catch (error) {
+      logger.error('Build data export error:', error);
+      await prisma.dataExport.update({
+        where: { id: exportId },
+        data: { status: 'failed', errorMessage: error instanceof Error ? error.message : 'Unknown error' },
+      });
+      throw error;
+    }
+  }
+
+  // Drops archives past their download window; the job rows stay as a record of the request
+  async cleanupExpiredDataExports(): Promise<number> {
+    try {
+      const result = await prisma.dataExport.updateMany({
+        where: {
+          expiresAt: { lt: new Date() },
+          archive: { not: null },
+        },
+        data: { archive: null },
+      });
+
+      logger.info(`Cleared ${result.count} expired data export archives`);
+      return result.count;
+    } catch (error) {
+      logger.error('Cleanup expired data exports error:', error);
+      return 0;
+    }
+  }
+
+  private async buildArchive(userId: string): Promise<{ archive: Buffer; threads: number }> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: {
+        subscription: true,
+        payments: { orderBy: { createdAt: 'asc' } },
+        dailyUsage: { orderBy: { date: 'asc' } },
+      },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    const threads = await prisma.chatThread.findMany({
+      where: { userId },
+      include: { messages: { orderBy: { createdAt: 'asc' }, include: { feedback: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const zip = new JSZip();
+    zip.file('LEIAME.txt', DATA_EXPORT_README);
+    zip.file('conta.json', JSON.stringify(this.toAccountJson(user), null, 2));
+    zip.file('conversas.json', JSON.stringify(threads.map((thread: any) => ({
+      ...this.toThreadJson(thread),
+      passwordProtected: !!thread.passwordHash,
+      // Protected content, summary included, stays behind its password as it does in the chat
+      summary: thread.passwordHash ? null : thread.summary,
+      messages: thread.passwordHash ? [] : thread.messages.map((message: any) => this.toMessageJson(message)),
+    })), null, 2));
+
+    for (const thread of threads) {
+      if (thread.passwordHash) continue;
+
+      const conversation = await this.chatService.getConversation(thread.id, userId);
+      zip.file(
+        `conversas/${this.getFileBaseName(thread)}-${thread.id.slice(0, 8)}.md`,
+        this.renderMarkdown(conversation)
+      );
+    }
+
+    const archive = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+    return { archive, threads: threads.length };
+  }
+
+  private renderMarkdown({ thread, messages }: Conversation): string {
+    const lines = [
+      `# ${this.getTitle(thread)}`,
+      '',
+      `_Conversa iniciada em ${this.formatDate(thread.createdAt)}_`,
+      '',
+    ];
+
+    for (const message of messages) {
+      lines.push(
+        '---',
+        '',
+        `### ${ROLE_LABELS[message.role] ?? message.role} · ${this.formatDate(message.createdAt)}`,
+        '',
+        message.content,
+        ''
+      );
+
+      if (message.incomplete) {
+        lines.push('_Resposta interrompida_', '');
+      }
+
+      const sources = this.getSources(message);
+      if (sources.length > 0) {
+        lines.push(`**Fontes:** ${sources.map(source => `[${source.index}] ${source.title}`).join(' · ')}`, '');
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private renderPdf({ thread, messages }: Conversation): Promise<Buffer> {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: 50,
+      info: { Title: this.getTitle(thread) },
+    });
+
+    const rendered = new Promise<Buffer>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    const renderer = new MarkdownPdfRenderer(doc);
+    renderer.renderHeading(this.getTitle(thread), 1);
+    renderer.renderCaption(`Conversa iniciada em ${this.formatDate(thread.createdAt)}`);
+
+    for (const message of messages) {
+      renderer.renderRule();
+      renderer.renderCaption(
+        `${ROLE_LABELS[message.role] ?? message.role} · ${this.formatDate(message.createdAt)}`,
+        { bold: true }
+      );
+
+      // Questions are shown as typed; only answers are rendered as markdown in the chat
+      if (message.role === 'assistant') {
+        renderer.renderMarkdown(message.content);
+      } else {
+        renderer.renderPlainText(message.content);
+      }
+
+      if (message.incomplete) {
+        renderer.renderCaption('Resposta interrompida', { italic: true });
+      }
+
+      const sources = this.getSources(message);
+      if (sources.length > 0) {
+        renderer.renderCaption(`Fontes: ${sources.map(source => `[${source.index}] ${source.title}`).join(' · ')}`);
+      }
+    }
+
+    doc.end();
+    return rendered;
+  }
+
+  private toConversationJson({ thread, messages }: Conversation) {
+    return {
+      ...this.toThreadJson(thread),
+      messages: messages.map(message => this.toMessageJson(message)),
+    };
+  }
+
+  private toThreadJson(thread: any) {
+    return {
+      id: thread.id,
+      title: thread.title,
+      summary: thread.summary,
+      knowledgeTags: thread.knowledgeTags,
+      provider: thread.provider,
+      model: thread.model,
+      createdAt: thread.createdAt,
+    };
+  }
+
+  private toMessageJson(message: any) {
+    return {
+      id: message.id,
+      parentId: message.parentId,
+      role: message.role,
+      content: message.content,
+      provider: message.provider,
+      model: message.model,
+      sources: this.getSources(message),
+      incomplete: message.incomplete,
+      // The user's own rating, loaded for the data export only
+      ...(message.feedback && {
+        feedback: {
+          rating: message.feedback.rating,
+          reason: message.feedback.reason,
+          comment: message.feedback.comment,
+          createdAt: message.feedback.createdAt,
+        },
+      }),
+      createdAt: message.createdAt,
+    };
+  }
+
+  private toAccountJson(user: any) {
+    return {
+      profile: {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        googleAccountLinked: !!user.googleId,
+        createdAt: user.createdAt,
+      },
+      subscription: user.subscription && {
+        planId: user.subscription.planId,
+        status: user.subscription.status,
+        paymentMethod: user.subscription.paymentMethod,
+        currentPeriodStart: user.subscription.currentPeriodStart,
+        currentPeriodEnd: user.subscription.currentPeriodEnd,
+        nextBillingDate: user.subscription.nextBillingDate,
+        cancelAtPeriodEnd: user.subscription.cancelAtPeriodEnd,
+        canceledAt: user.subscription.canceledAt,
+        createdAt: user.subscription.createdAt,
+      },
+      payments: user.payments.map((payment: any) => ({
+        id: payment.id,
+        amount: Number(payment.amount),
+        currency: payment.currency,
+        status: payment.status,
+        type: payment.type,
+        paymentMethod: payment.paymentMethod,
+        description: payment.description,
+        createdAt: payment.createdAt,
+      })),
+      dailyUsage: user.dailyUsage.map((usage: any) => ({
+        date: usage.date.toISOString().slice(0, 10),
+        chatsCount: usage.chatsCount,
+        messagesCount: usage.messagesCount,
+        tokensInput: usage.tokensInput,
+        tokensOutput: usage.tokensOutput,
+      })),
+    };
+  }
+
+  private toJob(dataExport: any): DataExportJob {
+    return {
+      id: dataExport.id,
+      status: dataExport.status,
+      sizeBytes: dataExport.sizeBytes ?? undefined,
+      errorMessage: dataExport.errorMessage || undefined,
+      createdAt: dataExport.createdAt.toISOString(),
+      completedAt: dataExport.completedAt?.toISOString(),
+      expiresAt: dataExport.expiresAt?.toISOString(),
+    };
+  }
+
+  private getSources(message: any): MessageSource[] {
+    return Array.isArray(message.sources) ? message.sources : [];
+  }
+
+  private getTitle(thread: { title: string | null }): string {
+    return thread.title || 'Nova Conversa';
+  }
+
+  // Accents are dropped rather than stripped with the letter, so "Revisão" becomes "revisao"
+  private getFileBaseName(thread: { title: string | null }): string {
+    const name = slugify(this.getTitle(thread).normalize('NFD').replace(/[\u0300-\u036f]/g, ''));
+    return name || 'conversa';
+  }
+
+  private formatDate(date: Date): string {
+    return new Date(date).toLocaleString(EXPORT_LOCALE, {
+      timeZone: EXPORT_TIME_ZONE,
+      dateStyle: 'short',
+      timeStyle: 'short',
+    });
+  }
+}
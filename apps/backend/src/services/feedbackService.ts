@@ -0,0 +1,235 @@
+import { Prisma, MessageFeedback as MessageFeedbackRecord } from '@prisma/client';
+import { prisma } from '../config/database';
+import logger from '../config/logger';
+import { SettingsService } from './settingsService';
+import {
+  NotFoundError,
+  ValidationError,
+  FeedbackRatingSchema,
+  FeedbackReasonSchema
+} from '@fluxo/shared';
+import type {
+  FeedbackQueueQuery,
+  FeedbackReviewItem,
+  FeedbackStats,
+  MessageFeedback,
+  MessageFeedbackRequest,
+  MessageSource
+} from '@fluxo/shared';
+
+// Window the admin feedback summary counts over
+const FEEDBACK_STATS_DAYS = 30;
+
+// What a review queue item is built from: the answer, the question it replied to and its thread
+const REVIEW_ITEM_INCLUDE = {
+  user: { select: { email: true } },
+  message: {
+    include: {
+      parent: { select: { content: true } },
+      thread: { select: { id: true, title: true } },
+      systemPrompt: { select: { content: true } },
+    },
+  },
+} satisfies Prisma.MessageFeedbackInclude;
+
+type FeedbackWithAnswer = Prisma.MessageFeedbackGetPayload<{ include: typeof REVIEW_ITEM_INCLUDE }>;
+
+/**
+ * Thumbs up/down ratings users give assistant answers, and the admin queue of thumbs-down
+ * answers shown with what produced them: the question, the retrieved chunks and the system
+ * prompt saved with the answer when it was generated.
+ */
+export class FeedbackService {
+  private settingsService: SettingsService;
+
+  constructor() {
+    this.settingsService = new SettingsService();
+  }
+
+  // Rating again replaces the previous rating and puts it back in the review queue
+  async setMessageFeedback(messageId: string, userId: string, request: MessageFeedbackRequest): Promise<MessageFeedback> {
+    try {
+      await this.getOwnedAnswer(messageId, userId);
+
+      const data = {
+        rating: request.rating,
+        // Reasons explain what was wrong, so only a thumbs down keeps one
+        reason: request.rating === 'down' ? request.reason ?? null : null,
+        comment: request.comment || null,
+        reviewedAt: null,
+      };
+
+      const feedback = await prisma.messageFeedback.upsert({
+        where: { messageId },
+        create: { messageId, userId, ...data },
+        update: data,
+      });
+
+      logger.info(`Message ${messageId} rated ${feedback.rating} by user ${userId}`);
+      return this.toMessageFeedback(feedback);
+    } catch (error) {
+      logger.error('Set message feedback error:', error);
+      throw error;
+    }
+  }
+
+  async deleteMessageFeedback(messageId: string, userId: string): Promise<void> {
+    try {
+      await this.getOwnedAnswer(messageId, userId);
+
+      await prisma.messageFeedback.deleteMany({
+        where: { messageId },
+      });
+    } catch (error) {
+      logger.error('Delete message feedback error:', error);
+      throw error;
+    }
+  }
+
+  async getFeedbackQueue({ page, limit, status, reason }: FeedbackQueueQuery): Promise<{
+    items: FeedbackReviewItem[];
+    total: number;
+  }> {
+    try {
+      const where = {
+        rating: 'down',
+        ...(status === 'pending' && { reviewedAt: null }),
+        ...(status === 'reviewed' && { reviewedAt: { not: null } }),
+        ...(reason && { reason }),
+      };
+
+      const [feedback, total, currentSystemPrompt] = await Promise.all([
+        prisma.messageFeedback.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+          include: REVIEW_ITEM_INCLUDE,
+        }),
+        prisma.messageFeedback.count({ where }),
+        this.settingsService.getSystemPrompt(),
+      ]);
+
+      return {
+        items: feedback.map(entry => this.toReviewItem(entry, currentSystemPrompt)),
+        total,
+      };
+    } catch (error) {
+      logger.error('Get feedback queue error:', error);
+      throw error;
+    }
+  }
+
+  async setFeedbackReviewed(feedbackId: string, reviewed: boolean): Promise<void> {
+    try {
+      const feedback = await prisma.messageFeedback.findUnique({
+        where: { id: feedbackId },
+        select: { id: true },
+      });
+
+      if (!feedback) {
+        throw new NotFoundError('Feedback not found');
+      }
+
+      await prisma.messageFeedback.update({
+        where: { id: feedbackId },
+        data: { reviewedAt: reviewed ? new Date() : null },
+      });
+    } catch (error) {
+      logger.error('Set feedback reviewed error:', error);
+      throw error;
+    }
+  }
+
+  async getFeedbackStats(): Promise<FeedbackStats> {
+    try {
+      const since = new Date(Date.now() - FEEDBACK_STATS_DAYS * 24 * 60 * 60 * 1000);
+
+      const [byRating, byReason, pending] = await Promise.all([
+        prisma.messageFeedback.groupBy({
+          by: ['rating'],
+          where: { createdAt: { gte: since } },
+          _count: { _all: true },
+        }),
+        prisma.messageFeedback.groupBy({
+          by: ['reason'],
+          where: { createdAt: { gte: since }, rating: 'down' },
+          _count: { _all: true },
+        }),
+        prisma.messageFeedback.count({
+          where: { rating: 'down', reviewedAt: null },
+        }),
+      ]);
+
+      const countOf = (rating: string) =>
+        byRating.find(row => row.rating === rating)?._count._all ?? 0;
+
+      return {
+        days: FEEDBACK_STATS_DAYS,
+        up: countOf('up'),
+        down: countOf('down'),
+        pending,
+        byReason: byReason
+          .map(row => ({ reason: FeedbackReasonSchema.nullable().parse(row.reason), count: row._count._all }))
+          .sort((a, b) => b.count - a.count),
+      };
+    } catch (error) {
+      logger.error('Get feedback stats error:', error);
+      throw error;
+    }
+  }
+
+  private async getOwnedAnswer(messageId: string, userId: string): Promise<{ id: string }> {
+    const message = await prisma.chatMessage.findFirst({
+      where: { id: messageId, thread: { userId } },
+      select: { id: true, role: true },
+    });
+
+    if (!message) {
+      throw new NotFoundError('Message not found');
+    }
+
+    if (message.role !== 'assistant') {
+      throw new ValidationError('Only assistant answers can be rated');
+    }
+
+    return message;
+  }
+
+  private toReviewItem(entry: FeedbackWithAnswer, currentSystemPrompt: string): FeedbackReviewItem {
+    const { message } = entry;
+    const systemPrompt = message.systemPrompt?.content ?? null;
+
+    return {
+      id: entry.id,
+      reason: FeedbackReasonSchema.nullable().parse(entry.reason),
+      comment: entry.comment,
+      createdAt: entry.createdAt,
+      reviewedAt: entry.reviewedAt,
+      userEmail: entry.user.email,
+      threadId: message.thread.id,
+      threadTitle: message.thread.title,
+      question: message.parent?.content ?? null,
+      answer: {
+        id: message.id,
+        content: message.content,
+        provider: message.provider,
+        model: message.model,
+        incomplete: message.incomplete,
+        createdAt: message.createdAt,
+      },
+      sources: (Array.isArray(message.sources) ? message.sources : []) as MessageSource[],
+      systemPrompt,
+      systemPromptChanged: systemPrompt !== null && systemPrompt !== currentSystemPrompt,
+    };
+  }
+
+  private toMessageFeedback(feedback: MessageFeedbackRecord): MessageFeedback {
+    return {
+      rating: FeedbackRatingSchema.parse(feedback.rating),
+      reason: FeedbackReasonSchema.nullable().parse(feedback.reason),
+      comment: feedback.comment,
+      createdAt: feedback.createdAt,
+    };
+  }
+}
@@ -0,0 +1,108 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { env } from '../../config/env';
+import { AppError } from '@fluxo/shared';
+import {
+  LLMProvider,
+  LLMChatRequest,
+  LLMMessage,
+  LLMStreamEvent,
+  LLMCompletionResult
+} from '../../interfaces/LLMProvider';
+
+type AnthropicMessage = { role: 'user' | 'assistant'; content: string };
+
+export class AnthropicProvider extends LLMProvider {
+  providerName = 'anthropic';
+  private client: Anthropic | null = null;
+
+  // Created on first use so deployments without an Anthropic key still start
+  private getClient(): Anthropic {
+    if (!this.client) {
+      if (!env.ANTHROPIC_API_KEY) {
+        throw new AppError('ANTHROPIC_API_KEY is not configured', 500, 'PROVIDER_NOT_CONFIGURED');
+      }
+      this.client = new Anthropic({ apiKey: env.ANTHROPIC_API_KEY });
+    }
+    return this.client;
+  }
+
+  async *streamChat(request: LLMChatRequest): AsyncIterable<LLMStreamEvent> {
+    const { system, messages } = this.toAnthropicMessages(request.messages);
+
+    const stream = await this.getClient().messages.create({
+      model: request.model,
+      system,
+      messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      stream: true,
+    }, { signal: request.signal });
+
+    // Input tokens are reported when the message starts, output tokens when it ends
+    let tokensInput = 0;
+    for await (const event of stream) {
+      if (event.type === 'message_start') {
+        tokensInput = event.message.usage.input_tokens;
+      } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        yield { type: 'delta', content: event.delta.text };
+      } else if (event.type === 'message_delta') {
+        yield { type: 'usage', tokensInput, tokensOutput: event.usage.output_tokens };
+      }
+    }
+  }
+
+  async complete(request: LLMChatRequest): Promise<LLMCompletionResult> {
+    const { system, messages } = this.toAnthropicMessages(request.messages);
+
+    const response = await this.getClient().messages.create({
+      model: request.model,
+      system,
+      messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+    }, { signal: request.signal });
+
+    const content = response.content
+      .map(block => (block.type === 'text' ? block.text : ''))
+      .join('');
+
+    return {
+      content: content.trim(),
+      tokensInput: response.usage.input_tokens,
+      tokensOutput: response.usage.output_tokens,
+    };
+  }
+
+  async embed(): Promise<number[][]> {
+    throw new AppError('Anthropic does not provide an embeddings API; choose another embedding provider', 500, 'PROVIDER_NOT_SUPPORTED');
+  }
+
+  /**
+   * Anthropic takes system instructions as a separate field and requires the
+   * conversation to start with a user turn and alternate roles.
+   */
+  private toAnthropicMessages(input: LLMMessage[]): { system: string | undefined; messages: AnthropicMessage[] } {
+    const systemParts: string[] = [];
+    const messages: AnthropicMessage[] = [];
+
+    for (const message of input) {
+      if (message.role === 'system') {
+        systemParts.push(message.content);
+        continue;
+      }
+
+      const previous = messages[messages.length - 1];
+      if (previous && previous.role === message.role) {
+        previous.content += `\n\n${message.content}`;
+      } else if (messages.length > 0 || message.role === 'user') {
+        // History trimmed mid-exchange can begin with an assistant turn, which is dropped
+        messages.push({ role: message.role, content: message.content });
+      }
+    }
+
+    return {
+      system: systemParts.length > 0 ? systemParts.join('\n\n') : undefined,
+      messages,
+    };
+  }
+}
@@ -0,0 +1,17 @@
+import { env } from '../../config/env';
+import { OpenAIProvider } from './OpenAIProvider';
+
+/**
+ * Any server exposing the OpenAI chat and embeddings API, such as Ollama or vLLM.
+ * Local servers usually ignore the API key, but the SDK requires one.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  providerName = 'openai_compatible';
+
+  constructor() {
+    super({
+      apiKey: env.OPENAI_COMPATIBLE_API_KEY || 'not-needed',
+      baseURL: env.OPENAI_COMPATIBLE_BASE_URL,
+    });
+  }
+}
@@ -0,0 +1,87 @@
+import OpenAI from 'openai';
+import { env } from '../../config/env';
+import {
+  LLMProvider,
+  LLMChatRequest,
+  LLMStreamEvent,
+  LLMCompletionResult
+} from '../../interfaces/LLMProvider';
+
+export class OpenAIProvider extends LLMProvider {
+  providerName = 'openai';
+  protected client: OpenAI;
+
+  constructor(options: { apiKey?: string; baseURL?: string } = {}) {
+    super();
+    this.client = new OpenAI({
+      apiKey: options.apiKey ?? env.OPENAI_API_KEY,
+      baseURL: options.baseURL,
+    });
+  }
+
+  async *streamChat(request: LLMChatRequest): AsyncIterable<LLMStreamEvent> {
+    const stream = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      stream: true,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      stream_options: { include_usage: true }
+    }, {
+      signal: request.signal,
+      // Rate limits and outages are retried by the caller, which can also fall back to another model
+      maxRetries: 0,
+    });
+
+    for await (const chunk of stream) {
+      const content = chunk.choices[0]?.delta?.content || '';
+      if (content) {
+        yield { type: 'delta', content };
+      }
+
+      // Usage arrives on the final chunk
+      if (chunk.usage) {
+        yield {
+          type: 'usage',
+          tokensInput: chunk.usage.prompt_tokens,
+          tokensOutput: chunk.usage.completion_tokens,
+        };
+      }
+    }
+  }
+
+  async complete(request: LLMChatRequest): Promise<LLMCompletionResult> {
+    const response = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+    }, {
+      signal: request.signal,
+      // Query rewriting and re-ranking fall back on failure, and summaries are retried by the task queue
+      maxRetries: 0,
+    });
+
+    return {
+      content: response.choices[0]?.message?.content?.trim() || '',
+      tokensInput: response.usage?.prompt_tokens || 0,
+      tokensOutput: response.usage?.completion_tokens || 0,
+    };
+  }
+
+  async embed(texts: string[], model: string): Promise<number[][]> {
+    const response = await this.client.embeddings.create(
+      {
+        model,
+        input: texts,
+        encoding_format: 'float',
+      },
+      // Rate limits are retried by the caller with its own backoff
+      { maxRetries: 0 }
+    );
+
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
@@ -0,0 +1,87 @@
+import { AnthropicProvider } from '../AnthropicProvider';
+
+async function* events(...items: unknown[]) {
+  yield* items;
+}
+
+describe('AnthropicProvider', () => {
+  const provider = new AnthropicProvider();
+  const create = jest.fn();
+  const request = { model: 'claude', maxTokens: 100, temperature: 0.5 };
+
+  beforeEach(() => {
+    create.mockReset();
+    provider['client'] = { messages: { create } } as any;
+  });
+
+  describe('toAnthropicMessages', () => {
+    const convert = (...args: Parameters<AnthropicProvider['toAnthropicMessages']>) =>
+      provider['toAnthropicMessages'](...args);
+
+    it('moves system messages into the system field', () => {
+      expect(convert([
+        { role: 'system', content: 'Be brief.' },
+        { role: 'system', content: 'Cite sources.' },
+        { role: 'user', content: 'Hi' },
+      ])).toEqual({
+        system: 'Be brief.\n\nCite sources.',
+        messages: [{ role: 'user', content: 'Hi' }],
+      });
+    });
+
+    it('merges consecutive turns of the same role', () => {
+      const { messages } = convert([
+        { role: 'user', content: 'First' },
+        { role: 'user', content: 'Second' },
+        { role: 'assistant', content: 'Answer' },
+      ]);
+
+      expect(messages).toEqual([
+        { role: 'user', content: 'First\n\nSecond' },
+        { role: 'assistant', content: 'Answer' },
+      ]);
+    });
+
+    it('drops assistant turns before the first user turn', () => {
+      expect(convert([
+        { role: 'assistant', content: 'Trimmed answer' },
+        { role: 'user', content: 'Question' },
+      ])).toEqual({ system: undefined, messages: [{ role: 'user', content: 'Question' }] });
+    });
+  });
+
+  it('streams text deltas and reports the usage from the start and end events', async () => {
+    create.mockResolvedValue(events(
+      { type: 'message_start', message: { usage: { input_tokens: 42 } } },
+      { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hel' } },
+      { type: 'content_block_delta', delta: { type: 'text_delta', text: 'lo' } },
+      { type: 'message_delta', usage: { output_tokens: 7 } },
+    ));
+
+    const received = [];
+    for await (const event of provider.streamChat({ ...request, messages: [{ role: 'user', content: 'Hi' }] })) {
+      received.push(event);
+    }
+
+    expect(received).toEqual([
+      { type: 'delta', content: 'Hel' },
+      { type: 'delta', content: 'lo' },
+      { type: 'usage', tokensInput: 42, tokensOutput: 7 },
+    ]);
+  });
+
+  it('joins the text blocks of a completion', async () => {
+    create.mockResolvedValue({
+      content: [{ type: 'text', text: ' Hello' }, { type: 'tool_use' }, { type: 'text', text: ' there ' }],
+      usage: { input_tokens: 10, output_tokens: 3 },
+    });
+
+    const result = await provider.complete({ ...request, messages: [{ role: 'user', content: 'Hi' }] });
+
+    expect(result).toEqual({ content: 'Hello there', tokensInput: 10, tokensOutput: 3 });
+  });
+
+  it('refuses to embed', async () => {
+    await expect(provider.embed()).rejects.toMatchObject({ code: 'PROVIDER_NOT_SUPPORTED' });
+  });
+});
@@ -0,0 +1,68 @@
+import { OpenAIProvider } from '../OpenAIProvider';
+
+async function* chunks(...items: unknown[]) {
+  yield* items;
+}
+
+describe('OpenAIProvider', () => {
+  const provider = new OpenAIProvider({ apiKey: 'sk-test' });
+  const client = {
+    chat: { completions: { create: jest.fn() } },
+    embeddings: { create: jest.fn() },
+  };
+  const request = { model: 'gpt-4o', messages: [{ role: 'user' as const, content: 'Hi' }], maxTokens: 100, temperature: 0.5 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    provider['client'] = client as any;
+  });
+
+  it('streams content deltas and the usage from the final chunk', async () => {
+    client.chat.completions.create.mockResolvedValue(chunks(
+      { choices: [{ delta: { content: 'Hel' } }] },
+      { choices: [{ delta: { content: 'lo' } }] },
+      { choices: [], usage: { prompt_tokens: 12, completion_tokens: 2 } },
+    ));
+
+    const received = [];
+    for await (const event of provider.streamChat(request)) {
+      received.push(event);
+    }
+
+    expect(received).toEqual([
+      { type: 'delta', content: 'Hel' },
+      { type: 'delta', content: 'lo' },
+      { type: 'usage', tokensInput: 12, tokensOutput: 2 },
+    ]);
+  });
+
+  it('leaves retrying chat requests to the caller', async () => {
+    client.chat.completions.create
+      .mockResolvedValueOnce(chunks())
+      .mockResolvedValueOnce({ choices: [] });
+
+    for await (const _ of provider.streamChat(request)) {
+      // Drain the stream
+    }
+    await provider.complete(request);
+
+    for (const [, options] of client.chat.completions.create.mock.calls) {
+      expect(options).toEqual(expect.objectContaining({ maxRetries: 0 }));
+    }
+    expect(client.chat.completions.create).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports zero usage when a completion comes back without it', async () => {
+    client.chat.completions.create.mockResolvedValue({ choices: [{ message: { content: ' Hello ' } }] });
+
+    await expect(provider.complete(request)).resolves.toEqual({ content: 'Hello', tokensInput: 0, tokensOutput: 0 });
+  });
+
+  it('returns embeddings in input order', async () => {
+    client.embeddings.create.mockResolvedValue({
+      data: [{ index: 1, embedding: [2] }, { index: 0, embedding: [1] }],
+    });
+
+    await expect(provider.embed(['one', 'two'], 'text-embedding-3-small')).resolves.toEqual([[1], [2]]);
+  });
+});
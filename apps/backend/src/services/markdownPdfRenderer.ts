@@ -0,0 +1,350 @@
+import { marked, Token, Tokens } from 'marked';
+
+// Colors and sizes follow the chat's MarkdownRenderer so exports look like the answers on screen
+const COLORS = {
+  text: '#374151',
+  strong: '#111827',
+  heading: '#1f2937',
+  muted: '#6b7280',
+  link: '#2563eb',
+  border: '#d1d5db',
+  tableHeader: '#f3f4f6',
+  inlineCode: '#be185d',
+  codeBackground: '#111827',
+  codeText: '#f3f4f6',
+  quoteBorder: '#3b82f6',
+};
+
+const FONT_SIZE = 10.5;
+const HEADING_SIZES = [18, 15, 13, 12, 11, 11];
+const CODE_FONT_SIZE = 9;
+const CODE_PADDING = 8;
+const LIST_INDENT = 16;
+const QUOTE_INDENT = 12;
+const CELL_PADDING = 4;
+
+interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  strike?: boolean;
+  link?: string;
+}
+
+interface TextStyle {
+  size?: number;
+  color?: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+/**
+ * Draws markdown into a PDFKit document with the formatting the chat shows: headings,
+ * emphasis, links, inline and fenced code, lists, blockquotes, GFM tables and rules.
+ * Content flows from the document's current position within the page margins.
+ */
+export class MarkdownPdfRenderer {
+  private indent = 0;
+  private italicBlocks = 0;
+
+  constructor(private doc: PDFKit.PDFDocument) {}
+
+  renderMarkdown(markdown: string): void {
+    this.renderBlocks(marked.lexer(markdown, { gfm: true }));
+  }
+
+  // Text shown as typed, such as user questions, which the chat doesn't parse as markdown
+  renderPlainText(text: string, style: TextStyle = {}): void {
+    this.renderRuns([{ text, bold: style.bold, italic: style.italic }], style);
+    this.doc.moveDown(0.5);
+  }
+
+  // Small muted line for dates, sources and other details around the content
+  renderCaption(text: string, style: Pick<TextStyle, 'bold' | 'italic'> = {}): void {
+    this.renderRuns([{ text }], { ...style, size: 8.5, color: COLORS.muted });
+    this.doc.moveDown(0.4);
+  }
+
+  renderHeading(text: string, depth: number): void {
+    this.renderRuns([{ text, bold: true }], {
+      size: HEADING_SIZES[depth - 1] ?? FONT_SIZE,
+      color: COLORS.heading,
+    });
+    this.doc.moveDown(0.4);
+  }
+
+  renderRule(): void {
+    this.ensureSpace(12);
+    const y = this.doc.y + 4;
+    this.doc
+      .moveTo(this.left, y)
+      .lineTo(this.left + this.width, y)
+      .lineWidth(0.5)
+      .strokeColor(COLORS.border)
+      .stroke();
+    this.doc.y = y + 8;
+  }
+
+  private get left(): number {
+    return this.doc.page.margins.left + this.indent;
+  }
+
+  private get width(): number {
+    return this.doc.page.width - this.doc.page.margins.left - this.doc.page.margins.right - this.indent;
+  }
+
+  private get bottom(): number {
+    return this.doc.page.height - this.doc.page.margins.bottom;
+  }
+
+  // Starts a new page when less than height is left on this one
+  private ensureSpace(height: number): void {
+    if (this.doc.y + height > this.bottom) {
+      this.doc.addPage();
+    }
+  }
+
+  private renderBlocks(tokens: Token[]): void {
+    for (const token of tokens) {
+      this.renderBlock(token);
+    }
+  }
+
+  private renderBlock(token: Token): void {
+    switch (token.type) {
+      case 'heading':
+        this.renderRuns(this.toRuns((token as Tokens.Heading).tokens, { bold: true }), {
+          size: HEADING_SIZES[(token as Tokens.Heading).depth - 1] ?? FONT_SIZE,
+          color: COLORS.heading,
+        });
+        this.doc.moveDown(0.4);
+        break;
+      case 'paragraph':
+        this.renderRuns(this.toRuns((token as Tokens.Paragraph).tokens));
+        this.doc.moveDown(0.6);
+        break;
+      case 'text': {
+        // Tight list items hold their inline content in bare text tokens
+        const text = token as Tokens.Text;
+        this.renderRuns(text.tokens ? this.toRuns(text.tokens) : [{ text: text.text }]);
+        break;
+      }
+      case 'code':
+        this.renderCode(token as Tokens.Code);
+        break;
+      case 'blockquote':
+        this.renderBlockquote(token as Tokens.Blockquote);
+        break;
+      case 'list':
+        this.renderList(token as Tokens.List);
+        this.doc.moveDown(0.4);
+        break;
+      case 'table':
+        this.renderTable(token as Tokens.Table);
+        break;
+      case 'hr':
+        this.renderRule();
+        break;
+      case 'html':
+        this.renderRuns([{ text: (token as Tokens.HTML).text }]);
+        this.doc.moveDown(0.6);
+        break;
+      default:
+        break;
+    }
+  }
+
+  private toRuns(tokens: Token[] = [], inherited: Omit<InlineRun, 'text'> = {}): InlineRun[] {
+    return tokens.flatMap((token): InlineRun[] => {
+      switch (token.type) {
+        case 'strong':
+          return this.toRuns((token as Tokens.Strong).tokens, { ...inherited, bold: true });
+        case 'em':
+          return this.toRuns((token as Tokens.Em).tokens, { ...inherited, italic: true });
+        case 'del':
+          return this.toRuns((token as Tokens.Del).tokens, { ...inherited, strike: true });
+        case 'link':
+          return this.toRuns((token as Tokens.Link).tokens, { ...inherited, link: (token as Tokens.Link).href });
+        case 'codespan':
+          return [{ ...inherited, text: (token as Tokens.Codespan).text, code: true }];
+        case 'br':
+          return [{ ...inherited, text: '\n' }];
+        case 'image':
+          return [{ ...inherited, text: (token as Tokens.Image).text || (token as Tokens.Image).href }];
+        case 'text': {
+          const text = token as Tokens.Text;
+          return text.tokens ? this.toRuns(text.tokens, inherited) : [{ ...inherited, text: text.text }];
+        }
+        default:
+          return 'text' in token && typeof token.text === 'string' ? [{ ...inherited, text: token.text }] : [];
+      }
+    });
+  }
+
+  private fontFor(run: Omit<InlineRun, 'text'>): string {
+    if (run.code) {
+      return 'Courier';
+    }
+    const italic = run.italic || this.italicBlocks > 0;
+    if (run.bold && italic) return 'Helvetica-BoldOblique';
+    if (run.bold) return 'Helvetica-Bold';
+    if (italic) return 'Helvetica-Oblique';
+    return 'Helvetica';
+  }
+
+  // Writes runs as one flowing paragraph, switching font and color between them
+  private renderRuns(runs: InlineRun[], style: TextStyle = {}): void {
+    const visible = runs.filter(run => run.text.length > 0);
+    if (visible.length === 0) {
+      return;
+    }
+
+    const size = style.size ?? FONT_SIZE;
+    visible.forEach((run, index) => {
+      const options: PDFKit.Mixins.TextOptions = {
+        continued: index < visible.length - 1,
+        link: run.link ?? null,
+        underline: !!run.link,
+        strike: !!run.strike,
+        lineGap: 2,
+      };
+
+      this.doc
+        .font(this.fontFor({ ...run, bold: run.bold || style.bold, italic: run.italic || style.italic }))
+        .fontSize(run.code ? size - 1 : size)
+        .fillColor(run.link ? COLORS.link : run.code ? COLORS.inlineCode : run.bold ? COLORS.strong : style.color ?? COLORS.text);
+
+      if (index === 0) {
+        this.doc.text(run.text, this.left, this.doc.y, { ...options, width: this.width });
+      } else {
+        this.doc.text(run.text, options);
+      }
+    });
+  }
+
+  // Fenced code on a dark panel, split across pages a line at a time when it doesn't fit
+  private renderCode(token: Tokens.Code): void {
+    const innerWidth = this.width - CODE_PADDING * 2;
+    const lines = token.text.split('\n').map(line => line || ' ');
+    this.doc.font('Courier').fontSize(CODE_FONT_SIZE);
+
+    let next = 0;
+    while (next < lines.length) {
+      const isFirstChunk = next === 0;
+      this.ensureSpace(this.doc.heightOfString(lines[next], { width: innerWidth }) + CODE_PADDING * 2);
+
+      const available = this.bottom - this.doc.y - CODE_PADDING * 2;
+      const chunk: string[] = [];
+      let height = 0;
+      while (next < lines.length) {
+        const lineHeight = this.doc.heightOfString(lines[next], { width: innerWidth });
+        if (chunk.length > 0 && height + lineHeight > available) break;
+        chunk.push(lines[next]);
+        height += lineHeight;
+        next++;
+      }
+
+      const top = this.doc.y;
+      this.doc
+        .rect(this.left, top, this.width, height + CODE_PADDING * 2)
+        .fill(COLORS.codeBackground);
+      if (token.lang && isFirstChunk) {
+        this.doc
+          .font('Helvetica')
+          .fontSize(7)
+          .fillColor(COLORS.muted)
+          .text(token.lang, this.left, top + 3, { width: this.width - 6, align: 'right' });
+      }
+      this.doc
+        .font('Courier')
+        .fontSize(CODE_FONT_SIZE)
+        .fillColor(COLORS.codeText)
+        .text(chunk.join('\n'), this.left + CODE_PADDING, top + CODE_PADDING, { width: innerWidth });
+      this.doc.y = top + height + CODE_PADDING * 2;
+    }
+
+    this.doc.moveDown(0.6);
+  }
+
+  private renderBlockquote(token: Tokens.Blockquote): void {
+    const startPage = this.doc.page;
+    const top = this.doc.y;
+
+    this.indent += QUOTE_INDENT;
+    this.italicBlocks++;
+    this.renderBlocks(token.tokens);
+    this.italicBlocks--;
+    this.indent -= QUOTE_INDENT;
+
+    // The bar is drawn on the page the quote ends on, from its top when it started there
+    const barTop = this.doc.page === startPage ? top : this.doc.page.margins.top;
+    const barBottom = this.doc.y - 6;
+    this.doc
+      .moveTo(this.left + 2, barTop)
+      .lineTo(this.left + 2, Math.max(barTop, barBottom))
+      .lineWidth(3)
+      .strokeColor(COLORS.quoteBorder)
+      .stroke();
+  }
+
+  private renderList(token: Tokens.List): void {
+    const start = typeof token.start === 'number' ? token.start : 1;
+
+    token.items.forEach((item, index) => {
+      this.ensureSpace(FONT_SIZE * 1.5);
+      const marker = item.task
+        ? (item.checked ? '[x]' : '[ ]')
+        : token.ordered ? `${start + index}.` : '•';
+
+      const top = this.doc.y;
+      this.doc
+        .font('Helvetica')
+        .fontSize(FONT_SIZE)
+        .fillColor(COLORS.text)
+        .text(marker, this.left, top, { width: LIST_INDENT, lineGap: 2 });
+      this.doc.y = top;
+
+      this.indent += LIST_INDENT;
+      this.renderBlocks(item.tokens);
+      this.indent -= LIST_INDENT;
+    });
+  }
+
+  private renderTable(token: Tokens.Table): void {
+    const columnWidth = this.width / token.header.length;
+    const rows = [token.header, ...token.rows];
+
+    rows.forEach((cells, rowIndex) => {
+      const isHeader = rowIndex === 0;
+      this.doc.font(isHeader ? 'Helvetica-Bold' : 'Helvetica').fontSize(FONT_SIZE - 1);
+      const texts = cells.map(cell => this.toRuns(cell.tokens).map(run => run.text).join(''));
+      const height = Math.max(
+        ...texts.map(text => this.doc.heightOfString(text || ' ', { width: columnWidth - CELL_PADDING * 2 }))
+      ) + CELL_PADDING * 2;
+
+      this.ensureSpace(height);
+      const top = this.doc.y;
+
+      texts.forEach((text, columnIndex) => {
+        const x = this.left + columnIndex * columnWidth;
+        if (isHeader) {
+          this.doc.rect(x, top, columnWidth, height).fill(COLORS.tableHeader);
+        }
+        this.doc.rect(x, top, columnWidth, height).lineWidth(0.5).strokeColor(COLORS.border).stroke();
+        this.doc
+          .font(isHeader ? 'Helvetica-Bold' : 'Helvetica')
+          .fontSize(FONT_SIZE - 1)
+          .fillColor(isHeader ? COLORS.heading : COLORS.text)
+          .text(text, x + CELL_PADDING, top + CELL_PADDING, {
+            width: columnWidth - CELL_PADDING * 2,
+            align: cells[columnIndex].align ?? 'left',
+          });
+      });
+
+      this.doc.y = top + height;
+    });
+
+    this.doc.moveDown(0.6);
+  }
+}
@@ -8,6 +8,11 @@ interface PricingData {
   per1k?: number;
 }
 
+interface PricingWindow extends PricingData {
+  validFrom: Date;
+  validUntil?: Date;
+}
+
 interface CostCalculation {
   inputCost: number;
   outputCost: number;
@@ -197,6 +202,50 @@ export class ModelPricingService {
     };
   }
 
+  /**
+   * Every pricing window recorded for inference models, including expired ones,
+   * keyed by provider:model and ordered by validFrom.
+   */
+  async getInferencePricingHistory(): Promise<Map<string, PricingWindow[]>> {
+    try {
+      const records = await prisma.modelPricing.findMany({
+        where: { modelType: 'inference' },
+        orderBy: { validFrom: 'asc' },
+      });
+
+      const history = new Map<string, PricingWindow[]>();
+      for (const record of records) {
+        const key = `${record.provider}:${record.modelName}`;
+        const windows = history.get(key) || [];
+        windows.push({
+          inputPer1k: record.inputPer1k != null ? Number(record.inputPer1k) : undefined,
+          outputPer1k: record.outputPer1k != null ? Number(record.outputPer1k) : undefined,
+          validFrom: record.validFrom,
+          validUntil: record.validUntil || undefined,
+        });
+        history.set(key, windows);
+      }
+
+      return history;
+    } catch (error) {
+      logger.error('Failed to get inference pricing history:', error);
+      throw error;
+    }
+  }
+
+  // Pricing in effect at the given time. Usage from before a model's first pricing
+  // record was added is priced with that first record.
+  resolvePricingAt(windows: PricingWindow[], at: Date): PricingData | null {
+    const current = windows.filter(window =>
+      window.validFrom <= at && (!window.validUntil || window.validUntil > at)
+    );
+    if (current.length > 0) {
+      return current[current.length - 1];
+    }
+
+    return windows.length > 0 && at < windows[0].validFrom ? windows[0] : null;
+  }
+
   async calculateEmbeddingCost(
     provider: string,
     modelName: string,
@@ -1,40 +1,297 @@
-import OpenAI from 'openai';
 import { env } from '../config/env';
 import logger from '../config/logger';
-import { calculateTokens } from '@fluxo/shared';
+import {
+  calculateTokens,
+  AI_CONFIG,
+  EMBEDDING_CONFIG,
+  LLMProviderError,
+  ValidationError
+} from '@fluxo/shared';
 import { ModelPricingService } from './modelPricingService';
 import { SettingsService } from './settingsService';
+import { EmbeddingCacheService } from './embeddingCacheService';
+import { LLMProvider, LLMMessage, LLMChatRequest, LLMStreamEvent } from '../interfaces/LLMProvider';
+import { OpenAIProvider } from './llmProviders/OpenAIProvider';
+import { AnthropicProvider } from './llmProviders/AnthropicProvider';
+import { OpenAICompatibleProvider } from './llmProviders/OpenAICompatibleProvider';
 
+const toLLMMessages = (messages: Array<{ role: string; content: string }>): LLMMessage[] =>
+  messages.map(m => ({
+    role: m.role as LLMMessage['role'],
+    content: m.content
+  }));
+
+/**
+ * Chat, summary and embedding calls routed to the providers selected in system
+ * settings (`llm_provider` for chat, `embedding_provider` for embeddings).
+ */
 export class OpenAIService {
-  private openai: OpenAI;
+  private providers: Map<string, LLMProvider>;
   private pricingService: ModelPricingService;
   private settingsService: SettingsService;
+  private embeddingCache: EmbeddingCacheService;
 
   constructor() {
-    this.openai = new OpenAI({
-      apiKey: env.OPENAI_API_KEY,
-    });
+    this.providers = new Map();
+    this.providers.set('openai', new OpenAIProvider());
+    this.providers.set('anthropic', new AnthropicProvider());
+    this.providers.set('openai_compatible', new OpenAICompatibleProvider());
 
     this.pricingService = new ModelPricingService();
     this.settingsService = new SettingsService();
+    this.embeddingCache = new EmbeddingCacheService();
+  }
+
+  private getProvider(providerName: string): LLMProvider {
+    const provider = this.providers.get(providerName);
+    if (!provider) {
+      throw new ValidationError(`Unsupported LLM provider: ${providerName}`);
+    }
+    return provider;
   }
 
   async generateEmbedding(text: string): Promise<number[]> {
     try {
-      const response = await this.openai.embeddings.create({
-        model: env.EMBEDDING_MODEL,
-        input: text,
-        encoding_format: 'float',
+      const [embedding] = await this.generateEmbeddings([text]);
+      return embedding;
+    } catch (error) {
+      logger.error('OpenAI embedding error:', error);
+      throw error;
+    }
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    const { embeddings } = await this.embedTexts(texts);
+    return embeddings;
+  }
+
+  /**
+   * Embeds texts through the embedding cache, requesting only the misses from the API.
+   * `cached` tells, per input, whether the embedding cost nothing.
+   */
+  async embedTexts(texts: string[]): Promise<{ embeddings: number[][]; cached: boolean[] }> {
+    try {
+      const embeddingSettings = await this.settingsService.getEmbeddingSettings();
+      // Vectors from different providers aren't interchangeable even under the same model name
+      const model = `${embeddingSettings.provider}:${embeddingSettings.model}`;
+      const cachedEmbeddings = await this.embeddingCache.getMany(model, texts);
+
+      // Identical texts within one call are only requested once
+      const missingKeys = new Map<string, string>();
+      texts.forEach((text, i) => {
+        if (!cachedEmbeddings[i]) {
+          missingKeys.set(this.embeddingCache.buildKey(model, text), text);
+        }
       });
 
-      return response.data[0].embedding;
+      const missingTexts = Array.from(missingKeys.values());
+      const fetched = missingTexts.length > 0
+        ? await this.requestEmbeddings(missingTexts, embeddingSettings)
+        : [];
+      const fetchedByKey = new Map(
+        Array.from(missingKeys.keys()).map((key, i) => [key, fetched[i]])
+      );
+
+      await this.embeddingCache.setMany(
+        model,
+        missingTexts.map((text, i) => ({ text, embedding: fetched[i] }))
+      );
+
+      const cached = cachedEmbeddings.map(embedding => embedding !== null);
+      const hits = cached.filter(Boolean).length;
+      const tokensSaved = texts.reduce((total, text, i) => total + (cached[i] ? calculateTokens(text) : 0), 0);
+      await this.embeddingCache.recordLookups(hits, texts.length - hits, tokensSaved);
+
+      return {
+        embeddings: texts.map((text, i) =>
+          cachedEmbeddings[i] ?? fetchedByKey.get(this.embeddingCache.buildKey(model, text))!
+        ),
+        cached,
+      };
     } catch (error) {
-      logger.error('OpenAI embedding error:', error);
+      logger.error('Cached embedding error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Embeds many texts using as few requests as the API limits allow.
+   * Results are returned in the same order as the inputs.
+   */
+  private async requestEmbeddings(
+    texts: string[],
+    settings: { provider: string; model: string }
+  ): Promise<number[][]> {
+    try {
+      const provider = this.getProvider(settings.provider);
+      const embeddings: number[][] = [];
+
+      for (const batch of this.buildEmbeddingBatches(texts)) {
+        embeddings.push(...await this.withRateLimitRetry(() => provider.embed(batch, settings.model)));
+      }
+
+      return embeddings;
+    } catch (error) {
+      logger.error('Batch embedding error:', error);
       throw error;
     }
   }
 
-  async *streamChatCompletion(messages: Array<{ role: string; content: string }>, context?: string) {
+  private buildEmbeddingBatches(texts: string[]): string[][] {
+    const batches: string[][] = [];
+    let currentBatch: string[] = [];
+    let currentTokens = 0;
+
+    for (const text of texts) {
+      const tokens = calculateTokens(text);
+      const exceedsLimits =
+        currentBatch.length >= EMBEDDING_CONFIG.MAX_BATCH_INPUTS ||
+        currentTokens + tokens > EMBEDDING_CONFIG.MAX_BATCH_TOKENS;
+
+      if (currentBatch.length > 0 && exceedsLimits) {
+        batches.push(currentBatch);
+        currentBatch = [];
+        currentTokens = 0;
+      }
+
+      currentBatch.push(text);
+      currentTokens += tokens;
+    }
+
+    if (currentBatch.length > 0) {
+      batches.push(currentBatch);
+    }
+
+    return batches;
+  }
+
+  private async withRateLimitRetry<T>(request: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        const isRateLimited = (error as { status?: number })?.status === 429;
+        if (!isRateLimited || attempt >= EMBEDDING_CONFIG.MAX_RETRIES) {
+          throw error;
+        }
+
+        const delay = this.getRetryDelay(
+          error,
+          attempt,
+          EMBEDDING_CONFIG.RETRY_BASE_DELAY_MS,
+          EMBEDDING_CONFIG.RETRY_MAX_DELAY_MS
+        );
+
+        logger.warn(`Embedding rate limit hit, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${EMBEDDING_CONFIG.MAX_RETRIES})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  // Prefer the server's Retry-After hint, otherwise back off exponentially with jitter
+  private getRetryDelay(error: unknown, attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+    // Both provider SDKs expose the response headers on their API errors
+    const headers = (error as { headers?: Record<string, string> | Headers })?.headers;
+    const retryAfterSeconds = Number(
+      headers instanceof Headers ? headers.get('retry-after') : headers?.['retry-after']
+    );
+
+    return Number.isFinite(retryAfterSeconds) && retryAfterSeconds > 0
+      ? retryAfterSeconds * 1000
+      : Math.min(baseDelayMs * Math.pow(2, attempt) + Math.random() * 250, maxDelayMs);
+  }
+
+  // Maps provider SDK errors to the reasons reported to chat clients; other errors are returned unchanged
+  private toProviderError(error: unknown): unknown {
+    if (error instanceof LLMProviderError) {
+      return error;
+    }
+
+    const apiError = error as { status?: number; code?: string; message?: string };
+    const status = apiError?.status;
+    const message = apiError?.message || '';
+
+    if (
+      apiError?.code === 'context_length_exceeded' ||
+      /context length|context window|maximum context|prompt is too long/i.test(message)
+    ) {
+      return new LLMProviderError('The conversation is too long for the model\'s context window', 'context_too_long');
+    }
+
+    if (status === 429 || /rate limit/i.test(message)) {
+      return new LLMProviderError('The AI provider is rate limiting requests, please try again shortly', 'rate_limited');
+    }
+
+    // Connection failures carry no status; Anthropic reports overload mid-stream without one too
+    if ((status !== undefined && status >= 500) || /overloaded|connection error|timed out|ECONNREFUSED|ECONNRESET|ETIMEDOUT|fetch failed/i.test(message)) {
+      return new LLMProviderError('The AI provider is currently unavailable', 'provider_down');
+    }
+
+    return error;
+  }
+
+  /**
+   * Starts a chat stream on the first candidate model that gets a token out. Rate limits
+   * and outages are retried with exponential backoff before moving on to the next candidate;
+   * once tokens have reached the user a failure can no longer be retried transparently.
+   */
+  private async openChatStream(
+    candidates: Array<{ provider: string; model: string }>,
+    request: Omit<LLMChatRequest, 'model'>
+  ): Promise<{ provider: LLMProvider; model: string; stream: AsyncIterable<LLMStreamEvent> }> {
+    let lastError: unknown;
+
+    for (const candidate of candidates) {
+      const provider = this.getProvider(candidate.provider);
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const iterator = provider.streamChat({ ...request, model: candidate.model })[Symbol.asyncIterator]();
+          const first = await iterator.next();
+          return { provider, model: candidate.model, stream: this.resumeStream(first, iterator) };
+        } catch (error) {
+          const providerError = this.toProviderError(error);
+          // Nothing to retry once the client has gone away
+          if (!(providerError instanceof LLMProviderError) || request.signal?.aborted) {
+            throw error;
+          }
+
+          logger.warn(`LLM ${candidate.provider}:${candidate.model} failed (${providerError.reason}):`, error);
+          lastError = providerError;
+
+          // A longer prompt won't fit on retry, but a fallback model may have a larger window
+          if (providerError.reason === 'context_too_long' || attempt >= AI_CONFIG.MAX_RETRIES) {
+            break;
+          }
+
+          const delay = this.getRetryDelay(error, attempt, AI_CONFIG.RETRY_BASE_DELAY_MS, AI_CONFIG.RETRY_MAX_DELAY_MS);
+          logger.warn(`Retrying ${candidate.provider}:${candidate.model} in ${Math.round(delay)}ms (attempt ${attempt + 1}/${AI_CONFIG.MAX_RETRIES})`);
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  // Replays the event already read while opening the stream, then continues it
+  private async *resumeStream(
+    first: IteratorResult<LLMStreamEvent>,
+    iterator: AsyncIterator<LLMStreamEvent>
+  ): AsyncIterable<LLMStreamEvent> {
+    for (let result = first; !result.done; result = await iterator.next()) {
+      yield result.value;
+    }
+  }
+
+  // chatModel overrides the configured provider and model, e.g. with the thread's plan model;
+  // aborting signal stops generation and finishes with the partial answer marked incomplete
+  async *streamChatCompletion(
+    messages: Array<{ role: string; content: string }>,
+    context?: string,
+    chatModel?: { provider: string; model: string },
+    signal?: AbortSignal
+  ) {
     try {
       // Get AI settings from database
       const aiSettings = await this.settingsService.getAISettings();
@@ -45,18 +302,22 @@ export class OpenAIService {
         content: await this.getContextualSystemPrompt(context)
       };
 
-      const allMessages = [systemMessage, ...messages.map(m => ({
-        role: m.role as 'user' | 'assistant',
-        content: m.content
-      }))];
+      const allMessages = [systemMessage, ...toLLMMessages(messages)];
 
-      const stream = await this.openai.chat.completions.create({
-        model: aiSettings.model || env.INFERENCE_MODEL,
+      // The selected model first, then the configured fallbacks
+      const selected = {
+        provider: chatModel?.provider ?? aiSettings.provider,
+        model: chatModel?.model || aiSettings.model || env.INFERENCE_MODEL,
+      };
+      const fallbacks = (await this.settingsService.getFallbackModels()).filter(option =>
+        option.provider !== selected.provider || option.model !== selected.model
+      );
+
+      const { provider, model, stream } = await this.openChatStream([selected, ...fallbacks], {
         messages: allMessages,
-        stream: true,
-        max_tokens: aiSettings.maxTokens || 4096,
+        maxTokens: aiSettings.maxTokens || 4096,
         temperature: aiSettings.temperature || 0.7,
-        stream_options: { include_usage: true }
+        signal,
       });
 
       let fullResponse = '';
@@ -64,59 +325,71 @@ export class OpenAIService {
       let tokensOutput = 0;
       let chunkBuffer = '';
       let sentChunkLength = 0; // Track what we've already sent
+      let incomplete = false;
 
-      for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content || '';
-        if (content) {
-          fullResponse += content;
-          chunkBuffer += content;
+      try {
+        for await (const event of stream) {
+          // Get actual token usage, reported by the provider at the end of the stream
+          if (event.type === 'usage') {
+            tokensInput = event.tokensInput;
+            tokensOutput = event.tokensOutput;
+            continue;
+          }
+
+          const content = event.content;
+          if (content) {
+            fullResponse += content;
+            chunkBuffer += content;
           
-          // Implement natural chunking - send chunks at sentence boundaries for better UX
-          const sentences = chunkBuffer.split(/(?<=[.!?])\s+/);
+            // Implement natural chunking - send chunks at sentence boundaries for better UX
+            const sentences = chunkBuffer.split(/(?<=[.!?])\s+/);
           
-          if (sentences.length > 1) {
-            // Send all complete sentences except the last one
-            const completeText = sentences.slice(0, -1).join(' ').trim();
-            if (completeText && completeText.length > sentChunkLength) {
-              // Only send the new part that hasn't been sent yet
-              const newContent = completeText.substring(sentChunkLength);
-              if (newContent) {
-                yield {
-                  content: newContent + ' ',
-                  fullResponse,
-                  tokensInput: 0,
-                  tokensOutput: 0,
-                  finished: false,
-                  isChunked: true
-                };
-                sentChunkLength = completeText.length;
+            if (sentences.length > 1) {
+              // Send all complete sentences except the last one
+              const completeText = sentences.slice(0, -1).join(' ').trim();
+              if (completeText && completeText.length > sentChunkLength) {
+                // Only send the new part that hasn't been sent yet
+                const newContent = completeText.substring(sentChunkLength);
+                if (newContent) {
+                  yield {
+                    content: newContent + ' ',
+                    fullResponse,
+                    tokensInput: 0,
+                    tokensOutput: 0,
+                    finished: false,
+                    isChunked: true
+                  };
+                  sentChunkLength = completeText.length;
+                }
               }
+              // Keep the incomplete sentence for the next iteration
+              chunkBuffer = sentences[sentences.length - 1] || '';
+              sentChunkLength = 0; // Reset counter for the new buffer
+            } else if (chunkBuffer.length > sentChunkLength + 30) {
+              // If we have significant new content but no complete sentence, send it for immediate feedback
+              const newContent = chunkBuffer.substring(sentChunkLength);
+              yield {
+                content: newContent,
+                fullResponse,
+                tokensInput: 0,
+                tokensOutput: 0,
+                finished: false
+              };
+              sentChunkLength = chunkBuffer.length;
             }
-            // Keep the incomplete sentence for the next iteration
-            chunkBuffer = sentences[sentences.length - 1] || '';
-            sentChunkLength = 0; // Reset counter for the new buffer
-          } else if (chunkBuffer.length > sentChunkLength + 30) {
-            // If we have significant new content but no complete sentence, send it for immediate feedback
-            const newContent = chunkBuffer.substring(sentChunkLength);
-            yield {
-              content: newContent,
-              fullResponse,
-              tokensInput: 0,
-              tokensOutput: 0,
-              finished: false
-            };
-            sentChunkLength = chunkBuffer.length;
           }
         }
-
-        // Get actual token usage from the final chunk
-        if (chunk.usage) {
-          tokensInput = chunk.usage.prompt_tokens;
-          tokensOutput = chunk.usage.completion_tokens;
+      } catch (error) {
+        // Stopped by the user or cut off by the provider after tokens were sent: keep what
+        // arrived and bill it; usage is rarely reported for an interrupted stream
+        if (!fullResponse) {
+          throw error;
         }
+        logger.warn(`LLM stream interrupted after ${fullResponse.length} characters${signal?.aborted ? ' (aborted by client)' : ''}:`, error);
+        incomplete = true;
       }
 
-      // Fallback to estimation if OpenAI doesn't provide usage
+      // Fallback to estimation if the provider doesn't report usage
       if (!tokensInput) {
         const inputText = allMessages.map(m => m.content).join(' ');
         tokensInput = calculateTokens(inputText);
@@ -139,10 +412,10 @@ export class OpenAIService {
         }
       }
 
-      // Calculate costs with dynamic pricing
+      // Price with the model that actually answered
       const costCalculation = await this.pricingService.calculateInferenceCost(
-        'openai',
-        env.INFERENCE_MODEL,
+        provider.providerName,
+        model,
         tokensInput,
         tokensOutput
       );
@@ -153,19 +426,23 @@ export class OpenAIService {
         tokensInput,
         tokensOutput,
         cost: costCalculation.totalCost,
+        provider: provider.providerName,
+        model,
+        incomplete,
         finished: true
       };
 
     } catch (error) {
-      logger.error('OpenAI streaming error:', error);
-      throw error;
+      logger.error('LLM streaming error:', error);
+      throw this.toProviderError(error);
     }
   }
 
   async calculateEmbeddingCost(tokenCount: number): Promise<number> {
+    const embeddingSettings = await this.settingsService.getEmbeddingSettings();
     return await this.pricingService.calculateEmbeddingCost(
-      'openai',
-      env.EMBEDDING_MODEL,
+      embeddingSettings.provider,
+      embeddingSettings.model,
       tokenCount
     );
   }
@@ -175,29 +452,27 @@ export class OpenAIService {
     tokensInput: number;
     tokensOutput: number;
     cost: number;
+    provider: string;
+    model: string;
   }> {
     try {
       // Get AI settings from database
       const aiSettings = await this.settingsService.getAISettings();
+      const model = aiSettings.model || env.INFERENCE_MODEL;
 
-      const response = await this.openai.chat.completions.create({
-        model: aiSettings.model || env.INFERENCE_MODEL,
-        messages: messages.map(m => ({
-          role: m.role as 'system' | 'user' | 'assistant',
-          content: m.content
-        })),
-        max_tokens: 300,
+      const provider = this.getProvider(aiSettings.provider);
+
+      const { content: summary, tokensInput, tokensOutput } = await provider.complete({
+        model,
+        messages: toLLMMessages(messages),
+        maxTokens: 300,
         temperature: 0.3,
       });
 
-      const summary = response.choices[0]?.message?.content || '';
-      const tokensInput = response.usage?.prompt_tokens || 0;
-      const tokensOutput = response.usage?.completion_tokens || 0;
-
       // Calculate cost for summary generation
       const costCalculation = await this.pricingService.calculateInferenceCost(
-        'openai',
-        env.INFERENCE_MODEL,
+        provider.providerName,
+        model,
         tokensInput,
         tokensOutput
       );
@@ -206,15 +481,63 @@ export class OpenAIService {
         summary,
         tokensInput,
         tokensOutput,
-        cost: costCalculation.totalCost
+        cost: costCalculation.totalCost,
+        provider: provider.providerName,
+        model
       };
     } catch (error) {
-      logger.error('OpenAI summary generation error:', error);
+      logger.error('Summary generation error:', error);
       throw error;
     }
   }
 
-  private async getContextualSystemPrompt(context?: string): Promise<string> {
+  // Short non-streaming completion for internal steps (query rewriting, re-ranking)
+  async generateCompletion(
+    messages: Array<{ role: string; content: string }>,
+    options: { maxTokens: number; temperature?: number }
+  ): Promise<{
+    content: string;
+    tokensInput: number;
+    tokensOutput: number;
+    cost: number;
+    provider: string;
+    model: string;
+  }> {
+    try {
+      const aiSettings = await this.settingsService.getAISettings();
+      const model = aiSettings.model || env.INFERENCE_MODEL;
+
+      const provider = this.getProvider(aiSettings.provider);
+
+      const { content, tokensInput, tokensOutput } = await provider.complete({
+        model,
+        messages: toLLMMessages(messages),
+        maxTokens: options.maxTokens,
+        temperature: options.temperature ?? 0,
+      });
+
+      const costCalculation = await this.pricingService.calculateInferenceCost(
+        provider.providerName,
+        model,
+        tokensInput,
+        tokensOutput
+      );
+
+      return {
+        content,
+        tokensInput,
+        tokensOutput,
+        cost: costCalculation.totalCost,
+        provider: provider.providerName,
+        model
+      };
+    } catch (error) {
+      logger.error('LLM completion error:', error);
+      throw error;
+    }
+  }
+
+  async getContextualSystemPrompt(context?: string): Promise<string> {
     // Get the system prompt from database, fallback to default if not available
     const basePrompt = await this.settingsService.getSystemPrompt();
 
@@ -226,11 +549,13 @@ export class OpenAIService {
 ${context}
 
 Use essas informações para fornecer respostas precisas e informadas. Integre os detalhes relevantes naturalmente à sua conversa, sem mencionar explicitamente "com base no contexto" ou frases semelhantes. Se as informações fornecidas não abordarem completamente a pergunta do usuário, responda naturalmente.
+
+Cada trecho está numerado como [1], [2] etc. Quando usar informações de um trecho, cite o número correspondente entre colchetes logo após a frase, por exemplo: "O prazo é de 30 dias [2]." Não invente números que não estejam na lista.
 `;
     } else {
       return `${basePrompt}
 
-Observação: Nenhuma informação contextual específica está disponível para esta consulta, portanto, forneça respostas úteis com base no seu conhecimento geral.
+Observação: A base de conhecimento foi consultada, mas nenhum trecho suficientemente relevante foi encontrado para esta mensagem. Responda com base no seu conhecimento geral e não afirme que a informação vem da base de conhecimento. Se a pergunta depender de informações específicas da base de conhecimento (produtos, preços, políticas ou documentos), diga honestamente que não encontrou essa informação em vez de inventá-la.
 `;
     }
   }
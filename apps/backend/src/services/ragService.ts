@@ -1,49 +1,149 @@
+import { createHash, randomUUID } from 'crypto';
+import { sqltag as sql, raw, empty, join, Sql } from '@prisma/client/runtime/library';
 import { prisma } from '../config/database';
 import { OpenAIService } from './openaiService';
+import { SettingsService } from './settingsService';
+import { TaskQueueService } from './taskQueueService';
+import { LexicalOverlapReranker } from './rerankers/LexicalOverlapReranker';
+import { LLMReranker } from './rerankers/LLMReranker';
+import { Reranker } from '../interfaces/Reranker';
 import logger from '../config/logger';
-import { chunkTextBySentences, DEFAULT_LIMITS, calculateTokens } from '@fluxo/shared';
+import {
+  chunkTextBySentences,
+  chunkTextByStructure,
+  parseChunkingStrategy,
+  DEFAULT_LIMITS,
+  RAG_CONFIG,
+  SOURCE_PROCESSING_STATUS,
+  calculateTokens,
+} from '@fluxo/shared';
+import type {
+  MessageSource,
+  DistanceMetric,
+  ChunkingStrategy,
+  TextChunk,
+  SourceChunkMetadata,
+  RetrievalSettings,
+  RetrievalPreview,
+  RerankerType,
+  RerankUsage,
+} from '@fluxo/shared';
+
+// pgvector distance operators; smaller is always closer (<#> returns the negative inner product)
+const DISTANCE_OPERATORS: Record<DistanceMetric, string> = {
+  l2: '<->',
+  cosine: '<=>',
+  inner_product: '<#>',
+};
+
+interface RetrievedChunk {
+  id: string;
+  source_id: string;
+  text: string;
+  chunk_index: number;
+  title: string;
+  tags: string[];
+  metadata: SourceChunkMetadata | null;
+  distance: number;
+}
+
+interface RankedChunk extends RetrievedChunk {
+  score: number;
+  rerankScore?: number;
+}
+
+interface SearchOptions {
+  metric: DistanceMetric;
+  maxDistance: number | null;
+  tags: string[]; // Only chunks whose source has at least one of these tags; empty means no filter
+}
+
+interface ExistingChunk {
+  id: string;
+  chunk_index: number;
+  content_hash: string | null;
+}
+
+export interface SourceIngestionResult {
+  totalChunks: number;
+  embeddedChunks: number;
+  reusedChunks: number;
+  removedChunks: number;
+}
+
+// Progress is kept between attempts, so retries only redo the chunks still missing
+const SOURCE_INGESTION_MAX_RETRIES = 5;
+
+// Chunks embedded and stored per step; progress is saved after each step
+const SOURCE_INGESTION_BATCH_SIZE = 100;
+
+// Chunk size limits shared by both chunking strategies
+const SAFE_CHUNK_SIZE = 800;  // Increased size since we're chunking by sentences
+const OVERLAP_SENTENCES = 2;  // Overlap by 2 sentences for better context continuity
+
+const hashChunkText = (text: string): string =>
+  createHash('sha256').update(text).digest('hex');
+
+// Section headings are embedded with the chunk so the vector carries its context
+const buildEmbeddingInput = (chunk: TextChunk): string =>
+  chunk.metadata.headingPath.length > 0
+    ? `${chunk.metadata.headingPath.join(' > ')}\n\n${chunk.text}`
+    : chunk.text;
+
+// Combine relevant chunks into the context block injected into the system prompt
+export const formatRetrievedContext = (sources: MessageSource[]): string =>
+  sources
+    .map(source => `[${source.index}] ${source.title}\n${source.excerpt}`)
+    .join('\n\n');
 
 export class RAGService {
   private openaiService: OpenAIService;
+  private settingsService: SettingsService;
+  private taskQueue: TaskQueueService;
+  private rerankers: Map<string, Reranker>;
 
   constructor() {
     this.openaiService = new OpenAIService();
+    this.settingsService = new SettingsService();
+    this.taskQueue = new TaskQueueService();
+
+    this.rerankers = new Map();
+    this.rerankers.set('lexical', new LexicalOverlapReranker());
+    this.rerankers.set('llm', new LLMReranker(this.openaiService));
   }
 
-  async searchRelevantContext(query: string, limit: number = DEFAULT_LIMITS.MAX_SEARCH_RESULTS): Promise<{
+  async searchRelevantContext(
+    query: string,
+    options: { limit?: number; tags?: string[] } = {}
+  ): Promise<{
     context: string;
+    sources: MessageSource[];
     embeddingTokens: number;
     embeddingCost: number;
+    rerankUsage: RerankUsage;
   }> {
     try {
-      // Calculate embedding tokens and cost for this query
-      const embeddingTokens = calculateTokens(query);
-      const embeddingCost = await this.openaiService.calculateEmbeddingCost(embeddingTokens);
+      const { rankedChunks, embeddingTokens, embeddingCost, rerankUsage } = await this.retrieveChunks(query, options);
 
-      // Generate embedding for the query
-      const queryEmbedding = await this.openaiService.generateEmbedding(query);
-
-      // Search for similar chunks using pgvector
-      const similarChunks = await this.searchSimilarChunks(queryEmbedding, limit);
-
-      if (similarChunks.length === 0) {
+      if (rankedChunks.length === 0) {
         return {
           context: '',
+          sources: [],
           embeddingTokens,
           embeddingCost,
+          rerankUsage,
         };
       }
 
-      // Combine relevant chunks into context
-      const context = similarChunks
-        .map(chunk => chunk.text)
-        .join('\n\n');
+      const sources = this.toMessageSources(rankedChunks);
 
-      logger.info(`Found ${similarChunks.length} relevant chunks for query`);
+      logger.info(`Found ${rankedChunks.length} relevant chunks for query`);
       return {
-        context,
+        context: formatRetrievedContext(sources),
+        sources,
         embeddingTokens,
         embeddingCost,
+        rerankUsage,
       };
     } catch (error) {
       logger.error('RAG search error:', error);
@@ -52,38 +152,345 @@ export class RAGService {
       const embeddingCost = await this.openaiService.calculateEmbeddingCost(embeddingTokens);
       return {
         context: '',
+        sources: [],
+        embeddingTokens,
+        embeddingCost,
+        rerankUsage: { tokensInput: 0, tokensOutput: 0, cost: 0 },
+      };
+    }
+  }
+
+  /**
+   * Runs the same retrieval as chat for inspection. Errors are thrown instead of
+   * swallowed, and nothing is stored or billed.
+   */
+  async previewRetrieval(
+    query: string,
+    options: { limit?: number; tags?: string[] } = {}
+  ): Promise<Omit<RetrievalPreview, 'systemPrompt'>> {
+    try {
+      const { rankedChunks, settings, embeddingTokens, embeddingCost, rerankUsage } = await this.retrieveChunks(query, options);
+      const sources = this.toMessageSources(rankedChunks);
+
+      return {
+        query,
+        tags: options.tags ?? [],
+        chunks: sources.map((source, i) => ({
+          ...source,
+          tags: rankedChunks[i].tags,
+          headingPath: rankedChunks[i].metadata?.headingPath ?? [],
+        })),
+        context: formatRetrievedContext(sources),
+        settings,
         embeddingTokens,
         embeddingCost,
+        rerankUsage,
       };
+    } catch (error) {
+      logger.error('RAG preview error:', error);
+      throw error;
+    }
+  }
+
+  private async retrieveChunks(
+    query: string,
+    options: { limit?: number; tags?: string[] }
+  ): Promise<{
+    rankedChunks: RankedChunk[];
+    settings: RetrievalSettings;
+    embeddingTokens: number;
+    embeddingCost: number;
+    rerankUsage: RerankUsage;
+  }> {
+    // Generate embedding for the query; a cache hit costs nothing
+    const { embeddings: [queryEmbedding], cached: [isCached] } = await this.openaiService.embedTexts([query]);
+
+    // Calculate embedding tokens and cost for this query
+    const embeddingTokens = isCached ? 0 : calculateTokens(query);
+    const embeddingCost = isCached ? 0 : await this.openaiService.calculateEmbeddingCost(embeddingTokens);
+
+    // Search pgvector and full-text indexes, then fuse both rankings. With a re-ranker
+    // enabled, more candidates are fetched so it has something to reorder
+    const settings = await this.settingsService.getRetrievalSettings();
+    const limit = options.limit ?? DEFAULT_LIMITS.MAX_SEARCH_RESULTS;
+    const candidateLimit = settings.reranker === 'none'
+      ? limit
+      : limit * settings.rerankCandidateMultiplier;
+
+    const candidates = await this.searchHybridChunks(
+      query,
+      queryEmbedding,
+      candidateLimit,
+      options.tags ?? [],
+      settings
+    );
+
+    const { chunks: rerankedChunks, usage: rerankUsage } = await this.rerankChunks(query, candidates, settings.reranker);
+    const rankedChunks = this.fitContextBudget(rerankedChunks, limit, settings.contextTokenBudget);
+
+    return { rankedChunks, settings, embeddingTokens, embeddingCost, rerankUsage };
+  }
+
+  private async rerankChunks(
+    query: string,
+    chunks: RankedChunk[],
+    type: RerankerType
+  ): Promise<{ chunks: RankedChunk[]; usage: RerankUsage }> {
+    const noUsage = { tokensInput: 0, tokensOutput: 0, cost: 0 };
+    const reranker = this.rerankers.get(type);
+    if (!reranker || chunks.length < 2) {
+      return { chunks, usage: noUsage };
+    }
+
+    try {
+      const { scores, ...usage } = await reranker.rerank(
+        query,
+        chunks.map(chunk => ({
+          id: chunk.id,
+          title: chunk.title,
+          text: chunk.text,
+          headingPath: chunk.metadata?.headingPath ?? [],
+        }))
+      );
+
+      // Ties keep the fused retrieval order, so results stay deterministic
+      const reranked = chunks
+        .map((chunk, i) => ({ chunk: { ...chunk, rerankScore: scores[i] }, position: i }))
+        .sort((a, b) => b.chunk.rerankScore - a.chunk.rerankScore || a.position - b.position)
+        .map(({ chunk }) => chunk);
+
+      logger.debug(`Re-ranked ${chunks.length} candidates with ${reranker.rerankerName} re-ranker`);
+      return { chunks: reranked, usage };
+    } catch (error) {
+      // Fall back to the fused order rather than losing retrieval altogether
+      logger.error(`Re-ranking error (${type}):`, error);
+      return { chunks, usage: noUsage };
+    }
+  }
+
+  // Takes chunks in rank order while they fit the token budget; a chunk too large to fit
+  // is skipped so smaller, lower-ranked ones can still be used
+  private fitContextBudget(chunks: RankedChunk[], limit: number, budget: number): RankedChunk[] {
+    const selected: RankedChunk[] = [];
+    let usedTokens = 0;
+
+    for (const chunk of chunks) {
+      if (selected.length >= limit) break;
+
+      const entryTokens = calculateTokens(`[${selected.length + 1}] ${chunk.title}\n${chunk.text}\n\n`);
+      if (usedTokens + entryTokens > budget) continue;
+
+      selected.push(chunk);
+      usedTokens += entryTokens;
+    }
+
+    if (selected.length < Math.min(limit, chunks.length)) {
+      logger.debug(`Context budget of ${budget} tokens kept ${selected.length} of ${chunks.length} candidates`);
+    }
+
+    return selected;
+  }
+
+  // Number each chunk so the model can cite it as [n]
+  private toMessageSources(rankedChunks: RankedChunk[]): MessageSource[] {
+    return rankedChunks.map((chunk, i) => ({
+      index: i + 1,
+      chunkId: chunk.id,
+      sourceId: chunk.source_id,
+      title: chunk.title,
+      chunkIndex: chunk.chunk_index,
+      distance: Number(chunk.distance),
+      score: chunk.score,
+      rerankScore: chunk.rerankScore,
+      excerpt: chunk.text,
+    }));
+  }
+
+  private async searchHybridChunks(
+    query: string,
+    embedding: number[],
+    limit: number,
+    tags: string[],
+    settings: RetrievalSettings
+  ): Promise<RankedChunk[]> {
+    const searchOptions: SearchOptions = {
+      metric: settings.distanceMetric,
+      maxDistance: settings.maxDistance,
+      tags,
+    };
+
+    if (!settings.hybridEnabled) {
+      const vectorChunks = await this.searchSimilarChunks(embedding, limit, searchOptions);
+      return this.fuseRankings([{ chunks: vectorChunks, weight: 1 }], settings.rrfK, limit);
     }
+
+    // Over-fetch from each list so fusion has enough overlap to work with
+    const candidateLimit = limit * RAG_CONFIG.CANDIDATE_MULTIPLIER;
+    const [vectorChunks, keywordChunks] = await Promise.all([
+      this.searchSimilarChunks(embedding, candidateLimit, searchOptions),
+      this.searchKeywordChunks(query, embedding, candidateLimit, searchOptions),
+    ]);
+
+    logger.debug(`Hybrid search: ${vectorChunks.length} vector hits, ${keywordChunks.length} keyword hits`);
+
+    return this.fuseRankings(
+      [
+        { chunks: vectorChunks, weight: settings.vectorWeight },
+        { chunks: keywordChunks, weight: settings.keywordWeight },
+      ],
+      settings.rrfK,
+      limit
+    );
   }
 
-  private async searchSimilarChunks(embedding: number[], limit: number) {
+  // Reciprocal rank fusion: each list contributes weight / (k + rank) for every chunk it returned
+  private fuseRankings(
+    rankings: Array<{ chunks: RetrievedChunk[]; weight: number }>,
+    k: number,
+    limit: number
+  ): RankedChunk[] {
+    const fused = new Map<string, RankedChunk>();
+
+    for (const { chunks, weight } of rankings) {
+      if (weight <= 0) continue;
+
+      chunks.forEach((chunk, i) => {
+        const contribution = weight / (k + i + 1);
+        const existing = fused.get(chunk.id);
+        if (existing) {
+          existing.score += contribution;
+        } else {
+          fused.set(chunk.id, { ...chunk, score: contribution });
+        }
+      });
+    }
+
+    return Array.from(fused.values())
+      .sort((a, b) => b.score - a.score || a.distance - b.distance)
+      .slice(0, limit);
+  }
+
+  private async searchSimilarChunks(
+    embedding: number[],
+    limit: number,
+    options: SearchOptions
+  ): Promise<RetrievedChunk[]> {
     try {
+      const distanceSql = this.buildDistanceSql(embedding, options.metric);
+
       // Use raw SQL for vector similarity search
       const chunks = await prisma.$queryRaw`
-        SELECT sc.text, sc.chunk_index, s.title,
-               (sc.embedding <-> ${JSON.stringify(embedding)}::vector) as distance
+        SELECT sc.id, sc.source_id, sc.text, sc.chunk_index, sc.metadata, s.title, s.tags,
+               ${distanceSql} as distance
         FROM source_chunks sc
         JOIN sources s ON sc.source_id = s.id
         WHERE s.is_active = true
-        ORDER BY sc.embedding <-> ${JSON.stringify(embedding)}::vector
+          ${this.buildTagFilterSql(options.tags)}
+          ${this.buildCutoffSql(distanceSql, options.maxDistance)}
+        ORDER BY ${distanceSql}
         LIMIT ${limit};
       `;
 
-      return chunks as Array<{
-        text: string;
-        chunk_index: number;
-        title: string;
-        distance: number;
-      }>;
+      return chunks as RetrievedChunk[];
     } catch (error) {
       logger.error('Vector search error:', error);
       return [];
     }
   }
 
-  async processSource(sourceId: string): Promise<void> {
+  private async searchKeywordChunks(
+    query: string,
+    embedding: number[],
+    limit: number,
+    options: SearchOptions
+  ): Promise<RetrievedChunk[]> {
+    try {
+      const distanceSql = this.buildDistanceSql(embedding, options.metric);
+
+      // plainto_tsquery ANDs every term; turn it into an OR query so partial matches still rank.
+      // The distance cutoff applies here too, so a stray shared word doesn't pull in an unrelated chunk.
+      const chunks = await prisma.$queryRaw`
+        WITH q AS (
+          SELECT replace(plainto_tsquery(${RAG_CONFIG.TEXT_SEARCH_CONFIG}::regconfig, ${query})::text, '&', '|')::tsquery AS query
+        )
+        SELECT sc.id, sc.source_id, sc.text, sc.chunk_index, sc.metadata, s.title, s.tags,
+               ${distanceSql} as distance
+        FROM source_chunks sc
+        JOIN sources s ON sc.source_id = s.id, q
+        WHERE s.is_active = true
+          AND q.query::text <> ''
+          AND sc.search_vector @@ q.query
+          ${this.buildTagFilterSql(options.tags)}
+          ${this.buildCutoffSql(distanceSql, options.maxDistance)}
+        ORDER BY ts_rank_cd(sc.search_vector, q.query) DESC
+        LIMIT ${limit};
+      `;
+
+      return chunks as RetrievedChunk[];
+    } catch (error) {
+      logger.error('Keyword search error:', error);
+      return [];
+    }
+  }
+
+  private buildDistanceSql(embedding: number[], metric: DistanceMetric): Sql {
+    // The operator comes from a fixed whitelist, so it is safe to inline
+    const operator = raw(DISTANCE_OPERATORS[metric]);
+    return sql`(sc.embedding ${operator} ${JSON.stringify(embedding)}::vector)`;
+  }
+
+  private buildCutoffSql(distanceSql: Sql, maxDistance: number | null): Sql {
+    return maxDistance === null ? empty : sql`AND ${distanceSql} <= ${maxDistance}`;
+  }
+
+  private buildTagFilterSql(tags: string[]): Sql {
+    return tags.length === 0 ? empty : sql`AND s.tags && ${tags}::text[]`;
+  }
+
+  async getAvailableTags(): Promise<string[]> {
+    try {
+      const rows = await prisma.$queryRaw<Array<{ tag: string }>>`
+        SELECT DISTINCT unnest(tags) AS tag
+        FROM sources
+        WHERE is_active = true
+        ORDER BY tag
+      `;
+
+      return rows.map(row => row.tag);
+    } catch (error) {
+      logger.error('Get available tags error:', error);
+      throw error;
+    }
+  }
+
+  async enqueueSourceProcessing(sourceId: string): Promise<string> {
+    try {
+      await prisma.source.update({
+        where: { id: sourceId },
+        data: {
+          processingStatus: SOURCE_PROCESSING_STATUS.PENDING,
+          processingError: null,
+        },
+      });
+
+      const taskId = await this.taskQueue.enqueueTask('source_ingestion', { sourceId }, {
+        maxRetries: SOURCE_INGESTION_MAX_RETRIES,
+      });
+
+      logger.info(`RAG: Enqueued ingestion for source ${sourceId} (task ${taskId})`);
+      return taskId;
+    } catch (error) {
+      logger.error('Enqueue source processing error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Chunks and embeds a source incrementally. Chunks whose text hash already exists
+   * for the source are kept as-is, so re-running after an edit or an interrupted run
+   * only embeds the chunks that are still missing.
+   */
+  async processSource(sourceId: string): Promise<SourceIngestionResult> {
     try {
       logger.info(`RAG: Finding source ${sourceId}`);
       const source = await prisma.source.findUnique({
@@ -94,69 +501,171 @@ export class RAGService {
         throw new Error('Source not found');
       }
 
-      logger.info(`RAG: Found source "${source.title}", deleting existing chunks`);
-      // Delete existing chunks using raw SQL to avoid pgvector issues
-      await prisma.$executeRaw`
-        DELETE FROM source_chunks WHERE source_id = ${sourceId}::uuid
+      const strategy = parseChunkingStrategy(source.chunkingStrategy);
+      logger.info(`RAG: Chunking text of length ${source.rawText.length} (${strategy} strategy)`);
+      const chunks = this.chunkSourceText(source.rawText, strategy);
+
+      const existingChunks = await prisma.$queryRaw<ExistingChunk[]>`
+        SELECT id, chunk_index, content_hash
+        FROM source_chunks
+        WHERE source_id = ${sourceId}::uuid
+        ORDER BY chunk_index ASC
       `;
 
-      logger.info(`RAG: Chunking text of length ${source.rawText.length}`);
-      
-      // Use sentence-based chunking for better context preservation
-      const SAFE_CHUNK_SIZE = 800;  // Increased size since we're chunking by sentences
-      const OVERLAP_SENTENCES = 2;  // Overlap by 2 sentences for better context continuity
-      
-      // Use the sentence-based chunking function
-      const chunks = chunkTextBySentences(source.rawText, SAFE_CHUNK_SIZE, OVERLAP_SENTENCES);
+      // Group stored chunks by hash so repeated passages are matched one-to-one
+      const reusableChunks = new Map<string, ExistingChunk[]>();
+      for (const chunk of existingChunks) {
+        if (!chunk.content_hash) continue;
+        const group = reusableChunks.get(chunk.content_hash) || [];
+        group.push(chunk);
+        reusableChunks.set(chunk.content_hash, group);
+      }
+
+      await prisma.source.update({
+        where: { id: sourceId },
+        data: {
+          processingStatus: SOURCE_PROCESSING_STATUS.PROCESSING,
+          chunkCount: chunks.length,
+          processedChunks: 0,
+          processingError: null,
+        },
+      });
 
-      logger.info(`RAG: Generated ${chunks.length} chunks, starting embedding generation`);
+      logger.info(`RAG: Generated ${chunks.length} chunks, ${existingChunks.length} already stored`);
+
+      const keptChunkIds = new Set<string>();
+      const missingChunks: Array<TextChunk & { index: number; embeddingInput: string; contentHash: string }> = [];
 
-      // Generate embeddings for each chunk
       for (let i = 0; i < chunks.length; i++) {
+        const embeddingInput = buildEmbeddingInput(chunks[i]);
+        const contentHash = hashChunkText(embeddingInput);
+        const existing = reusableChunks.get(contentHash)?.shift();
+
+        if (!existing) {
+          missingChunks.push({ ...chunks[i], index: i, embeddingInput, contentHash });
+          continue;
+        }
+
+        keptChunkIds.add(existing.id);
+
+        if (existing.chunk_index !== i) {
+          await prisma.$executeRaw`
+            UPDATE source_chunks SET chunk_index = ${i} WHERE id = ${existing.id}::uuid
+          `;
+        }
+      }
+
+      let processedChunks = chunks.length - missingChunks.length;
+      await prisma.source.update({
+        where: { id: sourceId },
+        data: { processedChunks },
+      });
+
+      logger.info(`RAG: Reusing ${processedChunks} chunks, embedding ${missingChunks.length}`);
+
+      for (let start = 0; start < missingChunks.length; start += SOURCE_INGESTION_BATCH_SIZE) {
+        const batch = missingChunks.slice(start, start + SOURCE_INGESTION_BATCH_SIZE);
+
         try {
-          logger.info(`RAG: Processing chunk ${i + 1}/${chunks.length}`);
-          const chunk = chunks[i];
-          
-          logger.info(`RAG: Generating embedding for chunk ${i + 1}`);
-          const embedding = await this.openaiService.generateEmbedding(chunk);
-          
-          if (!Array.isArray(embedding) || embedding.length !== 1536) {
-            throw new Error(`Invalid embedding format for chunk ${i}, expected array of 1536 numbers`);
-          }
-
-          logger.info(`RAG: Inserting chunk ${i + 1} into database`);
+          const embeddings = await this.openaiService.generateEmbeddings(batch.map(chunk => chunk.embeddingInput));
+
+          const rows = batch.map((chunk, j) => {
+            const embedding = embeddings[j];
+            if (!Array.isArray(embedding) || embedding.length !== 1536) {
+              throw new Error(`Invalid embedding format for chunk ${chunk.index}, expected array of 1536 numbers`);
+            }
+
+            const chunkId = randomUUID();
+            keptChunkIds.add(chunkId);
+
+            return sql`(${chunkId}::uuid, ${sourceId}::uuid, ${chunk.index}, ${chunk.text}, ${chunk.contentHash}, ${JSON.stringify(chunk.metadata)}::json, ${JSON.stringify(embedding)}::vector)`;
+          });
+
           // Use raw query for inserting vector data since Prisma doesn't handle pgvector well
           await prisma.$executeRaw`
-            INSERT INTO source_chunks (id, source_id, chunk_index, text, embedding)
-            VALUES (gen_random_uuid(), ${sourceId}::uuid, ${i}, ${chunk}, ${JSON.stringify(embedding)}::vector)
+            INSERT INTO source_chunks (id, source_id, chunk_index, text, content_hash, metadata, embedding)
+            VALUES ${join(rows)}
           `;
 
-          // Small delay to avoid rate limiting
-          await new Promise(resolve => setTimeout(resolve, 100));
-        } catch (chunkError) {
-          logger.error(`RAG: Error processing chunk ${i + 1}:`, chunkError);
-          throw chunkError;
+          processedChunks += batch.length;
+          await prisma.source.update({
+            where: { id: sourceId },
+            data: { processedChunks },
+          });
+        } catch (batchError) {
+          logger.error(`RAG: Error embedding chunks ${start + 1}-${start + batch.length} of ${missingChunks.length}:`, batchError);
+          throw batchError;
         }
       }
 
-      logger.info(`Processed source: ${source.title} with ${chunks.length} chunks`);
+      // Old chunks stay searchable until the new version is complete, then are removed
+      const staleChunkIds = existingChunks
+        .filter(chunk => !keptChunkIds.has(chunk.id))
+        .map(chunk => chunk.id);
+
+      if (staleChunkIds.length > 0) {
+        await prisma.$executeRaw`
+          DELETE FROM source_chunks WHERE id = ANY(${staleChunkIds}::uuid[])
+        `;
+      }
+
+      await prisma.source.update({
+        where: { id: sourceId },
+        data: {
+          processingStatus: SOURCE_PROCESSING_STATUS.COMPLETED,
+          processedAt: new Date(),
+        },
+      });
+
+      const result = {
+        totalChunks: chunks.length,
+        embeddedChunks: missingChunks.length,
+        reusedChunks: chunks.length - missingChunks.length,
+        removedChunks: staleChunkIds.length,
+      };
+
+      logger.info(`Processed source: ${source.title}`, result);
+      return result;
     } catch (error) {
       logger.error('Process source error:', error);
+
+      // updateMany so a source deleted mid-run doesn't mask the original error
+      await prisma.source.updateMany({
+        where: { id: sourceId },
+        data: {
+          processingStatus: SOURCE_PROCESSING_STATUS.FAILED,
+          processingError: error instanceof Error ? error.message : 'Unknown error',
+        },
+      }).catch((updateError: unknown) => {
+        logger.error('Failed to record source processing error:', updateError);
+      });
+
       throw error;
     }
   }
 
-  async reprocessAllSources(): Promise<void> {
+  private chunkSourceText(rawText: string, strategy: ChunkingStrategy): TextChunk[] {
+    if (strategy === 'structure') {
+      return chunkTextByStructure(rawText, SAFE_CHUNK_SIZE, OVERLAP_SENTENCES);
+    }
+
+    return chunkTextBySentences(rawText, SAFE_CHUNK_SIZE, OVERLAP_SENTENCES)
+      .map(text => ({ text, metadata: { headingPath: [] } }));
+  }
+
+  async reprocessAllSources(): Promise<number> {
     try {
       const sources = await prisma.source.findMany({
         where: { isActive: true },
+        select: { id: true },
       });
 
       for (const source of sources) {
-        await this.processSource(source.id);
+        await this.enqueueSourceProcessing(source.id);
       }
 
-      logger.info(`Reprocessed ${sources.length} sources`);
+      logger.info(`Enqueued reprocessing for ${sources.length} sources`);
+      return sources.length;
     } catch (error) {
       logger.error('Reprocess all sources error:', error);
       throw error;
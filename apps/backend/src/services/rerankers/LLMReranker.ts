@@ -0,0 +1,61 @@
+import logger from '../../config/logger';
+import { Reranker, RerankCandidate, RerankResult } from '../../interfaces/Reranker';
+import { OpenAIService } from '../openaiService';
+
+// Passages are cut to this many characters so large candidate sets stay cheap
+const MAX_PASSAGE_CHARS = 1200;
+
+/**
+ * Asks the chat model to rate every candidate against the query in a single
+ * request. If the reply can't be parsed, the incoming order is kept.
+ */
+export class LLMReranker extends Reranker {
+  rerankerName = 'llm';
+  private openaiService: OpenAIService;
+
+  constructor(openaiService: OpenAIService) {
+    super();
+    this.openaiService = openaiService;
+  }
+
+  async rerank(query: string, candidates: RerankCandidate[]): Promise<RerankResult> {
+    const passages = candidates
+      .map((candidate, i) => {
+        const heading = [candidate.title, ...candidate.headingPath].join(' > ');
+        return `[${i + 1}] ${heading}\n${candidate.text.slice(0, MAX_PASSAGE_CHARS)}`;
+      })
+      .join('\n\n');
+
+    const { content, ...usage } = await this.openaiService.generateCompletion([
+      {
+        role: 'system',
+        content: 'You rate how useful each passage is for answering a search query. Score every passage from 0 (irrelevant) to 10 (answers the query directly). Reply with a JSON array of numbers only, one score per passage, in the order the passages are given.'
+      },
+      {
+        role: 'user',
+        content: `Query: ${query}\n\nPassages:\n\n${passages}`
+      }
+    ], { maxTokens: candidates.length * 4 + 20 });
+
+    const scores = this.parseScores(content, candidates.length);
+    if (!scores) {
+      logger.warn('LLM re-ranker returned an unreadable response, keeping retrieval order');
+      return { ...usage, scores: candidates.map((_, i) => candidates.length - i) };
+    }
+
+    return { ...usage, scores };
+  }
+
+  private parseScores(content: string, expected: number): number[] | null {
+    const match = content.match(/\[[\s\S]*\]/);
+    if (!match) return null;
+
+    try {
+      const parsed = JSON.parse(match[0]);
+      if (!Array.isArray(parsed) || parsed.length !== expected) return null;
+      return parsed.every(score => typeof score === 'number') ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+}
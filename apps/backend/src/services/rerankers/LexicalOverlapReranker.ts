@@ -0,0 +1,46 @@
+import { Reranker, RerankCandidate, RerankResult } from '../../interfaces/Reranker';
+
+// Common Portuguese and English words that carry no topical signal
+const STOPWORDS = new Set([
+  'a', 'o', 'as', 'os', 'um', 'uma', 'de', 'do', 'da', 'dos', 'das', 'em', 'no', 'na', 'nos', 'nas',
+  'por', 'para', 'com', 'sem', 'que', 'e', 'ou', 'se', 'como', 'qual', 'quais', 'quanto', 'quando',
+  'onde', 'meu', 'minha', 'seu', 'sua', 'eu', 'voce', 'ele', 'ela', 'isso', 'isto', 'esse', 'essa',
+  'the', 'an', 'of', 'to', 'in', 'on', 'for', 'with', 'and', 'or', 'is', 'are', 'was', 'be', 'it',
+  'this', 'that', 'what', 'how', 'when', 'where', 'which', 'do', 'does', 'my', 'your', 'i', 'you',
+]);
+
+const tokenize = (text: string): string[] =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip accents so 'preço' matches 'preco'
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(term => term.length > 1 && !STOPWORDS.has(term));
+
+/**
+ * Scores each chunk by the share of distinct query terms it contains, counting
+ * the source title and heading path. Runs locally and costs nothing.
+ */
+export class LexicalOverlapReranker extends Reranker {
+  rerankerName = 'lexical';
+
+  async rerank(query: string, candidates: RerankCandidate[]): Promise<RerankResult> {
+    const queryTerms = new Set(tokenize(query));
+
+    const scores = candidates.map(candidate => {
+      if (queryTerms.size === 0) return 0;
+
+      const candidateTerms = new Set(
+        tokenize([candidate.title, ...candidate.headingPath, candidate.text].join(' '))
+      );
+      let matched = 0;
+      queryTerms.forEach(term => {
+        if (candidateTerms.has(term)) matched++;
+      });
+
+      return matched / queryTerms.size;
+    });
+
+    return { scores, tokensInput: 0, tokensOutput: 0, cost: 0 };
+  }
+}
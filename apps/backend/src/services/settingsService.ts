@@ -1,6 +1,18 @@
 import { prisma } from '../config/database';
 import logger from '../config/logger';
-import { AI_CONFIG } from '@fluxo/shared';
+import { env } from '../config/env';
+import {
+  AI_CONFIG,
+  CONTEXT_BUDGET,
+  EMBEDDING_CONFIG,
+  RAG_CONFIG,
+  DistanceMetricSchema,
+  LLMProviderNameSchema,
+  FallbackModelsSchema,
+  PlanModelsSchema,
+  RerankerTypeSchema
+} from '@fluxo/shared';
+import type { LLMProviderName, ModelOption, RetrievalSettings } from '@fluxo/shared';
 
 export class SettingsService {
   private cache: Map<string, { value: any; timestamp: number }> = new Map();
@@ -78,6 +90,10 @@ export class SettingsService {
     return await this.getSetting('system_prompt', AI_CONFIG.SYSTEM_PROMPT);
   }
 
+  async getLLMProvider(): Promise<LLMProviderName> {
+    return this.parseProvider('llm_provider', await this.getSetting('llm_provider', AI_CONFIG.PROVIDER), AI_CONFIG.PROVIDER);
+  }
+
   async getAIModel(): Promise<string> {
     return await this.getSetting('ai_model', AI_CONFIG.MODEL);
   }
@@ -107,12 +123,14 @@ export class SettingsService {
   // Get all AI-related settings
   async getAISettings(): Promise<{
     systemPrompt: string;
+    provider: LLMProviderName;
     model: string;
     maxTokens: number;
     temperature: number;
   }> {
-    const [systemPrompt, model, maxTokens, temperature] = await Promise.all([
+    const [systemPrompt, provider, model, maxTokens, temperature] = await Promise.all([
       this.getSystemPrompt(),
+      this.getLLMProvider(),
       this.getAIModel(),
       this.getMaxTokens(),
       this.getTemperature(),
@@ -120,9 +138,151 @@ export class SettingsService {
 
     return {
       systemPrompt,
+      provider,
       model,
       maxTokens,
       temperature,
     };
   }
+
+  // Models a plan may chat with, the first being its default. Plans missing from
+  // plan_models use the global provider and model.
+  async getPlanModels(planId: string): Promise<ModelOption[]> {
+    const planModels = PlanModelsSchema.safeParse(await this.getSetting('plan_models', {}));
+    if (!planModels.success) {
+      logger.warn('Invalid plan_models setting, using the global model for every plan');
+    } else if (planModels.data[planId]) {
+      return planModels.data[planId];
+    }
+
+    const [provider, model] = await Promise.all([this.getLLMProvider(), this.getAIModel()]);
+    return [{ provider, model }];
+  }
+
+  // Models tried in order when the chat model keeps failing before its first token
+  async getFallbackModels(): Promise<ModelOption[]> {
+    const fallbackModels = FallbackModelsSchema.safeParse(await this.getSetting('llm_fallback_models', []));
+    if (!fallbackModels.success) {
+      logger.warn('Invalid llm_fallback_models setting, chat requests will not fall back');
+      return [];
+    }
+    return fallbackModels.data;
+  }
+
+  // Changing either invalidates stored chunk vectors, so sources must be reprocessed afterwards
+  async getEmbeddingSettings(): Promise<{
+    provider: LLMProviderName;
+    model: string;
+  }> {
+    const [provider, model] = await Promise.all([
+      this.getSetting('embedding_provider', EMBEDDING_CONFIG.PROVIDER),
+      this.getSetting('embedding_model', env.EMBEDDING_MODEL),
+    ]);
+
+    return {
+      provider: this.parseProvider('embedding_provider', provider, EMBEDDING_CONFIG.PROVIDER),
+      model: model || env.EMBEDDING_MODEL,
+    };
+  }
+
+  private parseProvider(key: string, value: unknown, fallback: LLMProviderName): LLMProviderName {
+    const provider = LLMProviderNameSchema.safeParse(value);
+    if (!provider.success) {
+      logger.warn(`Invalid ${key} "${value}", using ${fallback}`);
+      return fallback;
+    }
+    return provider.data;
+  }
+
+  private parseBooleanSetting(key: string, value: unknown, fallback: boolean): boolean {
+    if (typeof value === 'boolean') {
+      return value;
+    }
+    if (value === 'true' || value === 'false') {
+      return value === 'true';
+    }
+    logger.warn(`Invalid ${key} "${value}", using ${fallback}`);
+    return fallback;
+  }
+
+  private parseNonNegativeSetting(key: string, value: unknown, fallback: number): number {
+    // Number('') and Number(null) are 0, which would pass for a real value
+    const number = typeof value === 'number' || (typeof value === 'string' && value.trim() !== '')
+      ? Number(value)
+      : NaN;
+    if (!Number.isFinite(number) || number < 0) {
+      logger.warn(`Invalid ${key} "${value}", using ${fallback}`);
+      return fallback;
+    }
+    return number;
+  }
+
+  // Limits used to fit the prompt sent with each chat completion
+  async getContextBudgetSettings(): Promise<{
+    contextWindowTokens: number;
+    maxInputTokens: number;
+  }> {
+    const [contextWindowTokens, maxInputTokens] = await Promise.all([
+      this.getSetting('context_window_tokens', CONTEXT_BUDGET.CONTEXT_WINDOW_TOKENS),
+      this.getSetting('max_input_tokens', CONTEXT_BUDGET.MAX_INPUT_TOKENS),
+    ]);
+
+    return {
+      contextWindowTokens: Number(contextWindowTokens) || CONTEXT_BUDGET.CONTEXT_WINDOW_TOKENS,
+      maxInputTokens: Number(maxInputTokens) || CONTEXT_BUDGET.MAX_INPUT_TOKENS,
+    };
+  }
+
+  async getQueryRewriteEnabled(): Promise<boolean> {
+    return await this.getSetting('rag_query_rewrite_enabled', RAG_CONFIG.QUERY_REWRITE_ENABLED);
+  }
+
+  // Get hybrid retrieval settings (vector + keyword search fused by rank)
+  async getRetrievalSettings(): Promise<RetrievalSettings> {
+    const [
+      hybridEnabled,
+      vectorWeight,
+      keywordWeight,
+      rrfK,
+      distanceMetric,
+      maxDistance,
+      rerankerType,
+      rerankCandidateMultiplier,
+      contextTokenBudget,
+    ] = await Promise.all([
+      this.getSetting('rag_hybrid_enabled', RAG_CONFIG.HYBRID_SEARCH_ENABLED),
+      this.getSetting('rag_vector_weight', RAG_CONFIG.VECTOR_WEIGHT),
+      this.getSetting('rag_keyword_weight', RAG_CONFIG.KEYWORD_WEIGHT),
+      this.getSetting('rag_rrf_k', RAG_CONFIG.RRF_K),
+      this.getSetting('rag_distance_metric', RAG_CONFIG.DISTANCE_METRIC),
+      this.getSetting('rag_max_distance', RAG_CONFIG.MAX_DISTANCE),
+      this.getSetting('rag_reranker', RAG_CONFIG.RERANKER),
+      this.getSetting('rag_rerank_candidate_multiplier', RAG_CONFIG.RERANK_CANDIDATE_MULTIPLIER),
+      this.getSetting('rag_context_token_budget', RAG_CONFIG.CONTEXT_TOKEN_BUDGET),
+    ]);
+
+    const metric = DistanceMetricSchema.safeParse(distanceMetric);
+    if (!metric.success) {
+      logger.warn(`Invalid rag_distance_metric "${distanceMetric}", using ${RAG_CONFIG.DISTANCE_METRIC}`);
+    }
+
+    const reranker = RerankerTypeSchema.safeParse(rerankerType);
+    if (!reranker.success) {
+      logger.warn(`Invalid rag_reranker "${rerankerType}", using ${RAG_CONFIG.RERANKER}`);
+    }
+
+    return {
+      hybridEnabled: this.parseBooleanSetting('rag_hybrid_enabled', hybridEnabled, RAG_CONFIG.HYBRID_SEARCH_ENABLED),
+      // A NaN weight or k would turn every fused score into NaN
+      vectorWeight: this.parseNonNegativeSetting('rag_vector_weight', vectorWeight, RAG_CONFIG.VECTOR_WEIGHT),
+      keywordWeight: this.parseNonNegativeSetting('rag_keyword_weight', keywordWeight, RAG_CONFIG.KEYWORD_WEIGHT),
+      rrfK: this.parseNonNegativeSetting('rag_rrf_k', rrfK, RAG_CONFIG.RRF_K),
+      distanceMetric: metric.success ? metric.data : RAG_CONFIG.DISTANCE_METRIC,
+      // An empty or non-numeric value disables the cutoff
+      maxDistance: Number.isFinite(maxDistance) ? maxDistance : null,
+      reranker: reranker.success ? reranker.data : RAG_CONFIG.RERANKER,
+      rerankCandidateMultiplier: Math.max(1, Number(rerankCandidateMultiplier) || RAG_CONFIG.RERANK_CANDIDATE_MULTIPLIER),
+      contextTokenBudget: Number(contextTokenBudget) || RAG_CONFIG.CONTEXT_TOKEN_BUDGET,
+    };
+  }
 }
\ No newline at end of file
@@ -0,0 +1,176 @@
+import { randomBytes } from 'crypto';
+import bcrypt from 'bcryptjs';
+import { prisma } from '../config/database';
+import logger from '../config/logger';
+import { ChatService } from './chatService';
+import { NotFoundError, ValidationError } from '@fluxo/shared';
+import type { CreateThreadShareRequest, MessageSource, SharedThread, ThreadShare } from '@fluxo/shared';
+
+/**
+ * Revocable public links to a thread. Anyone with the token can read the branch the thread
+ * showed when the link was made; a protected thread is only readable if the owner opted in,
+ * entering its password, while it was protected.
+ */
+export class ShareService {
+  private chatService: ChatService;
+
+  constructor() {
+    this.chatService = new ChatService();
+  }
+
+  async getThreadShare(threadId: string, userId: string): Promise<ThreadShare | null> {
+    try {
+      await this.getOwnedThread(threadId, userId);
+
+      const share = await prisma.threadShare.findFirst({
+        where: { threadId, revokedAt: null },
+      });
+
+      return share ? this.toThreadShare(share) : null;
+    } catch (error) {
+      logger.error('Get thread share error:', error);
+      throw error;
+    }
+  }
+
+  // Returns the thread's active link, creating one if it has none. An existing link keeps the
+  // branch it was made with; revoking and sharing again picks up newer messages.
+  async createThreadShare(threadId: string, userId: string, request: CreateThreadShareRequest): Promise<ThreadShare> {
+    try {
+      const thread = await this.getOwnedThread(threadId, userId);
+
+      const existing = await prisma.threadShare.findFirst({
+        where: { threadId, revokedAt: null },
+      });
+
+      if (existing && (!thread.passwordHash || existing.includesProtected)) {
+        return this.toThreadShare(existing);
+      }
+
+      // Both a new link and re-enabling one made before the thread was protected expose it
+      // without its password, so they take the password as well as the opt-in
+      if (thread.passwordHash) {
+        await this.confirmProtectedShare(thread.passwordHash, request);
+      }
+
+      if (existing) {
+        const updated = await prisma.threadShare.update({
+          where: { id: existing.id },
+          data: { includesProtected: true },
+        });
+        return this.toThreadShare(updated);
+      }
+
+      const share = await prisma.threadShare.create({
+        data: {
+          threadId,
+          token: randomBytes(24).toString('base64url'),
+          includesProtected: !!thread.passwordHash,
+          activeMessageId: await this.chatService.getActiveLeafId(threadId, thread.activeMessageId),
+        },
+      });
+
+      logger.info(`Share link created for thread ${threadId}`);
+      return this.toThreadShare(share);
+    } catch (error) {
+      logger.error('Create thread share error:', error);
+      throw error;
+    }
+  }
+
+  async revokeThreadShare(threadId: string, userId: string): Promise<void> {
+    try {
+      await this.getOwnedThread(threadId, userId);
+
+      await prisma.threadShare.updateMany({
+        where: { threadId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      logger.info(`Share link revoked for thread ${threadId}`);
+    } catch (error) {
+      logger.error('Revoke thread share error:', error);
+      throw error;
+    }
+  }
+
+  async getSharedThread(token: string): Promise<SharedThread> {
+    try {
+      const share = await prisma.threadShare.findFirst({
+        where: { token, revokedAt: null },
+        include: {
+          thread: {
+            select: { id: true, title: true, passwordHash: true, createdAt: true },
+          },
+        },
+      });
+
+      // A password added after sharing hides the thread again until the owner opts in.
+      // Unknown, revoked and hidden links look the same so tokens can't be probed.
+      if (!share || (share.thread.passwordHash && !share.includesProtected)) {
+        throw new NotFoundError('Shared conversation not found');
+      }
+
+      const messages = await this.chatService.getBranchMessages(share.thread.id, share.activeMessageId);
+
+      return {
+        title: share.thread.title,
+        createdAt: share.thread.createdAt,
+        messages: messages.map((message: any) => ({
+          id: message.id,
+          role: message.role,
+          content: message.content,
+          sources: (Array.isArray(message.sources) ? message.sources : []).map((source: MessageSource) => ({
+            index: source.index,
+            title: source.title,
+          })),
+          incomplete: message.incomplete,
+          createdAt: message.createdAt,
+        })),
+      };
+    } catch (error) {
+      logger.error('Get shared thread error:', error);
+      throw error;
+    }
+  }
+
+  private async confirmProtectedShare(passwordHash: string, request: CreateThreadShareRequest): Promise<void> {
+    if (!request.allowPasswordProtected) {
+      throw new ValidationError('Sharing a password-protected thread must be confirmed');
+    }
+
+    if (!request.password) {
+      throw new ValidationError('Thread is password protected');
+    }
+
+    const isPasswordValid = await bcrypt.compare(request.password, passwordHash);
+    if (!isPasswordValid) {
+      throw new ValidationError('Invalid password');
+    }
+  }
+
+  private async getOwnedThread(threadId: string, userId: string): Promise<{
+    id: string;
+    passwordHash: string | null;
+    activeMessageId: string | null;
+  }> {
+    const thread = await prisma.chatThread.findFirst({
+      where: { id: threadId, userId },
+      select: { id: true, passwordHash: true, activeMessageId: true },
+    });
+
+    if (!thread) {
+      throw new NotFoundError('Thread not found');
+    }
+
+    return thread;
+  }
+
+  private toThreadShare(share: any): ThreadShare {
+    return {
+      token: share.token,
+      includesProtected: share.includesProtected,
+      createdAt: share.createdAt,
+    };
+  }
+}
@@ -20,12 +20,25 @@ export interface QueuedTask {
   maxRetries: number;
 }
 
+// A running task refreshes its row this often; one silent for longer than the timeout
+// belongs to a worker that died and may be reclaimed by any instance
+const TASK_HEARTBEAT_INTERVAL_MS = 60 * 1000;
+const STALE_TASK_TIMEOUT_MS = 10 * 60 * 1000;
+
 export type TaskHandler = (payload: TaskPayload) => Promise<any>;
 
+export interface TaskHandlerOptions {
+  // Run at most one task of this type at a time on this worker
+  exclusive?: boolean;
+}
+
 export class TaskQueueService {
   private handlers: Map<string, TaskHandler> = new Map();
+  private exclusiveTaskTypes: Set<string> = new Set();
+  private runningExclusiveTypes: Set<string> = new Set();
   private isProcessing = false;
   private processingInterval?: NodeJS.Timeout;
+  private recoveryInterval?: NodeJS.Timeout;
 
   constructor() {
     this.registerDefaultHandlers();
@@ -36,10 +49,16 @@ export class TaskQueueService {
     this.registerHandler('summary_generation', this.handleSummaryGeneration.bind(this));
     this.registerHandler('analytics_update', this.handleAnalyticsUpdate.bind(this));
     this.registerHandler('usage_aggregation', this.handleUsageAggregation.bind(this));
+    this.registerHandler('source_ingestion', this.handleSourceIngestion.bind(this), { exclusive: true });
+    this.registerHandler('cost_backfill', this.handleCostBackfill.bind(this), { exclusive: true });
+    this.registerHandler('data_export', this.handleDataExport.bind(this), { exclusive: true });
   }
 
-  registerHandler(taskType: string, handler: TaskHandler): void {
+  registerHandler(taskType: string, handler: TaskHandler, options: TaskHandlerOptions = {}): void {
     this.handlers.set(taskType, handler);
+    if (options.exclusive) {
+      this.exclusiveTaskTypes.add(taskType);
+    }
     logger.info(`Registered task handler for: ${taskType}`);
   }
 
@@ -108,6 +127,17 @@ export class TaskQueueService {
     }
 
     this.isProcessing = true;
+
+    // Tasks left in "processing" by a worker that stopped heartbeating go back to the queue.
+    // Other replicas' tasks are still heartbeating, so a rolling deploy leaves them alone.
+    const recover = () => {
+      this.recoverInterruptedTasks().catch(error => {
+        logger.error('Error recovering interrupted tasks:', error);
+      });
+    };
+    recover();
+    this.recoveryInterval = setInterval(recover, STALE_TASK_TIMEOUT_MS);
+
     this.processingInterval = setInterval(() => {
       this.processNextTask().catch(error => {
         logger.error('Error processing task:', error);
@@ -122,10 +152,33 @@ export class TaskQueueService {
       clearInterval(this.processingInterval);
       this.processingInterval = undefined;
     }
+    if (this.recoveryInterval) {
+      clearInterval(this.recoveryInterval);
+      this.recoveryInterval = undefined;
+    }
     this.isProcessing = false;
     logger.info('Task queue processing stopped');
   }
 
+  private async recoverInterruptedTasks(): Promise<void> {
+    const staleBefore = new Date(Date.now() - STALE_TASK_TIMEOUT_MS);
+
+    const result = await prisma.taskQueue.updateMany({
+      where: {
+        status: 'processing',
+        updatedAt: { lt: staleBefore },
+      },
+      data: {
+        status: 'pending',
+        startedAt: null,
+      },
+    });
+
+    if (result.count > 0) {
+      logger.info(`Requeued ${result.count} interrupted tasks`);
+    }
+  }
+
   private async processNextTask(): Promise<void> {
     try {
       // Get next pending task with highest priority
@@ -133,6 +186,9 @@ export class TaskQueueService {
         where: {
           status: 'pending',
           scheduledAt: { lte: new Date() },
+          ...(this.runningExclusiveTypes.size > 0 && {
+            taskType: { notIn: Array.from(this.runningExclusiveTypes) },
+          }),
         },
         orderBy: [
           { priority: 'desc' },
@@ -157,6 +213,13 @@ export class TaskQueueService {
       return;
     }
 
+    const isExclusive = this.exclusiveTaskTypes.has(task.taskType);
+    if (isExclusive) {
+      this.runningExclusiveTypes.add(task.taskType);
+    }
+
+    let heartbeat: NodeJS.Timeout | undefined;
+
     try {
       // Mark task as processing
       await prisma.taskQueue.update({
@@ -167,6 +230,15 @@ export class TaskQueueService {
         },
       });
 
+      heartbeat = setInterval(() => {
+        prisma.taskQueue.update({
+          where: { id: task.id },
+          data: { updatedAt: new Date() },
+        }).catch(error => {
+          logger.warn(`Task heartbeat failed for ${task.id}:`, error);
+        });
+      }, TASK_HEARTBEAT_INTERVAL_MS);
+
       logger.debug(`Processing task: ${task.taskType} (${task.id})`);
 
       // Execute the task
@@ -210,6 +282,13 @@ export class TaskQueueService {
         // Max retries exceeded, mark as failed
         await this.markTaskFailed(task.id, errorMessage);
       }
+    } finally {
+      if (heartbeat) {
+        clearInterval(heartbeat);
+      }
+      if (isExclusive) {
+        this.runningExclusiveTypes.delete(task.taskType);
+      }
     }
   }
 
@@ -357,6 +436,49 @@ export class TaskQueueService {
     return { success: true };
   }
 
+  private async handleSourceIngestion(payload: TaskPayload): Promise<any> {
+    const { sourceId } = payload;
+
+    if (!sourceId) {
+      throw new Error('Invalid source ingestion payload');
+    }
+
+    // The source may have been deleted while the task was waiting
+    const source = await prisma.source.findUnique({
+      where: { id: sourceId },
+      select: { id: true },
+    });
+
+    if (!source) {
+      return { skipped: true, reason: 'Source not found' };
+    }
+
+    const { RAGService } = await import('./ragService');
+    const ragService = new RAGService();
+
+    return ragService.processSource(sourceId);
+  }
+
+  private async handleCostBackfill(payload: TaskPayload): Promise<any> {
+    const { CostBackfillService } = await import('./costBackfillService');
+    const costBackfillService = new CostBackfillService();
+
+    return costBackfillService.recalculateMessageCosts(payload);
+  }
+
+  private async handleDataExport(payload: TaskPayload): Promise<any> {
+    const { exportId } = payload;
+
+    if (!exportId) {
+      throw new Error('Invalid data export payload');
+    }
+
+    const { ExportService } = await import('./exportService');
+    const exportService = new ExportService();
+
+    return exportService.buildDataExport(exportId);
+  }
+
   private async handleUsageAggregation(payload: TaskPayload): Promise<any> {
     // Handle usage aggregation for reporting
     const { period, date } = payload;
@@ -0,0 +1,207 @@
+import { prisma } from '../config/database';
+import logger from '../config/logger';
+import { NotFoundError, ValidationError } from '@fluxo/shared';
+import type { ChatFolder, ChatThread, UpdateThreadOrganizationRequest } from '@fluxo/shared';
+
+/**
+ * A user's own organization of their threads: folders, pins, the archive and personal tags.
+ * None of it changes a thread's updatedAt, so filing a thread doesn't reorder the list.
+ */
+export class ThreadOrganizationService {
+  async getFolders(userId: string): Promise<ChatFolder[]> {
+    try {
+      const folders = await prisma.chatFolder.findMany({
+        where: { userId },
+        orderBy: { name: 'asc' },
+        include: {
+          _count: { select: { threads: { where: { archivedAt: null } } } },
+        },
+      });
+
+      return folders.map((folder: any) => this.toChatFolder(folder));
+    } catch (error) {
+      logger.error('Get folders error:', error);
+      throw error;
+    }
+  }
+
+  async createFolder(userId: string, name: string): Promise<ChatFolder> {
+    try {
+      await this.ensureFolderNameFree(userId, name);
+
+      const folder = await prisma.chatFolder.create({
+        data: { userId, name },
+      });
+
+      logger.info(`Chat folder created: ${folder.id} for user: ${userId}`);
+      return this.toChatFolder({ ...folder, _count: { threads: 0 } });
+    } catch (error) {
+      logger.error('Create folder error:', error);
+      throw error;
+    }
+  }
+
+  async renameFolder(folderId: string, userId: string, name: string): Promise<ChatFolder> {
+    try {
+      await this.getOwnedFolder(folderId, userId);
+      await this.ensureFolderNameFree(userId, name, folderId);
+
+      const folder = await prisma.chatFolder.update({
+        where: { id: folderId },
+        data: { name },
+        include: {
+          _count: { select: { threads: { where: { archivedAt: null } } } },
+        },
+      });
+
+      return this.toChatFolder(folder);
+    } catch (error) {
+      logger.error('Rename folder error:', error);
+      throw error;
+    }
+  }
+
+  // The folder's threads stay, unfiled
+  async deleteFolder(folderId: string, userId: string): Promise<void> {
+    try {
+      await this.getOwnedFolder(folderId, userId);
+
+      await prisma.chatFolder.delete({
+        where: { id: folderId },
+      });
+
+      logger.info(`Chat folder deleted: ${folderId}`);
+    } catch (error) {
+      logger.error('Delete folder error:', error);
+      throw error;
+    }
+  }
+
+  async updateThreadOrganization(
+    threadId: string,
+    userId: string,
+    request: UpdateThreadOrganizationRequest
+  ): Promise<Partial<ChatThread>> {
+    try {
+      const thread = await prisma.chatThread.findFirst({
+        where: { id: threadId, userId },
+        select: { id: true, updatedAt: true },
+      });
+
+      if (!thread) {
+        throw new NotFoundError('Thread not found');
+      }
+
+      if (request.folderId) {
+        await this.getOwnedFolder(request.folderId, userId);
+      }
+
+      const now = new Date();
+      const data: Record<string, unknown> = {
+        // Keep the thread's place in the recency order
+        updatedAt: thread.updatedAt,
+      };
+
+      if (request.pinned !== undefined) {
+        data.pinnedAt = request.pinned ? now : null;
+      }
+      if (request.archived !== undefined) {
+        data.archivedAt = request.archived ? now : null;
+        // A pin only matters in the main list
+        if (request.archived) {
+          data.pinnedAt = null;
+        }
+      }
+      if (request.folderId !== undefined) {
+        data.folderId = request.folderId;
+      }
+      if (request.tags !== undefined) {
+        data.tags = this.normalizeTags(request.tags);
+      }
+
+      const updated = await prisma.chatThread.update({
+        where: { id: threadId },
+        data,
+        select: { id: true, folderId: true, tags: true, pinnedAt: true, archivedAt: true },
+      });
+
+      return {
+        id: updated.id,
+        pinned: !!updated.pinnedAt,
+        archived: !!updated.archivedAt,
+        folderId: updated.folderId,
+        tags: updated.tags,
+      };
+    } catch (error) {
+      logger.error('Update thread organization error:', error);
+      throw error;
+    }
+  }
+
+  // The user's tags across all threads, for suggestions and filtering
+  async getThreadTags(userId: string): Promise<string[]> {
+    try {
+      const rows = await prisma.$queryRaw<{ tag: string }[]>`
+        SELECT DISTINCT unnest(tags) AS tag
+        FROM chat_threads
+        WHERE user_id = ${userId}::uuid
+        ORDER BY tag
+      `;
+
+      return rows.map(row => row.tag);
+    } catch (error) {
+      logger.error('Get thread tags error:', error);
+      throw error;
+    }
+  }
+
+  // Tags differing only in case or spacing are the same tag; the first spelling wins
+  private normalizeTags(tags: string[]): string[] {
+    const seen = new Set<string>();
+    return tags
+      .map(tag => tag.trim().replace(/\s+/g, ' '))
+      .filter(tag => {
+        const key = tag.toLowerCase();
+        if (!tag || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+  }
+
+  private async getOwnedFolder(folderId: string, userId: string): Promise<{ id: string }> {
+    const folder = await prisma.chatFolder.findFirst({
+      where: { id: folderId, userId },
+      select: { id: true },
+    });
+
+    if (!folder) {
+      throw new NotFoundError('Folder not found');
+    }
+
+    return folder;
+  }
+
+  private async ensureFolderNameFree(userId: string, name: string, exceptFolderId?: string): Promise<void> {
+    const existing = await prisma.chatFolder.findFirst({
+      where: {
+        userId,
+        name: { equals: name, mode: 'insensitive' },
+        ...(exceptFolderId && { id: { not: exceptFolderId } }),
+      },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new ValidationError('A folder with this name already exists');
+    }
+  }
+
+  private toChatFolder(folder: any): ChatFolder {
+    return {
+      id: folder.id,
+      name: folder.name,
+      threadCount: folder._count.threads,
+      createdAt: folder.createdAt,
+    };
+  }
+}
@@ -12,6 +12,7 @@ import BillingPage from './pages/BillingPage';
 import PaymentPage from './pages/PaymentPage';
 import PaymentSuccessPage from './pages/PaymentSuccessPage';
 import AuthCallback from './pages/AuthCallback';
+import SharedThreadPage from './pages/SharedThreadPage';
 
 // Components
 import LoadingSpinner from './components/LoadingSpinner';
@@ -36,6 +37,7 @@ function App() {
         <Route path="/login" element={<LoginPage />} />
         <Route path="/register" element={<RegisterPage />} />
         <Route path="/auth/callback" element={<AuthCallback />} />
+        <Route path="/share/:token" element={<SharedThreadPage />} />
         
         {/* Payment Routes */}
         <Route
@@ -1,16 +1,20 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Message } from './Message';
 import { MessageInput } from './MessageInput';
+import { ModelSelector } from './ModelSelector';
+import { ThreadExportMenu } from './ThreadExportMenu';
+import { ShareThreadDialog } from './ShareThreadDialog';
 import StreamingMarkdownRenderer from '@/components/StreamingMarkdownRenderer';
 import TypingIndicator from '@/components/TypingIndicator';
-import type { ChatThread, ChatMessage as MessageType } from '@shared/types';
+import type { ChatThread, ChatMessage as MessageType, AvailableModels, ModelOption, ThreadExportFormat, MessageFeedbackRequest } from '@shared/types';
 import { useInfiniteScroll } from '@/hooks/useInfiniteScroll';
 import { 
   MessageCircle, 
   Plus, 
   Bot,
-  Menu
+  Menu,
+  Share2
 } from 'lucide-react';
 
 interface ChatAreaProps {
@@ -21,6 +25,12 @@ interface ChatAreaProps {
   messageInput: string;
   setMessageInput: (value: string) => void;
   onSendMessage: (e: React.FormEvent) => void;
+  onStopStreaming: () => void;
+  onEditMessage: (messageId: string, content: string) => void;
+  onRegenerateMessage: (messageId: string) => void;
+  onSelectBranch: (messageId: string) => void;
+  onRateMessage: (messageId: string, feedback: MessageFeedbackRequest | null) => Promise<void>;
+  highlightedMessageId: string | null;
   onCreateThread: () => void;
   isLoading: boolean;
   setIsMobileSidebarOpen: (open: boolean) => void;
@@ -30,6 +40,9 @@ interface ChatAreaProps {
   messagesContainerRef: React.RefObject<HTMLDivElement>;
   previousScrollHeight: number;
   setPreviousScrollHeight: (height: number) => void;
+  availableModels: AvailableModels | null;
+  onSelectModel: (option: ModelOption) => void;
+  onExportThread: (format: ThreadExportFormat) => Promise<void>;
 }
 
 export const ChatArea: React.FC<ChatAreaProps> = ({
@@ -40,6 +53,12 @@ export const ChatArea: React.FC<ChatAreaProps> = ({
   messageInput,
   setMessageInput,
   onSendMessage,
+  onStopStreaming,
+  onEditMessage,
+  onRegenerateMessage,
+  onSelectBranch,
+  onRateMessage,
+  highlightedMessageId,
   onCreateThread,
   isLoading,
   setIsMobileSidebarOpen,
@@ -49,8 +68,12 @@ export const ChatArea: React.FC<ChatAreaProps> = ({
   messagesContainerRef,
   previousScrollHeight,
   setPreviousScrollHeight,
+  availableModels,
+  onSelectModel,
+  onExportThread,
 }) => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
 
   const { loadMoreRef } = useInfiniteScroll({
     hasMore: hasMoreMessages,
@@ -82,6 +105,17 @@ export const ChatArea: React.FC<ChatAreaProps> = ({
     }
   }, [messages, streamingMessage]);
 
+  // Bring a message opened from search into view, after the jump to the bottom on opening the thread
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+
+    const timer = setTimeout(() => {
+      document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 150);
+
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
   // Maintain scroll position when loading more messages
   useEffect(() => {
     const container = messagesContainerRef.current;
@@ -134,8 +168,21 @@ export const ChatArea: React.FC<ChatAreaProps> = ({
               
               <div className="space-y-6">
                 {messages.map((message) => (
-                  <div key={message.id} className="w-full">
-                    <Message message={message} />
+                  <div
+                    key={message.id}
+                    id={`message-${message.id}`}
+                    className={`w-full rounded-2xl transition-shadow ${
+                      message.id === highlightedMessageId ? 'ring-2 ring-primary/50 ring-offset-4 ring-offset-background' : ''
+                    }`}
+                  >
+                    <Message
+                      message={message}
+                      onEdit={onEditMessage}
+                      onRegenerate={onRegenerateMessage}
+                      onSelectBranch={onSelectBranch}
+                      onRate={onRateMessage}
+                      actionsDisabled={isStreaming}
+                    />
                   </div>
                 ))}
               </div>
@@ -183,14 +230,42 @@ export const ChatArea: React.FC<ChatAreaProps> = ({
           {/* Message Input - Fixed at bottom */}
           <div className="fixed bottom-0 left-0 right-0 z-40 p-4 sm:p-6 sm:absolute">
             <div className="w-full max-w-4xl mx-auto" style={{ minWidth: '320px' }}>
+              <div className="flex items-center gap-2">
+                <ModelSelector
+                  availableModels={availableModels}
+                  currentThread={currentThread}
+                  onSelectModel={onSelectModel}
+                  disabled={isStreaming}
+                />
+                <ThreadExportMenu
+                  onExport={onExportThread}
+                  disabled={isStreaming || messages.length === 0}
+                />
+                <button
+                  type="button"
+                  onClick={() => setIsShareDialogOpen(true)}
+                  disabled={messages.length === 0}
+                  className="flex items-center mb-2 px-3 py-1.5 text-xs rounded-full border border-border bg-background/80 backdrop-blur-sm text-muted-foreground hover:text-foreground hover:bg-accent/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Share2 className="w-3.5 h-3.5 mr-1.5" />
+                  <span className="font-medium">Compartilhar</span>
+                </button>
+              </div>
               <MessageInput
                 messageInput={messageInput}
                 setMessageInput={setMessageInput}
                 onSendMessage={onSendMessage}
+                onStop={onStopStreaming}
                 isStreaming={isStreaming}
               />
             </div>
           </div>
+
+          <ShareThreadDialog
+            isOpen={isShareDialogOpen}
+            onClose={() => setIsShareDialogOpen(false)}
+            thread={currentThread}
+          />
         </>
       ) : (
         <div className="flex-1 flex items-center justify-center bg-gradient-to-br from-background via-background to-muted/20 pt-20 md:pt-0">
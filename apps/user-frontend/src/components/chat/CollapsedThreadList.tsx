@@ -1,20 +1,57 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
-import type { ChatThread } from '@shared/types';
-import { MessageCircle, Lock } from 'lucide-react';
+import type { ChatFolder, ChatThread } from '@shared/types';
+import { startThreadDrag, useThreadDropTarget, type ThreadOrganization } from './threadOrganization';
+import { MessageCircle, Lock, Folder, Pin } from 'lucide-react';
 
 interface CollapsedThreadListProps {
   threads: ChatThread[];
   currentThread: ChatThread | null;
   isLoading: boolean;
   onThreadClick: (thread: ChatThread) => void;
+  organization: ThreadOrganization;
+  // Opening a folder needs the full sidebar
+  onExpand?: () => void;
 }
 
+const CollapsedFolder: React.FC<{
+  folder: ChatFolder;
+  organization: ThreadOrganization;
+  onExpand?: () => void;
+}> = ({ folder, organization, onExpand }) => {
+  const { isOver, dropProps } = useThreadDropTarget((threadId) => {
+    organization.onUpdateThread(threadId, { folderId: folder.id });
+  });
+
+  return (
+    <div {...dropProps} className="relative flex justify-center">
+      <Button
+        variant="ghost"
+        size="sm"
+        className={`w-8 h-8 p-0 rounded-md transition-all duration-200 ${
+          isOver ? 'bg-primary/10 ring-1 ring-primary/40' : 'hover:bg-accent/50'
+        }`}
+        onClick={onExpand}
+        title={`${folder.name} (${folder.threadCount})`}
+      >
+        <Folder className="w-4 h-4" />
+      </Button>
+      {folder.threadCount > 0 && (
+        <div className="absolute -bottom-0.5 right-2 min-w-[14px] h-3.5 px-0.5 bg-muted rounded-full flex items-center justify-center text-[9px] leading-none text-muted-foreground shadow-sm pointer-events-none">
+          {folder.threadCount}
+        </div>
+      )}
+    </div>
+  );
+};
+
 export const CollapsedThreadList: React.FC<CollapsedThreadListProps> = ({
   threads,
   currentThread,
   isLoading,
   onThreadClick,
+  organization,
+  onExpand,
 }) => {
   if (isLoading) {
     return (
@@ -24,7 +61,10 @@ export const CollapsedThreadList: React.FC<CollapsedThreadListProps> = ({
     );
   }
 
-  if (threads.length === 0) {
+  // Folders are filed into by dropping threads on them, so they're listed even without threads
+  const folders = organization.showArchived ? [] : organization.folders;
+
+  if (threads.length === 0 && folders.length === 0) {
     return (
       <div className="flex-1 flex items-center justify-center p-4">
         <div className="w-8 h-8 bg-muted/50 rounded-full flex items-center justify-center">
@@ -36,10 +76,25 @@ export const CollapsedThreadList: React.FC<CollapsedThreadListProps> = ({
 
   return (
     <div className="flex-1 overflow-y-auto p-2 space-y-1 thin-scrollbar">
+      {folders.map((folder) => (
+        <CollapsedFolder
+          key={folder.id}
+          folder={folder}
+          organization={organization}
+          onExpand={onExpand}
+        />
+      ))}
+
+      {folders.length > 0 && threads.length > 0 && (
+        <div className="h-px bg-border/50 mx-2 my-2"></div>
+      )}
+
       {threads.slice(0, 10).map((thread) => (
         <div
           key={thread.id}
           className="relative flex justify-center"
+          draggable
+          onDragStart={(e) => startThreadDrag(e, thread.id)}
         >
           <Button
             variant="ghost"
@@ -59,9 +114,14 @@ export const CollapsedThreadList: React.FC<CollapsedThreadListProps> = ({
               <Lock className="w-2 h-2 text-primary-foreground" />
             </div>
           )}
+          {thread.pinned && (
+            <div className="absolute -top-0.5 -left-0.5 w-3 h-3 bg-muted rounded-full flex items-center justify-center shadow-sm">
+              <Pin className="w-2 h-2 text-foreground" />
+            </div>
+          )}
         </div>
       ))}
-      
+
       {threads.length > 10 && (
         <div className="flex justify-center py-2">
           <div className="text-xs text-muted-foreground bg-muted/50 rounded-full px-2 py-1">
@@ -71,4 +131,4 @@ export const CollapsedThreadList: React.FC<CollapsedThreadListProps> = ({
       )}
     </div>
   );
-};
\ No newline at end of file
+};
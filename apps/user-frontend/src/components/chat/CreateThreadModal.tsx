@@ -2,15 +2,16 @@
  * @fileoverview Modal component for creating new chat threads with custom names
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Plus, Loader2, X } from 'lucide-react';
+import { chatApi } from '@/lib/api';
+import { Plus, Loader2, X, Tag } from 'lucide-react';
 
 interface CreateThreadModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onCreateThread: (title: string) => Promise<void>;
+  onCreateThread: (title: string, knowledgeTags: string[]) => Promise<void>;
   isLoading: boolean;
 }
 
@@ -21,14 +22,35 @@ export const CreateThreadModal: React.FC<CreateThreadModalProps> = ({
   isLoading,
 }) => {
   const [threadTitle, setThreadTitle] = useState('');
+  const [availableTags, setAvailableTags] = useState<string[]>([]);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    chatApi.getKnowledgeTags()
+      .then(setAvailableTags)
+      .catch((error) => {
+        // Tags are optional; the thread can still be created without them
+        console.error('Failed to load knowledge tags:', error);
+        setAvailableTags([]);
+      });
+  }, [isOpen]);
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags((prev) =>
+      prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]
+    );
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!threadTitle.trim()) return;
 
     try {
-      await onCreateThread(threadTitle.trim());
+      await onCreateThread(threadTitle.trim(), selectedTags);
       setThreadTitle('');
+      setSelectedTags([]);
       onClose();
     } catch (error) {
       // Error handling is done in the parent component
@@ -37,6 +59,7 @@ export const CreateThreadModal: React.FC<CreateThreadModalProps> = ({
 
   const handleClose = () => {
     setThreadTitle('');
+    setSelectedTags([]);
     onClose();
   };
 
@@ -85,6 +108,41 @@ export const CreateThreadModal: React.FC<CreateThreadModalProps> = ({
               {threadTitle.length}/100 caracteres
             </p>
           </div>
+
+          {availableTags.length > 0 && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground flex items-center">
+                <Tag className="w-4 h-4 mr-2" />
+                Temas de conhecimento
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {availableTags.map((tag) => {
+                  const isSelected = selectedTags.includes(tag);
+                  return (
+                    <button
+                      key={tag}
+                      type="button"
+                      onClick={() => toggleTag(tag)}
+                      disabled={isLoading}
+                      aria-pressed={isSelected}
+                      className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                        isSelected
+                          ? 'bg-primary text-primary-foreground border-primary'
+                          : 'bg-background text-muted-foreground border-border hover:bg-accent'
+                      }`}
+                    >
+                      {tag}
+                    </button>
+                  );
+                })}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {selectedTags.length > 0
+                  ? 'As respostas usarão apenas fontes com os temas selecionados.'
+                  : 'Sem temas selecionados, todas as fontes serão consultadas.'}
+              </p>
+            </div>
+          )}
           
           <div className="flex justify-end space-x-3 pt-2">
             <Button
@@ -1,14 +1,68 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { formatDate } from '@/lib/utils';
 import MarkdownRenderer from '@/components/MarkdownRenderer';
-import { User, Bot } from 'lucide-react';
-import type { Message as MessageType } from '@shared/types';
+import { SourceExcerptDialog } from './SourceExcerptDialog';
+import { MessageFeedbackForm } from './MessageFeedbackForm';
+import { Button } from '@/components/ui/button';
+import { User, BookOpen, CircleSlash, ChevronLeft, ChevronRight, Pencil, RefreshCw, ThumbsUp, ThumbsDown } from 'lucide-react';
+import type { ChatMessage as MessageType, MessageSource, MessageFeedbackRequest } from '@shared/types';
 
 interface MessageProps {
   message: MessageType;
+  onEdit: (messageId: string, content: string) => void;
+  onRegenerate: (messageId: string) => void;
+  onSelectBranch: (messageId: string) => void;
+  onRate: (messageId: string, feedback: MessageFeedbackRequest | null) => Promise<void>;
+  actionsDisabled?: boolean;
 }
 
-export const Message: React.FC<MessageProps> = ({ message }) => {
+export const Message: React.FC<MessageProps> = ({
+  message,
+  onEdit,
+  onRegenerate,
+  onSelectBranch,
+  onRate,
+  actionsDisabled = false,
+}) => {
+  const [openSource, setOpenSource] = useState<MessageSource | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editContent, setEditContent] = useState('');
+  const [showFeedbackForm, setShowFeedbackForm] = useState(false);
+  const sources = message.role === 'assistant' ? message.sources || [] : [];
+
+  // Messages still being saved have no server id to branch from yet
+  const isSaved = !message.id.startsWith('temp-');
+  const siblingIds = message.siblingIds || [message.id];
+  const branchIndex = siblingIds.indexOf(message.id);
+
+  const startEditing = () => {
+    setEditContent(message.content);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    const content = editContent.trim();
+    setIsEditing(false);
+    if (content && content !== message.content) {
+      onEdit(message.id, content);
+    }
+  };
+
+  // Clicking the current rating again removes it
+  const handleRate = async (rating: 'up' | 'down') => {
+    setShowFeedbackForm(false);
+    if (message.feedback?.rating === rating) {
+      await onRate(message.id, null);
+      return;
+    }
+
+    await onRate(message.id, { rating });
+    // The rating is saved first; a reason and comment are optional extras
+    if (rating === 'down') {
+      setShowFeedbackForm(true);
+    }
+  };
+
   return (
     <div className={`flex w-full ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
       <div
@@ -35,7 +89,33 @@ export const Message: React.FC<MessageProps> = ({ message }) => {
           }`}
         >
           <div className="px-4 py-3">
-            {message.role === 'user' ? (
+            {isEditing ? (
+              <div className="space-y-2">
+                <textarea
+                  value={editContent}
+                  onChange={(e) => setEditContent(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      submitEdit();
+                    } else if (e.key === 'Escape') {
+                      setIsEditing(false);
+                    }
+                  }}
+                  autoFocus
+                  rows={3}
+                  className="w-full p-2 rounded-lg border border-border bg-background/80 text-sm text-foreground resize-none focus:outline-none focus:ring-2 focus:ring-primary/20"
+                />
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+                    Cancelar
+                  </Button>
+                  <Button size="sm" onClick={submitEdit} disabled={!editContent.trim() || actionsDisabled}>
+                    Enviar
+                  </Button>
+                </div>
+              </div>
+            ) : message.role === 'user' ? (
               <p className="text-sm leading-relaxed whitespace-pre-wrap">{message.content}</p>
             ) : (
               <MarkdownRenderer 
@@ -44,11 +124,105 @@ export const Message: React.FC<MessageProps> = ({ message }) => {
               />
             )}
           </div>
-          <div className={'px-4 pb-2 text-xs font-medium text-muted-foreground'}>
+          {sources.length > 0 && (
+            <div className="px-4 pb-2 flex flex-wrap items-center gap-1.5">
+              <BookOpen className="w-3.5 h-3.5 text-muted-foreground" />
+              {sources.map((source) => (
+                <button
+                  key={source.chunkId}
+                  type="button"
+                  onClick={() => setOpenSource(source)}
+                  title={source.title}
+                  className="max-w-[200px] truncate rounded-full border border-primary/30 bg-background/60 px-2 py-0.5 text-xs text-foreground hover:bg-primary/20 transition-colors"
+                >
+                  [{source.index}] {source.title}
+                </button>
+              ))}
+            </div>
+          )}
+          <div className={'px-4 pb-2 flex items-center gap-2 text-xs font-medium text-muted-foreground'}>
             {formatDate(message.createdAt)}
+            {message.incomplete && (
+              <span className="flex items-center gap-1" title="A geração foi interrompida antes de terminar">
+                <CircleSlash className="w-3 h-3" />
+                Resposta interrompida
+              </span>
+            )}
+            {siblingIds.length > 1 && branchIndex >= 0 && (
+              <span className="flex items-center">
+                <button
+                  type="button"
+                  onClick={() => onSelectBranch(siblingIds[branchIndex - 1])}
+                  disabled={branchIndex === 0 || actionsDisabled}
+                  title="Versão anterior"
+                  className="p-0.5 rounded hover:text-foreground disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <ChevronLeft className="w-3.5 h-3.5" />
+                </button>
+                {branchIndex + 1}/{siblingIds.length}
+                <button
+                  type="button"
+                  onClick={() => onSelectBranch(siblingIds[branchIndex + 1])}
+                  disabled={branchIndex === siblingIds.length - 1 || actionsDisabled}
+                  title="Próxima versão"
+                  className="p-0.5 rounded hover:text-foreground disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <ChevronRight className="w-3.5 h-3.5" />
+                </button>
+              </span>
+            )}
+            {isSaved && !isEditing && (
+              <span className="ml-auto flex items-center gap-1">
+                {message.role === 'assistant' && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => handleRate('up')}
+                      title={message.feedback?.rating === 'up' ? 'Remover avaliação' : 'Boa resposta'}
+                      className={`p-0.5 rounded hover:text-foreground ${
+                        message.feedback?.rating === 'up' ? 'text-primary' : ''
+                      }`}
+                    >
+                      <ThumbsUp className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleRate('down')}
+                      title={message.feedback?.rating === 'down' ? 'Remover avaliação' : 'Resposta ruim'}
+                      className={`p-0.5 rounded hover:text-foreground ${
+                        message.feedback?.rating === 'down' ? 'text-primary' : ''
+                      }`}
+                    >
+                      <ThumbsDown className="w-3.5 h-3.5" />
+                    </button>
+                  </>
+                )}
+                <button
+                  type="button"
+                  onClick={message.role === 'user' ? startEditing : () => onRegenerate(message.id)}
+                  disabled={actionsDisabled}
+                  title={message.role === 'user' ? 'Editar e reenviar' : 'Gerar outra resposta'}
+                  className="p-0.5 rounded hover:text-foreground disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  {message.role === 'user' ? (
+                    <Pencil className="w-3.5 h-3.5" />
+                  ) : (
+                    <RefreshCw className="w-3.5 h-3.5" />
+                  )}
+                </button>
+              </span>
+            )}
           </div>
+          {showFeedbackForm && message.feedback?.rating === 'down' && (
+            <MessageFeedbackForm
+              feedback={message.feedback}
+              onSubmit={(reason, comment) => onRate(message.id, { rating: 'down', reason, comment: comment || null })}
+              onClose={() => setShowFeedbackForm(false)}
+            />
+          )}
         </div>
       </div>
+      <SourceExcerptDialog source={openSource} onClose={() => setOpenSource(null)} />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import type { FeedbackReason, MessageFeedback } from '@shared/types';
+import { X } from 'lucide-react';
+
+interface MessageFeedbackFormProps {
+  feedback: MessageFeedback;
+  onSubmit: (reason: FeedbackReason | null, comment: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const REASON_LABELS: Record<FeedbackReason, string> = {
+  inaccurate: 'Informação incorreta',
+  incomplete: 'Resposta incompleta',
+  irrelevant_sources: 'Fontes irrelevantes',
+  not_grounded: 'Não se baseou nas fontes',
+  unclear: 'Difícil de entender',
+  other: 'Outro motivo',
+};
+
+// Details for a thumbs down, which is already saved when this opens
+export const MessageFeedbackForm: React.FC<MessageFeedbackFormProps> = ({ feedback, onSubmit, onClose }) => {
+  const [reason, setReason] = useState<FeedbackReason | null>(feedback.reason);
+  const [comment, setComment] = useState(feedback.comment ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    try {
+      await onSubmit(reason, comment.trim());
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mx-4 mb-3 rounded-lg border border-border bg-background/80 p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-foreground">O que houve com esta resposta?</p>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-0.5 rounded text-muted-foreground hover:text-foreground"
+          title="Fechar"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5">
+        {(Object.keys(REASON_LABELS) as FeedbackReason[]).map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setReason(reason === option ? null : option)}
+            className={`rounded-full border px-2.5 py-1 text-xs transition-colors ${
+              reason === option
+                ? 'border-primary/30 bg-primary/10 text-foreground'
+                : 'border-border bg-background/80 text-muted-foreground hover:text-foreground hover:bg-accent/50'
+            }`}
+          >
+            {REASON_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder="Conte mais, se quiser (opcional)"
+        maxLength={1000}
+        rows={2}
+        className="w-full p-2 rounded-lg border border-border bg-background/80 text-sm text-foreground resize-none focus:outline-none focus:ring-2 focus:ring-primary/20"
+      />
+
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-muted-foreground">
+          A equipe revisa avaliações negativas junto com a pergunta e a resposta.
+        </p>
+        <Button size="sm" onClick={handleSubmit} disabled={isSaving} className="flex-shrink-0">
+          Enviar
+        </Button>
+      </div>
+    </div>
+  );
+};
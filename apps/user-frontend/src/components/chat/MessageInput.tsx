@@ -1,11 +1,12 @@
 import React, { useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
-import { Send } from 'lucide-react';
+import { Send, Square } from 'lucide-react';
 
 interface MessageInputProps {
   messageInput: string;
   setMessageInput: (value: string) => void;
   onSendMessage: (e: React.FormEvent) => void;
+  onStop: () => void;
   isStreaming: boolean;
 }
 
@@ -13,6 +14,7 @@ export const MessageInput: React.FC<MessageInputProps> = ({
   messageInput,
   setMessageInput,
   onSendMessage,
+  onStop,
   isStreaming,
 }) => {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -65,14 +67,26 @@ export const MessageInput: React.FC<MessageInputProps> = ({
           style={{ minHeight: '40px', maxHeight: '150px' }}
           rows={1}
         />
-        <Button
-          type="submit"
-          disabled={!messageInput.trim() || isStreaming}
-          className="absolute right-2 bottom-2 h-8 w-8 sm:h-9 sm:w-9 rounded-full disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 bg-primary hover:bg-primary/90 text-primary-foreground"
-          size="icon"
-        >
-          <Send className="w-4 h-4" />
-        </Button>
+        {isStreaming ? (
+          <Button
+            type="button"
+            onClick={onStop}
+            title="Parar resposta"
+            className="absolute right-2 bottom-2 h-8 w-8 sm:h-9 sm:w-9 rounded-full transition-all duration-200 bg-primary hover:bg-primary/90 text-primary-foreground"
+            size="icon"
+          >
+            <Square className="w-3.5 h-3.5 fill-current" />
+          </Button>
+        ) : (
+          <Button
+            type="submit"
+            disabled={!messageInput.trim()}
+            className="absolute right-2 bottom-2 h-8 w-8 sm:h-9 sm:w-9 rounded-full disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 bg-primary hover:bg-primary/90 text-primary-foreground"
+            size="icon"
+          >
+            <Send className="w-4 h-4" />
+          </Button>
+        )}
       </div>
     </form>
   );
@@ -1,8 +1,10 @@
 import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { ThreadList } from './ThreadList';
+import { ThreadSearch } from './ThreadSearch';
 import { UserDropdown } from './UserDropdown';
-import type { ChatThread } from '@shared/types';
+import type { ThreadOrganization } from './threadOrganization';
+import type { ChatThread, ChatSearchResult } from '@shared/types';
 import { 
   MessageCircle, 
   Plus, 
@@ -18,8 +20,10 @@ interface MobileSidebarProps {
   user: any;
   onCreateThread: () => void;
   onThreadClick: (thread: ChatThread) => void;
+  onSelectSearchResult: (result: ChatSearchResult) => void;
   onEditThread: (threadId: string, currentTitle: string) => void;
   onLogout: () => void;
+  onExportData: () => void;
   onOpenPasswordDialog: (threadId: string, threadTitle: string, mode: 'verify' | 'set' | 'update' | 'delete', hasPassword: boolean) => void;
   editingThreadId: string | null;
   editTitle: string;
@@ -29,6 +33,7 @@ interface MobileSidebarProps {
   showThreadMenu: string | null;
   setShowThreadMenu: (threadId: string | null) => void;
   setDeleteConfirmId: (threadId: string | null) => void;
+  organization: ThreadOrganization;
 }
 
 export const MobileSidebar: React.FC<MobileSidebarProps> = ({
@@ -40,8 +45,10 @@ export const MobileSidebar: React.FC<MobileSidebarProps> = ({
   user,
   onCreateThread,
   onThreadClick,
+  onSelectSearchResult,
   onEditThread,
   onLogout,
+  onExportData,
   onOpenPasswordDialog,
   editingThreadId,
   editTitle,
@@ -51,6 +58,7 @@ export const MobileSidebar: React.FC<MobileSidebarProps> = ({
   showThreadMenu,
   setShowThreadMenu,
   setDeleteConfirmId,
+  organization,
 }) => {
   const [showUserDropdown, setShowUserDropdown] = useState(false);
 
@@ -59,6 +67,11 @@ export const MobileSidebar: React.FC<MobileSidebarProps> = ({
     onClose();
   };
 
+  const handleSelectSearchResult = (result: ChatSearchResult) => {
+    onSelectSearchResult(result);
+    onClose();
+  };
+
   const handleCreateThread = () => {
     onCreateThread();
     onClose();
@@ -100,22 +113,25 @@ export const MobileSidebar: React.FC<MobileSidebarProps> = ({
         </div>
 
         {/* Mobile Threads List */}
-        <ThreadList
-          threads={threads}
-          currentThread={currentThread}
-          isLoading={isLoading}
-          onThreadClick={handleThreadClick}
-          onEditThread={onEditThread}
-          editingThreadId={editingThreadId}
-          editTitle={editTitle}
-          setEditTitle={setEditTitle}
-          onSaveTitle={onSaveTitle}
-          onCancelEdit={onCancelEdit}
-          showThreadMenu={showThreadMenu}
-          setShowThreadMenu={setShowThreadMenu}
-          onOpenPasswordDialog={onOpenPasswordDialog}
-          setDeleteConfirmId={setDeleteConfirmId}
-        />
+        <ThreadSearch onSelectResult={handleSelectSearchResult}>
+          <ThreadList
+            threads={threads}
+            currentThread={currentThread}
+            isLoading={isLoading}
+            onThreadClick={handleThreadClick}
+            onEditThread={onEditThread}
+            editingThreadId={editingThreadId}
+            editTitle={editTitle}
+            setEditTitle={setEditTitle}
+            onSaveTitle={onSaveTitle}
+            onCancelEdit={onCancelEdit}
+            showThreadMenu={showThreadMenu}
+            setShowThreadMenu={setShowThreadMenu}
+            onOpenPasswordDialog={onOpenPasswordDialog}
+            setDeleteConfirmId={setDeleteConfirmId}
+            organization={organization}
+          />
+        </ThreadSearch>
         
         {/* Mobile User Dropdown */}
         <UserDropdown
@@ -123,6 +139,7 @@ export const MobileSidebar: React.FC<MobileSidebarProps> = ({
           showUserDropdown={showUserDropdown}
           setShowUserDropdown={setShowUserDropdown}
           onLogout={onLogout}
+          onExportData={onExportData}
         />
       </div>
     </>
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import type { AvailableModels, ChatThread, ModelOption } from '@shared/types';
+import { Cpu, ChevronDown, Check } from 'lucide-react';
+
+interface ModelSelectorProps {
+  availableModels: AvailableModels | null;
+  currentThread: ChatThread;
+  onSelectModel: (option: ModelOption) => void;
+  disabled?: boolean;
+}
+
+const isSameModel = (a: { provider?: string | null; model?: string | null }, b: ModelOption) =>
+  a.provider === b.provider && a.model === b.model;
+
+export const ModelSelector: React.FC<ModelSelectorProps> = ({
+  availableModels,
+  currentThread,
+  onSelectModel,
+  disabled = false,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Plans with a single model have nothing to choose
+  if (!availableModels || availableModels.models.length < 2) {
+    return null;
+  }
+
+  // A model the plan no longer allows falls back to the default, as on the server
+  const selected = availableModels.models.find(option => isSameModel(currentThread, option))
+    || availableModels.defaultModel;
+
+  return (
+    <div className="relative mb-2">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="flex items-center px-3 py-1.5 text-xs rounded-full border border-border bg-background/80 backdrop-blur-sm text-muted-foreground hover:text-foreground hover:bg-accent/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Cpu className="w-3.5 h-3.5 mr-1.5" />
+        <span className="font-medium">{selected.label || selected.model}</span>
+        <ChevronDown className="w-3.5 h-3.5 ml-1" />
+      </button>
+
+      {isOpen && (
+        <>
+          <div
+            className="fixed inset-0 z-10"
+            onClick={() => setIsOpen(false)}
+          />
+          <div className="absolute left-0 bottom-full mb-2 w-56 bg-popover/95 backdrop-blur-sm rounded-lg shadow-lg border border-border/50 z-30 overflow-hidden">
+            <div className="px-4 pt-3 pb-1 text-xs text-muted-foreground">
+              Modelo desta conversa
+            </div>
+            <div className="py-1">
+              {availableModels.models.map(option => (
+                <button
+                  key={`${option.provider}:${option.model}`}
+                  type="button"
+                  onClick={() => {
+                    setIsOpen(false);
+                    if (!isSameModel(selected, option)) {
+                      onSelectModel(option);
+                    }
+                  }}
+                  className="flex items-center justify-between w-full px-4 py-2.5 text-sm hover:bg-accent/50 text-popover-foreground transition-colors"
+                >
+                  <span className="truncate">{option.label || option.model}</span>
+                  {isSameModel(selected, option) && <Check className="w-4 h-4 text-primary" />}
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { chatApi } from '@/lib/api';
+import type { ChatThread, ThreadShare } from '@shared/types';
+import { Share2, Copy, Check, Link2Off, Loader2, ShieldAlert, X } from 'lucide-react';
+
+interface ShareThreadDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  thread: ChatThread;
+}
+
+const getShareUrl = (share: ThreadShare) => `${window.location.origin}/share/${share.token}`;
+
+export const ShareThreadDialog: React.FC<ShareThreadDialogProps> = ({ isOpen, onClose, thread }) => {
+  const [share, setShare] = useState<ThreadShare | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmedProtected, setConfirmedProtected] = useState(false);
+  const [password, setPassword] = useState('');
+  const [copied, setCopied] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setShare(null);
+    setConfirmedProtected(false);
+    setPassword('');
+    setCopied(false);
+    setIsLoading(true);
+
+    chatApi.getThreadShare(thread.id)
+      .then(setShare)
+      .catch((error: any) => {
+        toast({
+          title: "Falha ao carregar link",
+          description: error.response?.data?.error || "Algo deu errado",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, [isOpen, thread.id, toast]);
+
+  if (!isOpen) return null;
+
+  // A link made before the thread got a password stops working until the owner confirms it
+  const needsConfirmation = !!thread.hasPassword && (!share || !share.includesProtected);
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    try {
+      setShare(await chatApi.createThreadShare(thread.id, {
+        allowPasswordProtected: confirmedProtected,
+        ...(needsConfirmation && { password }),
+      }));
+      setPassword('');
+    } catch (error: any) {
+      toast({
+        title: "Falha ao criar link",
+        description: error.response?.data?.error || "Algo deu errado",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    setIsSaving(true);
+    try {
+      await chatApi.revokeThreadShare(thread.id);
+      setShare(null);
+      setConfirmedProtected(false);
+      setPassword('');
+      toast({
+        title: "Link revogado",
+        description: "Quem tiver o link antigo não poderá mais ver esta conversa.",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Falha ao revogar link",
+        description: error.response?.data?.error || "Algo deu errado",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!share) return;
+    await navigator.clipboard.writeText(getShareUrl(share));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-card rounded-2xl border border-border shadow-2xl p-6 w-full max-w-md mx-4">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
+              <Share2 className="w-5 h-5 text-primary" />
+            </div>
+            <h2 className="text-lg font-semibold text-foreground">Compartilhar Conversa</h2>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            className="h-8 w-8 p-0 hover:bg-accent"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <p className="text-muted-foreground mb-6 leading-relaxed">
+          Qualquer pessoa com o link poderá ler "{thread.title || 'Nova Conversa'}", mesmo sem ter uma conta.
+          O link mostra a conversa como está agora; mensagens enviadas depois não aparecem.
+          Custos e uso de tokens não são exibidos.
+        </p>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6 text-muted-foreground">
+            <Loader2 className="w-5 h-5 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {share && !needsConfirmation && (
+              <div className="flex items-center gap-2">
+                <Input value={getShareUrl(share)} readOnly className="text-sm" onFocus={(e) => e.target.select()} />
+                <Button type="button" variant="outline" onClick={handleCopy} className="flex-shrink-0">
+                  {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                </Button>
+              </div>
+            )}
+
+            {needsConfirmation && (
+              <div className="rounded-lg border border-destructive/30 bg-destructive/5 p-4 space-y-3">
+                <div className="flex items-start gap-2 text-sm text-foreground">
+                  <ShieldAlert className="w-4 h-4 mt-0.5 flex-shrink-0 text-destructive" />
+                  <span>
+                    {share
+                      ? 'Esta conversa passou a ter senha depois de ser compartilhada, e o link está desativado.'
+                      : 'Esta conversa é protegida por senha.'}
+                    {' '}O link permitirá lê-la sem a senha.
+                  </span>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-foreground cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={confirmedProtected}
+                    onChange={(e) => setConfirmedProtected(e.target.checked)}
+                    className="rounded border-border"
+                  />
+                  Entendo e quero compartilhar mesmo assim
+                </label>
+                <Input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Senha da conversa"
+                  className="text-sm"
+                />
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-2">
+              {share && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleRevoke}
+                  disabled={isSaving}
+                  className="px-6 text-destructive hover:text-destructive"
+                >
+                  <Link2Off className="w-4 h-4 mr-2" />
+                  Revogar link
+                </Button>
+              )}
+              {(!share || needsConfirmation) && (
+                <Button
+                  type="button"
+                  onClick={handleCreate}
+                  disabled={isSaving || (needsConfirmation && (!confirmedProtected || !password))}
+                  className="px-6"
+                >
+                  {isSaving ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Share2 className="w-4 h-4 mr-2" />
+                  )}
+                  {share ? 'Reativar link' : 'Criar link'}
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -2,13 +2,14 @@ import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import type { ChatThread } from '@shared/types';
+import type { ChatThread, ChatSearchResult } from '@shared/types';
 import { formatDate } from '@/lib/utils';
 import { 
   MessageCircle, 
   Plus, 
   User,
   CreditCard,
+  Download,
   LogOut,
   ChevronDown,
   Edit3,
@@ -19,8 +20,10 @@ import {
   ChevronRight
 } from 'lucide-react';
 import { ThreadList } from './ThreadList';
+import { ThreadSearch } from './ThreadSearch';
 import { CollapsedThreadList } from './CollapsedThreadList';
 import { UserDropdown } from './UserDropdown';
+import type { ThreadOrganization } from './threadOrganization';
 import { SidebarToggle } from './SidebarToggle';
 
 interface SidebarProps {
@@ -30,9 +33,11 @@ interface SidebarProps {
   user: any;
   onCreateThread: () => void;
   onThreadClick: (thread: ChatThread) => void;
+  onSelectSearchResult: (result: ChatSearchResult) => void;
   onEditThread: (threadId: string, currentTitle: string) => void;
   onDeleteThread: (threadId: string) => void;
   onLogout: () => void;
+  onExportData: () => void;
   onOpenPasswordDialog: (threadId: string, threadTitle: string, mode: 'verify' | 'set' | 'update' | 'delete', hasPassword: boolean) => void;
   editingThreadId: string | null;
   editTitle: string;
@@ -42,6 +47,7 @@ interface SidebarProps {
   showThreadMenu: string | null;
   setShowThreadMenu: (threadId: string | null) => void;
   setDeleteConfirmId: (threadId: string | null) => void;
+  organization: ThreadOrganization;
   isCollapsed?: boolean;
   onToggleCollapse?: () => void;
 }
@@ -53,9 +59,11 @@ export const Sidebar: React.FC<SidebarProps> = ({
   user,
   onCreateThread,
   onThreadClick,
+  onSelectSearchResult,
   onEditThread,
   onDeleteThread,
   onLogout,
+  onExportData,
   onOpenPasswordDialog,
   editingThreadId,
   editTitle,
@@ -65,6 +73,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
   showThreadMenu,
   setShowThreadMenu,
   setDeleteConfirmId,
+  organization,
   isCollapsed = false,
   onToggleCollapse,
 }) => {
@@ -126,24 +135,29 @@ export const Sidebar: React.FC<SidebarProps> = ({
           currentThread={currentThread}
           isLoading={isLoading}
           onThreadClick={onThreadClick}
+          organization={organization}
+          onExpand={onToggleCollapse}
         />
       ) : (
-        <ThreadList
-          threads={threads}
-          currentThread={currentThread}
-          isLoading={isLoading}
-          onThreadClick={onThreadClick}
-          onEditThread={onEditThread}
-          editingThreadId={editingThreadId}
-          editTitle={editTitle}
-          setEditTitle={setEditTitle}
-          onSaveTitle={onSaveTitle}
-          onCancelEdit={onCancelEdit}
-          showThreadMenu={showThreadMenu}
-          setShowThreadMenu={setShowThreadMenu}
-          onOpenPasswordDialog={onOpenPasswordDialog}
-          setDeleteConfirmId={setDeleteConfirmId}
-        />
+        <ThreadSearch onSelectResult={onSelectSearchResult}>
+          <ThreadList
+            threads={threads}
+            currentThread={currentThread}
+            isLoading={isLoading}
+            onThreadClick={onThreadClick}
+            onEditThread={onEditThread}
+            editingThreadId={editingThreadId}
+            editTitle={editTitle}
+            setEditTitle={setEditTitle}
+            onSaveTitle={onSaveTitle}
+            onCancelEdit={onCancelEdit}
+            showThreadMenu={showThreadMenu}
+            setShowThreadMenu={setShowThreadMenu}
+            onOpenPasswordDialog={onOpenPasswordDialog}
+            setDeleteConfirmId={setDeleteConfirmId}
+            organization={organization}
+          />
+        </ThreadSearch>
       )}
 
       {/* User Dropdown */}
@@ -154,6 +168,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
             showUserDropdown={showUserDropdown}
             setShowUserDropdown={setShowUserDropdown}
             onLogout={onLogout}
+            onExportData={onExportData}
           />
         ) : (
           <div className="p-4 border-t border-border/50">
@@ -184,6 +199,16 @@ export const Sidebar: React.FC<SidebarProps> = ({
                       <CreditCard className="w-4 h-4 mr-3" />
                       Cobrança e Assinatura
                     </Link>
+                    <button
+                      onClick={() => {
+                        setShowUserDropdown(false);
+                        onExportData();
+                      }}
+                      className="flex items-center w-full px-4 py-3 text-sm hover:bg-accent/50 text-popover-foreground transition-colors"
+                    >
+                      <Download className="w-4 h-4 mr-3" />
+                      Exportar meus dados
+                    </button>
                     <div className="h-px bg-border/50 mx-2 my-1"></div>
                     <button
                       onClick={() => {
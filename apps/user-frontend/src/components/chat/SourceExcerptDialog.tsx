@@ -0,0 +1,57 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { BookOpen, X } from 'lucide-react';
+import type { MessageSource } from '@shared/types';
+
+interface SourceExcerptDialogProps {
+  source: MessageSource | null;
+  onClose: () => void;
+}
+
+export const SourceExcerptDialog: React.FC<SourceExcerptDialogProps> = ({
+  source,
+  onClose,
+}) => {
+  if (!source) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-card rounded-2xl border border-border shadow-2xl p-6 w-full max-w-2xl mx-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between mb-4">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center flex-shrink-0">
+              <BookOpen className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-foreground">
+                [{source.index}] {source.title}
+              </h2>
+              <p className="text-xs text-muted-foreground">
+                Trecho {source.chunkIndex + 1} da fonte
+              </p>
+            </div>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} className="h-8 w-8 p-0">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="bg-muted/50 rounded-lg border border-border p-4 max-h-[60vh] overflow-y-auto thin-scrollbar">
+          <p className="text-sm leading-relaxed whitespace-pre-wrap text-foreground">
+            {source.excerpt}
+          </p>
+        </div>
+        <div className="flex justify-end mt-6">
+          <Button variant="outline" onClick={onClose} className="px-6">
+            Fechar
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import type { ThreadExportFormat } from '@shared/types';
+import { Download, ChevronDown, FileText, FileCode, FileType } from 'lucide-react';
+
+interface ThreadExportMenuProps {
+  onExport: (format: ThreadExportFormat) => Promise<void>;
+  disabled?: boolean;
+}
+
+const EXPORT_OPTIONS: { format: ThreadExportFormat; label: string; icon: React.ElementType }[] = [
+  { format: 'pdf', label: 'PDF', icon: FileType },
+  { format: 'md', label: 'Markdown', icon: FileText },
+  { format: 'json', label: 'JSON', icon: FileCode },
+];
+
+export const ThreadExportMenu: React.FC<ThreadExportMenuProps> = ({ onExport, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: ThreadExportFormat) => {
+    setIsOpen(false);
+    setIsExporting(true);
+    try {
+      await onExport(format);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative mb-2">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled || isExporting}
+        className="flex items-center px-3 py-1.5 text-xs rounded-full border border-border bg-background/80 backdrop-blur-sm text-muted-foreground hover:text-foreground hover:bg-accent/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Download className="w-3.5 h-3.5 mr-1.5" />
+        <span className="font-medium">{isExporting ? 'Exportando...' : 'Exportar'}</span>
+        <ChevronDown className="w-3.5 h-3.5 ml-1" />
+      </button>
+
+      {isOpen && (
+        <>
+          <div
+            className="fixed inset-0 z-10"
+            onClick={() => setIsOpen(false)}
+          />
+          <div className="absolute left-0 bottom-full mb-2 w-48 bg-popover/95 backdrop-blur-sm rounded-lg shadow-lg border border-border/50 z-30 overflow-hidden">
+            <div className="px-4 pt-3 pb-1 text-xs text-muted-foreground">
+              Exportar esta conversa
+            </div>
+            <div className="py-1">
+              {EXPORT_OPTIONS.map(({ format, label, icon: Icon }) => (
+                <button
+                  key={format}
+                  type="button"
+                  onClick={() => handleExport(format)}
+                  className="flex items-center w-full px-4 py-2.5 text-sm hover:bg-accent/50 text-popover-foreground transition-colors"
+                >
+                  <Icon className="w-4 h-4 mr-2" />
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
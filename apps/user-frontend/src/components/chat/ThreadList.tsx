@@ -1,15 +1,22 @@
-import React from 'react';
-import { Button } from '@/components/ui/button';
+import React, { useState } from 'react';
 import { Input } from '@/components/ui/input';
-import type { ChatThread } from '@shared/types';
-import { formatDate } from '@/lib/utils';
-import { 
-  MessageCircle, 
+import type { ChatFolder, ChatThread } from '@shared/types';
+import { ThreadListItem } from './ThreadListItem';
+import { useThreadDropTarget, type ThreadOrganization } from './threadOrganization';
+import {
+  MessageCircle,
+  Archive,
+  Folder,
+  FolderOpen,
+  FolderPlus,
   Edit3,
-  Lock,
-  Shield,
+  Trash2,
   MoreVertical,
-  Trash2
+  ChevronDown,
+  ChevronRight,
+  Pin,
+  Tag,
+  X
 } from 'lucide-react';
 
 interface ThreadListProps {
@@ -27,24 +34,395 @@ interface ThreadListProps {
   setShowThreadMenu: (threadId: string | null) => void;
   onOpenPasswordDialog: (threadId: string, threadTitle: string, mode: 'verify' | 'set' | 'update' | 'delete', hasPassword: boolean) => void;
   setDeleteConfirmId: (threadId: string | null) => void;
+  organization: ThreadOrganization;
 }
 
+type ThreadItemProps = Omit<ThreadListProps, 'threads' | 'isLoading'>;
+
+const ThreadItems: React.FC<ThreadItemProps & { threads: ChatThread[] }> = ({ threads, currentThread, ...itemProps }) => (
+  <>
+    {threads.map((thread) => (
+      <ThreadListItem
+        key={thread.id}
+        thread={thread}
+        isActive={currentThread?.id === thread.id}
+        {...itemProps}
+      />
+    ))}
+  </>
+);
+
+// A labelled group of threads that dragged threads can be dropped on
+const ThreadSection: React.FC<{
+  icon: React.ElementType;
+  label: string;
+  onDropThread: (threadId: string) => void;
+  children: React.ReactNode;
+}> = ({ icon: Icon, label, onDropThread, children }) => {
+  const { isOver, dropProps } = useThreadDropTarget(onDropThread);
+
+  return (
+    <div
+      {...dropProps}
+      className={`rounded-lg transition-colors ${isOver ? 'bg-primary/5 ring-1 ring-primary/30' : ''}`}
+    >
+      <div className="flex items-center px-3 pt-2 pb-1 text-xs font-medium text-muted-foreground">
+        <Icon className="w-3.5 h-3.5 mr-1.5" />
+        {label}
+      </div>
+      <div className="space-y-1">{children}</div>
+    </div>
+  );
+};
+
+const FolderSection: React.FC<ThreadItemProps & { folder: ChatFolder; threads: ChatThread[] }> = ({
+  folder,
+  threads,
+  ...itemProps
+}) => {
+  const { organization } = itemProps;
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [showMenu, setShowMenu] = useState(false);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(folder.name);
+  const { isOver, dropProps } = useThreadDropTarget((threadId) => {
+    if (!threads.some((thread) => thread.id === threadId)) {
+      organization.onUpdateThread(threadId, { folderId: folder.id });
+    }
+  });
+
+  const handleRename = async () => {
+    setIsRenaming(false);
+    if (name.trim() && name.trim() !== folder.name) {
+      await organization.onRenameFolder(folder.id, name.trim());
+    } else {
+      setName(folder.name);
+    }
+  };
+
+  const FolderIcon = isExpanded ? FolderOpen : Folder;
+  const ChevronIcon = isExpanded ? ChevronDown : ChevronRight;
+
+  return (
+    <div
+      {...dropProps}
+      className={`rounded-lg transition-colors ${isOver ? 'bg-primary/5 ring-1 ring-primary/30' : ''}`}
+    >
+      <div
+        className="group flex items-center px-3 py-2 rounded-lg cursor-pointer hover:bg-accent/50 transition-colors"
+        onClick={() => !isRenaming && setIsExpanded(!isExpanded)}
+      >
+        <ChevronIcon className="w-3.5 h-3.5 mr-1 text-muted-foreground flex-shrink-0" />
+        <FolderIcon className="w-4 h-4 mr-2 text-muted-foreground flex-shrink-0" />
+        {isRenaming ? (
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="text-sm h-7"
+            maxLength={50}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleRename();
+              if (e.key === 'Escape') {
+                setName(folder.name);
+                setIsRenaming(false);
+              }
+            }}
+            onBlur={handleRename}
+            autoFocus
+            onClick={(e) => e.stopPropagation()}
+          />
+        ) : (
+          <>
+            <span className="flex-1 min-w-0 truncate text-sm text-foreground">{folder.name}</span>
+            <span className="ml-2 text-xs text-muted-foreground">{folder.threadCount}</span>
+            <div className="relative ml-1">
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setShowMenu(!showMenu);
+                }}
+                className="flex items-center justify-center h-6 w-6 rounded-md opacity-100 sm:opacity-0 sm:group-hover:opacity-100 hover:bg-accent/50 transition-all"
+                title="Opções da pasta"
+              >
+                <MoreVertical className="w-3.5 h-3.5 text-muted-foreground" />
+              </button>
+              {showMenu && (
+                <>
+                  <div
+                    className="fixed inset-0 z-10"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setShowMenu(false);
+                    }}
+                  />
+                  <div className="absolute right-0 top-full mt-1 w-44 bg-popover/95 backdrop-blur-sm rounded-lg shadow-lg border border-border/50 z-20 overflow-hidden">
+                    <div className="py-1">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setShowMenu(false);
+                          setIsRenaming(true);
+                        }}
+                        className="flex items-center w-full px-3 py-2 text-sm hover:bg-accent/50 text-popover-foreground transition-colors"
+                      >
+                        <Edit3 className="w-4 h-4 mr-2" />
+                        Renomear
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setShowMenu(false);
+                          organization.onDeleteFolder(folder.id);
+                        }}
+                        className="flex items-center w-full px-3 py-2 text-sm hover:bg-destructive/10 text-destructive transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Excluir pasta
+                      </button>
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+      {isExpanded && (
+        <div className="pl-3 space-y-1">
+          {threads.length === 0 ? (
+            <p className="px-3 py-2 text-xs text-muted-foreground">
+              Arraste conversas para cá
+            </p>
+          ) : (
+            <ThreadItems threads={threads} {...itemProps} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Archive toggle, tag filter and folder creation above the list
+const ThreadListToolbar: React.FC<{ organization: ThreadOrganization }> = ({ organization }) => {
+  const [showTagMenu, setShowTagMenu] = useState(false);
+  const [isCreatingFolder, setIsCreatingFolder] = useState(false);
+  const [folderName, setFolderName] = useState('');
+
+  const handleCreateFolder = async () => {
+    const name = folderName.trim();
+    setIsCreatingFolder(false);
+    setFolderName('');
+    if (name) {
+      await organization.onCreateFolder(name);
+    }
+  };
+
+  const pillClass = 'flex items-center px-2.5 py-1 text-xs rounded-full border transition-colors';
+  const idlePillClass = 'border-border bg-background/80 text-muted-foreground hover:text-foreground hover:bg-accent/50';
+  const activePillClass = 'border-primary/30 bg-primary/10 text-foreground';
+
+  return (
+    <div className="px-2 pt-2 space-y-2">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <button
+          type="button"
+          onClick={() => organization.onShowArchivedChange(!organization.showArchived)}
+          className={`${pillClass} ${organization.showArchived ? activePillClass : idlePillClass}`}
+        >
+          <Archive className="w-3 h-3 mr-1" />
+          Arquivadas
+        </button>
+
+        {organization.tagFilter ? (
+          <button
+            type="button"
+            onClick={() => organization.onTagFilterChange(null)}
+            className={`${pillClass} ${activePillClass} max-w-[140px]`}
+            title="Limpar filtro"
+          >
+            <Tag className="w-3 h-3 mr-1 flex-shrink-0" />
+            <span className="truncate">{organization.tagFilter}</span>
+            <X className="w-3 h-3 ml-1 flex-shrink-0" />
+          </button>
+        ) : organization.threadTags.length > 0 && (
+          <div className="relative">
+            <button
+              type="button"
+              onClick={() => setShowTagMenu(!showTagMenu)}
+              className={`${pillClass} ${idlePillClass}`}
+            >
+              <Tag className="w-3 h-3 mr-1" />
+              Etiquetas
+              <ChevronDown className="w-3 h-3 ml-0.5" />
+            </button>
+            {showTagMenu && (
+              <>
+                <div
+                  className="fixed inset-0 z-10"
+                  onClick={() => setShowTagMenu(false)}
+                />
+                <div className="absolute left-0 top-full mt-1 w-48 max-h-64 overflow-y-auto thin-scrollbar bg-popover/95 backdrop-blur-sm rounded-lg shadow-lg border border-border/50 z-20">
+                  <div className="py-1">
+                    {organization.threadTags.map((tag) => (
+                      <button
+                        key={tag}
+                        onClick={() => {
+                          setShowTagMenu(false);
+                          organization.onTagFilterChange(tag);
+                        }}
+                        className="flex items-center w-full px-3 py-2 text-sm hover:bg-accent/50 text-popover-foreground transition-colors"
+                      >
+                        <Tag className="w-4 h-4 mr-2 flex-shrink-0" />
+                        <span className="truncate">{tag}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {!organization.showArchived && (
+          <button
+            type="button"
+            onClick={() => setIsCreatingFolder(true)}
+            className={`${pillClass} ${idlePillClass} ml-auto`}
+          >
+            <FolderPlus className="w-3 h-3 mr-1" />
+            Nova pasta
+          </button>
+        )}
+      </div>
+
+      {isCreatingFolder && (
+        <Input
+          value={folderName}
+          onChange={(e) => setFolderName(e.target.value)}
+          placeholder="Nome da pasta"
+          className="text-sm h-8"
+          maxLength={50}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleCreateFolder();
+            if (e.key === 'Escape') {
+              setFolderName('');
+              setIsCreatingFolder(false);
+            }
+          }}
+          onBlur={handleCreateFolder}
+          autoFocus
+        />
+      )}
+    </div>
+  );
+};
+
 export const ThreadList: React.FC<ThreadListProps> = ({
   threads,
-  currentThread,
   isLoading,
-  onThreadClick,
-  onEditThread,
-  editingThreadId,
-  editTitle,
-  setEditTitle,
-  onSaveTitle,
-  onCancelEdit,
-  showThreadMenu,
-  setShowThreadMenu,
-  onOpenPasswordDialog,
-  setDeleteConfirmId,
+  ...itemProps
 }) => {
+  const { organization } = itemProps;
+  const folderIds = new Set(organization.folders.map((folder) => folder.id));
+
+  // Pinned threads are only listed under "Fixadas", even when they are in a folder
+  const pinnedThreads = threads.filter((thread) => thread.pinned);
+  const unfiledThreads = threads.filter((thread) =>
+    !thread.pinned && !(thread.folderId && folderIds.has(thread.folderId))
+  );
+  const hasGroups = pinnedThreads.length > 0 || organization.folders.length > 0;
+
+  const renderThreads = () => {
+    if (threads.length === 0 && (organization.showArchived || organization.folders.length === 0)) {
+      return (
+        <div className="p-8 text-center">
+          <div className="w-16 h-16 bg-muted/50 rounded-full flex items-center justify-center mx-auto mb-4">
+            {organization.showArchived ? (
+              <Archive className="w-8 h-8 text-muted-foreground" />
+            ) : (
+              <MessageCircle className="w-8 h-8 text-muted-foreground" />
+            )}
+          </div>
+          {organization.showArchived ? (
+            <>
+              <p className="text-foreground font-medium mb-1">Nenhuma conversa arquivada</p>
+              <p className="text-sm text-muted-foreground">Conversas arquivadas saem da lista principal e ficam aqui.</p>
+            </>
+          ) : organization.tagFilter ? (
+            <p className="text-foreground font-medium mb-1">Nenhuma conversa com esta etiqueta</p>
+          ) : (
+            <>
+              <p className="text-foreground font-medium mb-1">No conversations yet</p>
+              <p className="text-sm text-muted-foreground">Start a new chat to begin!</p>
+            </>
+          )}
+        </div>
+      );
+    }
+
+    // The archive is a plain list; folders and pins only organize the main list
+    if (organization.showArchived || !hasGroups) {
+      return (
+        <div className="p-2 space-y-1">
+          <ThreadItems threads={threads} {...itemProps} />
+        </div>
+      );
+    }
+
+    return (
+      <div className="p-2 space-y-2">
+        {pinnedThreads.length > 0 && (
+          <ThreadSection
+            icon={Pin}
+            label="Fixadas"
+            onDropThread={(threadId) => {
+              if (!pinnedThreads.some((thread) => thread.id === threadId)) {
+                organization.onUpdateThread(threadId, { pinned: true });
+              }
+            }}
+          >
+            <ThreadItems threads={pinnedThreads} {...itemProps} />
+          </ThreadSection>
+        )}
+
+        {organization.folders.length > 0 && (
+          <div className="space-y-0.5">
+            {organization.folders.map((folder) => (
+              <FolderSection
+                key={folder.id}
+                folder={folder}
+                threads={threads.filter((thread) => !thread.pinned && thread.folderId === folder.id)}
+                {...itemProps}
+              />
+            ))}
+          </div>
+        )}
+
+        <ThreadSection
+          icon={MessageCircle}
+          label="Conversas"
+          onDropThread={(threadId) => {
+            // Dragging a thread out of "Fixadas" unpins it; out of a folder, unfiles it
+            if (pinnedThreads.some((thread) => thread.id === threadId)) {
+              organization.onUpdateThread(threadId, { pinned: false });
+            } else if (!unfiledThreads.some((thread) => thread.id === threadId)) {
+              organization.onUpdateThread(threadId, { folderId: null });
+            }
+          }}
+        >
+          {unfiledThreads.length === 0 ? (
+            <p className="px-3 py-2 text-xs text-muted-foreground">
+              Arraste uma conversa para cá para tirá-la da pasta
+            </p>
+          ) : (
+            <ThreadItems threads={unfiledThreads} {...itemProps} />
+          )}
+        </ThreadSection>
+      </div>
+    );
+  };
+
   return (
     <div className="flex-1 overflow-y-auto overflow-x-hidden thin-scrollbar">
       {isLoading ? (
@@ -54,177 +432,12 @@ export const ThreadList: React.FC<ThreadListProps> = ({
             <span className="text-sm">Loading conversations...</span>
           </div>
         </div>
-      ) : threads.length === 0 ? (
-        <div className="p-8 text-center">
-          <div className="w-16 h-16 bg-muted/50 rounded-full flex items-center justify-center mx-auto mb-4">
-            <MessageCircle className="w-8 h-8 text-muted-foreground" />
-          </div>
-          <p className="text-foreground font-medium mb-1">No conversations yet</p>
-          <p className="text-sm text-muted-foreground">Start a new chat to begin!</p>
-        </div>
       ) : (
-        <div className="p-2 space-y-1">
-          {threads.map((thread) => (
-            <div
-              key={thread.id}
-              className={`group flex items-center p-3 rounded-lg cursor-pointer transition-all duration-200 ${
-                currentThread?.id === thread.id
-                  ? 'bg-primary/10 border border-primary/20 shadow-sm'
-                  : 'hover:bg-accent/50 border border-transparent'
-              }`}
-              onClick={() => onThreadClick(thread)}
-            >
-              <div className={`w-8 h-8 rounded-md flex items-center justify-center mr-3 flex-shrink-0 transition-all duration-200 ${
-                currentThread?.id === thread.id 
-                  ? 'bg-primary text-primary-foreground shadow-sm' 
-                  : 'bg-muted/80 text-muted-foreground group-hover:bg-muted'
-              }`}>
-                <MessageCircle className="w-4 h-4" />
-              </div>
-              <div className="flex-1 min-w-0">
-                {editingThreadId === thread.id ? (
-                  <div className="flex items-center space-x-2">
-                    <Input
-                      value={editTitle}
-                      onChange={(e) => setEditTitle(e.target.value)}
-                      className="text-sm h-7"
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter') onSaveTitle(thread.id);
-                        if (e.key === 'Escape') onCancelEdit();
-                      }}
-                      onBlur={() => onSaveTitle(thread.id)}
-                      autoFocus
-                      onClick={(e) => e.stopPropagation()}
-                    />
-                  </div>
-                ) : (
-                  <>
-                    <p className="text-sm font-medium text-foreground truncate">
-                      {thread.title || 'Nova Conversa'}
-                    </p>
-                    <p className="text-xs text-muted-foreground">
-                      {formatDate(thread.createdAt)}
-                    </p>
-                  </>
-                )}
-              </div>
-              <div className="flex items-center space-x-1 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-all duration-200">
-                {thread.hasPassword && (
-                  <div className="flex items-center justify-center w-6 h-6 rounded-md bg-primary/10">
-                    <Lock className="w-3 h-3 text-primary" />
-                  </div>
-                )}
-                <div className="relative">
-                  <Button
-                    size="sm"
-                    variant="ghost"
-                    className="h-8 w-8 p-0 hover:bg-accent/50 transition-all duration-200"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      setShowThreadMenu(showThreadMenu === thread.id ? null : thread.id);
-                    }}
-                    title="Opções da conversa"
-                  >
-                    <MoreVertical className="w-4 h-4 text-muted-foreground" />
-                  </Button>
-
-                  {/* Thread options dropdown */}
-                  {showThreadMenu === thread.id && (
-                    <>
-                      <div 
-                        className="fixed inset-0 z-10" 
-                        onClick={() => setShowThreadMenu(null)}
-                      />
-                      <div className="absolute right-0 top-full mt-1 w-48 bg-popover/95 backdrop-blur-sm rounded-lg shadow-lg border border-border/50 z-20 overflow-hidden">
-                        <div className="py-1">
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              setShowThreadMenu(null);
-                              onEditThread(thread.id, thread.title || '');
-                            }}
-                            className="flex items-center w-full px-3 py-2 text-sm hover:bg-accent/50 text-popover-foreground transition-colors"
-                          >
-                            <Edit3 className="w-4 h-4 mr-2" />
-                            Renomear
-                          </button>
-                          
-                          {thread.hasPassword ? (
-                            <>
-                              <button
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  setShowThreadMenu(null);
-                                  onOpenPasswordDialog(
-                                    thread.id, 
-                                    thread.title || 'Nova Conversa', 
-                                    'update', 
-                                    true
-                                  );
-                                }}
-                                className="flex items-center w-full px-3 py-2 text-sm hover:bg-accent/50 text-popover-foreground transition-colors"
-                              >
-                                <Lock className="w-4 h-4 mr-2" />
-                                Alterar Senha
-                              </button>
-                              <button
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  setShowThreadMenu(null);
-                                  onOpenPasswordDialog(
-                                    thread.id, 
-                                    thread.title || 'Nova Conversa', 
-                                    'delete', 
-                                    true
-                                  );
-                                }}
-                                className="flex items-center w-full px-3 py-2 text-sm hover:bg-accent/50 text-popover-foreground transition-colors"
-                              >
-                                <Trash2 className="w-4 h-4 mr-2" />
-                                Remover Proteção
-                              </button>
-                            </>
-                          ) : (
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                setShowThreadMenu(null);
-                                onOpenPasswordDialog(
-                                  thread.id, 
-                                  thread.title || 'Nova Conversa', 
-                                  'set', 
-                                  false
-                                );
-                              }}
-                              className="flex items-center w-full px-3 py-2 text-sm hover:bg-accent text-popover-foreground transition-colors"
-                            >
-                              <Shield className="w-4 h-4 mr-2" />
-                              Adicionar Proteção
-                            </button>
-                          )}
-                          
-                          <hr className="my-1" />
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              setShowThreadMenu(null);
-                              setDeleteConfirmId(thread.id);
-                            }}
-                            className="flex items-center w-full px-3 py-2 text-sm hover:bg-destructive/10 text-destructive transition-colors"
-                          >
-                            <Trash2 className="w-4 h-4 mr-2" />
-                            Excluir
-                          </button>
-                        </div>
-                      </div>
-                    </>
-                  )}
-                </div>
-              </div>
-            </div>
-          ))}
-        </div>
+        <>
+          <ThreadListToolbar organization={organization} />
+          {renderThreads()}
+        </>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,318 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { ChatThread } from '@shared/types';
+import { formatDate } from '@/lib/utils';
+import { startThreadDrag, type ThreadOrganization } from './threadOrganization';
+import {
+  MessageCircle,
+  Edit3,
+  Lock,
+  Shield,
+  MoreVertical,
+  Trash2,
+  Pin,
+  PinOff,
+  Archive,
+  ArchiveRestore,
+  Folder,
+  FolderMinus,
+  Tag,
+  Check,
+  ChevronRight
+} from 'lucide-react';
+
+interface ThreadListItemProps {
+  thread: ChatThread;
+  isActive: boolean;
+  onThreadClick: (thread: ChatThread) => void;
+  onEditThread: (threadId: string, currentTitle: string) => void;
+  editingThreadId: string | null;
+  editTitle: string;
+  setEditTitle: (title: string) => void;
+  onSaveTitle: (threadId: string) => void;
+  onCancelEdit: () => void;
+  showThreadMenu: string | null;
+  setShowThreadMenu: (threadId: string | null) => void;
+  onOpenPasswordDialog: (threadId: string, threadTitle: string, mode: 'verify' | 'set' | 'update' | 'delete', hasPassword: boolean) => void;
+  setDeleteConfirmId: (threadId: string | null) => void;
+  organization: ThreadOrganization;
+}
+
+const MAX_VISIBLE_TAGS = 3;
+
+export const ThreadListItem: React.FC<ThreadListItemProps> = ({
+  thread,
+  isActive,
+  onThreadClick,
+  onEditThread,
+  editingThreadId,
+  editTitle,
+  setEditTitle,
+  onSaveTitle,
+  onCancelEdit,
+  showThreadMenu,
+  setShowThreadMenu,
+  onOpenPasswordDialog,
+  setDeleteConfirmId,
+  organization,
+}) => {
+  const [showFolderPicker, setShowFolderPicker] = useState(false);
+  const tags = thread.tags ?? [];
+
+  const closeMenu = () => {
+    setShowThreadMenu(null);
+    setShowFolderPicker(false);
+  };
+
+  const handleMenuAction = (e: React.MouseEvent, action: () => void) => {
+    e.stopPropagation();
+    closeMenu();
+    action();
+  };
+
+  return (
+    <div
+      draggable={editingThreadId !== thread.id}
+      onDragStart={(e) => startThreadDrag(e, thread.id)}
+      className={`group flex items-center p-3 rounded-lg cursor-pointer transition-all duration-200 ${
+        isActive
+          ? 'bg-primary/10 border border-primary/20 shadow-sm'
+          : 'hover:bg-accent/50 border border-transparent'
+      }`}
+      onClick={() => onThreadClick(thread)}
+    >
+      <div className={`w-8 h-8 rounded-md flex items-center justify-center mr-3 flex-shrink-0 transition-all duration-200 ${
+        isActive
+          ? 'bg-primary text-primary-foreground shadow-sm'
+          : 'bg-muted/80 text-muted-foreground group-hover:bg-muted'
+      }`}>
+        <MessageCircle className="w-4 h-4" />
+      </div>
+      <div className="flex-1 min-w-0">
+        {editingThreadId === thread.id ? (
+          <div className="flex items-center space-x-2">
+            <Input
+              value={editTitle}
+              onChange={(e) => setEditTitle(e.target.value)}
+              className="text-sm h-7"
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') onSaveTitle(thread.id);
+                if (e.key === 'Escape') onCancelEdit();
+              }}
+              onBlur={() => onSaveTitle(thread.id)}
+              autoFocus
+              onClick={(e) => e.stopPropagation()}
+            />
+          </div>
+        ) : (
+          <>
+            <p className="flex items-center text-sm font-medium text-foreground">
+              {thread.pinned && <Pin className="w-3 h-3 mr-1 flex-shrink-0 text-primary" />}
+              <span className="truncate">{thread.title || 'Nova Conversa'}</span>
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {formatDate(thread.createdAt)}
+            </p>
+            {tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {tags.slice(0, MAX_VISIBLE_TAGS).map((tag) => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      organization.onTagFilterChange(tag);
+                    }}
+                    className="max-w-[100px] truncate rounded-full border border-border bg-background/60 px-1.5 py-0.5 text-[10px] leading-none text-muted-foreground hover:text-foreground transition-colors"
+                    title={`Mostrar conversas com "${tag}"`}
+                  >
+                    {tag}
+                  </button>
+                ))}
+                {tags.length > MAX_VISIBLE_TAGS && (
+                  <span className="px-1 py-0.5 text-[10px] leading-none text-muted-foreground">
+                    +{tags.length - MAX_VISIBLE_TAGS}
+                  </span>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+      <div className="flex items-center space-x-1 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-all duration-200">
+        {thread.hasPassword && (
+          <div className="flex items-center justify-center w-6 h-6 rounded-md bg-primary/10">
+            <Lock className="w-3 h-3 text-primary" />
+          </div>
+        )}
+        <div className="relative">
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-8 w-8 p-0 hover:bg-accent/50 transition-all duration-200"
+            onClick={(e) => {
+              e.stopPropagation();
+              setShowFolderPicker(false);
+              setShowThreadMenu(showThreadMenu === thread.id ? null : thread.id);
+            }}
+            title="Opções da conversa"
+          >
+            <MoreVertical className="w-4 h-4 text-muted-foreground" />
+          </Button>
+
+          {/* Thread options dropdown */}
+          {showThreadMenu === thread.id && (
+            <>
+              <div
+                className="fixed inset-0 z-10"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  closeMenu();
+                }}
+              />
+              <div className="absolute right-0 top-full mt-1 w-52 bg-popover/95 backdrop-blur-sm rounded-lg shadow-lg border border-border/50 z-20 overflow-hidden">
+                {showFolderPicker ? (
+                  <div className="py-1">
+                    <div className="px-3 pt-1 pb-2 text-xs text-muted-foreground">
+                      Mover para pasta
+                    </div>
+                    {organization.folders.length === 0 && (
+                      <p className="px-3 pb-2 text-xs text-muted-foreground">
+                        Crie uma pasta para organizar suas conversas.
+                      </p>
+                    )}
+                    {organization.folders.map((folder) => (
+                      <button
+                        key={folder.id}
+                        onClick={(e) => handleMenuAction(e, () => organization.onUpdateThread(thread.id, { folderId: folder.id }))}
+                        className="flex items-center w-full px-3 py-2 text-sm hover:bg-accent/50 text-popover-foreground transition-colors"
+                      >
+                        <Folder className="w-4 h-4 mr-2 flex-shrink-0" />
+                        <span className="truncate">{folder.name}</span>
+                        {thread.folderId === folder.id && <Check className="w-4 h-4 ml-auto flex-shrink-0 text-primary" />}
+                      </button>
+                    ))}
+                    {thread.folderId && (
+                      <>
+                        <hr className="my-1" />
+                        <button
+                          onClick={(e) => handleMenuAction(e, () => organization.onUpdateThread(thread.id, { folderId: null }))}
+                          className="flex items-center w-full px-3 py-2 text-sm hover:bg-accent/50 text-popover-foreground transition-colors"
+                        >
+                          <FolderMinus className="w-4 h-4 mr-2" />
+                          Remover da pasta
+                        </button>
+                      </>
+                    )}
+                  </div>
+                ) : (
+                  <div className="py-1">
+                    <button
+                      onClick={(e) => handleMenuAction(e, () => onEditThread(thread.id, thread.title || ''))}
+                      className="flex items-center w-full px-3 py-2 text-sm hover:bg-accent/50 text-popover-foreground transition-colors"
+                    >
+                      <Edit3 className="w-4 h-4 mr-2" />
+                      Renomear
+                    </button>
+
+                    {!thread.archived && (
+                      <button
+                        onClick={(e) => handleMenuAction(e, () => organization.onUpdateThread(thread.id, { pinned: !thread.pinned }))}
+                        className="flex items-center w-full px-3 py-2 text-sm hover:bg-accent/50 text-popover-foreground transition-colors"
+                      >
+                        {thread.pinned ? <PinOff className="w-4 h-4 mr-2" /> : <Pin className="w-4 h-4 mr-2" />}
+                        {thread.pinned ? 'Desafixar' : 'Fixar'}
+                      </button>
+                    )}
+
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setShowFolderPicker(true);
+                      }}
+                      className="flex items-center w-full px-3 py-2 text-sm hover:bg-accent/50 text-popover-foreground transition-colors"
+                    >
+                      <Folder className="w-4 h-4 mr-2" />
+                      Mover para pasta
+                      <ChevronRight className="w-4 h-4 ml-auto" />
+                    </button>
+
+                    <button
+                      onClick={(e) => handleMenuAction(e, () => organization.onEditTags(thread))}
+                      className="flex items-center w-full px-3 py-2 text-sm hover:bg-accent/50 text-popover-foreground transition-colors"
+                    >
+                      <Tag className="w-4 h-4 mr-2" />
+                      Etiquetas
+                    </button>
+
+                    <button
+                      onClick={(e) => handleMenuAction(e, () => organization.onUpdateThread(thread.id, { archived: !thread.archived }))}
+                      className="flex items-center w-full px-3 py-2 text-sm hover:bg-accent/50 text-popover-foreground transition-colors"
+                    >
+                      {thread.archived ? <ArchiveRestore className="w-4 h-4 mr-2" /> : <Archive className="w-4 h-4 mr-2" />}
+                      {thread.archived ? 'Desarquivar' : 'Arquivar'}
+                    </button>
+
+                    <hr className="my-1" />
+
+                    {thread.hasPassword ? (
+                      <>
+                        <button
+                          onClick={(e) => handleMenuAction(e, () => onOpenPasswordDialog(
+                            thread.id,
+                            thread.title || 'Nova Conversa',
+                            'update',
+                            true
+                          ))}
+                          className="flex items-center w-full px-3 py-2 text-sm hover:bg-accent/50 text-popover-foreground transition-colors"
+                        >
+                          <Lock className="w-4 h-4 mr-2" />
+                          Alterar Senha
+                        </button>
+                        <button
+                          onClick={(e) => handleMenuAction(e, () => onOpenPasswordDialog(
+                            thread.id,
+                            thread.title || 'Nova Conversa',
+                            'delete',
+                            true
+                          ))}
+                          className="flex items-center w-full px-3 py-2 text-sm hover:bg-accent/50 text-popover-foreground transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Remover Proteção
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={(e) => handleMenuAction(e, () => onOpenPasswordDialog(
+                          thread.id,
+                          thread.title || 'Nova Conversa',
+                          'set',
+                          false
+                        ))}
+                        className="flex items-center w-full px-3 py-2 text-sm hover:bg-accent text-popover-foreground transition-colors"
+                      >
+                        <Shield className="w-4 h-4 mr-2" />
+                        Adicionar Proteção
+                      </button>
+                    )}
+
+                    <hr className="my-1" />
+                    <button
+                      onClick={(e) => handleMenuAction(e, () => setDeleteConfirmId(thread.id))}
+                      className="flex items-center w-full px-3 py-2 text-sm hover:bg-destructive/10 text-destructive transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Excluir
+                    </button>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
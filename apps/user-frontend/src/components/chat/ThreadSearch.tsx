@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { chatApi } from '@/lib/api';
+import { formatDate } from '@/lib/utils';
+import type { ChatSearchResult } from '@shared/types';
+import { Search, X, Lock, MessageCircle, User } from 'lucide-react';
+
+interface ThreadSearchProps {
+  onSelectResult: (result: ChatSearchResult) => void;
+  // Shown while there is no search, usually the thread list
+  children: React.ReactNode;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const MATCH_LABELS: Record<ChatSearchResult['matchedIn'], string> = {
+  title: 'Título',
+  summary: 'Resumo',
+  message: 'Mensagem',
+};
+
+const HighlightedSnippet: React.FC<{ result: ChatSearchResult }> = ({ result }) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  result.highlights.forEach((highlight, index) => {
+    parts.push(result.snippet.slice(position, highlight.start));
+    parts.push(
+      <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+        {result.snippet.slice(highlight.start, highlight.end)}
+      </mark>
+    );
+    position = highlight.end;
+  });
+  parts.push(result.snippet.slice(position));
+
+  return <>{parts}</>;
+};
+
+export const ThreadSearch: React.FC<ThreadSearchProps> = ({ onSelectResult, children }) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ChatSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const trimmedQuery = query.trim();
+
+  useEffect(() => {
+    if (!trimmedQuery) {
+      setResults([]);
+      setError(null);
+      return;
+    }
+
+    // Ignore responses for a query the user has already typed past
+    let isCurrent = true;
+    setIsSearching(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const found = await chatApi.searchChats(trimmedQuery);
+        if (isCurrent) {
+          setResults(found);
+          setError(null);
+        }
+      } catch (err: any) {
+        if (isCurrent) {
+          setError(err.response?.data?.error || 'Falha na busca');
+        }
+      } finally {
+        if (isCurrent) {
+          setIsSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [trimmedQuery]);
+
+  return (
+    <>
+      <div className="px-4 pt-3 pb-1">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') setQuery('');
+            }}
+            placeholder="Buscar conversas..."
+            className="h-9 pl-9 pr-8 text-sm"
+          />
+          {query && (
+            <button
+              type="button"
+              onClick={() => setQuery('')}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded text-muted-foreground hover:text-foreground"
+              title="Limpar busca"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!trimmedQuery ? (
+        children
+      ) : (
+        <div className="flex-1 overflow-y-auto overflow-x-hidden thin-scrollbar">
+          {isSearching && results.length === 0 ? (
+            <div className="p-6 text-center text-muted-foreground">
+              <div className="flex items-center justify-center space-x-3">
+                <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+                <span className="text-sm">Buscando...</span>
+              </div>
+            </div>
+          ) : error ? (
+            <p className="p-6 text-center text-sm text-destructive">{error}</p>
+          ) : results.length === 0 ? (
+            <p className="p-6 text-center text-sm text-muted-foreground">Nenhum resultado encontrado</p>
+          ) : (
+            <div className="p-2 space-y-1">
+              {results.map((result) => (
+                <button
+                  key={`${result.thread.id}:${result.matchedIn}:${result.messageId ?? ''}`}
+                  type="button"
+                  onClick={() => onSelectResult(result)}
+                  className="w-full text-left p-3 rounded-lg border border-transparent hover:bg-accent/50 transition-all duration-200"
+                >
+                  <div className="flex items-center gap-2 mb-1">
+                    {result.thread.hasPassword ? (
+                      <Lock className="w-3.5 h-3.5 flex-shrink-0 text-primary" />
+                    ) : result.role === 'user' ? (
+                      <User className="w-3.5 h-3.5 flex-shrink-0 text-muted-foreground" />
+                    ) : (
+                      <MessageCircle className="w-3.5 h-3.5 flex-shrink-0 text-muted-foreground" />
+                    )}
+                    <span className="text-sm font-medium text-foreground truncate">
+                      {result.matchedIn === 'title'
+                        ? <HighlightedSnippet result={result} />
+                        : result.thread.title || 'Nova Conversa'}
+                    </span>
+                  </div>
+                  {result.matchedIn !== 'title' && (
+                    <p className="text-xs text-muted-foreground line-clamp-3 break-words">
+                      <HighlightedSnippet result={result} />
+                    </p>
+                  )}
+                  <p className="mt-1 text-[11px] text-muted-foreground/80">
+                    {MATCH_LABELS[result.matchedIn]} · {formatDate(result.createdAt)}
+                  </p>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
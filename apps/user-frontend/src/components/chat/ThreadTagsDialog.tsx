@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { ChatThread } from '@shared/types';
+import { Tag, Plus, Loader2, X } from 'lucide-react';
+
+interface ThreadTagsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  thread: ChatThread;
+  // Tags already used on other threads, offered as suggestions
+  suggestions: string[];
+  onSave: (tags: string[]) => Promise<void>;
+}
+
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 30;
+
+export const ThreadTagsDialog: React.FC<ThreadTagsDialogProps> = ({ isOpen, onClose, thread, suggestions, onSave }) => {
+  const [tags, setTags] = useState<string[]>([]);
+  const [newTag, setNewTag] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setTags(thread.tags ?? []);
+    setNewTag('');
+  }, [isOpen, thread.tags]);
+
+  if (!isOpen) return null;
+
+  const hasTag = (tag: string) => tags.some((t) => t.toLowerCase() === tag.toLowerCase());
+
+  const addTag = (value: string) => {
+    const tag = value.trim().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH);
+    if (tag && !hasTag(tag) && tags.length < MAX_TAGS) {
+      setTags([...tags, tag]);
+    }
+    setNewTag('');
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      // A tag still being typed counts too
+      const pending = newTag.trim();
+      await onSave(pending && !hasTag(pending) && tags.length < MAX_TAGS ? [...tags, pending] : tags);
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const availableSuggestions = suggestions.filter((tag) => !hasTag(tag));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-card rounded-2xl border border-border shadow-2xl p-6 w-full max-w-md mx-4">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
+              <Tag className="w-5 h-5 text-primary" />
+            </div>
+            <h2 className="text-lg font-semibold text-foreground">Etiquetas</h2>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            className="h-8 w-8 p-0 hover:bg-accent"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <p className="text-muted-foreground mb-4 leading-relaxed">
+          Etiquete "{thread.title || 'Nova Conversa'}" para encontrá-la depois. Só você vê suas etiquetas.
+        </p>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-1.5 min-h-[28px]">
+            {tags.length === 0 ? (
+              <span className="text-sm text-muted-foreground">Nenhuma etiqueta</span>
+            ) : (
+              tags.map((tag) => (
+                <span
+                  key={tag}
+                  className="flex items-center gap-1 rounded-full border border-primary/30 bg-primary/10 px-2.5 py-1 text-xs text-foreground"
+                >
+                  {tag}
+                  <button
+                    type="button"
+                    onClick={() => setTags(tags.filter((t) => t !== tag))}
+                    className="text-muted-foreground hover:text-foreground"
+                    title={`Remover "${tag}"`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Input
+              value={newTag}
+              onChange={(e) => setNewTag(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ',') {
+                  e.preventDefault();
+                  addTag(newTag);
+                }
+              }}
+              placeholder={tags.length < MAX_TAGS ? 'Nova etiqueta' : `Máximo de ${MAX_TAGS} etiquetas`}
+              maxLength={MAX_TAG_LENGTH}
+              disabled={tags.length >= MAX_TAGS}
+              className="text-sm"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => addTag(newTag)}
+              disabled={!newTag.trim() || tags.length >= MAX_TAGS}
+              className="flex-shrink-0"
+            >
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+
+          {availableSuggestions.length > 0 && (
+            <div>
+              <p className="text-xs text-muted-foreground mb-2">Usadas em outras conversas</p>
+              <div className="flex flex-wrap gap-1.5">
+                {availableSuggestions.map((tag) => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => addTag(tag)}
+                    disabled={tags.length >= MAX_TAGS}
+                    className="rounded-full border border-border bg-background/80 px-2.5 py-1 text-xs text-muted-foreground hover:text-foreground hover:bg-accent/50 transition-colors disabled:opacity-50"
+                  >
+                    + {tag}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button type="button" variant="outline" onClick={onClose} className="px-6">
+              Cancelar
+            </Button>
+            <Button type="button" onClick={handleSave} disabled={isSaving} className="px-6">
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Salvar
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import {
   User,
   CreditCard,
+  Download,
   LogOut,
   ChevronDown
 } from 'lucide-react';
@@ -13,6 +14,7 @@ interface UserDropdownProps {
   showUserDropdown: boolean;
   setShowUserDropdown: (show: boolean) => void;
   onLogout: () => void;
+  onExportData: () => void;
 }
 
 export const UserDropdown: React.FC<UserDropdownProps> = ({
@@ -20,6 +22,7 @@ export const UserDropdown: React.FC<UserDropdownProps> = ({
   showUserDropdown,
   setShowUserDropdown,
   onLogout,
+  onExportData,
 }) => {
 
   return (
@@ -55,6 +58,16 @@ export const UserDropdown: React.FC<UserDropdownProps> = ({
                   <CreditCard className="w-4 h-4 mr-3" />
                   Cobrança e Assinatura
                 </Link>
+                <button
+                  onClick={() => {
+                    setShowUserDropdown(false);
+                    onExportData();
+                  }}
+                  className="flex items-center w-full px-4 py-3 text-sm hover:bg-accent/50 text-popover-foreground transition-colors"
+                >
+                  <Download className="w-4 h-4 mr-3" />
+                  Exportar meus dados
+                </button>
                 
                 <div className="h-px bg-border/50 mx-2 my-1"></div>
                 <button
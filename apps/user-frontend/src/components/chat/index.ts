@@ -1,11 +1,19 @@
 export { Sidebar } from './Sidebar';
 export { ThreadList } from './ThreadList';
+export { ThreadListItem } from './ThreadListItem';
+export { ThreadSearch } from './ThreadSearch';
 export { CollapsedThreadList } from './CollapsedThreadList';
 export { UserDropdown } from './UserDropdown';
 export { Message } from './Message';
+export { MessageFeedbackForm } from './MessageFeedbackForm';
 export { MessageInput } from './MessageInput';
+export { ModelSelector } from './ModelSelector';
+export { ThreadExportMenu } from './ThreadExportMenu';
+export { ShareThreadDialog } from './ShareThreadDialog';
+export { ThreadTagsDialog } from './ThreadTagsDialog';
 export { ChatArea } from './ChatArea';
 export { DeleteConfirmDialog } from './DeleteConfirmDialog';
 export { MobileSidebar } from './MobileSidebar';
 export { SidebarToggle } from './SidebarToggle';
-export { CreateThreadModal } from './CreateThreadModal';
\ No newline at end of file
+export { CreateThreadModal } from './CreateThreadModal';
+export { SourceExcerptDialog } from './SourceExcerptDialog';
\ No newline at end of file
@@ -0,0 +1,64 @@
+import type React from 'react';
+import { useRef, useState } from 'react';
+import type { ChatFolder, ChatThread, UpdateThreadOrganizationRequest } from '@shared/types';
+
+// Folders, pins, the archive and personal tags, shared by the sidebar's thread lists
+export interface ThreadOrganization {
+  folders: ChatFolder[];
+  threadTags: string[];
+  showArchived: boolean;
+  tagFilter: string | null;
+  onShowArchivedChange: (showArchived: boolean) => void;
+  onTagFilterChange: (tag: string | null) => void;
+  onUpdateThread: (threadId: string, changes: UpdateThreadOrganizationRequest) => Promise<void>;
+  onEditTags: (thread: ChatThread) => void;
+  onCreateFolder: (name: string) => Promise<void>;
+  onRenameFolder: (folderId: string, name: string) => Promise<void>;
+  onDeleteFolder: (folderId: string) => void;
+}
+
+// The thread id travels under its own type so text dragged in from elsewhere is ignored
+const THREAD_DRAG_TYPE = 'application/x-fluxo-thread';
+
+export const startThreadDrag = (e: React.DragEvent, threadId: string) => {
+  e.dataTransfer.setData(THREAD_DRAG_TYPE, threadId);
+  e.dataTransfer.effectAllowed = 'move';
+};
+
+const isThreadDrag = (e: React.DragEvent) => e.dataTransfer.types.includes(THREAD_DRAG_TYPE);
+
+// Handlers for an element threads can be dropped on, and whether one is being held over it
+export const useThreadDropTarget = (onDropThread: (threadId: string) => void) => {
+  const [isOver, setIsOver] = useState(false);
+  // dragenter and dragleave also fire when crossing the target's children
+  const depth = useRef(0);
+
+  const dropProps = {
+    onDragEnter: (e: React.DragEvent) => {
+      if (!isThreadDrag(e)) return;
+      e.preventDefault();
+      depth.current += 1;
+      setIsOver(true);
+    },
+    onDragOver: (e: React.DragEvent) => {
+      if (!isThreadDrag(e)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!isThreadDrag(e)) return;
+      depth.current = Math.max(0, depth.current - 1);
+      if (depth.current === 0) setIsOver(false);
+    },
+    onDrop: (e: React.DragEvent) => {
+      if (!isThreadDrag(e)) return;
+      e.preventDefault();
+      depth.current = 0;
+      setIsOver(false);
+      const threadId = e.dataTransfer.getData(THREAD_DRAG_TYPE);
+      if (threadId) onDropThread(threadId);
+    },
+  };
+
+  return { isOver, dropProps };
+};
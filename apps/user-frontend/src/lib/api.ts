@@ -1,10 +1,22 @@
-import axios from 'axios';
+import axios, { type AxiosResponse } from 'axios';
 import type { 
   AuthResponse, 
   CreateUserRequest, 
   LoginRequest, 
   CreateMessageRequest,
   CreateCheckoutSessionRequest,
+  AvailableModels,
+  ChatSearchResult,
+  ThreadExportFormat,
+  DataExportJob,
+  ThreadShare,
+  CreateThreadShareRequest,
+  SharedThread,
+  ChatThread,
+  ChatFolder,
+  UpdateThreadOrganizationRequest,
+  MessageFeedback,
+  MessageFeedbackRequest,
   ApiResponse 
 } from '@shared/types';
 
@@ -15,6 +27,18 @@ const api = axios.create({
   timeout: 30000,
 });
 
+export interface DownloadedFile {
+  blob: Blob;
+  filename: string;
+}
+
+// Exports are named by the server in Content-Disposition
+const toDownloadedFile = (response: AxiosResponse<Blob>, fallbackName: string): DownloadedFile => {
+  const disposition = response.headers['content-disposition'] as string | undefined;
+  const match = disposition?.match(/filename="([^"]+)"/);
+  return { blob: response.data, filename: match ? match[1] : fallbackName };
+};
+
 // Auth token management
 let accessToken: string | null = localStorage.getItem('accessToken');
 let refreshToken: string | null = localStorage.getItem('refreshToken');
@@ -110,18 +134,81 @@ export const authApi = {
 
 // Chat API
 export const chatApi = {
-  createThread: async (title?: string) => {
-    const response = await api.post('/chat/thread', { title });
+  createThread: async (title?: string, knowledgeTags?: string[]) => {
+    const response = await api.post('/chat/thread', { title, knowledgeTags });
+    return response.data.data;
+  },
+
+  getKnowledgeTags: async (): Promise<string[]> => {
+    const response = await api.get('/chat/knowledge-tags');
+    return response.data.data;
+  },
+
+  getAvailableModels: async (): Promise<AvailableModels> => {
+    const response = await api.get('/chat/models');
+    return response.data.data;
+  },
+
+  // Passing null for both resets the thread to the plan's default model
+  setThreadModel: async (threadId: string, provider: string | null, model: string | null) => {
+    const response = await api.put(`/chat/thread/${threadId}/model`, { provider, model });
     return response.data.data;
   },
 
-  getThreads: async (page = 1, limit = 20) => {
+  selectBranch: async (threadId: string, messageId: string): Promise<void> => {
+    await api.put(`/chat/thread/${threadId}/branch`, { messageId });
+  },
+
+  rateMessage: async (messageId: string, feedback: MessageFeedbackRequest): Promise<MessageFeedback> => {
+    const response = await api.put(`/chat/message/${messageId}/feedback`, feedback);
+    return response.data.data;
+  },
+
+  deleteMessageFeedback: async (messageId: string): Promise<void> => {
+    await api.delete(`/chat/message/${messageId}/feedback`);
+  },
+
+  getThreads: async (page = 1, limit = 20, filters: { archived?: boolean; tag?: string } = {}) => {
     const response = await api.get('/chat/threads', {
-      params: { page, limit },
+      params: { page, limit, ...filters },
     });
     return response.data;
   },
 
+  getThreadTags: async (): Promise<string[]> => {
+    const response = await api.get('/chat/thread-tags');
+    return response.data.data;
+  },
+
+  updateThreadOrganization: async (threadId: string, changes: UpdateThreadOrganizationRequest): Promise<Partial<ChatThread>> => {
+    const response = await api.put(`/chat/thread/${threadId}/organization`, changes);
+    return response.data.data;
+  },
+
+  getFolders: async (): Promise<ChatFolder[]> => {
+    const response = await api.get('/chat/folders');
+    return response.data.data;
+  },
+
+  createFolder: async (name: string): Promise<ChatFolder> => {
+    const response = await api.post('/chat/folders', { name });
+    return response.data.data;
+  },
+
+  renameFolder: async (folderId: string, name: string): Promise<ChatFolder> => {
+    const response = await api.patch(`/chat/folders/${folderId}`, { name });
+    return response.data.data;
+  },
+
+  deleteFolder: async (folderId: string): Promise<void> => {
+    await api.delete(`/chat/folders/${folderId}`);
+  },
+
+  searchChats: async (q: string): Promise<ChatSearchResult[]> => {
+    const response = await api.get('/chat/search', { params: { q } });
+    return response.data.data;
+  },
+
   getThreadMessages: async (threadId: string, page = 1, limit = 20, password?: string) => {
     const response = await api.get(`/chat/thread/${threadId}/messages`, {
       params: { page, limit, password },
@@ -178,6 +265,51 @@ export const chatApi = {
     });
     return response.data;
   },
+
+  exportThread: async (threadId: string, format: ThreadExportFormat, password?: string): Promise<DownloadedFile> => {
+    const response = await api.get(`/chat/thread/${threadId}/export`, {
+      params: { format, password },
+      responseType: 'blob',
+    });
+    return toDownloadedFile(response, `conversa.${format}`);
+  },
+
+  getThreadShare: async (threadId: string): Promise<ThreadShare | null> => {
+    const response = await api.get(`/chat/thread/${threadId}/share`);
+    return response.data.data;
+  },
+
+  createThreadShare: async (threadId: string, request: CreateThreadShareRequest): Promise<ThreadShare> => {
+    const response = await api.post(`/chat/thread/${threadId}/share`, request);
+    return response.data.data;
+  },
+
+  revokeThreadShare: async (threadId: string): Promise<void> => {
+    await api.delete(`/chat/thread/${threadId}/share`);
+  },
+
+  requestDataExport: async (): Promise<DataExportJob> => {
+    const response = await api.post('/chat/export');
+    return response.data.data;
+  },
+
+  getDataExport: async (exportId: string): Promise<DataExportJob> => {
+    const response = await api.get(`/chat/export/${exportId}`);
+    return response.data.data;
+  },
+
+  downloadDataExport: async (exportId: string): Promise<DownloadedFile> => {
+    const response = await api.get(`/chat/export/${exportId}/download`, { responseType: 'blob' });
+    return toDownloadedFile(response, 'meus-dados.zip');
+  },
+};
+
+// Shared threads are readable without an account
+export const shareApi = {
+  getSharedThread: async (token: string): Promise<SharedThread> => {
+    const response = await api.get(`/share/${token}`);
+    return response.data.data;
+  },
 };
 
 // Enhanced billing API with multi-gateway support
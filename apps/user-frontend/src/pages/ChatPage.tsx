@@ -4,10 +4,31 @@ import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { useChatStore } from '@/store/chat';
 import { useAuthStore } from '@/store/auth';
-import type { ChatThread } from '@shared/types';
+import type { ChatThread, ChatErrorCode, ChatSearchResult, ModelOption, ThreadExportFormat, UpdateThreadOrganizationRequest, MessageFeedbackRequest } from '@shared/types';
 import { chatApi } from '@/lib/api';
+import { downloadFile } from '@/lib/utils';
 import ThreadPasswordDialog from '@/components/ThreadPasswordDialog';
-import { Sidebar, ChatArea, DeleteConfirmDialog, MobileSidebar, CreateThreadModal } from '@/components/chat';
+import { Sidebar, ChatArea, DeleteConfirmDialog, MobileSidebar, CreateThreadModal, ThreadTagsDialog } from '@/components/chat';
+import type { ThreadOrganization } from '@/components/chat/threadOrganization';
+
+// Explanations for answers the AI provider couldn't deliver, by error code
+const CHAT_ERROR_MESSAGES: Record<ChatErrorCode, { title: string; description: string }> = {
+  rate_limited: {
+    title: "Muitas solicitações",
+    description: "O serviço de IA está com alta demanda. Aguarde alguns segundos e envie novamente.",
+  },
+  context_too_long: {
+    title: "Conversa muito longa",
+    description: "Esta conversa excedeu o limite de contexto do modelo. Inicie uma nova conversa para continuar.",
+  },
+  provider_down: {
+    title: "Serviço de IA indisponível",
+    description: "O provedor de IA está instável no momento. Tente novamente em instantes.",
+  },
+};
+
+// How often a requested data export is checked until its ZIP is ready
+const DATA_EXPORT_POLL_MS = 3000;
 
 const ChatPage = () => {
   const [messageInput, setMessageInput] = useState('');
@@ -32,8 +53,10 @@ const ChatPage = () => {
   const [isMobileSidebarOpen, setIsMobileSidebarOpen] = useState(false);
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
   const [isCreateThreadModalOpen, setIsCreateThreadModalOpen] = useState(false);
+  const [taggingThread, setTaggingThread] = useState<ChatThread | null>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const [previousScrollHeight, setPreviousScrollHeight] = useState(0);
+  const isExportingDataRef = useRef(false);
   const { toast } = useToast();
 
   const { user, logout } = useAuthStore();
@@ -47,12 +70,34 @@ const ChatPage = () => {
     isLoadingMoreMessages,
     isStreaming,
     streamingMessage,
+    highlightedMessageId,
+    availableModels,
+    showArchived,
+    threadTagFilter,
+    folders,
+    threadTags,
     loadThreads,
+    loadFolders,
+    loadThreadTags,
+    setShowArchived,
+    setThreadTagFilter,
+    createFolder,
+    renameFolder,
+    deleteFolder,
+    updateThreadOrganization,
+    loadAvailableModels,
+    setThreadModel,
     createThread,
     setCurrentThread,
     deleteThread,
     renameThread,
     sendMessage,
+    regenerateMessage,
+    editMessage,
+    selectBranch,
+    rateMessage,
+    revealMessage,
+    stopStreaming,
     loadMoreMessages,
   } = useChatStore();
 
@@ -60,13 +105,22 @@ const ChatPage = () => {
     loadThreads();
   }, [loadThreads]);
 
+  useEffect(() => {
+    loadAvailableModels();
+  }, [loadAvailableModels]);
+
+  useEffect(() => {
+    loadFolders();
+    loadThreadTags();
+  }, [loadFolders, loadThreadTags]);
+
   // Get current thread's cache data for infinite scroll
   const currentThreadCache = currentThread ? messageCache.get(currentThread.id) : null;
   const hasMoreMessages = currentThreadCache?.hasMore || false;
 
-  const handleCreateThread = async (title: string) => {
+  const handleCreateThread = async (title: string, knowledgeTags: string[]) => {
     try {
-      await createThread(title);
+      await createThread(title, knowledgeTags);
       toast({
         title: "Conversa criada",
         description: `"${title}" foi criada com sucesso`,
@@ -106,55 +160,111 @@ const ChatPage = () => {
       const password = currentThread?.hasPassword ? threadPasswords.get(currentThread.id) : undefined;
       await sendMessage(content, password);
     } catch (error: any) {
-      if (error.message.includes('Daily chat limit')) {
-        toast({
-          title: "Limite diário atingido",
-          description: "Você atingiu seu limite diário de mensagens. Faça upgrade para Pro para conversas ilimitadas!",
-          variant: "destructive",
-          duration: 10000,
-          action: (
-            <Link to="/billing">
-              <Button size="sm" className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700">
-                Ver Cobrança
-              </Button>
-            </Link>
-          ),
+      handleReplyError(error, content);
+    }
+  };
+
+  // Edits and regenerations fail like new messages, but have no typed content to give back
+  const handleReplyError = (error: any, content?: string) => {
+    const chatError = error.code ? CHAT_ERROR_MESSAGES[error.code as ChatErrorCode] : undefined;
+
+    if (chatError) {
+      // Nothing was answered, so give the message back for another try
+      if (content) {
+        setMessageInput(content);
+      }
+      toast({
+        title: chatError.title,
+        description: chatError.description,
+        variant: "destructive",
+      });
+    } else if (error.message.includes('Daily chat limit')) {
+      toast({
+        title: "Limite diário atingido",
+        description: "Você atingiu seu limite diário de mensagens. Faça upgrade para Pro para conversas ilimitadas!",
+        variant: "destructive",
+        duration: 10000,
+        action: (
+          <Link to="/billing">
+            <Button size="sm" className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700">
+              Ver Cobrança
+            </Button>
+          </Link>
+        ),
+      });
+    } else if (error.message.includes('Thread is password protected') || error.message.includes('Invalid password')) {
+      // Password issue - prompt for password immediately
+      if (currentThread) {
+        // Remove invalid password
+        setThreadPasswords(prev => {
+          const newMap = new Map(prev);
+          newMap.delete(currentThread.id);
+          return newMap;
         });
-      } else if (error.message.includes('Thread is password protected') || error.message.includes('Invalid password')) {
-        // Password issue - prompt for password immediately
-        if (currentThread) {
-          // Remove invalid password
-          setThreadPasswords(prev => {
-            const newMap = new Map(prev);
-            newMap.delete(currentThread.id);
-            return newMap;
-          });
-          
-          // Restore the message content to the input
+        
+        // Restore the message content to the input
+        if (content) {
           setMessageInput(content);
-          
-          // Immediately show password dialog with warning
-          openPasswordDialog(
-            currentThread.id,
-            currentThread.title || 'Nova Conversa',
-            'verify',
-            true
-          );
-          
-          toast({
-            title: "Autenticação necessária",
-            description: "Senha inválida ou ausente. Por favor, autentique-se para enviar mensagens.",
-            variant: "destructive",
-            duration: 5000,
-          });
         }
-      } else {
+        
+        // Immediately show password dialog with warning
+        openPasswordDialog(
+          currentThread.id,
+          currentThread.title || 'Nova Conversa',
+          'verify',
+          true
+        );
+        
         toast({
-          title: "Falha ao enviar mensagem",
-          description: error.message || "Algo deu errado",
+          title: "Autenticação necessária",
+          description: "Senha inválida ou ausente. Por favor, autentique-se para enviar mensagens.",
           variant: "destructive",
+          duration: 5000,
         });
       }
+    } else {
+      toast({
+        title: "Falha ao enviar mensagem",
+        description: error.message || "Algo deu errado",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleEditMessage = async (messageId: string, content: string) => {
+    if (!currentThread || isStreaming) return;
+
+    try {
+      const password = currentThread.hasPassword ? threadPasswords.get(currentThread.id) : undefined;
+      await editMessage(messageId, content, password);
+    } catch (error: any) {
+      handleReplyError(error);
+    }
+  };
+
+  const handleRegenerateMessage = async (messageId: string) => {
+    if (!currentThread || isStreaming) return;
+
+    try {
+      const password = currentThread.hasPassword ? threadPasswords.get(currentThread.id) : undefined;
+      await regenerateMessage(messageId, password);
+    } catch (error: any) {
+      handleReplyError(error);
+    }
+  };
+
+  const handleSelectBranch = async (messageId: string) => {
+    if (!currentThread || isStreaming) return;
+
+    try {
+      const password = currentThread.hasPassword ? threadPasswords.get(currentThread.id) : undefined;
+      await selectBranch(messageId, password);
+    } catch (error: any) {
+      toast({
+        title: "Falha ao trocar de versão",
+        description: error.response?.data?.error || "Algo deu errado",
+        variant: "destructive",
+      });
     }
   };
 
@@ -191,6 +301,85 @@ const ChatPage = () => {
     setEditTitle('');
   };
 
+  const handleSelectModel = async (option: ModelOption) => {
+    if (!currentThread) return;
+
+    try {
+      await setThreadModel(currentThread.id, option);
+    } catch (error: any) {
+      toast({
+        title: "Falha ao trocar modelo",
+        description: error.response?.data?.error || "Algo deu errado",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRateMessage = async (messageId: string, feedback: MessageFeedbackRequest | null) => {
+    try {
+      await rateMessage(messageId, feedback);
+    } catch (error: any) {
+      toast({
+        title: "Falha ao salvar avaliação",
+        description: error.response?.data?.error || "Algo deu errado",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExportThread = async (format: ThreadExportFormat) => {
+    if (!currentThread) return;
+
+    try {
+      const file = await chatApi.exportThread(currentThread.id, format, threadPasswords.get(currentThread.id));
+      downloadFile(file.blob, file.filename);
+    } catch (error: any) {
+      toast({
+        title: "Falha ao exportar conversa",
+        description: "Não foi possível gerar o arquivo. Tente novamente.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Builds a ZIP of everything stored for the user and downloads it once the server has it ready
+  const handleExportData = async () => {
+    if (isExportingDataRef.current) return;
+    isExportingDataRef.current = true;
+
+    try {
+      let job = await chatApi.requestDataExport();
+      toast({
+        title: "Exportação iniciada",
+        description: "Estamos reunindo seus dados. O download começa automaticamente quando estiver pronto.",
+      });
+
+      while (job.status === 'pending' || job.status === 'processing') {
+        await new Promise(resolve => setTimeout(resolve, DATA_EXPORT_POLL_MS));
+        job = await chatApi.getDataExport(job.id);
+      }
+
+      if (job.status === 'failed') {
+        throw new Error(job.errorMessage || 'Data export failed');
+      }
+
+      const file = await chatApi.downloadDataExport(job.id);
+      downloadFile(file.blob, file.filename);
+      toast({
+        title: "Seus dados estão prontos",
+        description: "O arquivo ZIP com suas conversas e dados da conta foi baixado.",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Falha ao exportar seus dados",
+        description: error.response?.data?.error || "Algo deu errado",
+        variant: "destructive",
+      });
+    } finally {
+      isExportingDataRef.current = false;
+    }
+  };
+
   const handleDeleteThread = async (threadId: string) => {
     try {
       await deleteThread(threadId);
@@ -214,6 +403,72 @@ const ChatPage = () => {
     }
   };
 
+  const handleUpdateThreadOrganization = async (threadId: string, changes: UpdateThreadOrganizationRequest) => {
+    try {
+      await updateThreadOrganization(threadId, changes);
+    } catch (error: any) {
+      toast({
+        title: "Falha ao organizar conversa",
+        description: error.response?.data?.error || "Algo deu errado",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCreateFolder = async (name: string) => {
+    try {
+      await createFolder(name);
+    } catch (error: any) {
+      toast({
+        title: "Falha ao criar pasta",
+        description: error.response?.data?.error || "Algo deu errado",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRenameFolder = async (folderId: string, name: string) => {
+    try {
+      await renameFolder(folderId, name);
+    } catch (error: any) {
+      toast({
+        title: "Falha ao renomear pasta",
+        description: error.response?.data?.error || "Algo deu errado",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteFolder = async (folderId: string) => {
+    try {
+      await deleteFolder(folderId);
+      toast({
+        title: "Pasta excluída",
+        description: "As conversas da pasta foram mantidas.",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Falha ao excluir pasta",
+        description: error.response?.data?.error || "Algo deu errado",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const threadOrganization: ThreadOrganization = {
+    folders,
+    threadTags,
+    showArchived,
+    tagFilter: threadTagFilter,
+    onShowArchivedChange: setShowArchived,
+    onTagFilterChange: setThreadTagFilter,
+    onUpdateThread: handleUpdateThreadOrganization,
+    onEditTags: setTaggingThread,
+    onCreateFolder: handleCreateFolder,
+    onRenameFolder: handleRenameFolder,
+    onDeleteFolder: handleDeleteFolder,
+  };
+
   // Password handling functions
   const handleThreadPasswordVerify = async (password: string) => {
     try {
@@ -402,6 +657,28 @@ const ChatPage = () => {
     }
   };
 
+  const handleSelectSearchResult = async (result: ChatSearchResult) => {
+    await handleThreadClick(result.thread);
+
+    // Protected threads only match by title, so a matched message is never behind a password prompt
+    if (result.messageId) {
+      try {
+        await revealMessage(
+          result.thread.id,
+          result.messageId,
+          result.branchLeafId,
+          threadPasswords.get(result.thread.id)
+        );
+      } catch (error: any) {
+        toast({
+          title: "Falha ao abrir mensagem",
+          description: error.response?.data?.error || "Algo deu errado",
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
   return (
     <div className="flex h-screen bg-background">
       {/* Mobile Sidebar */}
@@ -414,8 +691,10 @@ const ChatPage = () => {
         user={user}
         onCreateThread={handleOpenCreateThreadModal}
         onThreadClick={handleThreadClick}
+        onSelectSearchResult={handleSelectSearchResult}
         onEditThread={handleEditThread}
         onLogout={handleLogout}
+        onExportData={handleExportData}
         onOpenPasswordDialog={openPasswordDialog}
         editingThreadId={editingThreadId}
         editTitle={editTitle}
@@ -425,6 +704,7 @@ const ChatPage = () => {
         showThreadMenu={showThreadMenu}
         setShowThreadMenu={setShowThreadMenu}
         setDeleteConfirmId={setDeleteConfirmId}
+        organization={threadOrganization}
       />
       
       {/* Desktop Sidebar */}
@@ -435,9 +715,11 @@ const ChatPage = () => {
         user={user}
         onCreateThread={handleOpenCreateThreadModal}
         onThreadClick={handleThreadClick}
+        onSelectSearchResult={handleSelectSearchResult}
         onEditThread={handleEditThread}
         onDeleteThread={handleDeleteThread}
         onLogout={handleLogout}
+        onExportData={handleExportData}
         onOpenPasswordDialog={openPasswordDialog}
         editingThreadId={editingThreadId}
         editTitle={editTitle}
@@ -447,6 +729,7 @@ const ChatPage = () => {
         showThreadMenu={showThreadMenu}
         setShowThreadMenu={setShowThreadMenu}
         setDeleteConfirmId={setDeleteConfirmId}
+        organization={threadOrganization}
         isCollapsed={isSidebarCollapsed}
         onToggleCollapse={() => setIsSidebarCollapsed(!isSidebarCollapsed)}
       />
@@ -460,6 +743,12 @@ const ChatPage = () => {
         messageInput={messageInput}
         setMessageInput={setMessageInput}
         onSendMessage={handleSendMessage}
+        onStopStreaming={stopStreaming}
+        onEditMessage={handleEditMessage}
+        onRegenerateMessage={handleRegenerateMessage}
+        onSelectBranch={handleSelectBranch}
+        onRateMessage={handleRateMessage}
+        highlightedMessageId={highlightedMessageId}
         onCreateThread={handleOpenCreateThreadModal}
         isLoading={isLoading}
         setIsMobileSidebarOpen={setIsMobileSidebarOpen}
@@ -469,6 +758,9 @@ const ChatPage = () => {
         messagesContainerRef={messagesContainerRef}
         previousScrollHeight={previousScrollHeight}
         setPreviousScrollHeight={setPreviousScrollHeight}
+        availableModels={availableModels}
+        onSelectModel={handleSelectModel}
+        onExportThread={handleExportThread}
       />
 
       {/* Delete Confirmation Dialog */}
@@ -478,6 +770,17 @@ const ChatPage = () => {
         onCancel={() => setDeleteConfirmId(null)}
       />
 
+      {/* Thread Tags Dialog */}
+      {taggingThread && (
+        <ThreadTagsDialog
+          isOpen={!!taggingThread}
+          onClose={() => setTaggingThread(null)}
+          thread={taggingThread}
+          suggestions={threadTags}
+          onSave={(tags) => handleUpdateThreadOrganization(taggingThread.id, { tags })}
+        />
+      )}
+
       {/* Thread Password Dialog */}
       <ThreadPasswordDialog
         isOpen={passwordDialog.isOpen}
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import MarkdownRenderer from '@/components/MarkdownRenderer';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import { shareApi } from '@/lib/api';
+import { formatDate } from '@/lib/utils';
+import type { SharedThread } from '@shared/types';
+import { User, BookOpen, CircleSlash, Link2Off } from 'lucide-react';
+
+// Read-only view of a conversation someone shared, open to visitors without an account
+const SharedThreadPage = () => {
+  const { token } = useParams<{ token: string }>();
+  const [thread, setThread] = useState<SharedThread | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+
+    shareApi.getSharedThread(token)
+      .then(setThread)
+      .catch(() => setNotFound(true))
+      .finally(() => setIsLoading(false));
+  }, [token]);
+
+  if (isLoading) {
+    return <LoadingSpinner />;
+  }
+
+  if (notFound || !thread) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <div className="text-center max-w-md">
+          <div className="w-16 h-16 bg-muted/50 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Link2Off className="w-8 h-8 text-muted-foreground" />
+          </div>
+          <h1 className="text-xl font-semibold text-foreground mb-2">Conversa indisponível</h1>
+          <p className="text-muted-foreground mb-6">
+            Este link não existe ou foi revogado por quem o compartilhou.
+          </p>
+          <Button asChild>
+            <Link to="/login">Acessar o Fluxo Alfa</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-10 border-b border-border bg-card/95 backdrop-blur-sm">
+        <div className="max-w-4xl mx-auto flex items-center justify-between px-4 py-3">
+          <Link to="/login" className="flex items-center space-x-2 hover:opacity-80 transition-opacity">
+            <img src="/logo.png" alt="Fluxo Alfa Logo" className="w-7 h-7" />
+            <img src="/fluxoalfa.png" alt="Fluxo Alfa" className="h-6 w-auto" />
+          </Link>
+          <Button asChild size="sm">
+            <Link to="/register">Criar conta</Link>
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-2xl font-bold text-foreground">{thread.title || 'Nova Conversa'}</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Conversa compartilhada · iniciada em {formatDate(thread.createdAt)}
+          </p>
+        </div>
+
+        <div className="space-y-6">
+          {thread.messages.map((message) => (
+            <div
+              key={message.id}
+              className={`flex w-full ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
+            >
+              <div
+                className={`flex items-start space-x-3 max-w-[90%] sm:max-w-[75%] ${
+                  message.role === 'user' ? 'flex-row-reverse space-x-reverse' : ''
+                }`}
+              >
+                <div className="flex-shrink-0 w-9 h-9 rounded-full flex items-center justify-center shadow-sm ring-2 ring-offset-2 ring-offset-background bg-accent text-accent-foreground ring-border">
+                  {message.role === 'user' ? (
+                    <User className="w-4 h-4" />
+                  ) : (
+                    <img src="/logo.png" alt="Fluxo Alfa Logo" className="w-5 h-5" />
+                  )}
+                </div>
+                <div
+                  className={`rounded-2xl border backdrop-blur-md flex-1 shadow-md ${
+                    message.role === 'user'
+                      ? 'bg-white/10 border-white/20 text-foreground'
+                      : 'bg-primary/10 border-primary/20 text-foreground'
+                  }`}
+                >
+                  <div className="px-4 py-3">
+                    {message.role === 'user' ? (
+                      <p className="text-sm leading-relaxed whitespace-pre-wrap">{message.content}</p>
+                    ) : (
+                      <MarkdownRenderer
+                        content={message.content}
+                        className="text-sm leading-relaxed text-foreground"
+                      />
+                    )}
+                  </div>
+                  {message.sources.length > 0 && (
+                    <div className="px-4 pb-2 flex flex-wrap items-center gap-1.5">
+                      <BookOpen className="w-3.5 h-3.5 text-muted-foreground" />
+                      {message.sources.map((source) => (
+                        <span
+                          key={source.index}
+                          title={source.title}
+                          className="max-w-[200px] truncate rounded-full border border-primary/30 bg-background/60 px-2 py-0.5 text-xs text-foreground"
+                        >
+                          [{source.index}] {source.title}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  <div className="px-4 pb-2 flex items-center gap-2 text-xs font-medium text-muted-foreground">
+                    {formatDate(message.createdAt)}
+                    {message.incomplete && (
+                      <span className="flex items-center gap-1">
+                        <CircleSlash className="w-3 h-3" />
+                        Resposta interrompida
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default SharedThreadPage;
@@ -1,6 +1,16 @@
-import { create } from 'zustand';
+import { create, type StoreApi } from 'zustand';
 import { chatApi } from '@/lib/api';
-import type { ChatThread, ChatMessage } from '@shared/types';
+import type {
+  ChatThread,
+  ChatMessage,
+  MessageSource,
+  AvailableModels,
+  ModelOption,
+  ChatErrorCode,
+  ChatFolder,
+  UpdateThreadOrganizationRequest,
+  MessageFeedbackRequest
+} from '@shared/types';
 
 interface ThreadMessageCache {
   messages: ChatMessage[];
@@ -15,37 +25,345 @@ interface ChatState {
   currentThread: ChatThread | null;
   messages: ChatMessage[];
   messageCache: Map<string, ThreadMessageCache>;
+  availableModels: AvailableModels | null;
   isLoading: boolean;
   isLoadingThreads: boolean;
   isLoadingMoreMessages: boolean;
   isStreaming: boolean;
   streamingMessage: string;
-  createThread: (title?: string) => Promise<ChatThread>;
+  // Message opened from search, scrolled to and marked until another thread is opened
+  highlightedMessageId: string | null;
+  // What the sidebar lists: the main list or the archive, optionally narrowed to one tag
+  showArchived: boolean;
+  threadTagFilter: string | null;
+  folders: ChatFolder[];
+  threadTags: string[];
+  createThread: (title?: string, knowledgeTags?: string[]) => Promise<ChatThread>;
   loadThreads: () => Promise<void>;
   loadMessages: (threadId: string, page?: number, password?: string) => Promise<void>;
   loadMoreMessages: () => Promise<void>;
   setCurrentThread: (thread: ChatThread | null, password?: string) => Promise<void>;
   deleteThread: (threadId: string) => Promise<void>;
   renameThread: (threadId: string, title: string) => Promise<void>;
+  loadAvailableModels: () => Promise<void>;
+  setThreadModel: (threadId: string, option: ModelOption | null) => Promise<void>;
+  setShowArchived: (showArchived: boolean) => Promise<void>;
+  setThreadTagFilter: (tag: string | null) => Promise<void>;
+  loadFolders: () => Promise<void>;
+  loadThreadTags: () => Promise<void>;
+  createFolder: (name: string) => Promise<ChatFolder>;
+  renameFolder: (folderId: string, name: string) => Promise<void>;
+  deleteFolder: (folderId: string) => Promise<void>;
+  updateThreadOrganization: (threadId: string, changes: UpdateThreadOrganizationRequest) => Promise<void>;
   sendMessage: (content: string, password?: string) => Promise<void>;
+  regenerateMessage: (messageId: string, password?: string) => Promise<void>;
+  editMessage: (messageId: string, content: string, password?: string) => Promise<void>;
+  selectBranch: (messageId: string, password?: string) => Promise<void>;
+  // A null rating removes the message's feedback
+  rateMessage: (messageId: string, feedback: MessageFeedbackRequest | null) => Promise<void>;
+  revealMessage: (threadId: string, messageId: string, branchLeafId: string | null, password?: string) => Promise<void>;
+  stopStreaming: () => void;
   clearStreamingMessage: () => void;
 }
 
+// Aborts the in-flight message request; the server saves whatever was generated so far
+let streamAbortController: AbortController | null = null;
+
+interface ReplyRequest {
+  path: string;
+  body: Record<string, unknown>;
+  // Conversation shown while the answer streams, ending with the question when there is a new one
+  messages: ChatMessage[];
+  // Message the reply is an alternative to, when editing or regenerating
+  replaces?: ChatMessage;
+}
+
+type SetChatState = StoreApi<ChatState>['setState'];
+type GetChatState = StoreApi<ChatState>['getState'];
+
+const getSiblingIds = (message: ChatMessage) => message.siblingIds || [message.id];
+
+// Replaces the shown messages and keeps the thread's cache in step
+const updateThreadMessages = (
+  set: SetChatState,
+  threadId: string,
+  update: (messages: ChatMessage[]) => ChatMessage[],
+  extra: Partial<ChatState> = {}
+) => {
+  set((state) => {
+    const newMessages = update(state.messages);
+
+    const cachedData = state.messageCache.get(threadId);
+    if (cachedData) {
+      const newCache = new Map(state.messageCache);
+      newCache.set(threadId, {
+        ...cachedData,
+        messages: newMessages,
+        total: cachedData.total - cachedData.messages.length + newMessages.length,
+      });
+
+      return {
+        ...extra,
+        messages: newMessages,
+        messageCache: newCache,
+      };
+    }
+
+    return {
+      ...extra,
+      messages: newMessages,
+    };
+  });
+};
+
+// Posts a message request and streams its SSE answer into the store
+const streamReply = async (set: SetChatState, get: GetChatState, thread: ChatThread, request: ReplyRequest) => {
+  const previousMessages = get().messages;
+  let question = request.messages[request.messages.length - 1];
+
+  updateThreadMessages(set, thread.id, () => request.messages, {
+    isStreaming: true,
+    streamingMessage: '',
+  });
+
+  const abortController = new AbortController();
+  streamAbortController = abortController;
+
+  let streamingContent = '';
+  let streamingSources: MessageSource[] = [];
+
+  try {
+    // Create a custom EventSource-like implementation
+    const response = await fetch(`${import.meta.env.VITE_API_URL || 'http://localhost:8000'}${request.path}`, {
+      method: 'POST',
+      signal: abortController.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
+      },
+      body: JSON.stringify(request.body),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      let errorMessage = 'Failed to send message';
+      
+      try {
+        const errorData = JSON.parse(errorText);
+        errorMessage = errorData.error || errorMessage;
+      } catch {
+        // If not JSON, use the text directly if it's meaningful
+        if (errorText.length < 200) {
+          errorMessage = errorText;
+        }
+      }
+      
+      throw new Error(errorMessage);
+    }
+
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error('No response body');
+    }
+
+    let buffer = ''; // Buffer for incomplete lines
+
+    while (true) {
+      const { done, value } = await reader.read();
+      
+      if (done) break;
+
+      // Decode the chunk and add to buffer
+      const chunk = new TextDecoder().decode(value, { stream: true });
+      buffer += chunk;
+
+      // Process complete lines only
+      const lines = buffer.split('\n');
+      
+      // Keep the last incomplete line in the buffer
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        // Skip empty lines
+        if (line.trim() === '') continue;
+        
+        if (line.startsWith('data: ')) {
+          const data = line.slice(6).trim();
+          
+          if (data === '[DONE]') {
+            // Final message should already be added, just clean up
+            set({ isStreaming: false, streamingMessage: '' });
+            return;
+          }
+
+          try {
+            const parsed = JSON.parse(data);
+            
+            if (parsed.type === 'chunk') {
+              // Server now sends properly incremental chunks without duplication
+              const newContent = parsed.content || '';
+              if (newContent) {
+                streamingContent += newContent;
+                set({ streamingMessage: streamingContent });
+              }
+            } else if (parsed.type === 'user_message') {
+              // Swap the placeholder for the saved question so it can be edited later
+              if (question.id.startsWith('temp-')) {
+                const placeholderId = question.id;
+                question = {
+                  ...question,
+                  id: parsed.messageId,
+                  parentId: parsed.parentId ?? null,
+                  siblingIds: request.replaces ? [...getSiblingIds(request.replaces), parsed.messageId] : undefined,
+                };
+                const savedQuestion = question;
+                updateThreadMessages(set, thread.id, (messages) =>
+                  messages.map(message => (message.id === placeholderId ? savedQuestion : message))
+                );
+              }
+            } else if (parsed.type === 'sources') {
+              // Knowledge base chunks the answer may cite, attached on completion
+              streamingSources = parsed.sources || [];
+            } else if (parsed.type === 'message') {
+              // Alternative message type for incremental updates
+              streamingContent += parsed.content || '';
+              set({ streamingMessage: streamingContent });
+            } else if (parsed.type === 'complete') {
+              // Add the complete assistant message
+              const assistantMessage: ChatMessage = {
+                id: parsed.messageId || 'temp-assistant-' + Date.now(),
+                threadId: thread.id,
+                role: 'assistant',
+                content: parsed.content || streamingContent, // Use the final content
+                tokensInput: parsed.tokensInput || 0,
+                tokensOutput: parsed.tokensOutput || 0,
+                costUsd: parsed.costUsd || 0,
+                sources: streamingSources.length > 0 ? streamingSources : null,
+                incomplete: parsed.incomplete || false,
+                parentId: parsed.parentId ?? null,
+                siblingIds: request.replaces?.role === 'assistant'
+                  ? [...getSiblingIds(request.replaces), parsed.messageId]
+                  : undefined,
+                createdAt: new Date(),
+              };
+
+              updateThreadMessages(set, thread.id, (messages) => [...messages, assistantMessage], {
+                isStreaming: false,
+                streamingMessage: '',
+              });
+              
+              // Reload threads to get updated title from server
+              // This ensures the frontend reflects any title changes made by the backend
+              get().loadThreads();
+              
+              // Reset accumulators for next message
+              streamingContent = '';
+              streamingSources = [];
+            } else if (parsed.type === 'error') {
+              console.error('Streaming error:', parsed.error);
+              // The outer handler restores the conversation; the code says why the answer failed
+              const streamError: Error & { code?: ChatErrorCode } = new Error(parsed.error);
+              streamError.code = parsed.code;
+              throw streamError;
+            }
+          } catch (e) {
+            // Log parse errors for debugging but continue
+            if (e instanceof SyntaxError) {
+              console.warn('Failed to parse SSE data:', data, e);
+            } else {
+              throw e;
+            }
+          }
+        }
+      }
+    }
+    
+    // Process any remaining buffer
+    if (buffer.trim() && buffer.startsWith('data: ')) {
+      const data = buffer.slice(6).trim();
+      if (data !== '[DONE]') {
+        console.warn('Incomplete SSE message in buffer:', buffer);
+      }
+    }
+  } catch (error) {
+    if (abortController.signal.aborted) {
+      // Stopped by the user: the server keeps the partial answer, or nothing if none arrived
+      if (streamingContent) {
+        const partialMessage: ChatMessage = {
+          id: 'temp-assistant-' + Date.now(),
+          threadId: thread.id,
+          role: 'assistant',
+          content: streamingContent,
+          tokensInput: 0,
+          tokensOutput: 0,
+          costUsd: 0,
+          sources: streamingSources.length > 0 ? streamingSources : null,
+          incomplete: true,
+          createdAt: new Date(),
+        };
+        updateThreadMessages(set, thread.id, (messages) => [...messages, partialMessage], {
+          isStreaming: false,
+          streamingMessage: '',
+        });
+      } else {
+        updateThreadMessages(set, thread.id, () => previousMessages, {
+          isStreaming: false,
+          streamingMessage: '',
+        });
+      }
+
+      get().loadThreads();
+      return;
+    }
+
+    console.error('Failed to send message:', error);
+    // Nothing was answered, so show the conversation as it was before the request
+    updateThreadMessages(set, thread.id, () => previousMessages, {
+      isStreaming: false,
+      streamingMessage: ''
+    });
+    throw error;
+  } finally {
+    if (streamAbortController === abortController) {
+      streamAbortController = null;
+    }
+  }
+};
+
+// Pinned threads lead the list, the latest pin first; an unpinned thread goes right after them
+const placeThread = (threads: ChatThread[], thread: ChatThread): ChatThread[] => {
+  const rest = threads.filter((t) => t.id !== thread.id);
+  const index = thread.pinned ? 0 : rest.filter((t) => t.pinned).length;
+  return [...rest.slice(0, index), thread, ...rest.slice(index)];
+};
+
+const sortFolders = (folders: ChatFolder[]) =>
+  [...folders].sort((a, b) => a.name.localeCompare(b.name));
+
 export const useChatStore = create<ChatState>((set, get) => ({
   threads: [],
   currentThread: null,
   messages: [],
   messageCache: new Map<string, ThreadMessageCache>(),
+  availableModels: null,
   isLoading: false,
   isLoadingThreads: false,
   isLoadingMoreMessages: false,
   isStreaming: false,
   streamingMessage: '',
+  highlightedMessageId: null,
+  showArchived: false,
+  threadTagFilter: null,
+  folders: [],
+  threadTags: [],
 
-  createThread: async (title?: string) => {
-    const thread = await chatApi.createThread(title);
+  createThread: async (title?: string, knowledgeTags?: string[]) => {
+    const thread = await chatApi.createThread(title, knowledgeTags);
     set((state) => ({
-      threads: [thread, ...state.threads],
+      // A new thread has no tags and isn't archived, so only the plain main list shows it
+      threads: state.showArchived || state.threadTagFilter
+        ? state.threads
+        : placeThread(state.threads, thread),
       currentThread: thread,
       messages: [],
     }));
@@ -53,9 +371,13 @@ export const useChatStore = create<ChatState>((set, get) => ({
   },
 
   loadThreads: async () => {
+    const { showArchived, threadTagFilter } = get();
     set({ isLoadingThreads: true });
     try {
-      const response = await chatApi.getThreads();
+      const response = await chatApi.getThreads(1, 20, {
+        archived: showArchived,
+        tag: threadTagFilter ?? undefined,
+      });
       set({ threads: response.data, isLoadingThreads: false });
     } catch (error) {
       console.error('Failed to load threads:', error);
@@ -161,11 +483,12 @@ export const useChatStore = create<ChatState>((set, get) => ({
           currentThread: thread, 
           messages: cachedData.messages, 
           streamingMessage: '',
+          highlightedMessageId: null,
           isLoading: false
         });
       } else {
         // No cache, load from server
-        set({ currentThread: thread, messages: [], streamingMessage: '' });
+        set({ currentThread: thread, messages: [], streamingMessage: '', highlightedMessageId: null });
         try {
           await get().loadMessages(thread.id, 1, password);
         } catch (error: any) {
@@ -177,11 +500,12 @@ export const useChatStore = create<ChatState>((set, get) => ({
         }
       }
     } else {
-      set({ currentThread: null, messages: [], streamingMessage: '' });
+      set({ currentThread: null, messages: [], streamingMessage: '', highlightedMessageId: null });
     }
   },
 
   deleteThread: async (threadId: string) => {
+    const wasFiled = !!get().threads.find((t) => t.id === threadId)?.folderId;
     await chatApi.deleteThread(threadId);
     set((state) => {
       const newCache = new Map(state.messageCache);
@@ -194,6 +518,10 @@ export const useChatStore = create<ChatState>((set, get) => ({
         messageCache: newCache,
       };
     });
+
+    if (wasFiled) {
+      get().loadFolders();
+    }
   },
 
   renameThread: async (threadId: string, title: string) => {
@@ -208,8 +536,122 @@ export const useChatStore = create<ChatState>((set, get) => ({
     }));
   },
 
+  loadAvailableModels: async () => {
+    try {
+      const availableModels = await chatApi.getAvailableModels();
+      set({ availableModels });
+    } catch (error) {
+      console.error('Failed to load available models:', error);
+    }
+  },
+
+  setThreadModel: async (threadId: string, option: ModelOption | null) => {
+    const provider = option?.provider ?? null;
+    const model = option?.model ?? null;
+    await chatApi.setThreadModel(threadId, provider, model);
+    set((state) => ({
+      threads: state.threads.map((t) =>
+        t.id === threadId ? { ...t, provider, model } : t
+      ),
+      currentThread: state.currentThread?.id === threadId
+        ? { ...state.currentThread, provider, model }
+        : state.currentThread,
+    }));
+  },
+
+  setShowArchived: async (showArchived: boolean) => {
+    set({ showArchived });
+    await get().loadThreads();
+  },
+
+  setThreadTagFilter: async (tag: string | null) => {
+    set({ threadTagFilter: tag });
+    await get().loadThreads();
+  },
+
+  loadFolders: async () => {
+    try {
+      const folders = await chatApi.getFolders();
+      set({ folders });
+    } catch (error) {
+      console.error('Failed to load folders:', error);
+    }
+  },
+
+  loadThreadTags: async () => {
+    try {
+      const threadTags = await chatApi.getThreadTags();
+      set({ threadTags });
+    } catch (error) {
+      console.error('Failed to load thread tags:', error);
+    }
+  },
+
+  createFolder: async (name: string) => {
+    const folder = await chatApi.createFolder(name);
+    set((state) => ({ folders: sortFolders([...state.folders, folder]) }));
+    return folder;
+  },
+
+  renameFolder: async (folderId: string, name: string) => {
+    const folder = await chatApi.renameFolder(folderId, name);
+    set((state) => ({
+      folders: sortFolders(state.folders.map((f) => (f.id === folderId ? folder : f))),
+    }));
+  },
+
+  deleteFolder: async (folderId: string) => {
+    await chatApi.deleteFolder(folderId);
+    set((state) => ({
+      folders: state.folders.filter((f) => f.id !== folderId),
+      // The server leaves the folder's threads unfiled
+      threads: state.threads.map((t) =>
+        t.folderId === folderId ? { ...t, folderId: null } : t
+      ),
+      currentThread: state.currentThread?.folderId === folderId
+        ? { ...state.currentThread, folderId: null }
+        : state.currentThread,
+    }));
+  },
+
+  updateThreadOrganization: async (threadId: string, changes: UpdateThreadOrganizationRequest) => {
+    const organization = await chatApi.updateThreadOrganization(threadId, changes);
+    set((state) => {
+      const thread = state.threads.find((t) => t.id === threadId);
+      let threads = state.threads;
+
+      if (thread) {
+        const updated = { ...thread, ...organization };
+        // Threads that no longer match what the list shows leave it
+        const isListed = !!updated.archived === state.showArchived
+          && (!state.threadTagFilter || !!updated.tags?.includes(state.threadTagFilter));
+
+        threads = !isListed
+          ? threads.filter((t) => t.id !== threadId)
+          : changes.pinned !== undefined
+            ? placeThread(threads, updated)
+            : threads.map((t) => (t.id === threadId ? updated : t));
+      }
+
+      return {
+        threads,
+        currentThread: state.currentThread?.id === threadId
+          ? { ...state.currentThread, ...organization }
+          : state.currentThread,
+      };
+    });
+
+    // Folder counts leave out archived threads
+    if (changes.folderId !== undefined || changes.archived !== undefined) {
+      get().loadFolders();
+    }
+    if (changes.tags !== undefined) {
+      get().loadThreadTags();
+    }
+  },
+
   sendMessage: async (content: string, password?: string) => {
-    const { currentThread } = get();
+    const { currentThread, messages } = get();
     if (!currentThread) return;
 
     // Add user message immediately
@@ -221,203 +663,119 @@ export const useChatStore = create<ChatState>((set, get) => ({
       tokensInput: 0,
       tokensOutput: 0,
       costUsd: 0,
+      parentId: messages[messages.length - 1]?.id ?? null,
       createdAt: new Date(),
     };
 
-    set((state) => {
-      const newMessages = [...state.messages, userMessage];
-      
-      // Update cache with new user message
-      const cachedData = state.messageCache.get(currentThread.id);
-      if (cachedData) {
-        const newCache = new Map(state.messageCache);
-        newCache.set(currentThread.id, {
-          ...cachedData,
-          messages: newMessages,
-          total: cachedData.total + 1,
-        });
-        
-        return {
-          messages: newMessages,
-          messageCache: newCache,
-          isStreaming: true,
-          streamingMessage: '',
-        };
-      }
-      
-      return {
-        messages: newMessages,
-        isStreaming: true,
-        streamingMessage: '',
-      };
+    await streamReply(set, get, currentThread, {
+      path: '/chat/message',
+      body: {
+        threadId: currentThread.id,
+        content,
+        ...(password && { password }),
+      },
+      messages: [...messages, userMessage],
     });
+  },
 
-    try {
-      // Create a custom EventSource-like implementation
-      const response = await fetch(`${import.meta.env.VITE_API_URL || 'http://localhost:8000'}/chat/message`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
-        },
-        body: JSON.stringify({
-          threadId: currentThread.id,
-          content,
-          ...(password && { password }),
-        }),
-      });
+  regenerateMessage: async (messageId: string, password?: string) => {
+    const { currentThread, messages } = get();
+    const index = messages.findIndex(message => message.id === messageId);
+    if (!currentThread || index < 0) return;
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        let errorMessage = 'Failed to send message';
-        
-        try {
-          const errorData = JSON.parse(errorText);
-          errorMessage = errorData.error || errorMessage;
-        } catch {
-          // If not JSON, use the text directly if it's meaningful
-          if (errorText.length < 200) {
-            errorMessage = errorText;
-          }
-        }
-        
-        throw new Error(errorMessage);
-      }
+    // The new answer replaces the old one on screen; the old one stays reachable as a sibling
+    await streamReply(set, get, currentThread, {
+      path: `/chat/message/${messageId}/regenerate`,
+      body: { ...(password && { password }) },
+      messages: messages.slice(0, index),
+      replaces: messages[index],
+    });
+  },
 
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('No response body');
-      }
+  editMessage: async (messageId: string, content: string, password?: string) => {
+    const { currentThread, messages } = get();
+    const index = messages.findIndex(message => message.id === messageId);
+    if (!currentThread || index < 0) return;
 
-      let streamingContent = '';
-      let buffer = ''; // Buffer for incomplete lines
+    const original = messages[index];
+    const userMessage: ChatMessage = {
+      ...original,
+      id: 'temp-' + Date.now(),
+      content,
+      tokensInput: 0,
+      tokensOutput: 0,
+      costUsd: 0,
+      createdAt: new Date(),
+    };
 
-      while (true) {
-        const { done, value } = await reader.read();
-        
-        if (done) break;
+    await streamReply(set, get, currentThread, {
+      path: `/chat/message/${messageId}/edit`,
+      body: {
+        content,
+        ...(password && { password }),
+      },
+      messages: [...messages.slice(0, index), userMessage],
+      replaces: original,
+    });
+  },
 
-        // Decode the chunk and add to buffer
-        const chunk = new TextDecoder().decode(value, { stream: true });
-        buffer += chunk;
+  selectBranch: async (messageId: string, password?: string) => {
+    const { currentThread } = get();
+    if (!currentThread) return;
 
-        // Process complete lines only
-        const lines = buffer.split('\n');
-        
-        // Keep the last incomplete line in the buffer
-        buffer = lines.pop() || '';
+    await chatApi.selectBranch(currentThread.id, messageId);
 
-        for (const line of lines) {
-          // Skip empty lines
-          if (line.trim() === '') continue;
-          
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6).trim();
-            
-            if (data === '[DONE]') {
-              // Final message should already be added, just clean up
-              set({ isStreaming: false, streamingMessage: '' });
-              return;
-            }
+    // Everything below the switched message changes, so reload the thread instead of patching it
+    set((state) => {
+      const newCache = new Map(state.messageCache);
+      newCache.delete(currentThread.id);
+      return { messageCache: newCache };
+    });
+    await get().loadMessages(currentThread.id, 1, password);
+  },
 
-            try {
-              const parsed = JSON.parse(data);
-              
-              if (parsed.type === 'chunk') {
-                // Server now sends properly incremental chunks without duplication
-                const newContent = parsed.content || '';
-                if (newContent) {
-                  streamingContent += newContent;
-                  set({ streamingMessage: streamingContent });
-                }
-              } else if (parsed.type === 'message') {
-                // Alternative message type for incremental updates
-                streamingContent += parsed.content || '';
-                set({ streamingMessage: streamingContent });
-              } else if (parsed.type === 'complete') {
-                // Add the complete assistant message
-                const assistantMessage: ChatMessage = {
-                  id: parsed.messageId || 'temp-assistant-' + Date.now(),
-                  threadId: currentThread.id,
-                  role: 'assistant',
-                  content: parsed.content || streamingContent, // Use the final content
-                  tokensInput: parsed.tokensInput || 0,
-                  tokensOutput: parsed.tokensOutput || 0,
-                  costUsd: parsed.costUsd || 0,
-                  createdAt: new Date(),
-                };
+  rateMessage: async (messageId: string, feedback: MessageFeedbackRequest | null) => {
+    const { currentThread } = get();
+    if (!currentThread) return;
 
-                set((state) => {
-                  const newMessages = [...state.messages, assistantMessage];
-                  
-                  // Update cache with assistant message
-                  const cachedData = state.messageCache.get(currentThread.id);
-                  if (cachedData) {
-                    const newCache = new Map(state.messageCache);
-                    newCache.set(currentThread.id, {
-                      ...cachedData,
-                      messages: newMessages,
-                      total: cachedData.total + 1,
-                    });
-                    
-                    return {
-                      messages: newMessages,
-                      messageCache: newCache,
-                      isStreaming: false,
-                      streamingMessage: '',
-                    };
-                  }
-                  
-                  return {
-                    messages: newMessages,
-                    isStreaming: false,
-                    streamingMessage: '',
-                  };
-                });
-                
-                // Reload threads to get updated title from server
-                // This ensures the frontend reflects any title changes made by the backend
-                get().loadThreads();
-                
-                // Reset accumulator for next message
-                streamingContent = '';
-              } else if (parsed.type === 'error') {
-                console.error('Streaming error:', parsed.error);
-                set((state) => ({
-                  messages: state.messages.slice(0, -1), // Remove the user message
-                  isStreaming: false, 
-                  streamingMessage: ''
-                }));
-                throw new Error(parsed.error);
-              }
-            } catch (e) {
-              // Log parse errors for debugging but continue
-              if (e instanceof SyntaxError) {
-                console.warn('Failed to parse SSE data:', data, e);
-              } else {
-                throw e;
-              }
-            }
-          }
-        }
-      }
-      
-      // Process any remaining buffer
-      if (buffer.trim() && buffer.startsWith('data: ')) {
-        const data = buffer.slice(6).trim();
-        if (data !== '[DONE]') {
-          console.warn('Incomplete SSE message in buffer:', buffer);
-        }
-      }
-    } catch (error) {
-      console.error('Failed to send message:', error);
-      set((state) => ({
-        messages: state.messages.slice(0, -1), // Remove the user message
-        isStreaming: false,
-        streamingMessage: ''
-      }));
-      throw error;
+    let saved: ChatMessage['feedback'] = null;
+    if (feedback) {
+      saved = await chatApi.rateMessage(messageId, feedback);
+    } else {
+      await chatApi.deleteMessageFeedback(messageId);
     }
+
+    updateThreadMessages(set, currentThread.id, (messages) =>
+      messages.map((message) => (message.id === messageId ? { ...message, feedback: saved } : message))
+    );
+  },
+
+  revealMessage: async (threadId: string, messageId: string, branchLeafId: string | null, password?: string) => {
+    if (get().currentThread?.id !== threadId) return;
+
+    // The match is on another branch (an edit or regeneration), so switch to it first
+    if (branchLeafId) {
+      await get().selectBranch(branchLeafId, password);
+    }
+
+    const isShown = () => get().messages.some(message => message.id === messageId);
+
+    // Older messages load page by page until the match is on screen
+    while (!isShown()) {
+      const cachedData = get().messageCache.get(threadId);
+      if (!cachedData?.hasMore) break;
+
+      await get().loadMoreMessages();
+
+      // Stop if the page failed to load
+      if (get().messageCache.get(threadId)?.lastPage === cachedData.lastPage) break;
+    }
+
+    set({ highlightedMessageId: isShown() ? messageId : null });
+  },
+
+  stopStreaming: () => {
+    streamAbortController?.abort();
   },
 
   clearStreamingMessage: () => {
@@ -0,0 +1,114 @@
+import { chunkTextByStructure, parseChunkingStrategy } from '../utils';
+
+describe('chunkTextByStructure', () => {
+  it('records the heading path of each section', () => {
+    const chunks = chunkTextByStructure([
+      '# Manual',
+      'Intro paragraph.',
+      '## Install',
+      'Run the installer.',
+      '### Linux',
+      'Use the package.',
+      '## Usage',
+      'Open the app.',
+    ].join('\n'));
+
+    expect(chunks).toEqual([
+      { text: 'Intro paragraph.', metadata: { headingPath: ['Manual'] } },
+      { text: 'Run the installer.', metadata: { headingPath: ['Manual', 'Install'] } },
+      { text: 'Use the package.', metadata: { headingPath: ['Manual', 'Install', 'Linux'] } },
+      { text: 'Open the app.', metadata: { headingPath: ['Manual', 'Usage'] } },
+    ]);
+  });
+
+  it('packs blocks of the same section together and never across sections', () => {
+    const chunks = chunkTextByStructure([
+      '# A',
+      'First paragraph.',
+      '',
+      'Second paragraph.',
+      '# B',
+      'Third paragraph.',
+    ].join('\n'));
+
+    expect(chunks.map(c => c.text)).toEqual([
+      'First paragraph.\n\nSecond paragraph.',
+      'Third paragraph.',
+    ]);
+  });
+
+  it('starts a new chunk when the next block would exceed the size limit', () => {
+    const first = 'a'.repeat(30);
+    const second = 'b'.repeat(30);
+
+    const chunks = chunkTextByStructure(`${first}\n\n${second}`, 50);
+
+    expect(chunks.map(c => c.text)).toEqual([first, second]);
+  });
+
+  it('keeps a list together as one block', () => {
+    const chunks = chunkTextByStructure([
+      'Steps:',
+      '- one',
+      '- two',
+      '',
+      '- three',
+    ].join('\n'));
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].text).toBe('Steps:\n\n- one\n- two\n- three');
+  });
+
+  it('repeats the header rows in each piece of an oversized table', () => {
+    const table = [
+      '| Plan | Price |',
+      '| --- | --- |',
+      '| Free | 0 |',
+      '| Pro | 10 |',
+      '| Team | 50 |',
+    ].join('\n');
+
+    const chunks = chunkTextByStructure(table, 50);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.text.startsWith('| Plan | Price |\n| --- | --- |\n')).toBe(true);
+    }
+    expect(chunks.map(c => c.text).join('\n')).toContain('| Team | 50 |');
+  });
+
+  it('keeps fenced code verbatim, blank lines and headings included', () => {
+    const code = '```\nconst a = 1;\n\n# not a heading\n```';
+
+    const chunks = chunkTextByStructure(`# Code\n${code}`);
+
+    expect(chunks).toEqual([{ text: code, metadata: { headingPath: ['Code'] } }]);
+  });
+
+  it('splits an oversized paragraph by sentences', () => {
+    const paragraph = 'First sentence here. Second sentence here. Third sentence here.';
+
+    const chunks = chunkTextByStructure(paragraph, 45, 0);
+
+    expect(chunks.map(c => c.text)).toEqual([
+      'First sentence here. Second sentence here.',
+      'Third sentence here.',
+    ]);
+  });
+
+  it('returns no chunks for blank text', () => {
+    expect(chunkTextByStructure('  \n\n  ')).toEqual([]);
+  });
+});
+
+describe('parseChunkingStrategy', () => {
+  it('accepts the known strategies', () => {
+    expect(parseChunkingStrategy('structure')).toBe('structure');
+    expect(parseChunkingStrategy('sentence')).toBe('sentence');
+  });
+
+  it('falls back to the default for anything else', () => {
+    expect(parseChunkingStrategy('paragraph')).toBe('sentence');
+    expect(parseChunkingStrategy(null)).toBe('sentence');
+  });
+});
@@ -23,8 +23,16 @@ export const MESSAGE_ROLES = {
   ASSISTANT: 'assistant',
 } as const;
 
+export const SOURCE_PROCESSING_STATUS = {
+  PENDING: 'pending',
+  PROCESSING: 'processing',
+  COMPLETED: 'completed',
+  FAILED: 'failed',
+} as const;
+
 export const STREAMING_MESSAGE_TYPES = {
   CHUNK: 'chunk',
+  SOURCES: 'sources',
   COMPLETE: 'complete',
   ERROR: 'error',
 } as const;
@@ -39,6 +47,11 @@ export const DEFAULT_LIMITS = {
   MAX_SEARCH_RESULTS: 5,
 } as const;
 
+export const SOURCE_UPLOAD_CONFIG = {
+  MAX_FILE_SIZE_BYTES: 20 * 1024 * 1024,
+  ACCEPTED_EXTENSIONS: ['.pdf', '.docx', '.md', '.markdown', '.html', '.htm', '.txt'],
+} as const;
+
 export const TOKEN_EXPIRY = {
   ACCESS_TOKEN: '15m',
   REFRESH_TOKEN: '7d',
@@ -81,15 +94,29 @@ export const CORS_ORIGINS = {
 } as const;
 
 export const EMBEDDING_CONFIG = {
+  PROVIDER: 'openai', // Anthropic has no embeddings API, so openai or openai_compatible
   MODEL: 'text-embedding-small',
   DIMENSIONS: 1536,
   MAX_INPUT_LENGTH: 8192,
+  // OpenAI accepts up to 2048 inputs and 300k tokens per request; token counts here are
+  // estimates, so the budget leaves headroom
+  MAX_BATCH_INPUTS: 2048,
+  MAX_BATCH_TOKENS: 200000,
+  MAX_RETRIES: 5,
+  RETRY_BASE_DELAY_MS: 1000,
+  RETRY_MAX_DELAY_MS: 30000,
+  CACHE_TTL_SECONDS: 30 * 24 * 60 * 60, // Cached embeddings expire after 30 days
 } as const;
 
 export const AI_CONFIG = {
+  PROVIDER: 'openai', // openai, anthropic or openai_compatible
   MODEL: 'gpt-4o',
   MAX_TOKENS: 4096,
   TEMPERATURE: 0.7,
+  // Retries per model for rate limits and provider outages before the first token arrives
+  MAX_RETRIES: 2,
+  RETRY_BASE_DELAY_MS: 500,
+  RETRY_MAX_DELAY_MS: 8000,
   SYSTEM_PROMPT: `You are an AI assistant that provides helpful, accurate, and contextual responses based on the provided context. 
 
 When responding:
@@ -100,6 +127,32 @@ When responding:
 5. Do not make up information not present in the context`,
 } as const;
 
+// Input token budget for chat completions, split across the prompt sections
+export const CONTEXT_BUDGET = {
+  CONTEXT_WINDOW_TOKENS: 128000, // Model context window; the completion's max tokens are reserved from it
+  MAX_INPUT_TOKENS: 12000, // Cost ceiling for the prompt, applied even when the window is larger
+  RETRIEVED_SHARE: 0.5, // Share of the flexible budget retrieved context may take before history
+  SUMMARY_SHARE: 0.1, // Share of the flexible budget the thread summary may take
+  MESSAGE_OVERHEAD_TOKENS: 4, // Role and separator tokens added per chat message
+} as const;
+
+export const RAG_CONFIG = {
+  HYBRID_SEARCH_ENABLED: true,
+  CHUNKING_STRATEGY: 'sentence', // Used for sources whose stored strategy is unrecognized
+  VECTOR_WEIGHT: 1,
+  KEYWORD_WEIGHT: 1,
+  RRF_K: 60, // Reciprocal rank fusion damping constant
+  CANDIDATE_MULTIPLIER: 4, // Candidates fetched per list relative to the final limit
+  TEXT_SEARCH_CONFIG: 'portuguese',
+  DISTANCE_METRIC: 'cosine', // l2, cosine or inner_product
+  MAX_DISTANCE: 0.7, // Chunks farther than this from the query are dropped
+  RERANKER: 'none', // none, lexical or llm
+  RERANK_CANDIDATE_MULTIPLIER: 3, // Fused candidates handed to the re-ranker relative to the final limit
+  CONTEXT_TOKEN_BUDGET: 3000, // Upper bound on retrieved text injected into the system prompt
+  QUERY_REWRITE_ENABLED: false, // Rewrite follow-ups into standalone search queries before retrieval
+  QUERY_REWRITE_HISTORY_MESSAGES: 6, // Recent messages shown to the rewriter
+} as const;
+
 export const LOG_LEVELS = {
   ERROR: 'error',
   WARN: 'warn',
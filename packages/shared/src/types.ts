@@ -46,11 +46,198 @@ export const ChatThreadSchema = z.object({
   title: z.string(),
   summary: z.string().nullable().optional(),
   hasPassword: z.boolean().optional(),
+  knowledgeTags: z.array(z.string()).optional(),
+  // Model picked for the thread; null uses the plan's default
+  provider: z.string().nullable().optional(),
+  model: z.string().nullable().optional(),
+  // Personal organization: pinned threads list first, archived ones leave the main list
+  pinned: z.boolean().optional(),
+  archived: z.boolean().optional(),
+  folderId: z.string().uuid().nullable().optional(),
+  tags: z.array(z.string()).optional(),
   createdAt: z.date(),
 });
 
 export type ChatThread = z.infer<typeof ChatThreadSchema>;
 
+export const ThreadListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  // Archived threads are listed on their own, never mixed with the main list
+  archived: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+  folderId: z.string().uuid().optional(),
+  tag: z.string().trim().min(1).optional(),
+});
+
+export type ThreadListQuery = z.infer<typeof ThreadListQuerySchema>;
+
+// Only the fields sent change; a null folderId takes the thread out of its folder
+export const UpdateThreadOrganizationSchema = z.object({
+  pinned: z.boolean().optional(),
+  archived: z.boolean().optional(),
+  folderId: z.string().uuid().nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(30)).max(10).optional(),
+});
+
+export type UpdateThreadOrganizationRequest = z.infer<typeof UpdateThreadOrganizationSchema>;
+
+export const ChatFolderNameSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+});
+
+export type ChatFolderNameRequest = z.infer<typeof ChatFolderNameSchema>;
+
+export interface ChatFolder {
+  id: string;
+  name: string;
+  threadCount: number;
+  createdAt: Date;
+}
+
+export const CreateThreadSchema = z.object({
+  title: z.string().max(100).optional(),
+  knowledgeTags: z.array(z.string().min(1)).max(20).optional(),
+});
+
+export type CreateThreadRequest = z.infer<typeof CreateThreadSchema>;
+
+export const LLMProviderNameSchema = z.enum(['openai', 'anthropic', 'openai_compatible']);
+
+export type LLMProviderName = z.infer<typeof LLMProviderNameSchema>;
+
+export const ModelOptionSchema = z.object({
+  provider: LLMProviderNameSchema,
+  model: z.string().min(1),
+  label: z.string().min(1).optional(),
+});
+
+export type ModelOption = z.infer<typeof ModelOptionSchema>;
+
+// Models each plan may chat with, keyed by plan id; the first one is the plan's default
+export const PlanModelsSchema = z.record(z.string(), z.array(ModelOptionSchema).min(1));
+
+export type PlanModels = z.infer<typeof PlanModelsSchema>;
+
+// Models tried in order when the chat model fails before answering
+export const FallbackModelsSchema = z.array(ModelOptionSchema);
+
+export interface AvailableModels {
+  models: ModelOption[];
+  defaultModel: ModelOption;
+}
+
+// Both null resets the thread to the plan's default model
+export const UpdateThreadModelSchema = z.object({
+  provider: LLMProviderNameSchema.nullable(),
+  model: z.string().min(1).nullable(),
+});
+
+export type UpdateThreadModelRequest = z.infer<typeof UpdateThreadModelSchema>;
+
+export const DistanceMetricSchema = z.enum(['l2', 'cosine', 'inner_product']);
+
+export type DistanceMetric = z.infer<typeof DistanceMetricSchema>;
+
+// Snapshot of a source chunk used to answer a message, numbered as cited in the answer
+export const MessageSourceSchema = z.object({
+  index: z.number().int().min(1),
+  chunkId: z.string().uuid(),
+  sourceId: z.string().uuid(),
+  title: z.string(),
+  chunkIndex: z.number().int().min(0),
+  distance: z.number(),
+  score: z.number().optional(), // Fused hybrid retrieval score
+  rerankScore: z.number().optional(), // Relevance assigned by the re-ranker, when one is enabled
+  excerpt: z.string(),
+});
+
+export type MessageSource = z.infer<typeof MessageSourceSchema>;
+
+export const RerankerTypeSchema = z.enum(['none', 'lexical', 'llm']);
+
+export type RerankerType = z.infer<typeof RerankerTypeSchema>;
+
+export interface RetrievalSettings {
+  hybridEnabled: boolean;
+  vectorWeight: number;
+  keywordWeight: number;
+  rrfK: number;
+  distanceMetric: DistanceMetric;
+  maxDistance: number | null;
+  reranker: RerankerType;
+  rerankCandidateMultiplier: number;
+  contextTokenBudget: number;
+}
+
+// Tokens spent by the LLM re-ranker for one retrieval; zero for local re-rankers
+export interface RerankUsage {
+  tokensInput: number;
+  tokensOutput: number;
+  cost: number;
+  // Set when the re-ranker called a model
+  provider?: string;
+  model?: string;
+}
+
+export const RetrievalPreviewRequestSchema = z.object({
+  query: z.string().min(1).max(4000),
+  limit: z.number().int().min(1).max(20).optional(),
+  tags: z.array(z.string().min(1)).optional(),
+});
+
+export type RetrievalPreviewRequest = z.infer<typeof RetrievalPreviewRequestSchema>;
+
+export interface RetrievalPreviewChunk extends MessageSource {
+  tags: string[];
+  headingPath: string[];
+}
+
+// What the retriever and prompt builder would produce for a query, without answering it
+export interface RetrievalPreview {
+  query: string;
+  tags: string[];
+  chunks: RetrievalPreviewChunk[];
+  context: string;
+  systemPrompt: string;
+  settings: RetrievalSettings;
+  embeddingTokens: number;
+  embeddingCost: number;
+  rerankUsage: RerankUsage;
+}
+
+// A user's rating of an assistant answer; the reason and comment explain a thumbs down
+export const FeedbackRatingSchema = z.enum(['up', 'down']);
+
+export type FeedbackRating = z.infer<typeof FeedbackRatingSchema>;
+
+export const FeedbackReasonSchema = z.enum([
+  'inaccurate',
+  'incomplete',
+  'irrelevant_sources',
+  'not_grounded',
+  'unclear',
+  'other',
+]);
+
+export type FeedbackReason = z.infer<typeof FeedbackReasonSchema>;
+
+export const MessageFeedbackRequestSchema = z.object({
+  rating: FeedbackRatingSchema,
+  reason: FeedbackReasonSchema.nullable().optional(),
+  comment: z.string().trim().max(1000).nullable().optional(),
+});
+
+export type MessageFeedbackRequest = z.infer<typeof MessageFeedbackRequestSchema>;
+
+export const MessageFeedbackSchema = z.object({
+  rating: FeedbackRatingSchema,
+  reason: FeedbackReasonSchema.nullable(),
+  comment: z.string().nullable(),
+  createdAt: z.date(),
+});
+
+export type MessageFeedback = z.infer<typeof MessageFeedbackSchema>;
+
 export const ChatMessageSchema = z.object({
   id: z.string().uuid(),
   threadId: z.string().uuid(),
@@ -59,6 +246,15 @@ export const ChatMessageSchema = z.object({
   tokensInput: z.number().int().min(0),
   tokensOutput: z.number().int().min(0),
   costUsd: z.number().min(0),
+  provider: z.string().nullable().optional(),
+  model: z.string().nullable().optional(),
+  sources: z.array(MessageSourceSchema).nullable().optional(),
+  incomplete: z.boolean().optional(),
+  parentId: z.string().uuid().nullable().optional(),
+  // This message and its alternatives (edits or regenerations), oldest first
+  siblingIds: z.array(z.string().uuid()).optional(),
+  // The owner's rating, on assistant messages they have rated
+  feedback: MessageFeedbackSchema.nullable().optional(),
   createdAt: z.date(),
 });
 
@@ -71,6 +267,101 @@ export const CreateMessageSchema = z.object({
 
 export type CreateMessageRequest = z.infer<typeof CreateMessageSchema>;
 
+// Resends a user message with new content as a sibling of the original
+export const EditMessageSchema = z.object({
+  content: z.string().min(1),
+});
+
+export type EditMessageRequest = z.infer<typeof EditMessageSchema>;
+
+// Shows the branch containing the given message, following its latest replies
+export const SelectBranchSchema = z.object({
+  messageId: z.string().uuid(),
+});
+
+export type SelectBranchRequest = z.infer<typeof SelectBranchSchema>;
+
+// Search across a user's thread titles, summaries and messages
+export const ChatSearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export type ChatSearchQuery = z.infer<typeof ChatSearchQuerySchema>;
+
+// Matched terms in a search snippet, as [start, end) offsets into the snippet
+export interface ChatSearchHighlight {
+  start: number;
+  end: number;
+}
+
+export interface ChatSearchResult {
+  thread: ChatThread;
+  matchedIn: 'title' | 'summary' | 'message';
+  // Set when a message matched, to open the thread at it
+  messageId: string | null;
+  // Set when the matched message is on a branch the thread isn't showing: the message
+  // ending that branch, to select before scrolling to the match
+  branchLeafId: string | null;
+  role: 'user' | 'assistant' | null;
+  snippet: string;
+  highlights: ChatSearchHighlight[];
+  createdAt: Date;
+}
+
+// Download of a thread's active branch; password unlocks protected threads
+export const ThreadExportQuerySchema = z.object({
+  format: z.enum(['md', 'json', 'pdf']).default('md'),
+  password: z.string().min(1).optional(),
+});
+
+export type ThreadExportQuery = z.infer<typeof ThreadExportQuerySchema>;
+export type ThreadExportFormat = ThreadExportQuery['format'];
+
+// Public read-only links to a thread
+export const CreateThreadShareSchema = z.object({
+  // A protected thread becomes readable without its password, so the owner must confirm it
+  // and enter the password
+  allowPasswordProtected: z.boolean().default(false),
+  password: z.string().min(1).optional(),
+});
+
+export type CreateThreadShareRequest = z.infer<typeof CreateThreadShareSchema>;
+
+export interface ThreadShare {
+  token: string;
+  includesProtected: boolean;
+  createdAt: Date;
+}
+
+// What anyone with a share link sees: the active branch without costs, token counts or models
+export interface SharedMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  sources: Pick<MessageSource, 'index' | 'title'>[];
+  incomplete: boolean;
+  createdAt: Date;
+}
+
+export interface SharedThread {
+  title: string | null;
+  createdAt: Date;
+  messages: SharedMessage[];
+}
+
+// ZIP of everything stored for a user, built in the background for data-portability requests
+export interface DataExportJob {
+  id: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  sizeBytes?: number;
+  errorMessage?: string;
+  createdAt: string;
+  completedAt?: string;
+  // The archive is deleted after this, but the job stays listed
+  expiresAt?: string;
+}
+
 // Thread Password Schemas
 export const SetThreadPasswordSchema = z.object({
   password: z.string().min(1).max(100),
@@ -118,12 +409,31 @@ export const SubscriptionSchema = z.object({
 export type Subscription = z.infer<typeof SubscriptionSchema>;
 
 // RAG Types
+// 'sentence' packs sentences up to the size limit; 'structure' first splits on headings,
+// paragraphs, lists, tables and code blocks
+export const ChunkingStrategySchema = z.enum(['sentence', 'structure']);
+
+export type ChunkingStrategy = z.infer<typeof ChunkingStrategySchema>;
+
+export const SourceProcessingStatusSchema = z.enum(['pending', 'processing', 'completed', 'failed']);
+
+export type SourceProcessingStatus = z.infer<typeof SourceProcessingStatusSchema>;
+
 export const SourceSchema = z.object({
   id: z.string().uuid(),
   title: z.string(),
   rawText: z.string(),
   tags: z.array(z.string()),
   isActive: z.boolean(),
+  fileName: z.string().nullable(),
+  mimeType: z.string().nullable(),
+  fileSize: z.number().int().nullable(),
+  chunkingStrategy: ChunkingStrategySchema,
+  processingStatus: SourceProcessingStatusSchema,
+  chunkCount: z.number().int().min(0),
+  processedChunks: z.number().int().min(0),
+  processingError: z.string().nullable(),
+  processedAt: z.date().nullable(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
@@ -134,28 +444,78 @@ export const CreateSourceSchema = z.object({
   title: z.string().min(1),
   rawText: z.string().min(1),
   tags: z.array(z.string()).default([]),
+  chunkingStrategy: ChunkingStrategySchema.optional(),
 });
 
 export type CreateSourceRequest = z.infer<typeof CreateSourceSchema>;
 
+// Multipart fields sent with an uploaded source file; the text comes from the file itself
+export const UploadSourceSchema = z.object({
+  title: z.string().min(1).optional(),
+  tags: z.string().optional(), // Comma-separated
+  chunkingStrategy: ChunkingStrategySchema.optional(),
+});
+
+export type UploadSourceRequest = z.infer<typeof UploadSourceSchema>;
+
 export const UpdateSourceSchema = z.object({
   title: z.string().min(1).optional(),
   rawText: z.string().min(1).optional(),
   tags: z.array(z.string()).optional(),
   isActive: z.boolean().optional(),
+  chunkingStrategy: ChunkingStrategySchema.optional(),
 });
 
 export type UpdateSourceRequest = z.infer<typeof UpdateSourceSchema>;
 
+export const SourceVersionSchema = z.object({
+  id: z.string().uuid(),
+  sourceId: z.string().uuid(),
+  version: z.number().int().min(1),
+  title: z.string(),
+  rawText: z.string(),
+  tags: z.array(z.string()),
+  changeType: z.enum(['created', 'updated', 'restored']),
+  restoredFromVersion: z.number().int().nullable(),
+  changedBy: z.object({ id: z.string().uuid(), email: z.string() }).nullable(),
+  createdAt: z.date(),
+});
+
+export type SourceVersion = z.infer<typeof SourceVersionSchema>;
+
+// History listings omit the full text; the diff endpoint compares contents
+export type SourceVersionSummary = Omit<SourceVersion, 'rawText'> & { textLength: number };
+
+export interface SourceVersionDiff {
+  from: SourceVersionSummary;
+  to: SourceVersionSummary;
+  titleChanged: boolean;
+  addedTags: string[];
+  removedTags: string[];
+  changes: Array<{ type: 'added' | 'removed' | 'unchanged'; value: string }>;
+}
+
+export const SourceChunkMetadataSchema = z.object({
+  headingPath: z.array(z.string()), // Enclosing headings, outermost first
+});
+
+export type SourceChunkMetadata = z.infer<typeof SourceChunkMetadataSchema>;
+
 export const SourceChunkSchema = z.object({
   id: z.string().uuid(),
   sourceId: z.string().uuid(),
   chunkIndex: z.number().int().min(0),
   text: z.string(),
+  metadata: SourceChunkMetadataSchema.nullable(),
 });
 
 export type SourceChunk = z.infer<typeof SourceChunkSchema>;
 
+export interface TextChunk {
+  text: string;
+  metadata: SourceChunkMetadata;
+}
+
 // Usage Types
 export const DailyUsageSchema = z.object({
   userId: z.string().uuid(),
@@ -195,6 +555,97 @@ export const UserUsageStatsSchema = z.object({
 
 export type UserUsageStats = z.infer<typeof UserUsageStatsSchema>;
 
+export interface EmbeddingCacheStats {
+  available: boolean; // False when Redis is unreachable and embeddings bypass the cache
+  hits: number;
+  misses: number;
+  hitRate: number; // 0-1
+  tokensSaved: number;
+  costSaved: number;
+}
+
+export const CostBackfillRequestSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  // Model assumed for messages saved before the model was recorded; defaults to the configured one
+  provider: LLMProviderNameSchema.optional(),
+  model: z.string().min(1).optional(),
+});
+
+export type CostBackfillRequest = z.infer<typeof CostBackfillRequestSchema>;
+
+// Status of a row in the background task queue
+export const TaskStatusSchema = z.enum(['pending', 'processing', 'completed', 'failed']);
+
+export type TaskStatus = z.infer<typeof TaskStatusSchema>;
+
+export const CostBackfillResultSchema = z.object({
+  processed: z.number().int(),
+  updated: z.number().int(),
+  unpriced: z.number().int(), // Messages whose model has no pricing record, left unchanged
+  costDelta: z.number(),
+});
+
+export type CostBackfillResult = z.infer<typeof CostBackfillResultSchema>;
+
+export interface CostBackfillJob {
+  id: string;
+  status: TaskStatus;
+  result?: CostBackfillResult;
+  errorMessage?: string;
+  scheduledAt: string;
+  completedAt?: string;
+}
+
+// Admin review of thumbs-down answers
+export const FeedbackQueueQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.enum(['pending', 'reviewed', 'all']).default('pending'),
+  reason: FeedbackReasonSchema.optional(),
+});
+
+export type FeedbackQueueQuery = z.infer<typeof FeedbackQueueQuerySchema>;
+
+export const ReviewFeedbackSchema = z.object({
+  reviewed: z.boolean(),
+});
+
+export interface FeedbackReviewItem {
+  id: string;
+  reason: FeedbackReason | null;
+  comment: string | null;
+  createdAt: Date;
+  reviewedAt: Date | null;
+  userEmail: string;
+  threadId: string;
+  threadTitle: string | null;
+  // The user message the answer replied to
+  question: string | null;
+  answer: {
+    id: string;
+    content: string;
+    provider: string | null;
+    model: string | null;
+    incomplete: boolean;
+    createdAt: Date;
+  };
+  // Chunks retrieved for the answer, as saved with it
+  sources: MessageSource[];
+  // System prompt setting the answer was generated under; null for answers saved before it was recorded
+  systemPrompt: string | null;
+  systemPromptChanged: boolean;
+}
+
+export interface FeedbackStats {
+  // The counts cover this many past days
+  days: number;
+  up: number;
+  down: number;
+  pending: number;
+  byReason: { reason: FeedbackReason | null; count: number }[];
+}
+
 // API Response Types
 export interface ApiResponse<T = unknown> {
   success: boolean;
@@ -213,11 +664,18 @@ export interface PaginatedResponse<T> extends ApiResponse<T[]> {
 }
 
 // Streaming Types
+// Why a chat answer failed, sent with `error` events so clients can explain it
+export type ChatErrorCode = 'rate_limited' | 'context_too_long' | 'provider_down';
+
 export interface StreamingMessage {
-  type: 'chunk' | 'complete' | 'error';
+  type: 'chunk' | 'sources' | 'user_message' | 'complete' | 'error';
   content?: string;
   messageId?: string;
+  parentId?: string | null; // On `user_message` and `complete`, the message the saved one follows
+  sources?: MessageSource[];
   error?: string;
+  code?: ChatErrorCode;
+  incomplete?: boolean; // On `complete`, the answer was stopped or cut off partway
 }
 
 // Billing Types
@@ -289,4 +747,14 @@ export class SubscriptionError extends AppError {
   constructor(message: string) {
     super(message, 402, 'SUBSCRIPTION_ERROR');
   }
+}
+
+export class LLMProviderError extends AppError {
+  constructor(message: string, public reason: ChatErrorCode) {
+    super(
+      message,
+      reason === 'rate_limited' ? 429 : reason === 'context_too_long' ? 400 : 503,
+      'LLM_PROVIDER_ERROR'
+    );
+  }
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
-import { ApiResponse, PaginatedResponse } from './types';
+import { ApiResponse, PaginatedResponse, TextChunk, ChunkingStrategy, ChunkingStrategySchema } from './types';
+import { RAG_CONFIG } from './constants';
 
 export const createSuccessResponse = <T>(data: T, message?: string): ApiResponse<T> => ({
   success: true,
@@ -53,17 +54,56 @@ export const slugify = (text: string): string => {
     .replace(/-+$/, '');
 };
 
+// Words whose trailing period does not end a sentence ("Dr. Silva", "art. 5º")
+const SENTENCE_ABBREVIATIONS = new Set([
+  // Portuguese
+  'sr', 'sra', 'srta', 'srs', 'sras', 'dr', 'dra', 'drs', 'dras', 'prof', 'profa', 'profs',
+  'eng', 'arq', 'adv', 'exmo', 'exma', 'ilmo', 'ilma', 'art', 'arts', 'inc', 'par', 'al',
+  'cap', 'caps', 'p', 'pp', 'pág', 'págs', 'fl', 'fls', 'vol', 'ed', 'n', 'nº', 'núm',
+  'av', 'obs', 'tel', 'cf', 'aprox', 'ltda', 'cia', 'ex',
+  // English
+  'mr', 'mrs', 'ms', 'jr', 'st', 'vs', 'e.g', 'i.e', 'fig', 'co', 'ltd', 'approx',
+]);
+
+const isSentenceBoundary = (text: string, punctuationIndex: number, end: number): boolean => {
+  // Only periods can belong to abbreviations or initials
+  if (text[punctuationIndex] !== '.') return true;
+
+  const nextChar = text.slice(end).trimStart().charAt(0);
+  if (!nextChar) return true;
+
+  // A lowercase letter or number right after the period continues the sentence ("art. 5º", "etc. e")
+  if (/[a-zà-ÿ0-9§º]/.test(nextChar)) return false;
+
+  const word = (text.slice(0, punctuationIndex).match(/(\S+)$/)?.[1] || '')
+    .replace(/^[("'“«[]+/, '')
+    .toLowerCase();
+
+  // Single-letter initials such as "J. Silva"
+  return !SENTENCE_ABBREVIATIONS.has(word) && !/^[a-zà-ÿ]$/.test(word);
+};
+
 export const splitIntoSentences = (text: string): string[] => {
-  // Regex to split text into sentences
-  // Handles common sentence endings (.!?) and preserves the punctuation
-  // Also handles common abbreviations and edge cases
-  const sentenceRegex = /[^.!?]+(?:[.!?](?:["']|(?=\s))?)/g;
-  const matches = text.match(sentenceRegex) || [];
-  
-  // Clean and filter sentences
-  return matches
-    .map(s => s.trim())
-    .filter(s => s.length > 0);
+  // Candidate boundaries are .!? (plus closing quotes/brackets) followed by whitespace or the end
+  const boundaryRegex = /[.!?…]+["'”’»)\]]*(?=\s|$)/g;
+  const sentences: string[] = [];
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundaryRegex.exec(text)) !== null) {
+    const end = match.index + match[0].length;
+    if (!isSentenceBoundary(text, match.index, end)) continue;
+
+    const sentence = text.slice(start, end).trim();
+    if (sentence) sentences.push(sentence);
+    start = end;
+  }
+
+  // Trailing text without final punctuation is still a sentence
+  const rest = text.slice(start).trim();
+  if (rest) sentences.push(rest);
+
+  return sentences;
 };
 
 export const chunkTextBySentences = (
@@ -109,6 +149,218 @@ export const chunkTextBySentences = (
   return chunks.filter(chunk => chunk.length > 0);
 };
 
+type StructureBlockKind = 'paragraph' | 'list' | 'table' | 'code';
+
+interface StructureBlock {
+  kind: StructureBlockKind;
+  text: string;
+  headingPath: string[];
+}
+
+const HEADING_REGEX = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_REGEX = /^\s*(```|~~~)/;
+const LIST_ITEM_REGEX = /^\s*(?:[-*+•]|\d+[.)]|[a-z][)])\s+/i;
+const TABLE_ROW_REGEX = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR_REGEX = /^\s*\|?\s*:?-{3,}/;
+
+const isBlockStart = (line: string): boolean =>
+  HEADING_REGEX.test(line) || FENCE_REGEX.test(line) || TABLE_ROW_REGEX.test(line) || LIST_ITEM_REGEX.test(line);
+
+const parseStructureBlocks = (text: string): StructureBlock[] => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: StructureBlock[] = [];
+  const headingStack: Array<{ level: number; title: string }> = [];
+  const pushBlock = (kind: StructureBlockKind, blockLines: string[]) => {
+    blocks.push({ kind, text: blockLines.join('\n').trim(), headingPath: headingStack.map(h => h.title) });
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const heading = line.match(HEADING_REGEX);
+    if (heading) {
+      const level = heading[1].length;
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+        headingStack.pop();
+      }
+      headingStack.push({ level, title: heading[2].trim() });
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_REGEX);
+    if (fence) {
+      // Code blocks are kept verbatim, including blank lines, up to the closing fence
+      const codeLines = [line];
+      i++;
+      while (i < lines.length) {
+        codeLines.push(lines[i]);
+        i++;
+        if (lines[i - 1].trim().startsWith(fence[1])) break;
+      }
+      pushBlock('code', codeLines);
+      continue;
+    }
+
+    if (TABLE_ROW_REGEX.test(line)) {
+      const tableLines: string[] = [];
+      while (i < lines.length && TABLE_ROW_REGEX.test(lines[i])) {
+        tableLines.push(lines[i]);
+        i++;
+      }
+      pushBlock('table', tableLines);
+      continue;
+    }
+
+    if (LIST_ITEM_REGEX.test(line)) {
+      const listLines: string[] = [];
+      while (i < lines.length) {
+        const current = lines[i];
+        if (!current.trim()) {
+          // Loose lists separate items with blank lines
+          const next = lines.slice(i + 1).find(l => l.trim());
+          if (!next || !(LIST_ITEM_REGEX.test(next) || /^\s+\S/.test(next))) break;
+          i++;
+          continue;
+        }
+        if (listLines.length > 0 && !LIST_ITEM_REGEX.test(current) && !/^\s+\S/.test(current) && isBlockStart(current)) break;
+        listLines.push(current);
+        i++;
+      }
+      pushBlock('list', listLines);
+      continue;
+    }
+
+    const paragraphLines: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraphLines.length === 0 || !isBlockStart(lines[i]))) {
+      paragraphLines.push(lines[i]);
+      i++;
+    }
+    pushBlock('paragraph', paragraphLines);
+  }
+
+  return blocks.filter(block => block.text.length > 0);
+};
+
+// Greedily joins segments up to maxChunkSize; a header (e.g. table header rows) is repeated in each piece
+const packSegments = (segments: string[], maxChunkSize: number, separator: string, header: string = ''): string[] => {
+  const pieces: string[] = [];
+  let current: string[] = [];
+  let currentSize = header.length;
+
+  for (const segment of segments) {
+    if (current.length > 0 && currentSize + segment.length + separator.length > maxChunkSize) {
+      pieces.push(header + current.join(separator));
+      current = [];
+      currentSize = header.length;
+    }
+    current.push(segment);
+    currentSize += segment.length + separator.length;
+  }
+
+  if (current.length > 0) {
+    pieces.push(header + current.join(separator));
+  }
+
+  return pieces;
+};
+
+const splitStructureBlock = (block: StructureBlock, maxChunkSize: number, overlapSentences: number): string[] => {
+  if (block.text.length <= maxChunkSize) {
+    return [block.text];
+  }
+
+  const lines = block.text.split('\n');
+
+  switch (block.kind) {
+    case 'table': {
+      const headerLines = TABLE_SEPARATOR_REGEX.test(lines[1] || '') ? lines.slice(0, 2) : [];
+      const header = headerLines.length > 0 ? headerLines.join('\n') + '\n' : '';
+      return packSegments(lines.slice(headerLines.length), maxChunkSize, '\n', header);
+    }
+    case 'code': {
+      const fence = lines[0].match(FENCE_REGEX)?.[1] || '```';
+      const hasClosingFence = lines.length > 1 && lines[lines.length - 1].trim().startsWith(fence);
+      const body = lines.slice(1, hasClosingFence ? -1 : undefined);
+      return packSegments(body, maxChunkSize - lines[0].length - fence.length - 2, '\n')
+        .map(piece => `${lines[0]}\n${piece}\n${fence}`);
+    }
+    case 'list': {
+      const items: string[] = [];
+      for (const line of lines) {
+        if (LIST_ITEM_REGEX.test(line) || items.length === 0) {
+          items.push(line);
+        } else {
+          items[items.length - 1] += '\n' + line;
+        }
+      }
+      const segments = items.flatMap(item =>
+        item.length > maxChunkSize ? chunkTextBySentences(item, maxChunkSize, overlapSentences) : [item]
+      );
+      return packSegments(segments, maxChunkSize, '\n');
+    }
+    case 'paragraph':
+      return chunkTextBySentences(block.text, maxChunkSize, overlapSentences);
+  }
+};
+
+/**
+ * Splits text along its structure first (Markdown headings, paragraphs, lists, tables and
+ * fenced code) and only falls back to sentences for oversized paragraphs. Chunks never span
+ * two sections, and each records the heading path it belongs to.
+ */
+export const chunkTextByStructure = (
+  text: string,
+  maxChunkSize: number = 1000,
+  overlapSentences: number = 2
+): TextChunk[] => {
+  const chunks: TextChunk[] = [];
+  let currentParts: string[] = [];
+  let currentSize = 0;
+  let currentPath: string[] = [];
+
+  const flush = () => {
+    if (currentParts.length > 0) {
+      chunks.push({ text: currentParts.join('\n\n'), metadata: { headingPath: currentPath } });
+    }
+    currentParts = [];
+    currentSize = 0;
+  };
+
+  for (const block of parseStructureBlocks(text)) {
+    const samePath = block.headingPath.length === currentPath.length &&
+      block.headingPath.every((title, index) => title === currentPath[index]);
+
+    if (!samePath) {
+      flush();
+      currentPath = block.headingPath;
+    }
+
+    for (const piece of splitStructureBlock(block, maxChunkSize, overlapSentences)) {
+      if (currentParts.length > 0 && currentSize + piece.length + 2 > maxChunkSize) {
+        flush();
+      }
+      currentParts.push(piece);
+      currentSize += piece.length + 2; // +2 for the paragraph break
+    }
+  }
+
+  flush();
+  return chunks;
+};
+
+// The strategy column is a plain string; anything unrecognized is chunked the default way
+export const parseChunkingStrategy = (value: unknown): ChunkingStrategy => {
+  const strategy = ChunkingStrategySchema.safeParse(value);
+  return strategy.success ? strategy.data : RAG_CONFIG.CHUNKING_STRATEGY;
+};
+
 // Keep the old function for backward compatibility but use sentence-based internally
 export const chunkText = (text: string, maxChunkSize: number = 1000, overlap: number = 100): string[] => {
   // Convert overlap from characters to approximate sentences (assuming ~100 chars per sentence)